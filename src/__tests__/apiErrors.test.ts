@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AxiosError, AxiosHeaders, CanceledError } from 'axios';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { ApiError, applyFieldErrors, isApiError, toApiError } from '../services/errors';
+
+// ── fixtures ─────────────────────────────────────────────────────────────────
+
+const config = { headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+
+function httpError(status: number, data: unknown): AxiosError {
+  return new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, null, {
+    status,
+    statusText: String(status),
+    headers:    {},
+    config,
+    data,
+  });
+}
+
+type Values = { name: string; slug: string; categoryIds: string[] };
+const FIELDS = ['name', 'slug', 'categoryIds'] as const;
+
+// ── toApiError ───────────────────────────────────────────────────────────────
+
+describe('toApiError', () => {
+  it('keeps the server message, status and code', () => {
+    const err = toApiError(httpError(409, { message: 'Slug déjà utilisé', code: 'DUPLICATE_SLUG', field: 'slug' }));
+    expect(err).toBeInstanceOf(ApiError);
+    expect(err.kind).toBe('http');
+    expect(err.status).toBe(409);
+    expect(err.code).toBe('DUPLICATE_SLUG');
+    expect(err.message).toBe('Slug déjà utilisé');
+    expect(err.fieldErrors).toEqual({ slug: 'Slug déjà utilisé' });
+  });
+
+  it('reads field errors given as an object', () => {
+    const err = toApiError(httpError(422, { message: 'Validation', errors: { title: ['Trop court', 'Autre'] } }));
+    expect(err.fieldErrors).toEqual({ title: 'Trop court' });
+  });
+
+  it('reads express-validator error arrays', () => {
+    const err = toApiError(httpError(400, {
+      errors: [{ path: 'title', msg: 'Titre requis' }, { param: 'slug', msg: 'Slug invalide' }],
+    }));
+    expect(err.fieldErrors).toEqual({ title: 'Titre requis', slug: 'Slug invalide' });
+  });
+
+  it('falls back to the axios message without a body', () => {
+    const err = toApiError(httpError(500, '<html>'));
+    expect(err.message).toBe('Request failed with status code 500');
+    expect(err.hasFieldErrors).toBe(false);
+  });
+
+  it('distinguishes timeouts from network failures', () => {
+    expect(toApiError(new AxiosError('timeout', 'ECONNABORTED', config)).kind).toBe('timeout');
+    expect(toApiError(new AxiosError('Network Error', 'ERR_NETWORK', config)).kind).toBe('network');
+  });
+
+  it('flags cancelled requests', () => {
+    expect(toApiError(new CanceledError()).kind).toBe('cancelled');
+  });
+
+  it('returns ApiError instances untouched', () => {
+    const err = new ApiError('x', { kind: 'http', status: 404 });
+    expect(toApiError(err)).toBe(err);
+    expect(isApiError(err)).toBe(true);
+    expect(isApiError(new Error('x'))).toBe(false);
+  });
+});
+
+// ── applyFieldErrors ─────────────────────────────────────────────────────────
+
+describe('applyFieldErrors', () => {
+  it('sets known fields and focuses the first one', () => {
+    const setError = vi.fn();
+    const err = new ApiError('Validation', { kind: 'http', status: 422, fieldErrors: { name: 'Requis', slug: 'Pris' } });
+
+    expect(applyFieldErrors<Values>(err, setError, FIELDS)).toBe(true);
+    expect(setError).toHaveBeenCalledTimes(2);
+    expect(setError).toHaveBeenNthCalledWith(1, 'name', { type: 'server', message: 'Requis' }, { shouldFocus: true });
+    expect(setError).toHaveBeenNthCalledWith(2, 'slug', { type: 'server', message: 'Pris' }, { shouldFocus: false });
+  });
+
+  it('ignores fields the form does not have', () => {
+    const setError = vi.fn();
+    const err = new ApiError('Validation', { kind: 'http', fieldErrors: { unknown: 'x' } });
+    expect(applyFieldErrors<Values>(err, setError, FIELDS)).toBe(false);
+    expect(setError).not.toHaveBeenCalled();
+  });
+
+  it('maps aliased server fields', () => {
+    const setError = vi.fn();
+    const err = new ApiError('Validation', { kind: 'http', fieldErrors: { categoryId: 'Catégorie inconnue' } });
+    expect(applyFieldErrors<Values>(err, setError, FIELDS, { categoryId: 'categoryIds' })).toBe(true);
+    expect(setError).toHaveBeenCalledWith('categoryIds', { type: 'server', message: 'Catégorie inconnue' }, { shouldFocus: true });
+  });
+
+  it('returns false for errors without field details', () => {
+    expect(applyFieldErrors<Values>(new Error('boom'), vi.fn(), FIELDS)).toBe(false);
+  });
+});
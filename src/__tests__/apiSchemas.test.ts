@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import {
+  articleSchema,
+  categorySchema,
+  importResultSchema,
+  listSchema,
+  notificationSchema,
+  paginatedSchema,
+  parseResponse,
+} from '../services/schemas';
+import { ApiError } from '../services/errors';
+
+// ── fixtures ─────────────────────────────────────────────────────────────────
+
+const rawArticle = {
+  id:         '12',
+  title:      'Budget 2025 adopté',
+  content:    '<p>Le conseil a voté…</p>',
+  excerpt:    null,
+  authorName: 'Claire Martin',
+  featured:   1,
+  status:     'published',
+  networkId:  '2',
+  categoryId: 4,
+  createdAt:  '2025-01-10T09:00:00Z',
+};
+
+// ── articles ─────────────────────────────────────────────────────────────────
+
+describe('articleSchema', () => {
+  it('coerces numeric string ids and 0/1 flags', () => {
+    const article = articleSchema.parse(rawArticle);
+    expect(article.id).toBe(12);
+    expect(article.networkId).toBe(2);
+    expect(article.featured).toBe(true);
+  });
+
+  it('turns null into missing values with string defaults', () => {
+    const article = articleSchema.parse(rawArticle);
+    expect(article.excerpt).toBe('');
+    expect(article.summary).toBeUndefined();
+  });
+
+  it('normalises a legacy categoryId into categoryIds', () => {
+    expect(articleSchema.parse(rawArticle).categoryIds).toEqual([4]);
+  });
+
+  it('derives categoryIds from embedded categories', () => {
+    const article = articleSchema.parse({
+      ...rawArticle,
+      categoryId: undefined,
+      categories: [{ id: 1, name: 'Politique' }, { id: '3', name: 'Économie' }],
+    });
+    expect(article.categoryIds).toEqual([1, 3]);
+  });
+
+  it('keeps explicit categoryIds over the legacy field', () => {
+    expect(articleSchema.parse({ ...rawArticle, categoryIds: ['5', 6] }).categoryIds).toEqual([5, 6]);
+  });
+
+  it('falls back to the embedded network id', () => {
+    const article = articleSchema.parse({ ...rawArticle, networkId: null, network: { id: 7, name: 'TARAM Sport' } });
+    expect(article.networkId).toBe(7);
+  });
+
+  it('rejects unknown statuses and non-numeric ids', () => {
+    expect(articleSchema.safeParse({ ...rawArticle, status: 'deleted' }).success).toBe(false);
+    expect(articleSchema.safeParse({ ...rawArticle, id: 'abc' }).success).toBe(false);
+  });
+});
+
+// ── collections ──────────────────────────────────────────────────────────────
+
+describe('listSchema', () => {
+  const categories = listSchema(categorySchema, 'categories');
+
+  it('accepts plain arrays and known envelopes', () => {
+    const item = { id: 1, name: 'Politique' };
+    expect(categories.parse([item])).toHaveLength(1);
+    expect(categories.parse({ data: [item] })).toHaveLength(1);
+    expect(categories.parse({ items: [item] })).toHaveLength(1);
+    expect(categories.parse({ categories: [item] })).toHaveLength(1);
+  });
+
+  it('fails instead of returning an empty list on unknown shapes', () => {
+    expect(categories.safeParse({ rows: [] }).success).toBe(false);
+  });
+});
+
+describe('paginatedSchema', () => {
+  const fallback = { page: 2, limit: 10 };
+
+  it('reads the paginated envelope', () => {
+    const page = paginatedSchema(articleSchema, 'articles', fallback)
+      .parse({ data: [rawArticle], total: '42', page: 3, limit: 20 });
+    expect(page).toMatchObject({ total: 42, page: 3, limit: 20 });
+    expect(page.data[0].id).toBe(12);
+  });
+
+  it('cuts the requested page out of a plain array', () => {
+    const rows = Array.from({ length: 15 }, (_, i) => ({ ...rawArticle, id: i + 1 }));
+    const page = paginatedSchema(articleSchema, 'articles', fallback).parse(rows);
+    expect(page).toMatchObject({ total: 15, page: 2, limit: 10 });
+    expect(page.data.map(a => a.id)).toEqual([11, 12, 13, 14, 15]);
+  });
+});
+
+// ── notifications / import ───────────────────────────────────────────────────
+
+describe('notificationSchema', () => {
+  it('parses the delivery fields', () => {
+    const notif = notificationSchema.parse({ id: 1, status: 'sent', recipients: ['a@taram.fr'], recipientCount: '1' });
+    expect(notif.recipientCount).toBe(1);
+    expect(notif.html).toBeUndefined();
+  });
+});
+
+describe('importResultSchema', () => {
+  it('fills imported / success from each other and normalises row errors', () => {
+    const result = importResultSchema.parse({ total: 3, imported: 2, errors: [{ row: 3, message: 'Titre manquant' }] });
+    expect(result).toMatchObject({ total: 3, imported: 2, success: 2, skipped: 0 });
+    expect(result.errors[0]).toMatchObject({ index: 2, error: 'Titre manquant', message: 'Titre manquant' });
+  });
+});
+
+// ── parseResponse ────────────────────────────────────────────────────────────
+
+describe('parseResponse', () => {
+  it('returns the parsed data', () => {
+    expect(parseResponse(categorySchema, { id: '1', name: 'Sport' }, 'GET /x')).toEqual({ id: 1, name: 'Sport' });
+  });
+
+  it('throws a contract violation naming the endpoint and path', () => {
+    const list = listSchema(articleSchema, 'articles');
+    let error: unknown;
+    try {
+      parseResponse(list, [rawArticle, { ...rawArticle, status: 'deleted' }], 'GET /api/articles');
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ kind: 'contract', code: 'CONTRACT_VIOLATION' });
+    expect((error as ApiError).message).toContain('GET /api/articles');
+    expect((error as ApiError).message).toContain('1.status');
+  });
+});
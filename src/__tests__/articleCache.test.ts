@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { QueryClient } from '@tanstack/react-query';
+import {
+  beginArticleUpdate,
+  listDependsOn,
+  rollbackArticles,
+  settleArticleUpdate,
+} from '../services/articleCache';
+import type { Article, PaginatedResponse } from '../types';
+
+// ── fixtures ─────────────────────────────────────────────────────────────────
+
+const article = (id: number, patch: Partial<Article> = {}): Article => ({
+  id,
+  title:      `Article ${id}`,
+  content:    '',
+  excerpt:    '',
+  authorName: 'Marc Lefèvre',
+  featured:   false,
+  status:     'draft',
+  ...patch,
+});
+
+const LIST_KEY      = ['articles', 'list', { page: 1, limit: 20, sortBy: 'createdAt' }];
+const DRAFTS_KEY    = ['articles', 'list', { page: 1, limit: 20, status: 'draft' }];
+const ALL_KEY       = ['articles', 'all', undefined];
+const PUBLISHED_KEY = ['articles', 'all', 'published', undefined];
+const DETAIL_KEY    = ['article', '2'];
+const COUNT_KEY     = ['articles', 'count', { page: 1, limit: 1, featured: true }];
+
+let qc: QueryClient;
+
+beforeEach(() => {
+  qc = new QueryClient();
+  const page: PaginatedResponse<Article> = { data: [article(1), article(2)], total: 2, page: 1, limit: 20 };
+  qc.setQueryData(LIST_KEY, page);
+  qc.setQueryData(DRAFTS_KEY, page);
+  qc.setQueryData(ALL_KEY, [article(1), article(2)]);
+  qc.setQueryData(PUBLISHED_KEY, []);
+  qc.setQueryData(DETAIL_KEY, article(2));
+  qc.setQueryData(COUNT_KEY, 0);
+});
+
+const pageRow = (key: unknown[], id: number) =>
+  qc.getQueryData<PaginatedResponse<Article>>(key)!.data.find(a => a.id === id)!;
+
+// ── optimistic update / rollback ─────────────────────────────────────────────
+
+describe('beginArticleUpdate', () => {
+  it('patches every cached copy of the article', async () => {
+    await beginArticleUpdate(qc, '2', { featured: true });
+    expect(pageRow(LIST_KEY, 2).featured).toBe(true);
+    expect(pageRow(LIST_KEY, 1).featured).toBe(false);
+    expect(qc.getQueryData<Article[]>(ALL_KEY)![1].featured).toBe(true);
+    expect(qc.getQueryData<Article>(DETAIL_KEY)!.featured).toBe(true);
+    expect(qc.getQueryData(COUNT_KEY)).toBe(0);
+  });
+
+  it('returns a snapshot that restores the previous state', async () => {
+    const snapshot = await beginArticleUpdate(qc, 2, { status: 'published' });
+    rollbackArticles(qc, snapshot);
+    expect(pageRow(LIST_KEY, 2).status).toBe('draft');
+    expect(qc.getQueryData<Article>(DETAIL_KEY)!.status).toBe('draft');
+  });
+});
+
+// ── server confirmation ──────────────────────────────────────────────────────
+
+describe('settleArticleUpdate', () => {
+  it('stores the server copy and only refetches the lists depending on the field', () => {
+    settleArticleUpdate(qc, article(2, { status: 'published', updatedAt: '2025-03-01T10:00:00Z' }), ['status']);
+    expect(pageRow(LIST_KEY, 2).updatedAt).toBe('2025-03-01T10:00:00Z');
+    expect(qc.getQueryState(LIST_KEY)!.isInvalidated).toBe(false);
+    expect(qc.getQueryState(ALL_KEY)!.isInvalidated).toBe(false);
+    expect(qc.getQueryState(DRAFTS_KEY)!.isInvalidated).toBe(true);
+    expect(qc.getQueryState(PUBLISHED_KEY)!.isInvalidated).toBe(true);
+    expect(qc.getQueryState(COUNT_KEY)!.isInvalidated).toBe(false);
+  });
+});
+
+describe('listDependsOn', () => {
+  it('matches filters and sort columns', () => {
+    expect(listDependsOn(COUNT_KEY, ['featured'])).toBe(true);
+    expect(listDependsOn(['articles', 'list', { sortBy: 'status' }], ['status'])).toBe(true);
+    expect(listDependsOn(['articles', 'list', { updatedFrom: '2025-03-01' }], ['updatedAt'])).toBe(true);
+    expect(listDependsOn(LIST_KEY, ['featured'])).toBe(false);
+    expect(listDependsOn(['categories'], ['status'])).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { diffVersions, mergeVersions, toConflictValues, type ConflictValues } from '../services/articleConflict';
+import { ApiError, isEditConflict } from '../services/errors';
+
+// ── fixtures ─────────────────────────────────────────────────────────────────
+
+const base: ConflictValues = {
+  title:       'Budget municipal',
+  excerpt:     'Le conseil a voté le budget',
+  content:     '<p>Le conseil municipal a voté hier le budget.</p>',
+  categoryIds: [1, 2],
+  networkId:   1,
+};
+
+// ── diffVersions ─────────────────────────────────────────────────────────────
+
+describe('diffVersions', () => {
+  it('lists the differing fields and defaults each to the side that changed it', () => {
+    const mine   = { ...base, title: 'Budget municipal 2026' };
+    const theirs = { ...base, networkId: 2 };
+    expect(diffVersions(base, mine, theirs)).toEqual([
+      { field: 'title',     conflict: false, initial: 'mine' },
+      { field: 'networkId', conflict: false, initial: 'theirs' },
+    ]);
+  });
+
+  it('flags the fields changed on both sides', () => {
+    const mine   = { ...base, excerpt: 'Un budget en hausse' };
+    const theirs = { ...base, excerpt: 'Un budget en baisse' };
+    expect(diffVersions(base, mine, theirs)).toEqual([{ field: 'excerpt', conflict: true, initial: 'mine' }]);
+  });
+
+  it('ignores the order of the categories and identical edits', () => {
+    const mine   = { ...base, categoryIds: [2, 1], title: 'Même titre' };
+    const theirs = { ...base, title: 'Même titre' };
+    expect(diffVersions(base, mine, theirs)).toEqual([]);
+  });
+
+  it('treats every difference as a conflict without a base version', () => {
+    const theirs = { ...base, content: '<p>Autre contenu</p>' };
+    expect(diffVersions(null, base, theirs)).toEqual([{ field: 'content', conflict: true, initial: 'mine' }]);
+  });
+});
+
+// ── mergeVersions ────────────────────────────────────────────────────────────
+
+describe('mergeVersions', () => {
+  it('keeps our values except the fields picked from the server', () => {
+    const mine   = { ...base, title: 'Mon titre', content: '<p>Mon contenu</p>' };
+    const theirs = { ...base, title: 'Leur titre', categoryIds: [3] };
+    expect(mergeVersions(mine, theirs, { title: 'theirs', content: 'mine', categoryIds: 'theirs' })).toEqual({
+      ...mine,
+      title:       'Leur titre',
+      categoryIds: [3],
+    });
+  });
+});
+
+describe('toConflictValues', () => {
+  it('falls back to the legacy single category', () => {
+    const values = toConflictValues({
+      id: 1, title: 'T', content: '', excerpt: '', authorName: 'A', featured: false, status: 'draft', categoryId: 4, networkId: 2,
+    });
+    expect(values).toMatchObject({ categoryIds: [4], networkId: 2 });
+  });
+});
+
+describe('isEditConflict', () => {
+  it('recognises a 409 EDIT_CONFLICT and a 412', () => {
+    const http = (status: number, code?: string) => new ApiError('Conflit', { kind: 'http', status, code });
+    expect(isEditConflict(http(409, 'EDIT_CONFLICT'))).toBe(true);
+    expect(isEditConflict(http(412))).toBe(true);
+    expect(isEditConflict(http(409, 'DUPLICATE_SLUG'))).toBe(false);
+  });
+});
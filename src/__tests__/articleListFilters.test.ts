@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_ARTICLE_FILTERS,
+  parseArticleFilters,
+  periodStart,
+  serializeArticleFilters,
+  toArticleQueryParams,
+  toViewQuery,
+} from '../services/articleFilters';
+
+const parse = (qs: string) => parseArticleFilters(new URLSearchParams(qs));
+
+// ── parseArticleFilters ──────────────────────────────────────────────────────
+
+describe('parseArticleFilters', () => {
+  it('returns the defaults for an empty query string', () => {
+    expect(parse('')).toEqual(DEFAULT_ARTICLE_FILTERS);
+  });
+
+  it('reads every filter', () => {
+    expect(parse('search=budget&status=draft&categoryIds=1,4&networkId=3&featured=true&mine=true&period=7d&sort=title&dir=asc&page=2'))
+      .toEqual({
+        search:      'budget',
+        status:      'draft',
+        categoryIds: [1, 4],
+        networkId:   3,
+        featured:    true,
+        mine:        true,
+        period:      '7d',
+        sort:        'title',
+        dir:         'asc',
+        page:        2,
+      });
+  });
+
+  it('ignores invalid values', () => {
+    expect(parse('status=deleted&sort=author&dir=up&page=-1&networkId=abc&categoryIds=1,x,,2&period=year&mine=1'))
+      .toEqual({ ...DEFAULT_ARTICLE_FILTERS, categoryIds: [1, 2] });
+  });
+});
+
+// ── serializeArticleFilters ──────────────────────────────────────────────────
+
+describe('serializeArticleFilters', () => {
+  it('leaves out default values', () => {
+    expect(serializeArticleFilters(DEFAULT_ARTICLE_FILTERS).toString()).toBe('');
+    expect(serializeArticleFilters({ ...DEFAULT_ARTICLE_FILTERS, status: 'draft', networkId: 3, sort: 'title' }).toString())
+      .toBe('status=draft&networkId=3&sort=title');
+  });
+
+  it('round-trips through parse', () => {
+    const filters = parse('search=été&categoryIds=2,5&featured=true&dir=asc&page=4');
+    expect(parseArticleFilters(serializeArticleFilters(filters))).toEqual(filters);
+  });
+});
+
+describe('toViewQuery', () => {
+  it('drops the page so that a view always opens on the first page', () => {
+    expect(toViewQuery(parse('status=draft&mine=true&page=3'))).toBe('status=draft&mine=true');
+  });
+});
+
+// ── toArticleQueryParams ─────────────────────────────────────────────────────
+
+describe('toArticleQueryParams', () => {
+  it('maps the list state onto the API parameters', () => {
+    const filters = parse('status=published&networkId=2&sort=title&dir=asc&page=3');
+    expect(toArticleQueryParams(filters, 20, { networkIds: [1, 2] })).toEqual({
+      page:        3,
+      limit:       20,
+      search:      undefined,
+      status:      'published',
+      categoryIds: [],
+      networkId:   2,
+      networkIds:  [1, 2],
+      featured:    undefined,
+      authorId:    undefined,
+      updatedFrom: undefined,
+      sortBy:      'title',
+      sortDir:     'asc',
+    });
+  });
+
+  it('resolves the current user and the period', () => {
+    const now = new Date(2025, 2, 18, 15, 30);
+    const params = toArticleQueryParams(parse('mine=true&period=month'), 20, { userId: 7, now });
+    expect(params.authorId).toBe(7);
+    expect(params.updatedFrom).toBe(new Date(2025, 2, 1).toISOString());
+  });
+});
+
+describe('periodStart', () => {
+  it('goes back seven days at midnight', () => {
+    expect(periodStart('7d', new Date(2025, 2, 3, 10))).toBe(new Date(2025, 1, 24).toISOString());
+    expect(periodStart('')).toBeUndefined();
+  });
+});
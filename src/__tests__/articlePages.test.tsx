@@ -0,0 +1,333 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { act, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import ArticlesPage from '../pages/ArticlesPage';
+import ArticleFormPage from '../pages/ArticleFormPage';
+import CalendarPage from '../pages/CalendarPage';
+import MediaLibraryPage from '../pages/MediaLibraryPage';
+import { addDays, dayKey, startOfWeek } from '../services/calendar';
+import { api } from '../services/api';
+import { CollabSession } from '../services/collab';
+import { installCollabRelay, installMockBackend, renderPage, signInAs, uninstallMockBackend } from '../test/utils';
+import type { MockDb } from '../mocks/db';
+
+// Full pages with MUI: the first render is slow on a cold worker
+const PAGE_TIMEOUT = { timeout: 20_000 };
+
+let db: MockDb;
+
+beforeEach(() => { db = installMockBackend(); });
+afterEach(() => {
+  uninstallMockBackend();
+  vi.restoreAllMocks();
+});
+
+// ── ArticlesPage ──────────────────────────────────────────────────────────────
+
+describe('ArticlesPage – against the mock backend', PAGE_TIMEOUT, () => {
+  it('lists the seeded articles', async () => {
+    await signInAs('editeur@taram.fr');
+    renderPage(<ArticlesPage />);
+    expect(await screen.findByText(db.articles[0].title)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /nouvel article/i })).toBeInTheDocument();
+  });
+
+  it('shows who has an article open', async () => {
+    await signInAs('editeur@taram.fr');
+    const article = db.articles[0];
+    const stamp   = new Date().toISOString();
+    db.presence.push({
+      articleId: article.id, sessionId: 'tab-sophie', userId: 1, userName: 'Sophie Bernard',
+      editing: false, since: stamp, lastSeenAt: stamp,
+    });
+    renderPage(<ArticlesPage />);
+    expect(await screen.findByLabelText("Sophie Bernard consulte l'article")).toBeInTheDocument();
+  });
+
+  it('pages through the server-side total', async () => {
+    await signInAs('admin@taram.fr');
+    renderPage(<ArticlesPage />);
+    const total = db.articles.length;
+    expect(await screen.findByText(`1–20 sur ${total}`)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /page suivante|next page/i }));
+    expect(await screen.findByText(`21–${total} sur ${total}`)).toBeInTheDocument();
+    // The previous page stays visible until the next one has loaded
+    await waitFor(() => {
+      const body = screen.getAllByRole('rowgroup')[1];
+      expect(within(body).getAllByRole('row')).toHaveLength(total - 20);
+    });
+  });
+
+  it('restores the filters from the query string', async () => {
+    await signInAs('admin@taram.fr');
+    renderPage(<ArticlesPage />, { path: '/articles', url: '/articles?status=archived&networkId=2&sort=title' });
+    const archived = db.articles.filter(a => a.status === 'archived' && a.networkId === 2);
+    expect(await screen.findByText(`1–${archived.length} sur ${archived.length}`)).toBeInTheDocument();
+    archived.forEach(a => expect(screen.getByText(a.title)).toBeInTheDocument());
+  });
+
+  it('opens a saved view on the current user\'s articles', async () => {
+    await signInAs('auteur@taram.fr');
+    renderPage(<ArticlesPage />, { path: '/articles', url: '/articles?status=draft&mine=true' });
+    const drafts = db.articles.filter(a => a.status === 'draft' && a.authorId === 3);
+    expect(await screen.findByText(`1–${drafts.length} sur ${drafts.length}`)).toBeInTheDocument();
+    expect(await screen.findByRole('button', { name: 'Mes brouillons' })).toBeInTheDocument();
+  });
+
+  it('hides articles outside the author\'s networks', async () => {
+    await signInAs('auteur@taram.fr');
+    renderPage(<ArticlesPage />);
+    const info  = db.articles.find(a => a.networkId === 1)!;
+    const sport = db.articles.find(a => a.networkId === 2)!;
+    expect(await screen.findByText(info.title)).toBeInTheDocument();
+    expect(screen.queryByText(sport.title)).not.toBeInTheDocument();
+  });
+});
+
+// ── ArticleFormPage ───────────────────────────────────────────────────────────
+
+describe('ArticleFormPage – against the mock backend', PAGE_TIMEOUT, () => {
+  it('loads the article into the form', async () => {
+    await signInAs('editeur@taram.fr');
+    const article = db.articles[0];
+    renderPage(<ArticleFormPage />, { path: '/articles/:id/edit', url: `/articles/${article.id}/edit` });
+    expect(await screen.findByDisplayValue(article.title)).toBeInTheDocument();
+  });
+
+  it('restores a saved version from the history', async () => {
+    await signInAs('editeur@taram.fr');
+    const article = db.articles.find(a => a.title.startsWith('Transports :'))!;
+    renderPage(<ArticleFormPage />, { path: '/articles/:id/edit', url: `/articles/${article.id}/edit` });
+    await screen.findByDisplayValue(article.title);
+
+    fireEvent.click(screen.getByRole('button', { name: /historique/i }));
+    const versions = await screen.findByRole('list', { name: 'Versions enregistrées' });
+    const items    = await within(versions).findAllByRole('button');
+    fireEvent.click(items[items.length - 1]);
+    fireEvent.click(screen.getByRole('button', { name: /restaurer cette version/i }));
+
+    expect(await screen.findByDisplayValue('Transports')).toBeInTheDocument();
+  });
+
+  it('auto-saves a draft only when it changed', async () => {
+    const timers = vi.spyOn(window, 'setInterval');
+    const put    = vi.spyOn(api, 'put');
+    await signInAs('editeur@taram.fr');
+    const article = db.articles.find(a => a.status === 'draft' && a.authorId === 2)!;
+    const before  = db.revisions.filter(r => r.articleId === article.id).length;
+    renderPage(<ArticleFormPage />, { path: '/articles/:id/edit', url: `/articles/${article.id}/edit` });
+    const title = await screen.findByDisplayValue(article.title);
+    const saves = () => put.mock.calls.filter(([url]) => url === `/api/articles/${article.id}`).length;
+    // The 30 s timer of the latest render
+    const autoSave = () => act(() => {
+      const calls = timers.mock.calls.filter(([, delay]) => delay === 30_000);
+      (calls[calls.length - 1][0] as () => void)();
+    });
+
+    autoSave();
+    expect(saves()).toBe(0);
+
+    fireEvent.change(title, { target: { value: 'Titre modifié' } });
+    autoSave();
+    await waitFor(() => expect(db.revisions.filter(r => r.articleId === article.id)).toHaveLength(before + 1));
+    autoSave();
+    expect(saves()).toBe(1);
+  });
+
+  it('is read-only for an author on someone else\'s article', async () => {
+    await signInAs('auteur@taram.fr');
+    const article = db.articles.find(a => a.networkId === 1 && a.authorId !== 3)!;
+    renderPage(<ArticleFormPage />, { path: '/articles/:id/edit', url: `/articles/${article.id}/edit` });
+    expect(await screen.findByDisplayValue(article.title)).toBeDisabled();
+    expect(screen.getByText('Lecture seule')).toBeInTheDocument();
+  });
+
+  it('warns that someone else is editing, and lets the user take over', async () => {
+    await signInAs('editeur@taram.fr');
+    const article = db.articles.find(a => a.status === 'draft' && a.authorId === 2)!;
+    const stamp   = new Date().toISOString();
+    db.presence.push({
+      articleId: article.id, sessionId: 'tab-sophie', userId: 1, userName: 'Sophie Bernard',
+      editing: true, since: stamp, lastSeenAt: stamp,
+    });
+    renderPage(<ArticleFormPage />, { path: '/articles/:id/edit', url: `/articles/${article.id}/edit` });
+
+    const dialog = await screen.findByRole('dialog');
+    expect(within(dialog).getByText(/Sophie Bernard modifie cet article/)).toBeInTheDocument();
+    fireEvent.click(within(dialog).getByRole('button', { name: 'Lecture seule' }));
+    expect(screen.getByDisplayValue(article.title)).toBeDisabled();
+    expect(screen.getByLabelText("Sophie Bernard modifie l'article")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Prendre la main' }));
+    await waitFor(() => expect(screen.getByDisplayValue(article.title)).toBeEnabled());
+    expect(db.presence.find(p => p.editing)).toMatchObject({ userName: 'Marc Lefèvre' });
+  });
+
+  it('shows the content typed by a co-editor, with their caret', async () => {
+    const relay = installCollabRelay(db);
+    await signInAs('editeur@taram.fr');
+    const article = db.articles.find(a => a.status === 'draft' && a.authorId === 2)!;
+    renderPage(<ArticleFormPage />, { path: '/articles/:id/edit', url: `/articles/${article.id}/edit` });
+    await screen.findByDisplayValue(article.title);
+
+    const sophie = new CollabSession({
+      connect:  relay.connect(article.id, { id: 1, name: 'Sophie Bernard' }),
+      base:     article.content,
+      onChange: () => {},
+    });
+    sophie.update(`${article.content}<p>Ajout de Sophie.</p>`);
+    await waitFor(() => expect(sophie.html).not.toBeNull());
+    sophie.select({ start: 0, end: 0 });
+
+    const editor = screen.getByRole('textbox', { name: 'Contenu *' });
+    expect(await within(editor).findByText('Ajout de Sophie.')).toBeInTheDocument();
+    expect(await screen.findByText('Sophie Bernard')).toBeInTheDocument();
+    sophie.close();
+  });
+
+  it('discusses a passage in the comments panel, then resolves it', async () => {
+    await signInAs('editeur@taram.fr');
+    const article = db.articles.find(a => a.status === 'in_review')!;
+    renderPage(<ArticleFormPage />, { path: '/articles/:id/edit', url: `/articles/${article.id}/edit` });
+    await screen.findByDisplayValue(article.title);
+
+    fireEvent.click(await screen.findByRole('button', { name: /commentaires/i }));
+    const thread = await screen.findByTestId('comment-thread-1');
+    expect(within(thread).getByText('« Des financements confirmés »')).toBeInTheDocument();
+    expect(screen.queryByTestId('comment-thread-2')).not.toBeInTheDocument();
+
+    fireEvent.click(thread);
+    fireEvent.change(within(thread).getByLabelText('Répondre'), { target: { value: 'Merci, je relis après ton appel.' } });
+    fireEvent.click(within(thread).getByRole('button', { name: 'Répondre' }));
+    expect(await within(thread).findByText('Merci, je relis après ton appel.')).toBeInTheDocument();
+
+    fireEvent.click(within(thread).getByRole('button', { name: 'Résoudre' }));
+    await waitFor(() => expect(screen.queryByTestId('comment-thread-1')).not.toBeInTheDocument());
+    expect(db.comments.find(t => t.id === 1)).toMatchObject({ resolved: true, resolvedByName: 'Marc Lefèvre' });
+  });
+
+  it('adds a note to the desk', async () => {
+    await signInAs('auteur@taram.fr');
+    const article = db.articles.find(a => a.status === 'in_review')!;
+    renderPage(<ArticleFormPage />, { path: '/articles/:id/edit', url: `/articles/${article.id}/edit` });
+    await screen.findByDisplayValue(article.title);
+
+    fireEvent.click(await screen.findByRole('button', { name: /commentaires/i }));
+    fireEvent.click(await screen.findByRole('tab', { name: 'Notes' }));
+    expect(await screen.findByText(/service Société/)).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Note à la rédaction'), { target: { value: 'Chiffres de la région reçus.' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Ajouter la note' }));
+    expect(await screen.findByText('Chiffres de la région reçus.')).toBeInTheDocument();
+    expect(db.articles.find(a => a.id === article.id)!.content).not.toContain('Chiffres');
+  });
+});
+
+// ── Media library ─────────────────────────────────────────────────────────────
+
+describe('MediaLibraryPage – against the mock backend', PAGE_TIMEOUT, () => {
+  it('uploads an image, then saves its alt text', async () => {
+    await signInAs('auteur@taram.fr');
+    renderPage(<MediaLibraryPage />, { path: '/media' });
+    expect(await screen.findByRole('button', { name: 'Randonneurs sur une crête de montagne' })).toBeInTheDocument();
+    // Seeded without alt text
+    expect(screen.getByRole('button', { name: 'festival-ete.jpg' })).toBeInTheDocument();
+
+    const file = new File(['\x89PNG'], 'une.png', { type: 'image/png' });
+    fireEvent.change(screen.getByLabelText('Fichiers à importer'), { target: { files: [file] } });
+    const details = await screen.findByRole('region', { name: 'Détails du média' });
+    expect(await within(details).findByText('une.png')).toBeInTheDocument();
+
+    fireEvent.change(within(details).getByLabelText(/texte alternatif/i), { target: { value: 'La une du jour' } });
+    fireEvent.click(within(details).getByRole('button', { name: 'Enregistrer' }));
+    expect(await screen.findByText('Informations enregistrées')).toBeInTheDocument();
+    expect(db.media.find(m => m.fileName === 'une.png')?.alt).toBe('La une du jour');
+  });
+});
+
+describe('ArticleFormPage – images from the media library', PAGE_TIMEOUT, () => {
+  const PARIS = 'Vue aérienne des toits de Paris au lever du jour';
+
+  it('picks the cover', async () => {
+    await signInAs('editeur@taram.fr');
+    const article = db.articles[0];
+    renderPage(<ArticleFormPage />, { path: '/articles/:id/edit', url: `/articles/${article.id}/edit` });
+    await screen.findByDisplayValue(article.title);
+
+    fireEvent.click(screen.getByRole('button', { name: /choisir dans la médiathèque/i }));
+    const picker = await screen.findByRole('dialog', { name: 'Image de couverture' });
+    fireEvent.click(await within(picker).findByRole('button', { name: PARIS }));
+    fireEvent.click(within(picker).getByRole('button', { name: 'Utiliser en couverture' }));
+
+    expect(await screen.findByAltText('Couverture')).toHaveAttribute('src', db.media[0].url);
+  });
+
+  it('frames the cover around a focal point, previewing the formats of the network', async () => {
+    await signInAs('editeur@taram.fr');
+    const article = db.articles.find(a => a.networkId === 2)!;
+    article.imageUrl = db.media[0].url;
+    renderPage(<ArticleFormPage />, { path: '/articles/:id/edit', url: `/articles/${article.id}/edit` });
+    await screen.findByDisplayValue(article.title);
+
+    fireEvent.click(screen.getByRole('button', { name: /recadrer/i }));
+    const dialog   = await screen.findByRole('dialog', { name: /recadrer/i });
+    const previews = within(dialog).getByRole('region', { name: 'Aperçu des formats' });
+    // TARAM Sport publishes landscape and portrait covers
+    expect(within(previews).getByText('Paysage 16:9')).toBeInTheDocument();
+    expect(within(previews).getByText('Portrait 4:5')).toBeInTheDocument();
+    expect(within(previews).queryByText('Carré 1:1')).not.toBeInTheDocument();
+
+    const horizontal = within(dialog).getByRole('slider', { name: /horizontal/i });
+    fireEvent.change(horizontal, { target: { value: 30 } });
+    fireEvent.click(within(dialog).getByRole('button', { name: 'Appliquer' }));
+    await waitFor(() => expect(screen.queryByRole('dialog')).not.toBeInTheDocument());
+
+    fireEvent.click(screen.getByRole('button', { name: /sauvegarder/i }));
+    expect(await screen.findByText('Article sauvegardé')).toBeInTheDocument();
+    expect(article.imageCrop).toMatchObject({ focalX: 0.3, focalY: 0.5 });
+  });
+
+  it('inserts an image in the content, with its alt text and legend', async () => {
+    await signInAs('editeur@taram.fr');
+    const article = db.articles[0];
+    renderPage(<ArticleFormPage />, { path: '/articles/:id/edit', url: `/articles/${article.id}/edit` });
+    await screen.findByDisplayValue(article.title);
+    const editor = screen.getByRole('textbox', { name: 'Contenu *' });
+
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Insérer une image' }));
+    const picker = await screen.findByRole('dialog', { name: 'Insérer une image' });
+    fireEvent.click(await within(picker).findByRole('button', { name: PARIS }));
+    fireEvent.click(within(picker).getByRole('button', { name: 'Insérer' }));
+
+    expect(await within(editor).findByAltText(PARIS)).toHaveAttribute('data-media-id', '1');
+    expect(editor.querySelector('figcaption')).toHaveTextContent('Paris, vue depuis Montmartre – © Marc Lefèvre / TARAM');
+  });
+});
+
+// ── CalendarPage ──────────────────────────────────────────────────────────────
+
+describe('CalendarPage – against the mock backend', PAGE_TIMEOUT, () => {
+  it('reschedules an article dropped on another day, at the same time', async () => {
+    await signInAs('editeur@taram.fr');
+    // Wednesday of next week, 10:00: the whole week is in the future
+    const wednesday = addDays(startOfWeek(new Date()), 9);
+    const scheduled = db.articles.find(a => a.title.startsWith('Fête de la musique'))!;
+    scheduled.publishAt = new Date(wednesday.getFullYear(), wednesday.getMonth(), wednesday.getDate(), 10).toISOString();
+
+    renderPage(<CalendarPage />, { path: '/calendar', url: `/calendar?view=week&date=${dayKey(wednesday)}` });
+    const name  = `${scheduled.title} (Programmé)`;
+    const entry = await within(screen.getByTestId(`calendar-day-${dayKey(wednesday)}`)).findByRole('button', { name });
+
+    const friday       = screen.getByTestId(`calendar-day-${dayKey(addDays(wednesday, 2))}`);
+    const dataTransfer = { setData: () => {}, effectAllowed: '', dropEffect: '' };
+    fireEvent.dragStart(entry, { dataTransfer });
+    fireEvent.dragOver(friday, { dataTransfer });
+    fireEvent.drop(friday, { dataTransfer });
+
+    expect(await screen.findByText('Publication reprogrammée')).toBeInTheDocument();
+    const publishAt = new Date(scheduled.publishAt!);
+    expect(dayKey(publishAt)).toBe(dayKey(addDays(wednesday, 2)));
+    expect(publishAt.getHours()).toBe(10);
+    expect(within(friday).getByRole('button', { name })).toBeInTheDocument();
+  });
+});
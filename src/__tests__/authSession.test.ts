@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+import { api, getCategories, login, logout } from '../services/api';
+import {
+  clearSession,
+  consumeSessionExpired,
+  getSession,
+  setSession,
+  subscribeSession,
+} from '../services/session';
+import type { AuthUser } from '../types';
+
+// ── Fake transport ────────────────────────────────────────────────────────────
+
+type Handler = (config: InternalAxiosRequestConfig) => { status: number; data?: unknown };
+
+const originalAdapter = api.defaults.adapter;
+let calls: InternalAxiosRequestConfig[] = [];
+
+function useHandler(handler: Handler) {
+  const adapter: AxiosAdapter = async (config) => {
+    calls.push(config);
+    const { status, data } = handler(config);
+    const response = { data, status, statusText: String(status), headers: {}, config };
+    if (status >= 400) {
+      const err = Object.assign(new Error(`Request failed with status code ${status}`), {
+        config,
+        response,
+        isAxiosError: true,
+      });
+      throw err;
+    }
+    return response;
+  };
+  api.defaults.adapter = adapter;
+}
+
+const user: AuthUser = { id: 1, name: 'Claire Martin', email: 'claire@taram.fr', role: 'editor' };
+
+beforeEach(() => {
+  calls = [];
+  clearSession();
+  consumeSessionExpired();
+  localStorage.clear();
+});
+
+afterEach(() => {
+  api.defaults.adapter = originalAdapter;
+});
+
+// ── Session store ─────────────────────────────────────────────────────────────
+
+describe('session store', () => {
+  it('persists the session in localStorage', () => {
+    setSession({ accessToken: 'a1', refreshToken: 'r1', user });
+    expect(getSession()?.user.name).toBe('Claire Martin');
+    expect(localStorage.getItem('taram.session')).toContain('a1');
+  });
+
+  it('notifies subscribers on change', () => {
+    let count = 0;
+    const unsubscribe = subscribeSession(() => { count++; });
+    setSession({ accessToken: 'a1', user });
+    clearSession();
+    unsubscribe();
+    setSession({ accessToken: 'a2', user });
+    expect(count).toBe(2);
+  });
+
+  it('reports an expired session only once', () => {
+    setSession({ accessToken: 'a1', user });
+    clearSession({ expired: true });
+    expect(consumeSessionExpired()).toBe(true);
+    expect(consumeSessionExpired()).toBe(false);
+  });
+});
+
+// ── Interceptors ──────────────────────────────────────────────────────────────
+
+describe('api – authentication', () => {
+  it('stores the session returned by login', async () => {
+    useHandler(() => ({ status: 200, data: { accessToken: 'a1', refreshToken: 'r1', user } }));
+    await login({ email: 'claire@taram.fr', password: 'secret' });
+    expect(getSession()?.accessToken).toBe('a1');
+  });
+
+  it('attaches the bearer token to requests', async () => {
+    setSession({ accessToken: 'a1', user });
+    useHandler(() => ({ status: 200, data: [] }));
+    await getCategories();
+    expect(calls[0].headers.Authorization).toBe('Bearer a1');
+  });
+
+  it('does not send an Authorization header when signed out', async () => {
+    useHandler(() => ({ status: 200, data: [] }));
+    await getCategories();
+    expect(calls[0].headers.Authorization).toBeUndefined();
+  });
+
+  it('refreshes the token on 401 and replays the request', async () => {
+    setSession({ accessToken: 'old', refreshToken: 'r1', user });
+    useHandler(config => {
+      if (config.url === '/api/auth/refresh') return { status: 200, data: { accessToken: 'new' } };
+      return config.headers.Authorization === 'Bearer new'
+        ? { status: 200, data: [{ id: 1, name: 'Politique' }] }
+        : { status: 401, data: { message: 'Token expiré' } };
+    });
+
+    const categories = await getCategories();
+    expect(categories).toHaveLength(1);
+    expect(getSession()?.accessToken).toBe('new');
+    expect(getSession()?.refreshToken).toBe('r1');
+  });
+
+  it('shares a single refresh between concurrent 401s', async () => {
+    setSession({ accessToken: 'old', refreshToken: 'r1', user });
+    useHandler(config => {
+      if (config.url === '/api/auth/refresh') return { status: 200, data: { accessToken: 'new' } };
+      return config.headers.Authorization === 'Bearer new'
+        ? { status: 200, data: [] }
+        : { status: 401 };
+    });
+
+    await Promise.all([getCategories(), getCategories(), getCategories()]);
+    expect(calls.filter(c => c.url === '/api/auth/refresh')).toHaveLength(1);
+  });
+
+  it('clears the session when the refresh fails', async () => {
+    setSession({ accessToken: 'old', refreshToken: 'r1', user });
+    useHandler(() => ({ status: 401, data: { message: 'Session invalide' } }));
+
+    await expect(getCategories()).rejects.toMatchObject({ status: 401 });
+    expect(getSession()).toBeNull();
+    expect(consumeSessionExpired()).toBe(true);
+  });
+
+  it('clears the session on 401 when there is no refresh token', async () => {
+    setSession({ accessToken: 'old', user });
+    useHandler(config => (config.url === '/api/auth/refresh' ? { status: 500 } : { status: 401 }));
+
+    await expect(getCategories()).rejects.toMatchObject({ status: 401 });
+    expect(getSession()).toBeNull();
+    expect(calls.some(c => c.url === '/api/auth/refresh')).toBe(false);
+  });
+
+  it('drops the local session on logout even if the API call fails', async () => {
+    setSession({ accessToken: 'a1', refreshToken: 'r1', user });
+    useHandler(() => ({ status: 500 }));
+    await logout();
+    expect(getSession()).toBeNull();
+  });
+});
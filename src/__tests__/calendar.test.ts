@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calendarDays,
+  calendarRange,
+  dayKey,
+  groupByDay,
+  moveToDay,
+  parseDayKey,
+  periodLabel,
+  shiftPeriod,
+  startOfWeek,
+} from '../services/calendar';
+import type { ArticleStatus } from '../types';
+
+const local = (y: number, m: number, d: number, h = 0, min = 0) => new Date(y, m - 1, d, h, min);
+
+describe('calendar days', () => {
+  it('starts weeks on Monday', () => {
+    expect(dayKey(startOfWeek(local(2026, 10, 19)))).toBe('2026-10-19');
+    expect(dayKey(startOfWeek(local(2026, 10, 25)))).toBe('2026-10-19');
+    expect(dayKey(startOfWeek(local(2026, 11, 1)))).toBe('2026-10-26');
+  });
+
+  it('covers the month with whole weeks', () => {
+    const days = calendarDays('month', local(2026, 10, 19));
+    expect(days).toHaveLength(35);
+    expect(dayKey(days[0])).toBe('2026-09-28');
+    expect(dayKey(days[days.length - 1])).toBe('2026-11-01');
+    expect(calendarDays('month', local(2027, 2, 10))).toHaveLength(28);
+  });
+
+  it('shows the seven days of the week, range end excluded', () => {
+    const days = calendarDays('week', local(2026, 10, 22));
+    expect(days.map(dayKey)).toEqual([
+      '2026-10-19', '2026-10-20', '2026-10-21', '2026-10-22', '2026-10-23', '2026-10-24', '2026-10-25',
+    ]);
+    const range = calendarRange('week', local(2026, 10, 22));
+    expect(range.from).toBe(local(2026, 10, 19).toISOString());
+    expect(range.to).toBe(local(2026, 10, 26).toISOString());
+  });
+
+  it('moves by month or by week', () => {
+    expect(dayKey(shiftPeriod('month', local(2026, 1, 31), 1))).toBe('2026-02-01');
+    expect(dayKey(shiftPeriod('week', local(2026, 10, 19), -1))).toBe('2026-10-12');
+    expect(periodLabel('week', local(2026, 10, 30))).toBe('26 oct. – 1 nov. 2026');
+  });
+
+  it('parses day keys from the URL', () => {
+    expect(dayKey(parseDayKey('2026-10-19')!)).toBe('2026-10-19');
+    expect(parseDayKey('19/10/2026')).toBeNull();
+    expect(parseDayKey(null)).toBeNull();
+  });
+});
+
+describe('calendar placement', () => {
+  const article = (status: ArticleStatus, publishedAt?: Date, publishAt?: Date) => ({
+    status,
+    publishedAt: publishedAt?.toISOString(),
+    publishAt:   publishAt?.toISOString(),
+  });
+
+  it('places scheduled articles on their publication date, in time order', () => {
+    const byDay = groupByDay([
+      article('scheduled', undefined, local(2026, 10, 20, 18)),
+      article('published', local(2026, 10, 20, 9)),
+      article('scheduled', local(2026, 9, 1), local(2026, 10, 21, 8)),
+      article('draft'),
+    ]);
+    expect([...byDay.keys()]).toEqual(['2026-10-20', '2026-10-21']);
+    expect(byDay.get('2026-10-20')!.map(a => a.status)).toEqual(['published', 'scheduled']);
+  });
+
+  it('keeps the time of day when moved to another day', () => {
+    const moved = new Date(moveToDay(local(2026, 10, 20, 18, 30).toISOString(), local(2026, 10, 23)));
+    expect(dayKey(moved)).toBe('2026-10-23');
+    expect([moved.getHours(), moved.getMinutes()]).toEqual([18, 30]);
+  });
+});
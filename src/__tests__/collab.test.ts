@@ -0,0 +1,153 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  CollabSession,
+  diffTokens,
+  mapTextOffset,
+  rebaseTokens,
+  tokenizeHtml,
+  type CollabPresence,
+  type CollabStatus,
+} from '../services/collab';
+import { LocalCollabRelay } from '../mocks/collabRelay';
+
+// ── fixtures ─────────────────────────────────────────────────────────────────
+
+const CONTENT = '<p>Le conseil vote le budget.</p>';
+const marc    = { id: 2, name: 'Marc Lefèvre' };
+const sophie  = { id: 3, name: 'Sophie Bernard' };
+
+/** Lets the relay deliver everything in flight */
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function join(relay: LocalCollabRelay, clientId: string, user = marc, base = CONTENT) {
+  const state = {
+    html:   base,
+    peers:  [] as CollabPresence[],
+    status: 'connecting' as CollabStatus,
+  };
+  const onChange = vi.fn((html: string) => { state.html = html; });
+  const session = new CollabSession({
+    connect:  relay.connect(1, user),
+    base,
+    clientId,
+    onChange,
+    onPeers:  peers => { state.peers = peers; },
+    onStatus: status => { state.status = status; },
+  });
+  /** Typing in the editor: the session gets its whole new content */
+  const type = (html: string) => {
+    state.html = html;
+    session.update(html);
+  };
+  return { session, state, onChange, type };
+}
+
+// ── tokens ───────────────────────────────────────────────────────────────────
+
+describe('HTML tokens', () => {
+  it('keeps tags and entities whole, one token per character of text', () => {
+    expect(tokenizeHtml('<p class="a>b">x&amp;y</p>')).toEqual(['<p class="a>b">', 'x', '&amp;', 'y', '</p>']);
+  });
+
+  it('finds the one passage that changed', () => {
+    expect(diffTokens(tokenizeHtml('<p>abc</p>'), tokenizeHtml('<p>aXc</p>'))).toEqual({ index: 2, remove: 1, insert: ['X'] });
+    expect(diffTokens(['a'], ['a'])).toBeNull();
+  });
+
+  it('replays a change on a version edited elsewhere', () => {
+    const rebase = (base: string, mine: string, theirs: string) =>
+      rebaseTokens([...base], [...mine], [...theirs]).join('');
+    expect(rebase('abcdef', 'abXcdef', 'abcdeYf')).toBe('abXcdeYf');
+    expect(rebase('abcdef', 'abcdeYf', 'abXcdef')).toBe('abXcdeYf');
+    // Both rewrote the same passage: the local one wins
+    expect(rebase('abcdef', 'aXXf', 'abYYef')).toBe('aXXf');
+  });
+
+  it('moves a caret along with the text around it', () => {
+    expect(mapTextOffset('Le budget', 'Le grand budget', 7)).toBe(13);
+    expect(mapTextOffset('Le budget', 'Le grand budget', 2)).toBe(2);
+  });
+});
+
+// ── sessions ─────────────────────────────────────────────────────────────────
+
+describe('CollabSession', () => {
+  it('merges what two editors type at the same time', async () => {
+    const relay = new LocalCollabRelay(() => CONTENT);
+    const a = join(relay, 'a');
+    const b = join(relay, 'b', sophie);
+    await settle();
+    expect(a.state.status).toBe('online');
+
+    a.type('<p>Le grand conseil vote le budget.</p>');
+    b.type('<p>Le conseil vote le budget 2027.</p>');
+    await settle();
+
+    const merged = '<p>Le grand conseil vote le budget 2027.</p>';
+    expect(a.state.html).toBe(merged);
+    expect(b.state.html).toBe(merged);
+    expect(a.session.html).toBe(merged);
+    expect(relay.content(1)).toBe(merged);
+  });
+
+  it("shows where the others' carets are, following the edits before them", async () => {
+    const relay = new LocalCollabRelay(() => CONTENT);
+    const a = join(relay, 'a');
+    const b = join(relay, 'b', sophie);
+    await settle();
+
+    // Sophie's caret after "budget"
+    b.session.select({ start: 26, end: 26 });
+    await settle();
+    expect(a.state.peers).toEqual([
+      expect.objectContaining({ userName: 'Sophie Bernard', position: { start: 26, end: 26 } }),
+    ]);
+
+    a.type('<p>Le grand conseil vote le budget.</p>');
+    await settle();
+    expect(a.state.peers[0].position).toEqual({ start: 32, end: 32 });
+
+    b.session.close();
+    await settle();
+    expect(a.state.peers).toEqual([]);
+  });
+
+  it('merges the edits made offline on reconnection', async () => {
+    const relay = new LocalCollabRelay(() => CONTENT);
+    const a = join(relay, 'a');
+    const b = join(relay, 'b', sophie);
+    await settle();
+
+    relay.setOffline('a', true);
+    await settle();
+    expect(a.state.status).toBe('offline');
+
+    a.type('<p>Le grand conseil vote le budget.</p>');
+    b.type('<p>Le conseil vote le budget 2027.</p>');
+    await settle();
+    expect(b.state.html).toBe('<p>Le conseil vote le budget 2027.</p>');
+
+    relay.setOffline('a', false);
+    await settle();
+    const merged = '<p>Le grand conseil vote le budget 2027.</p>';
+    expect(a.state.status).toBe('online');
+    expect(a.state.html).toBe(merged);
+    expect(b.state.html).toBe(merged);
+  });
+
+  it('replays the local edits on a document it has no history with', async () => {
+    // The article was saved by someone else since this editor loaded it
+    const saved = '<p>Le conseil vote le budget 2027.</p>';
+    const relay = new LocalCollabRelay(() => saved);
+    const b = join(relay, 'b', sophie, saved);
+    await settle();
+
+    const a = join(relay, 'a', marc, CONTENT);
+    a.type('<p>Le grand conseil vote le budget.</p>');
+    await settle();
+
+    const merged = '<p>Le grand conseil vote le budget 2027.</p>';
+    expect(a.state.html).toBe(merged);
+    expect(b.state.html).toBe(merged);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { editorText, locateAnchor, rangeFromOffsets, selectionAnchor } from '../services/comments';
+
+const HTML = '<p>Le conseil a voté le <strong>budget</strong> hier.</p><ul><li>Hausse des investissements</li></ul>';
+
+function mount(html: string): HTMLElement {
+  const root = document.createElement('div');
+  root.innerHTML = html;
+  return root;
+}
+
+describe('editorText', () => {
+  it('reads the text the editor shows, without markup', () => {
+    expect(editorText(HTML)).toBe('Le conseil a voté le budget hier.Hausse des investissements');
+    expect(editorText('')).toBe('');
+  });
+});
+
+describe('locateAnchor', () => {
+  const text   = 'Le budget est voté. Le budget sera publié.';
+  const anchor = { start: 23, end: 29, quote: 'budget' };
+
+  it('keeps the offsets while the passage is still there', () => {
+    expect(locateAnchor(text, anchor)).toEqual({ start: 23, end: 29 });
+  });
+
+  it('follows the passage to its nearest occurrence once the text moved', () => {
+    const edited = `Oui ${text}`;
+    expect(locateAnchor(edited, anchor)).toEqual({ start: 27, end: 33 });
+  });
+
+  it('gives up once the passage is gone', () => {
+    expect(locateAnchor('Le projet est voté.', anchor)).toBeNull();
+    expect(locateAnchor(text, { start: 0, end: 0, quote: '' })).toBeNull();
+  });
+});
+
+describe('selection anchors', () => {
+  it('round-trips a selection spanning several elements', () => {
+    const root  = mount(HTML);
+    const range = document.createRange();
+    range.setStart(root.querySelector('p')!.firstChild!, 21);
+    range.setEnd(root.querySelector('li')!.firstChild!, 6);
+
+    const anchor = selectionAnchor(root, range)!;
+    expect(anchor).toEqual({ start: 21, end: 39, quote: 'budget hier.Hausse' });
+    expect(rangeFromOffsets(root, anchor.start, anchor.end)!.toString()).toBe(anchor.quote);
+  });
+
+  it('ignores empty selections and selections outside the editor', () => {
+    const root  = mount(HTML);
+    const range = document.createRange();
+    range.setStart(root.querySelector('p')!.firstChild!, 3);
+    expect(selectionAnchor(root, range)).toBeNull();
+
+    const outside = document.createRange();
+    outside.selectNodeContents(mount('<p>Ailleurs</p>'));
+    expect(selectionAnchor(root, outside)).toBeNull();
+  });
+
+  it('finds no range past the end of the text', () => {
+    expect(rangeFromOffsets(mount(HTML), 60, 80)).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { SequenceDoc } from '../services/crdt';
+
+const chars = (text: string) => [...text];
+const text  = (doc: SequenceDoc) => doc.values().join('');
+
+/** Two replicas of the same starting text */
+function replicas(initial: string): [SequenceDoc, SequenceDoc] {
+  const seed = new SequenceDoc('seed');
+  const ops  = seed.insert(0, chars(initial));
+  const a = new SequenceDoc('a');
+  const b = new SequenceDoc('b');
+  a.apply(ops);
+  b.apply(ops);
+  return [a, b];
+}
+
+describe('SequenceDoc', () => {
+  it('inserts and deletes by visible index', () => {
+    const doc = new SequenceDoc('a');
+    doc.insert(0, chars('Le budget'));
+    doc.insert(3, chars('grand '));
+    doc.delete(0, 3);
+    expect(text(doc)).toBe('grand budget');
+    expect(doc.entries()).toHaveLength(15);
+  });
+
+  it('converges whatever order concurrent edits arrive in', () => {
+    const [a, b] = replicas('Le conseil vote.');
+    const fromA = a.insert(3, chars('grand '));
+    const fromB = [...b.delete(15, 1), ...b.insert(15, chars(' demain.'))];
+
+    a.apply(fromB);
+    b.apply(fromA);
+    expect(text(a)).toBe('Le grand conseil vote demain.');
+    expect(text(b)).toBe(text(a));
+  });
+
+  it('orders concurrent inserts at the same place the same way everywhere', () => {
+    const [a, b] = replicas('ab');
+    const fromA = a.insert(1, chars('XY'));
+    const fromB = b.insert(1, chars('12'));
+
+    a.apply(fromB);
+    b.apply(fromA);
+    expect(text(a)).toBe(text(b));
+    // Each side's run stays in one piece
+    expect(text(a)).toMatch(/^a(XY12|12XY)b$/);
+  });
+
+  it('keeps an insert made after a character deleted concurrently', () => {
+    const [a, b] = replicas('abc');
+    const fromA = a.delete(1, 1);
+    const fromB = b.insert(2, chars('!'));
+
+    a.apply(fromB);
+    b.apply(fromA);
+    expect(text(a)).toBe('a!c');
+    expect(text(b)).toBe('a!c');
+  });
+
+  it('waits for the element an operation refers to, and ignores duplicates', () => {
+    const source = new SequenceDoc('a');
+    const first  = source.insert(0, chars('ab'));
+    const second = source.insert(2, chars('c'));
+
+    const replica = new SequenceDoc('b');
+    expect(replica.apply(second)).toEqual([]);
+    expect(replica.apply([...first, ...first])).toHaveLength(3);
+    expect(text(replica)).toBe('abc');
+  });
+
+  it('tells a replica which operations it is missing', () => {
+    const [a, b] = replicas('abc');
+    const vector = b.stateVector();
+    a.insert(3, chars('de'));
+    a.delete(0, 1);
+
+    const missing = a.opsSince(vector);
+    expect(missing).toHaveLength(3);
+    b.apply(missing);
+    expect(text(b)).toBe('bcde');
+    expect(a.opsSince(b.stateVector())).toEqual([]);
+  });
+});
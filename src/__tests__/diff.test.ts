@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { diffWords, htmlToText, tokenize } from '../services/diff';
+
+const join = (parts: { text: string }[]) => parts.map(p => p.text).join('');
+
+describe('diffWords', () => {
+  it('returns a single equal part for identical texts', () => {
+    expect(diffWords('Le budget est voté', 'Le budget est voté')).toEqual([{ op: 'equal', text: 'Le budget est voté' }]);
+  });
+
+  it('marks the replaced words, deletions first', () => {
+    expect(diffWords('Le budget est voté', 'Le budget est rejeté')).toEqual([
+      { op: 'equal',  text: 'Le budget est ' },
+      { op: 'delete', text: 'voté' },
+      { op: 'insert', text: 'rejeté' },
+    ]);
+  });
+
+  it('keeps the longest common sequence of words', () => {
+    const parts = diffWords('un deux trois quatre', 'zéro un trois quatre cinq');
+    expect(parts.filter(p => p.op === 'equal').map(p => p.text.trim())).toEqual(['un', 'trois quatre']);
+    expect(parts.filter(p => p.op === 'delete').map(p => p.text.trim())).toEqual(['deux']);
+    expect(parts.filter(p => p.op === 'insert').map(p => p.text.trim())).toEqual(['zéro', 'cinq']);
+  });
+
+  it('rebuilds both texts from its parts', () => {
+    const before = 'Le conseil a voté hier le budget 2025.\nLa séance a duré six heures.';
+    const after  = 'Le conseil municipal a adopté hier le budget 2025.\nLa séance a duré sept heures !';
+    const parts  = diffWords(before, after);
+    expect(join(parts.filter(p => p.op !== 'insert'))).toBe(before);
+    expect(join(parts.filter(p => p.op !== 'delete'))).toBe(after);
+  });
+
+  it('handles an empty side', () => {
+    expect(diffWords('', 'Nouveau texte')).toEqual([{ op: 'insert', text: 'Nouveau texte' }]);
+    expect(diffWords('Ancien texte', '')).toEqual([{ op: 'delete', text: 'Ancien texte' }]);
+  });
+});
+
+describe('tokenize', () => {
+  it('keeps whitespace runs as tokens', () => {
+    expect(tokenize('a  b\nc')).toEqual(['a', '  ', 'b', '\n', 'c']);
+  });
+});
+
+describe('htmlToText', () => {
+  it('puts one block per line and decodes entities', () => {
+    expect(htmlToText('<h2>Titre</h2><p>Un &amp; deux</p><ul><li>A</li><li>B</li></ul>'))
+      .toBe('Titre\nUn & deux\n• A\n• B');
+  });
+});
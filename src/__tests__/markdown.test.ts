@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { looksLikeMarkdown, markdownShortcut, parseMarkdown, toMarkdown } from '../services/markdown';
+import { blockLength, insertText, parseHtml, toHtml, type DocPosition, type RichDocument } from '../services/richText';
+
+const FIGURE = '<figure><img src="/media/paris.jpg" alt="Paris" data-media-id="1"><figcaption>La Seine – © AFP</figcaption></figure>';
+
+const ARTICLE = '<h2>Le budget</h2><p>Le conseil a <strong>voté</strong> le <em>budget <u>2025</u></em>, '
+  + 'voir <a href="https://taram.fr/budget?annee=2025">le détail</a>.<br>Deuxième ligne</p>'
+  + '<h3>Les chiffres</h3><ul><li>Investissement</li><li>Fonctionnement<br>et dette</li></ul>'
+  + '<ol><li>Un</li><li>Deux</li></ol><blockquote><p>Une citation</p><p>sur deux paragraphes</p></blockquote>'
+  + '<blockquote class="pullquote"><p>« Un budget historique »</p></blockquote>'
+  + '<div class="callout callout-warning"><p>Vote définitif en juin</p></div><hr>'
+  + '<table><thead><tr><th>Poste</th><th>Montant</th></tr></thead><tbody><tr><td>Écoles</td><td>2 M€ | <strong>+5 %</strong></td></tr></tbody></table>'
+  + '<pre><code>const total = a * b;\n```\nfin</code></pre>' + FIGURE
+  + '<p>1. Pas une liste, # ni un titre, *ni* [un lien](x) ni un_mot_</p><h4>Fin #</h4>';
+
+const roundTrip = (html: string) => toHtml(parseMarkdown(toMarkdown(parseHtml(html))));
+
+const at = (block: number, offset: number): DocPosition => ({ block, offset });
+
+/** Types `text` at the end of `doc`'s block, then the shortcut it makes, if any */
+function type(doc: RichDocument, block: number, text: string) {
+  const offset = blockLength(doc[block]);
+  const typed  = insertText(doc, at(block, offset), text, {});
+  return markdownShortcut(typed.doc, typed.range.start);
+}
+
+describe('toMarkdown and parseMarkdown', () => {
+  it('give back the same document', () => {
+    expect(roundTrip(ARTICLE)).toBe(toHtml(parseHtml(ARTICLE)));
+  });
+
+  it('write the usual Markdown', () => {
+    expect(toMarkdown(parseHtml('<h2>Titre</h2><p>Du <strong>gras</strong> et un <a href="/a">lien</a></p><ul><li>Un</li><li>Deux</li></ul><hr>')))
+      .toBe('## Titre\n\nDu **gras** et un [lien](/a)\n\n- Un\n- Deux\n\n---\n');
+    expect(toMarkdown(parseHtml('<div class="callout callout-info"><p>Note</p></div><table><tbody><tr><td>A</td></tr></tbody></table>')))
+      .toBe('> [!NOTE]\n> Note\n\n|  |\n| --- |\n| A |\n');
+  });
+
+  it('read Markdown written elsewhere', () => {
+    const doc = parseMarkdown('# Titre\n\nUn paragraphe\nsur deux lignes  \navec un saut, __gras__ et _italique_.\n\n'
+      + '* Un\n* Deux\n\n1) Premier\n\n> [!TIP]\n> Astuce\n\n```js\nlet a = 1;\n```\n\n![Paris](/media/paris.jpg "La Seine")\n\n***');
+    expect(toHtml(doc)).toBe('<h2>Titre</h2><p>Un paragraphe sur deux lignes<br>avec un saut, <strong>gras</strong> et <em>italique</em>.</p>'
+      + '<ul><li>Un</li><li>Deux</li></ul><ol><li>Premier</li></ol><div class="callout callout-success"><p>Astuce</p></div>'
+      + '<pre><code>let a = 1;</code></pre><figure><img src="/media/paris.jpg" alt="Paris"><figcaption>La Seine</figcaption></figure><hr>');
+  });
+
+  it('keep emphasis nested either way', () => {
+    expect(toMarkdown(parseHtml('<p><em>x</em><strong><em>y</em></strong></p>'))).toBe('*x**y***\n');
+    for (const html of [
+      '<p><em>x</em><strong><em>y</em></strong></p>',
+      '<p><strong><em>x</em></strong><em>y</em> z</p>',
+      '<p><strong>x</strong><strong><em>y</em></strong><em>z</em></p>',
+      '<p><em>x</em><strong>y</strong><em>z</em></p>',
+      '<p><a href="/a"><em>x</em><strong><em>y</em></strong></a><strong>z</strong></p>',
+    ]) {
+      expect(roundTrip(html)).toBe(toHtml(parseHtml(html)));
+    }
+  });
+
+  it('keep spaces at the ends of lines', () => {
+    const html = '<p> Début et fin </p><ul><li>Un<br> deux </li></ul><h3> Titre </h3>'
+      + '<table><tbody><tr><td> A </td></tr></tbody></table><p>Pas une espace : &amp;#32;</p>';
+    expect(roundTrip(html)).toBe(toHtml(parseHtml(html)));
+    expect(toHtml(parseMarkdown('A&#32;&#x42;'))).toBe('<p>A B</p>');
+  });
+
+  it('keep unsafe links out', () => {
+    expect(toHtml(parseMarkdown('[lien](javascript:alert(1)) ![x](javascript:alert(1))'))).not.toContain('javascript');
+  });
+});
+
+describe('markdownShortcut', () => {
+  const paragraph = (text: string): RichDocument => [{ type: 'paragraph', runs: text ? [{ text, marks: {} }] : [] }];
+
+  it('formats the paragraph after its marker', () => {
+    expect(type(paragraph('##'), 0, ' ')!.doc[0].type).toBe('heading2');
+    expect(type(paragraph('>'), 0, ' ')!.doc[0].type).toBe('quote');
+    expect(type(paragraph('-'), 0, ' ')!.doc[0].type).toBe('bulleted');
+    expect(type(paragraph('1.'), 0, ' ')!.doc[0].type).toBe('numbered');
+    expect(type(paragraph('Un -'), 0, ' ')).toBeNull();
+  });
+
+  it('turns emphasis just closed into marks', () => {
+    const bold = type(paragraph('Du **gras*'), 0, '*')!;
+    expect(toHtml(bold.doc)).toBe('<p>Du <strong>gras</strong></p>');
+    expect(bold.range.start).toEqual(at(0, 7));
+    expect(bold.marks).toEqual({ bold: false });
+    expect(toHtml(type(paragraph('Un _mot'), 0, '_')!.doc)).toBe('<p>Un <em>mot</em></p>');
+    expect(type(paragraph('snake_case_va'), 0, '_')).toBeNull();
+    expect(type(paragraph('2 * 3 '), 0, '*')).toBeNull();
+  });
+
+  it('leaves code alone', () => {
+    expect(type([{ type: 'code', runs: [{ text: '**a*', marks: {} }] }], 0, '*')).toBeNull();
+  });
+});
+
+describe('looksLikeMarkdown', () => {
+  it('tells Markdown from plain text', () => {
+    expect(looksLikeMarkdown('## Titre\n\nTexte')).toBe(true);
+    expect(looksLikeMarkdown('Un **mot** important')).toBe(true);
+    expect(looksLikeMarkdown('Un texte simple, sans rien.\nSur deux lignes.')).toBe(false);
+  });
+});
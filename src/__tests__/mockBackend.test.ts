@@ -0,0 +1,556 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  acquireArticleLock,
+  addArticleNote,
+  createArticle,
+  createCommentThread,
+  createView,
+  deleteArticle,
+  deleteCategory,
+  deleteMediaAsset,
+  deleteView,
+  getArticle,
+  getArticleNotes,
+  getArticleRevisions,
+  getArticlesPaginated,
+  getCategories,
+  getCommentThreads,
+  getConflictingArticle,
+  getLockingPresence,
+  getMediaAssets,
+  getPresence,
+  getViews,
+  getNotifications,
+  getReviewers,
+  importArticles,
+  leaveArticle,
+  notifyArticle,
+  patchArticleStatus,
+  releaseArticleLock,
+  replyToCommentThread,
+  sendPresenceHeartbeat,
+  setCommentThreadResolved,
+  setViewPinned,
+  updateArticle,
+  updateMediaAsset,
+  uploadMediaAsset,
+} from '../services/api';
+import { isArticleLocked, isEditConflict, type ApiError } from '../services/errors';
+import { startColleagueActivity } from '../mocks/events';
+import { expirePresence, PRESENCE_TTL_MS } from '../mocks/presence';
+import { runSchedules } from '../mocks/scheduler';
+import { getSession } from '../services/session';
+import { installMockBackend, signInAs, uninstallMockBackend } from '../test/utils';
+import type { MockDb } from '../mocks/db';
+import type { ArticleFormData } from '../types';
+
+let db: MockDb;
+
+beforeEach(() => { db = installMockBackend(); });
+afterEach(() => { uninstallMockBackend(); });
+
+const draft: ArticleFormData = {
+  title:       'Conseil municipal : le compte rendu',
+  content:     '<p>Le conseil municipal s\'est réuni hier soir pour voter le budget.</p>',
+  excerpt:     'Le compte rendu du conseil',
+  authorName:  'Julie Morel',
+  featured:    false,
+  categoryIds: [1],
+  networkId:   1,
+};
+
+// ── Auth ──────────────────────────────────────────────────────────────────────
+
+describe('mock backend – auth', () => {
+  it('logs in with a demo account', async () => {
+    await signInAs('editeur@taram.fr');
+    expect(getSession()?.user).toMatchObject({ name: 'Marc Lefèvre', role: 'editor' });
+  });
+
+  it('rejects requests without a session', async () => {
+    await expect(getCategories()).rejects.toMatchObject({ status: 401 });
+  });
+});
+
+// ── Articles ──────────────────────────────────────────────────────────────────
+
+describe('mock backend – articles', () => {
+  it('filters, sorts and paginates', async () => {
+    await signInAs('admin@taram.fr');
+    const page = await getArticlesPaginated({ status: 'published', sortBy: 'title', sortDir: 'asc', page: 1, limit: 5 });
+    expect(page.data).toHaveLength(5);
+    expect(page.total).toBe(db.articles.filter(a => a.status === 'published').length);
+    const titles = page.data.map(a => a.title);
+    expect(titles).toEqual([...titles].sort((a, b) => a.localeCompare(b)));
+  });
+
+  it('restricts authors to their networks', async () => {
+    await signInAs('auteur@taram.fr');
+    const page = await getArticlesPaginated({ limit: 100 });
+    expect(page.data.every(a => a.networkId === 1 || a.networkId === 3)).toBe(true);
+
+    const sport = db.articles.find(a => a.networkId === 2)!;
+    await expect(getArticle(sport.id)).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('refuses writes outside the user\'s networks', async () => {
+    // An editor assigned to two networks only
+    db.users.find(u => u.email === 'editeur@taram.fr')!.networkIds = [1, 3];
+    await signInAs('editeur@taram.fr');
+    const sport     = db.articles.find(a => a.networkId === 2 && a.status === 'published')!;
+    const own       = db.articles.find(a => a.networkId === 1 && a.status === 'draft')!;
+    const forbidden = { status: 403 };
+
+    await expect(updateArticle(sport.id, { title: 'Titre modifié hors réseau' })).rejects.toMatchObject(forbidden);
+    await expect(patchArticleStatus(sport.id, 'archived')).rejects.toMatchObject(forbidden);
+    await expect(notifyArticle(sport.id)).rejects.toMatchObject(forbidden);
+    await expect(deleteArticle(sport.id)).rejects.toMatchObject(forbidden);
+    expect(db.articles.find(a => a.id === sport.id)).toMatchObject({ status: 'published' });
+
+    await expect(createArticle({ ...draft, networkId: 2 })).rejects.toMatchObject(forbidden);
+    await expect(updateArticle(own.id, { networkId: 2 })).rejects.toMatchObject(forbidden);
+    expect(db.articles.find(a => a.id === own.id)).toMatchObject({ networkId: 1 });
+  });
+
+  it('creates drafts owned by the current user', async () => {
+    await signInAs('auteur@taram.fr');
+    const created = await createArticle(draft);
+    expect(created).toMatchObject({ status: 'draft', authorId: 3, slug: 'conseil-municipal-le-compte-rendu' });
+  });
+
+  it('reports a duplicate slug as a field error', async () => {
+    await signInAs('editeur@taram.fr');
+    await expect(createArticle({ ...draft, slug: db.articles[0].slug })).rejects.toMatchObject({
+      status:      409,
+      code:        'DUPLICATE_SLUG',
+      fieldErrors: { slug: expect.any(String) },
+    });
+  });
+
+  it('refuses publication to authors', async () => {
+    await signInAs('auteur@taram.fr');
+    const own = await createArticle(draft);
+    db.articles.find(a => a.id === own.id)!.status = 'approved';
+    await expect(patchArticleStatus(own.id, 'published')).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('refuses a save based on an outdated version', async () => {
+    await signInAs('editeur@taram.fr');
+    const loaded = await getArticle(db.articles[0].id);
+    const theirs = await updateArticle(loaded.id, { title: 'Titre modifié par un collègue' }, loaded.updatedAt);
+
+    const error = await updateArticle(loaded.id, { title: 'Mon titre' }, loaded.updatedAt).catch(e => e);
+    expect(isEditConflict(error)).toBe(true);
+    expect(await getConflictingArticle(loaded.id, error)).toMatchObject({
+      title:     'Titre modifié par un collègue',
+      updatedAt: theirs.updatedAt,
+    });
+
+    await expect(updateArticle(loaded.id, { title: 'Mon titre' }, theirs.updatedAt)).resolves.toMatchObject({ title: 'Mon titre' });
+  });
+
+  it('records a notification for published articles', async () => {
+    await signInAs('editeur@taram.fr');
+    const before    = (await getNotifications()).length;
+    const published = db.articles.find(a => a.status === 'published')!;
+    const result    = await notifyArticle(published.id, { recipients: ['a@taram.fr'] });
+    expect(result.html).toContain(published.title);
+    expect(await getNotifications()).toHaveLength(before + 1);
+  });
+
+  it('escapes the article in the notification e-mail', async () => {
+    await signInAs('editeur@taram.fr');
+    const published = db.articles.find(a => a.status === 'published')!;
+    published.title = 'Budget <img src=x onerror="alert(1)">';
+    const { html } = await notifyArticle(published.id, {});
+    expect(html).toContain('Budget &lt;img src=x onerror=&quot;alert(1)&quot;&gt;');
+  });
+});
+
+// ── Review workflow ───────────────────────────────────────────────────────────
+
+describe('mock backend – review workflow', () => {
+  it('submits a draft to a reviewer, who sends it back with a comment', async () => {
+    await signInAs('auteur@taram.fr');
+    const own = await createArticle(draft);
+    await expect(patchArticleStatus(own.id, 'published')).rejects.toMatchObject({
+      status:      422,
+      fieldErrors: { status: expect.any(String) },
+    });
+    expect(await patchArticleStatus(own.id, 'in_review', { reviewerId: 2 })).toMatchObject({
+      status:       'in_review',
+      reviewerId:   2,
+      reviewerName: 'Marc Lefèvre',
+    });
+    await expect(updateArticle(own.id, { title: 'Pendant la relecture' })).rejects.toMatchObject({ status: 403 });
+
+    await signInAs('editeur@taram.fr');
+    await expect(patchArticleStatus(own.id, 'changes_requested', { comment: ' ' })).rejects.toMatchObject({
+      status:      422,
+      fieldErrors: { comment: expect.any(String) },
+    });
+    expect(await patchArticleStatus(own.id, 'changes_requested', { comment: 'Ajouter le montant du budget voté.' })).toMatchObject({
+      status:        'changes_requested',
+      reviewComment: 'Ajouter le montant du budget voté.',
+    });
+
+    await signInAs('auteur@taram.fr');
+    await expect(updateArticle(own.id, { title: 'Conseil municipal : le budget voté' })).resolves.toMatchObject({
+      status: 'changes_requested',
+    });
+  });
+
+  it('refuses a review by the author of the article', async () => {
+    await signInAs('editeur@taram.fr');
+    const own = db.articles.find(a => a.status === 'draft' && a.authorId === 2)!;
+    await patchArticleStatus(own.id, 'in_review');
+    await expect(patchArticleStatus(own.id, 'approved')).rejects.toMatchObject({ status: 403 });
+
+    await signInAs('admin@taram.fr');
+    expect(await patchArticleStatus(own.id, 'approved')).toMatchObject({ status: 'approved', reviewerName: 'Sophie Bernard' });
+  });
+
+  it('only assigns reviewers allowed to review the article', async () => {
+    await signInAs('editeur@taram.fr');
+    const own = db.articles.find(a => a.status === 'draft' && a.authorId === 2)!;
+    await expect(patchArticleStatus(own.id, 'in_review', { reviewerId: 2 })).rejects.toMatchObject({
+      fieldErrors: { reviewerId: expect.any(String) },
+    });
+    expect((await getReviewers()).map(r => r.role).sort()).toEqual(['admin', 'editor']);
+  });
+
+  it('has the simulated colleague publish approved articles only', () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const stop = startColleagueActivity(db, 2);
+    try {
+      const article = db.articles.find(a => a.status !== 'archived')!;
+      article.status = 'draft';
+      vi.advanceTimersByTime(45_000);
+      expect(article.status).toBe('draft');
+      expect(db.revisions.filter(r => r.articleId === article.id).pop()).toMatchObject({ source: 'manual', userName: 'Sophie Bernard' });
+
+      article.status = 'approved';
+      vi.advanceTimersByTime(45_000);
+      expect(article.status).toBe('published');
+      expect(db.revisions.filter(r => r.articleId === article.id).pop()).toMatchObject({
+        source: 'status', status: 'published', userName: 'Sophie Bernard',
+      });
+    } finally {
+      stop();
+      vi.restoreAllMocks();
+      vi.useRealTimers();
+    }
+  });
+});
+
+// ── Comments and notes ────────────────────────────────────────────────────────
+
+describe('mock backend – comments and notes', () => {
+  it('keeps threads on passages apart from the article', async () => {
+    await signInAs('editeur@taram.fr');
+    const article = db.articles.find(a => a.status === 'draft' && a.authorId === 2)!;
+    const content = article.content;
+    const anchor  = { start: 0, end: 9, quote: article.excerpt.slice(0, 9) };
+
+    const thread = await createCommentThread(article.id, { anchor, body: 'Titre à revoir ?' });
+    expect(thread).toMatchObject({ anchor, resolved: false, messages: [{ authorName: 'Marc Lefèvre', body: 'Titre à revoir ?' }] });
+
+    await signInAs('admin@taram.fr');
+    await replyToCommentThread(article.id, thread.id, 'Non, il est bien.');
+    expect(await setCommentThreadResolved(article.id, thread.id, true)).toMatchObject({
+      resolved:       true,
+      resolvedByName: 'Sophie Bernard',
+      messages:       [{ body: 'Titre à revoir ?' }, { body: 'Non, il est bien.' }],
+    });
+    await expect(replyToCommentThread(article.id, thread.id, '  ')).rejects.toMatchObject({
+      status:      422,
+      fieldErrors: { body: expect.any(String) },
+    });
+
+    expect((await getCommentThreads(article.id)).map(t => t.id)).toContain(thread.id);
+    const saved = await getArticle(article.id);
+    expect(saved.content).toBe(content);
+    expect(JSON.stringify(saved)).not.toContain('Titre à revoir');
+  });
+
+  it('lists private notes to the desk, within the network scope', async () => {
+    await signInAs('auteur@taram.fr');
+    const own = await createArticle(draft);
+    await addArticleNote(own.id, 'Photos à demander au service Sport.');
+    expect(await getArticleNotes(own.id)).toMatchObject([{ authorName: 'Julie Morel', body: 'Photos à demander au service Sport.' }]);
+
+    const sport = db.articles.find(a => a.networkId === 2)!;
+    await expect(getArticleNotes(sport.id)).rejects.toMatchObject({ status: 403 });
+    await expect(getCommentThreads(sport.id)).rejects.toMatchObject({ status: 403 });
+  });
+});
+
+// ── Presence ──────────────────────────────────────────────────────────────────
+
+describe('mock backend – presence and soft locks', () => {
+  it('warns the second editor, who may take over', async () => {
+    await signInAs('editeur@taram.fr');
+    const article = db.articles.find(a => a.status === 'draft' && a.authorId === 2)!;
+    await sendPresenceHeartbeat(article.id, 'tab-marc');
+    expect((await acquireArticleLock(article.id, 'tab-marc')).entries).toMatchObject([
+      { sessionId: 'tab-marc', userName: 'Marc Lefèvre', editing: true },
+    ]);
+
+    await signInAs('admin@taram.fr');
+    const refused = await acquireArticleLock(article.id, 'tab-sophie').catch((e: ApiError) => e);
+    expect(isArticleLocked(refused)).toBe(true);
+    expect((await getLockingPresence(article.id, refused as ApiError)).entries).toMatchObject([
+      { userName: 'Marc Lefèvre', editing: true },
+    ]);
+
+    const taken = await acquireArticleLock(article.id, 'tab-sophie', true);
+    expect(taken.entries.map(e => [e.userName, e.editing])).toEqual([['Marc Lefèvre', false], ['Sophie Bernard', true]]);
+
+    // Soft: the previous editor can still save
+    await signInAs('editeur@taram.fr');
+    await expect(updateArticle(article.id, { title: 'Toujours enregistré' })).resolves.toMatchObject({ title: 'Toujours enregistré' });
+  });
+
+  it('releases the lock when its tab leaves, or stops its heartbeat', async () => {
+    await signInAs('editeur@taram.fr');
+    const article = db.articles.find(a => a.status === 'draft' && a.authorId === 2)!;
+    await acquireArticleLock(article.id, 'tab-1');
+    expect((await releaseArticleLock(article.id, 'tab-1')).entries).toMatchObject([{ sessionId: 'tab-1', editing: false }]);
+
+    await acquireArticleLock(article.id, 'tab-1');
+    await leaveArticle(article.id, 'tab-1');
+    expect(await getPresence()).toEqual([]);
+
+    await acquireArticleLock(article.id, 'tab-2');
+    expirePresence(db, new Date(Date.now() + PRESENCE_TTL_MS + 1_000));
+    expect(db.presence).toEqual([]);
+  });
+
+  it('shows presence within the network scope only', async () => {
+    await signInAs('admin@taram.fr');
+    const sport = db.articles.find(a => a.networkId === 2)!;
+    await sendPresenceHeartbeat(sport.id, 'tab-sophie');
+
+    await signInAs('auteur@taram.fr');
+    expect(await getPresence()).toEqual([]);
+    await expect(sendPresenceHeartbeat(sport.id, 'tab-julie')).rejects.toMatchObject({ status: 403 });
+    const published = db.articles.find(a => a.status === 'published' && a.networkId === 1)!;
+    await expect(acquireArticleLock(published.id, 'tab-julie')).rejects.toMatchObject({ status: 403 });
+  });
+});
+
+// ── Scheduled publishing ──────────────────────────────────────────────────────
+
+describe('mock backend – scheduled publishing', () => {
+  const HOUR = 60 * 60 * 1000;
+  const inHours = (hours: number) => new Date(Date.now() + hours * HOUR).toISOString();
+
+  it('requires a future publication date', async () => {
+    await signInAs('editeur@taram.fr');
+    const approved = db.articles.find(a => a.status === 'approved')!;
+    await expect(patchArticleStatus(approved.id, 'scheduled', { publishAt: inHours(-1) })).rejects.toMatchObject({
+      status:      422,
+      fieldErrors: { publishAt: expect.any(String) },
+    });
+    await expect(
+      patchArticleStatus(approved.id, 'scheduled', { publishAt: inHours(2), unpublishAt: inHours(1) }),
+    ).rejects.toMatchObject({ fieldErrors: { unpublishAt: expect.any(String) } });
+  });
+
+  it('publishes when due, then archives at expiry', async () => {
+    await signInAs('editeur@taram.fr');
+    const approved  = db.articles.find(a => a.status === 'approved')!;
+    const scheduled = await patchArticleStatus(approved.id, 'scheduled', { publishAt: inHours(1), unpublishAt: inHours(5) });
+    expect(scheduled).toMatchObject({ status: 'scheduled', publishAt: expect.any(String) });
+
+    runSchedules(db, new Date(Date.now() + 2 * HOUR));
+    expect(await getArticle(approved.id)).toMatchObject({ status: 'published', publishedAt: scheduled.publishAt });
+
+    runSchedules(db, new Date(Date.now() + 6 * HOUR));
+    expect((await getArticle(approved.id)).status).toBe('archived');
+    const [latest] = await getArticleRevisions(approved.id);
+    expect(latest).toMatchObject({ source: 'status', status: 'archived' });
+    expect(latest.userName).toBeUndefined();
+  });
+
+  it('lists articles by publication or scheduled date for the calendar', async () => {
+    await signInAs('admin@taram.fr');
+    const from = new Date(Date.now() - 24 * HOUR).toISOString();
+    const to   = inHours(30 * 24);
+    const page = await getArticlesPaginated({ publishedFrom: from, publishedTo: to, limit: 100 });
+    expect(page.data.some(a => a.status === 'scheduled')).toBe(true);
+    expect(page.data.every(a => {
+      const date = a.status === 'scheduled' ? a.publishAt : a.publishedAt;
+      return !!date && date >= from && date < to;
+    })).toBe(true);
+  });
+
+  it('refuses scheduling to authors', async () => {
+    await signInAs('auteur@taram.fr');
+    const own = await createArticle(draft);
+    db.articles.find(a => a.id === own.id)!.status = 'approved';
+    await expect(patchArticleStatus(own.id, 'scheduled', { publishAt: inHours(1) })).rejects.toMatchObject({ status: 403 });
+  });
+});
+
+// ── Revisions ─────────────────────────────────────────────────────────────────
+
+describe('mock backend – revisions', () => {
+  it('records every save with its author and origin, newest first', async () => {
+    await signInAs('editeur@taram.fr');
+    const draft = db.articles.find(a => a.status === 'draft' && a.authorId === 2)!;
+    const before = (await getArticleRevisions(draft.id)).length;
+
+    await updateArticle(draft.id, { title: 'Titre enregistré automatiquement' }, undefined, true);
+    await patchArticleStatus(draft.id, 'in_review');
+
+    const revisions = await getArticleRevisions(draft.id);
+    expect(revisions).toHaveLength(before + 2);
+    expect(revisions.slice(0, 2)).toMatchObject([
+      { source: 'status',   status: 'in_review', userName: 'Marc Lefèvre' },
+      { source: 'autosave', status: 'draft',     data: { title: 'Titre enregistré automatiquement' } },
+    ]);
+  });
+
+  it('keeps no copy of a save that changes nothing', async () => {
+    await signInAs('editeur@taram.fr');
+    const draft = db.articles.find(a => a.status === 'draft' && a.authorId === 2)!;
+    await updateArticle(draft.id, { title: 'Titre enregistré automatiquement' }, undefined, true);
+    const before = (await getArticleRevisions(draft.id)).length;
+
+    await updateArticle(draft.id, { title: 'Titre enregistré automatiquement' }, undefined, true);
+    expect(await getArticleRevisions(draft.id)).toHaveLength(before);
+  });
+
+  it('follows the network scope of the article', async () => {
+    await signInAs('auteur@taram.fr');
+    const sport = db.articles.find(a => a.networkId === 2)!;
+    await expect(getArticleRevisions(sport.id)).rejects.toMatchObject({ status: 403 });
+  });
+});
+
+// ── Categories / import ───────────────────────────────────────────────────────
+
+describe('mock backend – categories and import', () => {
+  it('refuses to delete a category in use', async () => {
+    await signInAs('admin@taram.fr');
+    await expect(deleteCategory(1)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('imports valid rows and reports the others', async () => {
+    await signInAs('admin@taram.fr');
+    const file = new File(
+      [JSON.stringify([draft, { title: 'Oups' }])],
+      'articles.json',
+      { type: 'application/json' },
+    );
+    const result = await importArticles(file);
+    expect(result).toMatchObject({ total: 2, imported: 1, skipped: 1 });
+    expect(result.errors[0]).toMatchObject({ index: 1 });
+  });
+});
+
+// ── Media library ─────────────────────────────────────────────────────────────
+
+describe('mock backend – media library', () => {
+  const image = (name = 'une.png', type = 'image/png') => new File(['\x89PNG'], name, { type });
+
+  it('uploads an image with its details, listed first', async () => {
+    await signInAs('auteur@taram.fr');
+    const asset = await uploadMediaAsset(image(), { alt: 'La une du jour', credit: 'TARAM' });
+    expect(asset).toMatchObject({ fileName: 'une.png', mimeType: 'image/png', alt: 'La une du jour', credit: 'TARAM', uploadedBy: 3 });
+    expect(asset.url).toMatch(/^data:image\/png;base64,/);
+    expect((await getMediaAssets()).data[0].id).toBe(asset.id);
+  });
+
+  it('refuses files that are not images', async () => {
+    await signInAs('auteur@taram.fr');
+    await expect(uploadMediaAsset(image('notes.pdf', 'application/pdf')))
+      .rejects.toMatchObject({ status: 422, fieldErrors: { file: expect.any(String) } });
+  });
+
+  it('searches file names, alt texts, captions and credits', async () => {
+    await signInAs('auteur@taram.fr');
+    expect((await getMediaAssets({ search: 'mairie' })).data.map(m => m.fileName)).toEqual(['conseil-municipal.jpg']);
+    expect((await getMediaAssets({ search: 'unsplash' })).total).toBe(2);
+  });
+
+  it('requires an alt text when details are edited', async () => {
+    await signInAs('auteur@taram.fr');
+    await expect(updateMediaAsset(3, { alt: ' ' }))
+      .rejects.toMatchObject({ status: 422, fieldErrors: { alt: expect.any(String) } });
+    // PUT replaces every detail: the credit left out is removed
+    const updated = await updateMediaAsset(3, { alt: 'Scène du festival', license: 'CC BY 4.0' });
+    expect(updated).toMatchObject({ alt: 'Scène du festival', license: 'CC BY 4.0' });
+    expect(updated.credit).toBeUndefined();
+  });
+
+  it('removes the cover of an article saved with an empty image', async () => {
+    await signInAs('editeur@taram.fr');
+    const article = await createArticle({ ...draft, imageUrl: db.media[0].url, imageId: 1 });
+    const saved   = await updateArticle(article.id, { ...draft, imageUrl: '', imageId: null });
+    expect(saved.imageUrl).toBeUndefined();
+    expect(saved.imageId).toBeUndefined();
+  });
+
+  it('keeps the framing of the cover, refusing a focal point outside the area', async () => {
+    await signInAs('editeur@taram.fr');
+    const imageCrop = { x: 0.2, y: 0, width: 0.6, height: 1, focalX: 0.4, focalY: 0.3 };
+    const article   = await createArticle({ ...draft, imageUrl: db.media[0].url, imageCrop });
+    expect(article.imageCrop).toEqual(imageCrop);
+    expect((await getArticleRevisions(article.id))[0].data.imageCrop).toEqual(imageCrop);
+
+    await expect(updateArticle(article.id, { ...draft, imageUrl: db.media[0].url, imageCrop: { ...imageCrop, focalX: 0.9 } }))
+      .rejects.toMatchObject({ status: 422, fieldErrors: { imageCrop: expect.any(String) } });
+  });
+
+  it('lets authors edit their own uploads only, editors every one', async () => {
+    await signInAs('auteur@taram.fr');
+    await expect(updateMediaAsset(1, { alt: 'Paris' })).rejects.toMatchObject({ status: 403 });
+    await expect(deleteMediaAsset(1)).rejects.toMatchObject({ status: 403 });
+    await signInAs('editeur@taram.fr');
+    await deleteMediaAsset(3);
+    expect(db.media.some(m => m.id === 3)).toBe(false);
+  });
+});
+
+// ── Saved views ───────────────────────────────────────────────────────────────
+
+describe('mock backend – saved views', () => {
+  it('lists own views and the views shared by others', async () => {
+    await signInAs('auteur@taram.fr');
+    const views = await getViews();
+    expect(views.map(v => v.name)).toEqual(['Mes brouillons', 'À la une – TARAM Sport', 'Archivés ce mois-ci']);
+    expect(views.every(v => v.ownerId === 3 || v.shared)).toBe(true);
+  });
+
+  it('filters articles by author and modification date', async () => {
+    await signInAs('admin@taram.fr');
+    const since = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString();
+    const page  = await getArticlesPaginated({ authorId: 3, updatedFrom: since, limit: 100 });
+    expect(page.total).toBeGreaterThan(0);
+    expect(page.data.every(a => a.authorId === 3 && a.updatedAt! >= since)).toBe(true);
+  });
+
+  it('pins a shared view for the current user only', async () => {
+    await signInAs('auteur@taram.fr');
+    expect(await setViewPinned(4, true)).toMatchObject({ pinned: true });
+    await signInAs('editeur@taram.fr');
+    expect((await getViews()).find(v => v.id === 4)?.pinned).toBe(false);
+  });
+
+  it('rejects a duplicate name as a field error', async () => {
+    await signInAs('auteur@taram.fr');
+    await expect(createView({ name: 'mes brouillons', query: 'status=draft', shared: false }))
+      .rejects.toMatchObject({ status: 409, fieldErrors: { name: expect.any(String) } });
+  });
+
+  it('only lets the owner delete a view', async () => {
+    await signInAs('auteur@taram.fr');
+    await expect(deleteView(3)).rejects.toMatchObject({ status: 403 });
+    await signInAs('editeur@taram.fr');
+    await deleteView(3);
+    expect(db.views.some(v => v.id === 3)).toBe(false);
+  });
+});
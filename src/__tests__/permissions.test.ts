@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  can,
+  getNetworkScope,
+  isArticleInScope,
+  isNetworkInScope,
+  scopeNetworks,
+} from '../services/permissions';
+import type { AuthUser, Network, UserRole } from '../types';
+
+// ── fixtures ─────────────────────────────────────────────────────────────────
+
+function makeUser(role: UserRole, id = 1): AuthUser {
+  return { id, role, name: `User ${id}`, email: `user${id}@taram.fr` };
+}
+
+const author = makeUser('author', 1);
+const editor = makeUser('editor', 2);
+const admin  = makeUser('admin', 3);
+
+const ownDraft       = { authorId: 1, status: 'draft' as const };
+const ownPublished   = { authorId: 1, status: 'published' as const };
+const otherDraft     = { authorId: 99, status: 'draft' as const };
+
+// ── tests ────────────────────────────────────────────────────────────────────
+
+describe('can – anonymous', () => {
+  it('denies everything without a user', () => {
+    expect(can(null, 'article:create')).toBe(false);
+    expect(can(undefined, 'article:edit', ownDraft)).toBe(false);
+  });
+});
+
+describe('can – author', () => {
+  it('may create articles', () => {
+    expect(can(author, 'article:create')).toBe(true);
+  });
+
+  it('may edit and delete own drafts', () => {
+    expect(can(author, 'article:edit', ownDraft)).toBe(true);
+    expect(can(author, 'article:delete', ownDraft)).toBe(true);
+  });
+
+  it('may not edit own published articles', () => {
+    expect(can(author, 'article:edit', ownPublished)).toBe(false);
+  });
+
+  it("may not edit someone else's draft", () => {
+    expect(can(author, 'article:edit', otherDraft)).toBe(false);
+    expect(can(author, 'article:delete', otherDraft)).toBe(false);
+  });
+
+  it('may not publish, archive, notify or feature', () => {
+    expect(can(author, 'article:publish')).toBe(false);
+    expect(can(author, 'article:archive')).toBe(false);
+    expect(can(author, 'article:notify')).toBe(false);
+    expect(can(author, 'article:feature')).toBe(false);
+  });
+
+  it('may not manage categories, networks or imports', () => {
+    expect(can(author, 'category:manage')).toBe(false);
+    expect(can(author, 'network:manage')).toBe(false);
+    expect(can(author, 'article:import')).toBe(false);
+  });
+});
+
+describe('can – editor', () => {
+  it('may edit any article regardless of owner or status', () => {
+    expect(can(editor, 'article:edit', otherDraft)).toBe(true);
+    expect(can(editor, 'article:edit', ownPublished)).toBe(true);
+  });
+
+  it('may publish, archive and notify', () => {
+    expect(can(editor, 'article:publish')).toBe(true);
+    expect(can(editor, 'article:archive')).toBe(true);
+    expect(can(editor, 'article:notify')).toBe(true);
+  });
+
+  it('may not manage categories, networks or imports', () => {
+    expect(can(editor, 'category:manage')).toBe(false);
+    expect(can(editor, 'network:manage')).toBe(false);
+    expect(can(editor, 'article:import')).toBe(false);
+  });
+});
+
+describe('can – admin', () => {
+  it('holds every permission', () => {
+    expect(can(admin, 'article:publish')).toBe(true);
+    expect(can(admin, 'category:manage')).toBe(true);
+    expect(can(admin, 'network:manage')).toBe(true);
+    expect(can(admin, 'article:import')).toBe(true);
+    expect(can(admin, 'article:delete', otherDraft)).toBe(true);
+  });
+});
+
+describe('network scope', () => {
+  const networks: Network[] = [
+    { id: 1, name: 'TARAM Info' },
+    { id: 2, name: 'TARAM Sport' },
+    { id: 3, name: 'TARAM Culture' },
+  ];
+  const journalist: AuthUser = { ...makeUser('author', 4), networkIds: [1, 3] };
+
+  it('is unrestricted for users without assigned networks', () => {
+    expect(getNetworkScope(editor)).toBeNull();
+    expect(scopeNetworks(editor, networks)).toHaveLength(3);
+  });
+
+  it('is unrestricted for admins even with assigned networks', () => {
+    expect(getNetworkScope({ ...admin, networkIds: [1] })).toBeNull();
+  });
+
+  it('keeps only the assigned networks', () => {
+    expect(scopeNetworks(journalist, networks).map(n => n.name)).toEqual(['TARAM Info', 'TARAM Culture']);
+  });
+
+  it('compares ids regardless of number / string', () => {
+    expect(isNetworkInScope(journalist, '3')).toBe(true);
+    expect(isNetworkInScope(journalist, 2)).toBe(false);
+  });
+
+  it('excludes articles without a network for restricted users', () => {
+    expect(isArticleInScope(journalist, {})).toBe(false);
+    expect(isArticleInScope(editor, {})).toBe(true);
+  });
+
+  it('resolves the network from the embedded relation', () => {
+    expect(isArticleInScope(journalist, { network: networks[0] })).toBe(true);
+    expect(isArticleInScope(journalist, { network: networks[1] })).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { QueryClient } from '@tanstack/react-query';
+import { applyRealtimeEvent } from '../services/realtime';
+import { realtimeEventSchema } from '../services/schemas';
+import { notifyArticle, patchArticleStatus } from '../services/api';
+import { mockEvents } from '../mocks/events';
+import { installMockBackend, signInAs, uninstallMockBackend } from '../test/utils';
+import type { MockDb } from '../mocks/db';
+import type { Article, ArticlePresence, Notification, PaginatedResponse, RealtimeEvent } from '../types';
+
+// ── fixtures ─────────────────────────────────────────────────────────────────
+
+const article = (id: number, patch: Partial<Article> = {}): Article => ({
+  id,
+  title:      `Article ${id}`,
+  content:    '',
+  excerpt:    '',
+  authorName: 'Marc Lefèvre',
+  featured:   false,
+  status:     'draft',
+  ...patch,
+});
+
+const marc = { id: 2, name: 'Marc Lefèvre' };
+
+// ── events → query cache ─────────────────────────────────────────────────────
+
+describe('applyRealtimeEvent', () => {
+  const LIST_KEY   = ['articles', 'list', { page: 1, limit: 20 }];
+  const DRAFTS_KEY = ['articles', 'list', { page: 1, limit: 20, status: 'draft' }];
+  let qc: QueryClient;
+
+  beforeEach(() => {
+    qc = new QueryClient();
+    const page: PaginatedResponse<Article> = { data: [article(1), article(2)], total: 2, page: 1, limit: 20 };
+    qc.setQueryData(LIST_KEY, page);
+    qc.setQueryData(DRAFTS_KEY, page);
+    qc.setQueryData<Notification[]>(['notifications'], [{ id: 7, status: 'pending' }]);
+  });
+
+  it('patches a status change in place and refetches the lists filtered on status', () => {
+    applyRealtimeEvent(qc, { type: 'article.status_changed', article: article(2, { status: 'published' }), actor: marc });
+    expect(qc.getQueryData<PaginatedResponse<Article>>(LIST_KEY)!.data[1].status).toBe('published');
+    expect(qc.getQueryState(LIST_KEY)!.isInvalidated).toBe(false);
+    expect(qc.getQueryState(DRAFTS_KEY)!.isInvalidated).toBe(true);
+  });
+
+  it('refetches every list when an article is created', () => {
+    applyRealtimeEvent(qc, { type: 'article.created', article: article(3), actor: marc });
+    expect(qc.getQueryState(LIST_KEY)!.isInvalidated).toBe(true);
+  });
+
+  it('replaces the delivery status of a notification', () => {
+    applyRealtimeEvent(qc, { type: 'notification.status', notification: { id: 7, status: 'sent' } });
+    expect(qc.getQueryData<Notification[]>(['notifications'])).toEqual([{ id: 7, status: 'sent' }]);
+  });
+
+  it('replaces the presence of an article, and forgets it once everybody left', () => {
+    const stamp = '2024-03-01T09:00:00.000Z';
+    const entry = { sessionId: 'a', userId: 2, userName: 'Marc Lefèvre', editing: true, since: stamp, lastSeenAt: stamp };
+    qc.setQueryData<ArticlePresence[]>(['presence'], [{ articleId: 1, entries: [] }, { articleId: 2, entries: [entry] }]);
+
+    applyRealtimeEvent(qc, { type: 'article.presence', presence: { articleId: 1, entries: [entry] } });
+    applyRealtimeEvent(qc, { type: 'article.presence', presence: { articleId: 2, entries: [] } });
+    expect(qc.getQueryData<ArticlePresence[]>(['presence'])).toEqual([{ articleId: 1, entries: [entry] }]);
+  });
+});
+
+describe('realtimeEventSchema', () => {
+  it('parses a pushed event and rejects unknown types', () => {
+    const event = realtimeEventSchema.parse({ type: 'article.deleted', id: '4', actor: marc });
+    expect(event).toEqual({ type: 'article.deleted', id: 4, actor: marc });
+    expect(realtimeEventSchema.safeParse({ type: 'article.liked', id: 4 }).success).toBe(false);
+  });
+});
+
+// ── mock backend channel ─────────────────────────────────────────────────────
+
+describe('mock backend – events', () => {
+  let db: MockDb;
+  let events: RealtimeEvent[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    db = installMockBackend();
+    events = [];
+    unsubscribe = mockEvents.subscribe(event => events.push(event));
+  });
+  afterEach(() => {
+    unsubscribe();
+    uninstallMockBackend();
+    vi.useRealTimers();
+  });
+
+  it('publishes status changes with their author', async () => {
+    await signInAs('editeur@taram.fr');
+    const draft = db.articles.find(a => a.status === 'draft')!;
+    await patchArticleStatus(draft.id, 'in_review');
+    expect(events).toEqual([
+      expect.objectContaining({ type: 'article.status_changed', previousStatus: 'draft', actor: marc }),
+    ]);
+  });
+
+  it('pushes the delivery of a notification once it is sent', async () => {
+    await signInAs('editeur@taram.fr');
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    const published = db.articles.find(a => a.status === 'published')!;
+    await notifyArticle(published.id);
+    expect(db.notifications[db.notifications.length - 1].status).toBe('pending');
+
+    vi.runAllTimers();
+    expect(events[events.length - 1]).toMatchObject({ type: 'notification.status', notification: { status: 'sent' } });
+  });
+});
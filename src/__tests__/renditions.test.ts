@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FULL_FRAME,
+  cropError,
+  focalObjectPosition,
+  networkRenditions,
+  normalizeCrop,
+  renditionImageStyle,
+  renditionRect,
+} from '../services/renditions';
+import type { ImageCrop } from '../types';
+
+/** A 3:2 landscape photo */
+const LANDSCAPE = 3 / 2;
+
+const close = (rect: { x: number; y: number; width: number; height: number }) => ({
+  x:      expect.closeTo(rect.x, 6),
+  y:      expect.closeTo(rect.y, 6),
+  width:  expect.closeTo(rect.width, 6),
+  height: expect.closeTo(rect.height, 6),
+});
+
+describe('renditionRect', () => {
+  it('cuts the largest area of the format, centred by default', () => {
+    // 9/16 of the width, in a photo 2/3 as high as wide
+    expect(renditionRect(null, '16:9', LANDSCAPE)).toEqual(close({ x: 0, y: 0.078125, width: 1, height: 0.84375 }));
+    expect(renditionRect(null, '1:1', LANDSCAPE)).toEqual(close({ x: 1 / 6, y: 0, width: 2 / 3, height: 1 }));
+  });
+
+  it('follows the focal point, without leaving the image', () => {
+    const face = { ...FULL_FRAME, focalX: 0.2, focalY: 0.3 };
+    // A square two thirds wide, as far left as the image allows
+    expect(renditionRect(face, '1:1', LANDSCAPE)).toEqual(close({ x: 0, y: 0, width: 2 / 3, height: 1 }));
+    expect(renditionRect({ ...face, focalX: 0.6 }, '1:1', LANDSCAPE).x).toBeCloseTo(0.6 - 1 / 3);
+    expect(renditionRect({ ...face, focalX: 0.6 }, '4:5', LANDSCAPE).width).toBeCloseTo(0.8 / 1.5);
+  });
+
+  it('stays inside the area kept', () => {
+    const crop: ImageCrop = { x: 0.5, y: 0.25, width: 0.5, height: 0.5, focalX: 0.55, focalY: 0.7 };
+    const rect = renditionRect(crop, '16:9', LANDSCAPE);
+    expect(rect.width).toBeCloseTo(0.5);
+    expect(rect.x).toBeCloseTo(0.5);
+    expect(rect.y + rect.height).toBeLessThanOrEqual(0.75 + 1e-9);
+    expect(rect.y).toBeGreaterThanOrEqual(0.25);
+  });
+});
+
+describe('framing', () => {
+  it('keeps the area in the image and the focal point in the area', () => {
+    expect(normalizeCrop({ x: -0.1, y: 0.5, width: 0.5, height: 0.8, focalX: 0.9, focalY: 0.2 }))
+      .toEqual({ x: 0, y: 0.5, width: 0.5, height: 0.5, focalX: 0.5, focalY: 0.5 });
+  });
+
+  it('explains what is wrong with a framing', () => {
+    expect(cropError(FULL_FRAME)).toBeNull();
+    expect(cropError({ ...FULL_FRAME, x: 0.5 })).toMatch(/hors de l’image/);
+    expect(cropError({ ...FULL_FRAME, width: 0.4, focalX: 0.8 })).toMatch(/point focal/i);
+    expect(cropError({ ...FULL_FRAME, focalY: Number.NaN })).toMatch(/entre 0 et 1/);
+  });
+
+  it('positions an image so that a rendition shows exactly its area', () => {
+    expect(renditionImageStyle({ x: 0.25, y: 0, width: 0.5, height: 1 }))
+      .toMatchObject({ width: '200%', height: '100%', left: '-50%', top: '0%' });
+    expect(focalObjectPosition({ ...FULL_FRAME, focalX: 0.2, focalY: 0.35 })).toBe('20% 35%');
+    expect(focalObjectPosition(null)).toBe('50% 50%');
+  });
+
+  it('previews the formats of the network, every one when it names none', () => {
+    expect(networkRenditions({ renditions: ['4:5', '16:9'] })).toEqual(['16:9', '4:5']);
+    expect(networkRenditions({})).toEqual(['16:9', '1:1', '4:5']);
+    expect(networkRenditions(undefined)).toEqual(['16:9', '1:1', '4:5']);
+  });
+});
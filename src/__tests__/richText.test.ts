@@ -0,0 +1,271 @@
+import { describe, it, expect } from 'vitest';
+import {
+  activeFormat,
+  adjacentCell,
+  collapsed,
+  createTable,
+  deleteRange,
+  domPoint,
+  editTable,
+  insertBlocksAfter,
+  insertFragment,
+  insertText,
+  parseHtml,
+  readDocument,
+  removeLink,
+  renderDocument,
+  setLink,
+  toEditingHtml,
+  toggleFormat,
+  toggleMark,
+  toHtml,
+  type DocRange,
+  type TableBlock,
+} from '../services/richText';
+import { UndoHistory, MERGE_DELAY_MS } from '../services/undoHistory';
+
+const normalize = (html: string) => toHtml(parseHtml(html));
+
+const range = (block: number, start: number, end = start, endBlock = block): DocRange =>
+  ({ start: { block, offset: start }, end: { block: endBlock, offset: end } });
+
+const FIGURE = '<figure><img src="/media/paris.jpg" alt="Paris" data-media-id="1"><figcaption>La Seine – © AFP</figcaption></figure>';
+
+describe('reading and writing HTML', () => {
+  it('keeps normalised content as it is', () => {
+    const html = '<p>Le <strong>budget</strong> est <a href="https://taram.fr">voté</a>.</p>'
+      + "<h2>Ce qu'il faut retenir</h2><ul><li>Un calendrier</li><li>Des financements</li></ul>"
+      + '<blockquote><p>Une étape</p></blockquote>' + FIGURE;
+    expect(normalize(html)).toBe(html);
+  });
+
+  it('writes what browsers produce in one form', () => {
+    expect(normalize('Texte libre<div><b>gras</b> et <i>italique</i></div>'))
+      .toBe('<p>Texte libre</p><p><strong>gras</strong> et <em>italique</em></p>');
+    expect(normalize('<p><span style="color: red">rouge</span><br></p><p><br></p>')).toBe('<p>rouge</p>');
+    expect(normalize('<blockquote>Une citation</blockquote>')).toBe('<blockquote><p>Une citation</p></blockquote>');
+    expect(normalize('<ul><li><p>Un</p></li><li>Deux</li></ul>')).toBe('<ul><li>Un</li><li>Deux</li></ul>');
+  });
+
+  it('nests marks always in the same order, sharing their elements', () => {
+    expect(normalize('<p><em><strong>très</strong></em><strong> bien</strong></p>'))
+      .toBe('<p><strong><em>très</em> bien</strong></p>');
+    expect(normalize('<p><a href="/a">un </a><a href="/a"><u>lien</u></a></p>')).toBe('<p><a href="/a">un <u>lien</u></a></p>');
+  });
+
+  it('keeps line breaks, and shows empty blocks while editing', () => {
+    const doc = parseHtml('<p>Ligne<br>suivante</p><p></p>');
+    expect(toHtml(doc)).toBe('<p>Ligne<br>suivante</p>');
+    expect(toEditingHtml(doc)).toBe('<p>Ligne<br>suivante</p><p><br></p>');
+  });
+
+  it('keeps headings, rules, code, pull-quotes, callouts and tables', () => {
+    const html = '<h4>Détail</h4><hr><pre><code>const a = 1;\n  return a;</code></pre>'
+      + '<blockquote class="pullquote"><p>Une phrase forte</p></blockquote>'
+      + '<div class="callout callout-warning"><p>Attention</p><p>Deux lignes</p></div>'
+      + '<table><thead><tr><th>Ville</th><th>Budget</th></tr></thead>'
+      + '<tbody><tr><td>Paris</td><td><strong>12</strong> M€</td></tr></tbody></table>';
+    expect(normalize(html)).toBe(html);
+    expect(parseHtml(html).map(block => block.type))
+      .toEqual(['heading4', 'rule', 'code', 'pullquote', 'callout-warning', 'callout-warning', 'table']);
+  });
+
+  it('writes other tables and code in one form', () => {
+    expect(normalize('<table><tr><td>A</td></tr><tr><td><p>B</p><p>C</p></td><td>D</td></tr></table>'))
+      .toBe('<table><tbody><tr><td>A</td><td></td></tr><tr><td>B<br>C</td><td>D</td></tr></tbody></table>');
+    expect(normalize('<pre>un <b>deux</b></pre><h6>Petit</h6>')).toBe('<pre><code>un deux</code></pre><h4>Petit</h4>');
+    expect(normalize('<div class="callout">Sans ton</div>')).toBe('<div class="callout callout-info"><p>Sans ton</p></div>');
+  });
+
+  it('drops scripts and keeps the text of unknown markup', () => {
+    expect(normalize('<p>Un <font face="Arial">texte</font></p><script>alert(1)</script>')).toBe('<p>Un texte</p>');
+  });
+
+  it('keeps only safe URLs in links and images', () => {
+    expect(normalize('<p><a href="javascript:alert(1)">lien</a></p><img src="javascript:alert(1)" alt="">')).toBe('<p>lien</p>');
+  });
+});
+
+describe('positions', () => {
+  it('finds DOM positions in the document, and back', () => {
+    const root = document.createElement('div');
+    root.append(renderDocument(parseHtml('<p>Le <em>budget</em></p><ul><li>Un</li><li>Deux</li></ul>'), true));
+    const em   = root.querySelector('em')!.firstChild!;
+    const item = root.querySelectorAll('li')[1].firstChild!;
+    const { positions } = readDocument(root, [{ node: em, offset: 2 }, { node: item, offset: 4 }]);
+    expect(positions).toEqual([{ block: 0, offset: 5 }, { block: 2, offset: 4 }]);
+    expect(domPoint(root, { block: 2, offset: 4 })).toEqual({ node: item, offset: 4 });
+  });
+
+  it('finds positions in table cells', () => {
+    const root = document.createElement('div');
+    root.append(renderDocument(parseHtml('<p>Avant</p><table><tr><td>Un</td><td>Deux</td></tr></table>'), true));
+    const text = root.querySelectorAll('td')[1].firstChild!;
+    const position = { block: 1, offset: 3, cell: { row: 0, column: 1 } };
+    expect(readDocument(root, [{ node: text, offset: 3 }]).positions).toEqual([position]);
+    expect(domPoint(root, position)).toEqual({ node: text, offset: 3 });
+  });
+
+  it('places a position in an empty block before its placeholder', () => {
+    const root = document.createElement('div');
+    root.append(renderDocument(parseHtml('<p>Un</p><p></p>'), true));
+    const empty = root.children[1];
+    expect(domPoint(root, { block: 1, offset: 0 })).toEqual({ node: empty, offset: 0 });
+    expect(readDocument(root, [{ node: empty, offset: 0 }]).positions).toEqual([{ block: 1, offset: 0 }]);
+  });
+});
+
+describe('editing commands', () => {
+  const doc = parseHtml('<p>Le budget est voté.</p><p>Suite</p>');
+
+  it('sets a mark on the selection, and removes it when all of it has it', () => {
+    const bold = toggleMark(doc, range(0, 3, 9), 'bold').doc;
+    expect(toHtml(bold)).toBe('<p>Le <strong>budget</strong> est voté.</p><p>Suite</p>');
+    expect(activeFormat(bold, range(0, 3, 9)).marks).toEqual({ bold: true });
+    expect(activeFormat(bold, range(0, 5)).marks).toEqual({ bold: true });
+    expect(toHtml(toggleMark(bold, range(0, 0, 9), 'bold').doc)).toBe('<p><strong>Le budget</strong> est voté.</p><p>Suite</p>');
+    expect(toHtml(toggleMark(bold, range(0, 3, 9), 'bold').doc)).toBe(toHtml(doc));
+  });
+
+  it('marks text across blocks', () => {
+    expect(toHtml(toggleMark(doc, range(0, 14, 3, 1), 'italic').doc))
+      .toBe('<p>Le budget est <em>voté.</em></p><p><em>Sui</em>te</p>');
+  });
+
+  it('adds links, and removes the whole link under the caret', () => {
+    const linked = setLink(doc, range(0, 3, 9), 'https://taram.fr').doc;
+    expect(toHtml(linked)).toBe('<p>Le <a href="https://taram.fr">budget</a> est voté.</p><p>Suite</p>');
+    expect(activeFormat(linked, range(0, 4)).marks.link).toBe('https://taram.fr');
+    expect(toHtml(removeLink(linked, range(0, 5)).doc)).toBe(toHtml(doc));
+  });
+
+  it('turns blocks into list items, and back into paragraphs', () => {
+    const list = toggleFormat(doc, range(0, 0, 2, 1), 'bulleted').doc;
+    expect(toHtml(list)).toBe('<ul><li>Le budget est voté.</li><li>Suite</li></ul>');
+    expect(activeFormat(list, range(1, 0)).format).toBe('bulleted');
+    expect(toHtml(toggleFormat(list, range(1, 0), 'bulleted').doc)).toBe('<ul><li>Le budget est voté.</li></ul><p>Suite</p>');
+  });
+
+  it('types with the marks chosen at the caret', () => {
+    const edit = insertText(doc, { block: 1, offset: 5 }, ' et fin', { bold: true });
+    expect(toHtml(edit.doc)).toBe('<p>Le budget est voté.</p><p>Suite<strong> et fin</strong></p>');
+    expect(edit.range).toEqual(collapsed({ block: 1, offset: 12 }));
+  });
+
+  it('inserts images after the block, or after the list holding the caret', () => {
+    const figure = parseHtml(FIGURE);
+    expect(toHtml(insertBlocksAfter(doc, 0, figure).doc)).toBe(`<p>Le budget est voté.</p>${FIGURE}<p>Suite</p>`);
+    const list = parseHtml('<ul><li>Un</li><li>Deux</li></ul><p>Fin</p>');
+    expect(toHtml(insertBlocksAfter(list, 0, figure).doc)).toBe(`<ul><li>Un</li><li>Deux</li></ul>${FIGURE}<p>Fin</p>`);
+    expect(toHtml(insertBlocksAfter([], -1, figure).doc)).toBe(FIGURE);
+  });
+
+  it('merges paragraphs into a block of code, and splits it back', () => {
+    const code = toggleFormat(parseHtml('<p>a = <b>1</b></p><p>b = 2</p>'), range(0, 0, 1, 1), 'code').doc;
+    expect(toHtml(code)).toBe('<pre><code>a = 1\nb = 2</code></pre>');
+    expect(toHtml(toggleFormat(code, range(0, 2), 'code').doc)).toBe('<p>a = 1</p><p>b = 2</p>');
+    expect(toHtml(toggleFormat(doc, range(1, 0), 'callout-success').doc))
+      .toBe('<p>Le budget est voté.</p><div class="callout callout-success"><p>Suite</p></div>');
+  });
+
+  it('puts text to write on after a rule', () => {
+    const edit = insertBlocksAfter(doc, 1, [{ type: 'rule' }]);
+    expect(toHtml(edit.doc)).toBe('<p>Le budget est voté.</p><p>Suite</p><hr>');
+    expect(edit.doc).toHaveLength(4);
+    expect(edit.range).toEqual(collapsed({ block: 3, offset: 0 }));
+    expect(insertBlocksAfter(doc, 0, [{ type: 'rule' }]).range).toEqual(collapsed({ block: 2, offset: 0 }));
+  });
+});
+
+describe('pasting', () => {
+  const doc = parseHtml('<p>Le budget est voté.</p><p>Suite</p>');
+
+  it('deletes a selection across blocks, joining them', () => {
+    const edit = deleteRange(doc, range(0, 3, 2, 1));
+    expect(toHtml(edit.doc)).toBe('<p>Le ite</p>');
+    expect(edit.range).toEqual(collapsed({ block: 0, offset: 3 }));
+    const figure = parseHtml(`<p>Avant</p>${FIGURE}<p>Après</p>`);
+    expect(toHtml(deleteRange(figure, range(1, 0, 1)).doc)).toBe('<p>Avant</p><p>Après</p>');
+  });
+
+  it('pastes text in the block at the caret', () => {
+    const edit = insertFragment(doc, range(0, 3, 9), parseHtml('<p><em>projet</em></p>'));
+    expect(toHtml(edit.doc)).toBe('<p>Le <em>projet</em> est voté.</p><p>Suite</p>');
+    expect(edit.range).toEqual(collapsed({ block: 0, offset: 9 }));
+  });
+
+  it('splits the block around pasted blocks', () => {
+    const edit = insertFragment(doc, range(0, 9), parseHtml(`<p> 2025</p>${FIGURE}<h2>Détail</h2>`));
+    expect(toHtml(edit.doc)).toBe(`<p>Le budget 2025</p>${FIGURE}<h2>Détail est voté.</h2><p>Suite</p>`);
+    expect(edit.range).toEqual(collapsed({ block: 2, offset: 6 }));
+    const empty = insertFragment(parseHtml('<p></p>'), range(0, 0), parseHtml('<h3>Un</h3><p>Deux</p>'));
+    expect(toHtml(empty.doc)).toBe('<h3>Un</h3><p>Deux</p>');
+  });
+
+  it('pastes blocks in a cell as lines of it', () => {
+    const table = parseHtml('<table><tr><td>A</td></tr></table>');
+    const at = { block: 0, offset: 1, cell: { row: 0, column: 0 } };
+    expect(toHtml(insertFragment(table, collapsed(at), parseHtml('<p>B</p><p>C</p>')).doc))
+      .toBe('<table><tbody><tr><td>AB<br>C</td></tr></tbody></table>');
+  });
+});
+
+describe('tables', () => {
+  const inserted = insertBlocksAfter(parseHtml('<p>Intro</p>'), 0, [createTable(2, 2)]);
+  const cell = (row: number, column: number, offset = 0) => ({ block: 1, offset, cell: { row, column } });
+
+  it('puts the caret in the first cell of a new table, typing in it', () => {
+    expect(inserted.range).toEqual(collapsed(cell(0, 0)));
+    const typed = insertText(inserted.doc, cell(0, 0), 'Ville', {});
+    expect(toHtml(typed.doc)).toBe('<p>Intro</p><table><thead><tr><th>Ville</th><th></th></tr></thead>'
+      + '<tbody><tr><td></td><td></td></tr></tbody></table>');
+    expect(typed.range).toEqual(collapsed(cell(0, 0, 5)));
+    expect(activeFormat(typed.doc, typed.range)).toEqual({ marks: {}, format: null, cell: { row: 0, column: 0 } });
+    expect(toHtml(toggleMark(typed.doc, { start: cell(0, 0, 0), end: cell(0, 0, 5) }, 'bold').doc))
+      .toContain('<th><strong>Ville</strong></th>');
+  });
+
+  it('adds and removes rows and columns around the caret', () => {
+    const rows = editTable(inserted.doc, cell(1, 1), 'rowAbove');
+    expect(rows.range).toEqual(collapsed(cell(1, 1)));
+    const columns = editTable(rows.doc, cell(0, 0), 'columnAfter').doc;
+    expect(toHtml(columns)).toBe('<p>Intro</p><table><thead><tr><th></th><th></th><th></th></tr></thead>'
+      + '<tbody><tr><td></td><td></td><td></td></tr><tr><td></td><td></td><td></td></tr></tbody></table>');
+    expect(toHtml(editTable(columns, cell(0, 0), 'toggleHeader').doc)).not.toContain('<th>');
+    const fewer = editTable(editTable(columns, cell(2, 2), 'deleteRow').doc, cell(1, 2), 'deleteColumn');
+    expect(fewer.range).toEqual(collapsed(cell(1, 1)));
+    expect((fewer.doc[1] as TableBlock).rows).toEqual([[[], []], [[], []]]);
+    expect(toHtml(editTable(inserted.doc, cell(0, 0), 'deleteTable').doc)).toBe('<p>Intro</p>');
+  });
+
+  it('moves from cell to cell', () => {
+    expect(adjacentCell(inserted.doc, cell(0, 1), 1)).toEqual(cell(1, 0));
+    expect(adjacentCell(inserted.doc, cell(0, 0), -1)).toBeNull();
+    expect(adjacentCell(inserted.doc, cell(1, 1), 1)).toBeNull();
+  });
+});
+
+describe('UndoHistory', () => {
+  it('undoes and redoes steps, forgetting the undone ones on a new change', () => {
+    const history = new UndoHistory('a');
+    history.push('b');
+    history.push('c');
+    expect(history.undo()).toBe('b');
+    expect(history.undo()).toBe('a');
+    expect(history.undo()).toBeNull();
+    expect(history.redo()).toBe('b');
+    history.push('d');
+    expect(history.canRedo).toBe(false);
+    expect(history.undo()).toBe('b');
+  });
+
+  it('undoes a burst of typing in one step', () => {
+    const history = new UndoHistory('');
+    history.push('L',   'typing', 0);
+    history.push('Le',  'typing', 300);
+    history.push('Le ', 'typing', 600);
+    history.push('Le b', 'typing', 600 + MERGE_DELAY_MS);
+    expect(history.undo()).toBe('Le ');
+    expect(history.undo()).toBe('');
+  });
+});
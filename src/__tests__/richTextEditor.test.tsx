@@ -114,11 +114,11 @@ describe('RichTextEditor – toolbar buttons', () => {
     expect(screen.getByRole('button', { name: 'Supprimer le lien' })).toBeInTheDocument();
   });
 
-  it('renders exactly 8 toolbar buttons', () => {
+  it('renders exactly 14 toolbar buttons', () => {
     renderEditor();
-    // Bold, Italic, Underline, Bullet, Numbered, Quote, Insert link, Remove link
+    // Undo, Redo, Bold, Italic, Underline, Paragraph style, Bullet, Numbered, Quote, Rule, Table, Insert link, Remove link, Markdown source
     const buttons = screen.getAllByRole('button');
-    expect(buttons).toHaveLength(8);
+    expect(buttons).toHaveLength(14);
   });
 });
 
@@ -141,7 +141,8 @@ describe('RichTextEditor – onChange', () => {
     const editor = screen.getByRole('textbox');
     editor.innerHTML = '<strong>Bold text</strong>';
     fireEvent.input(editor);
-    expect(onChange).toHaveBeenCalledWith('<strong>Bold text</strong>');
+    // Text typed outside any block goes into a paragraph
+    expect(onChange).toHaveBeenCalledWith('<p><strong>Bold text</strong></p>');
   });
 
   it('does not call onChange when disabled', () => {
@@ -157,6 +158,234 @@ describe('RichTextEditor – onChange', () => {
   });
 });
 
+// ── Document model ────────────────────────────────────────────────────────────
+
+function select(node: Node, start: number, end = start) {
+  const range = document.createRange();
+  range.setStart(node, start);
+  range.setEnd(node, end);
+  window.getSelection()!.removeAllRanges();
+  window.getSelection()!.addRange(range);
+  fireEvent(document, new Event('selectionchange'));
+}
+
+describe('RichTextEditor – document model', () => {
+  it('formats the selection and shows the marks active at the cursor', () => {
+    const onChange = vi.fn();
+    renderEditor({ value: '<p>Le budget est voté.</p>', onChange });
+    const editor = screen.getByRole('textbox');
+    const bold   = screen.getByRole('button', { name: 'Gras' });
+    select(editor.querySelector('p')!.firstChild!, 3, 9);
+    expect(bold).toHaveAttribute('aria-pressed', 'false');
+
+    fireEvent.mouseDown(bold);
+    expect(onChange).toHaveBeenLastCalledWith('<p>Le <strong>budget</strong> est voté.</p>');
+    select(editor.querySelector('strong')!.firstChild!, 2);
+    expect(bold).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('button', { name: 'Italique' })).toHaveAttribute('aria-pressed', 'false');
+  });
+
+  it('turns paragraphs into a list', () => {
+    const onChange = vi.fn();
+    renderEditor({ value: '<p>Un</p><p>Deux</p>', onChange });
+    const [first, second] = screen.getByRole('textbox').querySelectorAll('p');
+    const range = document.createRange();
+    range.setStart(first.firstChild!, 0);
+    range.setEnd(second.firstChild!, 2);
+    window.getSelection()!.removeAllRanges();
+    window.getSelection()!.addRange(range);
+
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Liste numérotée' }));
+    expect(onChange).toHaveBeenLastCalledWith('<ol><li>Un</li><li>Deux</li></ol>');
+    expect(screen.getByRole('button', { name: 'Liste numérotée' })).toHaveAttribute('aria-pressed', 'true');
+  });
+
+  it('rewrites the markup the browser produced into the normalised one', () => {
+    const onChange = vi.fn();
+    renderEditor({ onChange });
+    const editor = screen.getByRole('textbox');
+    editor.innerHTML = '<div><b>Titre</b></div><div><span style="font-size: 12px">Texte</span><br></div>';
+    fireEvent.input(editor);
+    expect(editor.innerHTML).toBe('<p><strong>Titre</strong></p><p>Texte</p>');
+    expect(onChange).toHaveBeenLastCalledWith('<p><strong>Titre</strong></p><p>Texte</p>');
+  });
+
+  it('undoes and redoes changes, from the toolbar and the keyboard', () => {
+    const onChange = vi.fn();
+    renderEditor({ value: '<p>Le budget</p>', onChange });
+    const editor = screen.getByRole('textbox');
+    const undo   = screen.getByRole('button', { name: 'Annuler' });
+    const redo   = screen.getByRole('button', { name: 'Rétablir' });
+    expect(undo).toBeDisabled();
+
+    editor.innerHTML = '<p>Le budget 2025</p>';
+    fireEvent.input(editor);
+    select(editor.querySelector('p')!.firstChild!, 0, 2);
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Italique' }));
+    expect(editor.innerHTML).toBe('<p><em>Le</em> budget 2025</p>');
+
+    fireEvent.mouseDown(undo);
+    expect(editor.innerHTML).toBe('<p>Le budget 2025</p>');
+    fireEvent.keyDown(editor, { key: 'z', ctrlKey: true });
+    expect(editor.innerHTML).toBe('<p>Le budget</p>');
+    expect(onChange).toHaveBeenLastCalledWith('<p>Le budget</p>');
+    expect(undo).toBeDisabled();
+
+    fireEvent.mouseDown(redo);
+    fireEvent.keyDown(editor, { key: 'z', ctrlKey: true, shiftKey: true });
+    expect(editor.innerHTML).toBe('<p><em>Le</em> budget 2025</p>');
+    expect(redo).toBeDisabled();
+  });
+
+  it('types with a mark chosen at the caret', () => {
+    const onChange = vi.fn();
+    renderEditor({ value: '<p>Le budget</p>', onChange });
+    const editor = screen.getByRole('textbox');
+    select(editor.querySelector('p')!.firstChild!, 9);
+    fireEvent.keyDown(editor, { key: 'b', ctrlKey: true });
+    expect(screen.getByRole('button', { name: 'Gras' })).toHaveAttribute('aria-pressed', 'true');
+
+    const typed = new InputEvent('beforeinput', { inputType: 'insertText', data: ' voté', bubbles: true, cancelable: true });
+    editor.dispatchEvent(typed);
+    expect(typed.defaultPrevented).toBe(true);
+    expect(onChange).toHaveBeenLastCalledWith('<p>Le budget<strong> voté</strong></p>');
+  });
+});
+
+describe('RichTextEditor – blocks and tables', () => {
+  it('styles paragraphs from the menu', () => {
+    const onChange = vi.fn();
+    renderEditor({ value: '<p>Attention</p><p>Suite</p>', onChange });
+    const editor = screen.getByRole('textbox');
+    select(editor.querySelector('p')!.firstChild!, 2);
+
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Style du paragraphe' }));
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Encadré attention' }));
+    expect(onChange).toHaveBeenLastCalledWith('<div class="callout callout-warning"><p>Attention</p></div><p>Suite</p>');
+
+    select(editor.querySelectorAll('p')[1].firstChild!, 0);
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Style du paragraphe' }));
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Titre 4' }));
+    expect(onChange).toHaveBeenLastCalledWith('<div class="callout callout-warning"><p>Attention</p></div><h4>Suite</h4>');
+  });
+
+  it('inserts a table, edits its columns and moves between its cells', () => {
+    const onChange = vi.fn();
+    renderEditor({ value: '<p>Intro</p>', onChange });
+    const editor = screen.getByRole('textbox');
+    select(editor.querySelector('p')!.firstChild!, 5);
+    expect(screen.queryByRole('button', { name: 'Modifier le tableau' })).not.toBeInTheDocument();
+
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Insérer un tableau' }));
+    expect(editor.querySelectorAll('th')).toHaveLength(3);
+    expect(editor.querySelectorAll('td')).toHaveLength(6);
+
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Modifier le tableau' }));
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Insérer une colonne à droite' }));
+    expect(editor.querySelectorAll('th')).toHaveLength(4);
+
+    fireEvent.keyDown(editor, { key: 'Tab' });
+    expect(window.getSelection()!.anchorNode).toBe(editor.querySelectorAll('th')[2]);
+    fireEvent.keyDown(editor, { key: 'Tab', shiftKey: true });
+    expect(window.getSelection()!.anchorNode).toBe(editor.querySelectorAll('th')[1]);
+  });
+
+  it('adds a rule, and keeps new lines inside a block of code', () => {
+    const onChange = vi.fn();
+    renderEditor({ value: '<pre><code>let a;</code></pre>', onChange });
+    const editor = screen.getByRole('textbox');
+    select(editor.querySelector('code')!.firstChild!, 6);
+
+    const enter = new InputEvent('beforeinput', { inputType: 'insertParagraph', bubbles: true, cancelable: true });
+    editor.dispatchEvent(enter);
+    expect(enter.defaultPrevented).toBe(true);
+    expect(onChange).toHaveBeenLastCalledWith('<pre><code>let a;\n</code></pre>');
+
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Ligne de séparation' }));
+    expect(onChange).toHaveBeenLastCalledWith('<pre><code>let a;\n</code></pre><hr>');
+    expect(editor.innerHTML).toBe('<pre><code>let a;\n<br></code></pre><hr><p><br></p>');
+  });
+});
+
+describe('RichTextEditor – pasting', () => {
+  it('pastes HTML cleaned into the supported elements', () => {
+    const onChange = vi.fn();
+    renderEditor({ value: '<p>Le budget</p>', onChange });
+    const editor = screen.getByRole('textbox');
+    select(editor.querySelector('p')!.firstChild!, 9);
+
+    const html = '<span style="font-weight:700" onclick="alert(1)">2025</span><script>alert(1)</script>'
+      + '<p><a href="javascript:alert(1)">voté</a></p>';
+    const pasted = fireEvent.paste(editor, { clipboardData: { getData: (type: string) => (type === 'text/html' ? html : '') } });
+    expect(pasted).toBe(false);
+    expect(onChange).toHaveBeenLastCalledWith('<p>Le budget<strong>2025</strong></p><p>voté</p>');
+  });
+});
+
+describe('RichTextEditor – Markdown', () => {
+  const type = (editor: HTMLElement, data: string) => {
+    const typed = new InputEvent('beforeinput', { inputType: 'insertText', data, bubbles: true, cancelable: true });
+    editor.dispatchEvent(typed);
+    return typed;
+  };
+
+  it('formats Markdown as it is typed, undone back to the Markdown', () => {
+    const onChange = vi.fn();
+    renderEditor({ value: '<p>##</p><p>Le **budget*</p>', onChange });
+    const editor = screen.getByRole('textbox');
+    select(editor.querySelector('p')!.firstChild!, 2);
+    expect(type(editor, ' ').defaultPrevented).toBe(true);
+    expect(onChange).toHaveBeenLastCalledWith('<p>Le **budget*</p>');
+    expect(editor.querySelector('h2')).toBeInTheDocument();
+
+    select(editor.querySelector('p')!.firstChild!, 12);
+    type(editor, '*');
+    expect(onChange).toHaveBeenLastCalledWith('<p>Le <strong>budget</strong></p>');
+    // Past the emphasis, text is typed without it
+    type(editor, ' voté');
+    expect(onChange).toHaveBeenLastCalledWith('<p>Le <strong>budget</strong> voté</p>');
+
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Annuler' }));
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Annuler' }));
+    expect(onChange).toHaveBeenLastCalledWith('<p>Le **budget**</p>');
+    expect(type(editor, 'x').defaultPrevented).toBe(false);
+  });
+
+  it('edits the content as Markdown in the source view', () => {
+    const onChange = vi.fn();
+    renderEditor({ value: '<h2>Titre</h2><p>Du <strong>gras</strong></p>', onChange });
+    const toggle = screen.getByRole('button', { name: 'Source Markdown' });
+    fireEvent.mouseDown(toggle);
+    expect(toggle).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('button', { name: 'Gras' })).toBeDisabled();
+
+    const source = screen.getByRole('textbox', { name: 'Source Markdown' });
+    expect(source).toHaveValue('## Titre\n\nDu **gras**\n');
+    fireEvent.change(source, { target: { value: '## Titre\n\nDu **gras**\n\n- Un point\n' } });
+    expect(onChange).toHaveBeenLastCalledWith('<h2>Titre</h2><p>Du <strong>gras</strong></p><ul><li>Un point</li></ul>');
+
+    fireEvent.keyDown(source, { key: 'z', ctrlKey: true });
+    expect(source).toHaveValue('## Titre\n\nDu **gras**\n');
+
+    fireEvent.mouseDown(toggle);
+    expect(screen.queryByRole('textbox', { name: 'Source Markdown' })).not.toBeInTheDocument();
+    expect(screen.getByRole('textbox').innerHTML).toBe('<h2>Titre</h2><p>Du <strong>gras</strong></p>');
+  });
+
+  it('pastes Markdown text formatted', () => {
+    const onChange = vi.fn();
+    renderEditor({ value: '<p>Intro</p><p><br></p>', onChange });
+    const editor = screen.getByRole('textbox');
+    select(editor.querySelectorAll('p')[1], 0);
+
+    const text = '## Titre\n\n- Un **point**';
+    const html = '<div><span>## Titre</span></div><div><br></div><div><span>- Un **point**</span></div>';
+    const pasted = fireEvent.paste(editor, { clipboardData: { getData: (type: string) => (type === 'text/plain' ? text : html) } });
+    expect(pasted).toBe(false);
+    expect(onChange).toHaveBeenLastCalledWith('<p>Intro</p><h2>Titre</h2><ul><li>Un <strong>point</strong></li></ul>');
+  });
+});
+
 // ── External value sync ───────────────────────────────────────────────────────
 
 describe('RichTextEditor – external value sync', () => {
@@ -198,3 +427,76 @@ describe('RichTextEditor – external value sync', () => {
     expect(editor.innerHTML).toBe('<p>Same</p>');
   });
 });
+
+// ── Co-editing ────────────────────────────────────────────────────────────────
+
+describe('RichTextEditor – co-editing', () => {
+  it("keeps the caret in place when another editor's change comes in", () => {
+    const { container, rerender } = render(
+      <ThemeProvider theme={theme}>
+        <RichTextEditor value="<p>Le budget</p>" onChange={vi.fn()} />
+      </ThemeProvider>,
+    );
+    const editor = container.querySelector('[contenteditable]') as HTMLElement;
+    const range  = document.createRange();
+    range.setStart(editor.querySelector('p')!.firstChild!, 7);
+    window.getSelection()!.removeAllRanges();
+    window.getSelection()!.addRange(range);
+
+    rerender(
+      <ThemeProvider theme={theme}>
+        <RichTextEditor value="<p>Le grand budget</p>" onChange={vi.fn()} />
+      </ThemeProvider>,
+    );
+    const caret = window.getSelection()!.getRangeAt(0);
+    expect(caret.startContainer.textContent?.slice(0, caret.startOffset)).toBe('Le grand budg');
+  });
+
+  it("labels the other editors' carets with their name", () => {
+    renderEditor({
+      value:   '<p>Le budget</p>',
+      cursors: [{ id: 'b', label: 'Sophie Bernard', color: '#26A69A', start: 9, end: 9 }],
+    });
+    expect(screen.getByText('Sophie Bernard')).toBeInTheDocument();
+  });
+
+  it('reports the caret in text offsets', () => {
+    const onSelectionChange = vi.fn();
+    renderEditor({ value: '<p>Le <em>budget</em></p>', onSelectionChange });
+    const range = document.createRange();
+    range.setStart(screen.getByRole('textbox').querySelector('em')!.firstChild!, 2);
+    window.getSelection()!.removeAllRanges();
+    window.getSelection()!.addRange(range);
+    fireEvent(document, new Event('selectionchange'));
+    expect(onSelectionChange).toHaveBeenLastCalledWith({ start: 5, end: 5 });
+  });
+});
+
+// ── Comments ──────────────────────────────────────────────────────────────────
+
+describe('RichTextEditor – comments', () => {
+  it('offers to comment the selected passage, even when disabled', () => {
+    const onComment = vi.fn();
+    renderEditor({ value: '<p>Le budget est voté.</p>', onComment, disabled: true });
+    const paragraph = screen.getByRole('textbox').querySelector('p')!;
+    const range = document.createRange();
+    range.setStart(paragraph.firstChild!, 3);
+    range.setEnd(paragraph.firstChild!, 9);
+    window.getSelection()!.removeAllRanges();
+    window.getSelection()!.addRange(range);
+
+    const button = screen.getByRole('button', { name: 'Commenter la sélection' });
+    expect(button).toBeEnabled();
+    expect(screen.getByRole('button', { name: 'Gras' })).toBeDisabled();
+    fireEvent.mouseDown(button);
+    expect(onComment).toHaveBeenCalledWith({ start: 3, end: 9, quote: 'budget' });
+  });
+
+  it('leaves the content HTML untouched by highlights', () => {
+    const { container } = renderEditor({
+      value:      '<p>Le budget est voté.</p>',
+      highlights: [{ id: 1, anchor: { start: 3, end: 9, quote: 'budget' } }],
+    });
+    expect(container.querySelector('[contenteditable]')?.innerHTML).toBe('<p>Le budget est voté.</p>');
+  });
+});
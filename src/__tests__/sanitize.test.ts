@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { cleanPastedHtml, escapeHtml, safeUrl, sanitizeEmailHtml, sanitizeHtml } from '../services/sanitize';
+
+describe('sanitizeHtml', () => {
+  it('keeps what the editor writes', () => {
+    const html = '<h2>Titre</h2><p>Le <a href="https://taram.fr/a">budget</a> <strong>voté</strong></p>'
+      + '<blockquote class="pullquote"><p>Citation</p></blockquote><div class="callout callout-info"><p>Info</p></div>'
+      + '<table><thead><tr><th>A</th></tr></thead><tbody><tr><td>1</td></tr></tbody></table><hr>'
+      + '<figure><img src="data:image/png;base64,AAAA" alt="Photo" data-media-id="3"><figcaption>© AFP</figcaption></figure>';
+    expect(sanitizeHtml(html)).toBe(html);
+  });
+
+  it('removes scripts, event handlers and javascript: URLs', () => {
+    expect(sanitizeHtml('<p onclick="steal()">Texte<script>steal()</script></p><img src=x onerror="steal()">'))
+      .toBe('<p>Texte</p><img src="x">');
+    expect(sanitizeHtml('<a href="javascript:steal()">lien</a> <a href=" JaVa\tScRiPt:steal()">autre</a>'))
+      .toBe('<a>lien</a> <a>autre</a>');
+    expect(sanitizeHtml('<iframe src="https://evil.example"></iframe><style>p{}</style><p>Reste</p>')).toBe('<p>Reste</p>');
+  });
+
+  it('unwraps unknown elements, keeping their text, and drops unknown classes and styles', () => {
+    expect(sanitizeHtml('<p class="MsoNormal" style="color:red"><span>Un</span> <font>deux</font><!-- note --></p>'))
+      .toBe('<p>Un deux</p>');
+    expect(sanitizeHtml('<div class="callout evil callout-warning">Attention</div>'))
+      .toBe('<div class="callout callout-warning">Attention</div>');
+  });
+});
+
+describe('safeUrl', () => {
+  it('lets through web, mail and relative URLs only', () => {
+    expect(safeUrl('https://taram.fr')).toBe('https://taram.fr');
+    expect(safeUrl('/articles/3#suite')).toBe('/articles/3#suite');
+    expect(safeUrl('mailto:redaction@taram.fr')).toBe('mailto:redaction@taram.fr');
+    expect(safeUrl('javascript:alert(1)')).toBeNull();
+    expect(safeUrl('data:text/html,<script>alert(1)</script>')).toBeNull();
+    expect(safeUrl('data:image/png;base64,AAAA')).toBeNull();
+    expect(safeUrl('data:image/png;base64,AAAA', 'image')).toBe('data:image/png;base64,AAAA');
+  });
+});
+
+describe('cleanPastedHtml', () => {
+  it('turns Google Docs styles into marks, without its bold wrapper', () => {
+    const pasted = '<meta charset="utf-8"><b style="font-weight:normal;" id="docs-internal-guid-1">'
+      + '<p dir="ltr"><span style="font-weight:700;">Gras</span><span style="font-style:italic;"> et italique</span></p></b>';
+    expect(cleanPastedHtml(pasted)).toBe('<p><strong>Gras</strong><em> et italique</em></p>');
+  });
+
+  it("drops Word's list markers and its markup", () => {
+    const pasted = '<!--StartFragment--><p class="MsoListParagraph" style="mso-list:l0 level1 lfo1">'
+      + '<span style="mso-list:Ignore">·<span>&nbsp;&nbsp;</span></span>Premier point<o:p></o:p></p><!--EndFragment-->';
+    expect(cleanPastedHtml(pasted)).toBe('<p>Premier point</p>');
+  });
+});
+
+describe('e-mails', () => {
+  it('escapes text interpolated into HTML', () => {
+    expect(escapeHtml(`<img src=x onerror="alert('1')"> & co`)).toBe('&lt;img src=x onerror=&quot;alert(&#39;1&#39;)&quot;&gt; &amp; co');
+  });
+
+  it('keeps the layout of an e-mail, not what runs in it', () => {
+    const html = sanitizeEmailHtml('<!DOCTYPE html><html><head><title>Sujet</title><script>alert(1)</script></head>'
+      + '<body style="margin:0"><div style="max-width:600px" onmouseover="alert(1)"><h1>Titre</h1>'
+      + '<a href="javascript:alert(1)" style="color:#fff">Lire</a></div></body></html>');
+    expect(html).toContain('<title>Sujet</title>');
+    expect(html).toContain('<body style="margin:0"><div style="max-width:600px"><h1>Titre</h1><a style="color:#fff">Lire</a></div></body>');
+    expect(html).not.toMatch(/script|onmouseover|javascript/);
+  });
+});
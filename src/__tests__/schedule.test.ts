@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { formatCountdown, fromDateTimeInput, toDateTimeInput } from '../services/schedule';
+
+const NOW = new Date('2026-10-19T10:00:00Z').getTime();
+const at  = (ms: number) => new Date(NOW + ms).toISOString();
+
+const MINUTE = 60_000;
+const HOUR   = 60 * MINUTE;
+
+describe('formatCountdown', () => {
+  it('shows days and hours, hours and minutes, or minutes', () => {
+    expect(formatCountdown(at(2 * 24 * HOUR + 3 * HOUR + 20 * MINUTE), NOW)).toBe('dans 2 j 3 h');
+    expect(formatCountdown(at(24 * HOUR), NOW)).toBe('dans 1 j');
+    expect(formatCountdown(at(HOUR + 5 * MINUTE), NOW)).toBe('dans 1 h 05 min');
+    expect(formatCountdown(at(12 * MINUTE + 30_000), NOW)).toBe('dans 12 min');
+    expect(formatCountdown(at(20_000), NOW)).toBe("dans moins d'une minute");
+  });
+
+  it('reports a date already due as imminent', () => {
+    expect(formatCountdown(at(-MINUTE), NOW)).toBe('imminente');
+    expect(formatCountdown('pas une date', NOW)).toBe('');
+  });
+});
+
+describe('datetime-local conversion', () => {
+  it('round-trips an ISO date through the local input value', () => {
+    const iso   = '2026-10-20T06:30:00.000Z';
+    const input = toDateTimeInput(iso);
+    expect(input).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/);
+    expect(fromDateTimeInput(input)).toBe(iso);
+  });
+
+  it('maps empty and invalid values to nothing', () => {
+    expect(toDateTimeInput(undefined)).toBe('');
+    expect(toDateTimeInput('n/a')).toBe('');
+    expect(fromDateTimeInput('')).toBeNull();
+    expect(fromDateTimeInput('n/a')).toBeNull();
+  });
+});
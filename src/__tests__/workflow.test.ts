@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  availableTransitions,
+  bulkTransitions,
+  canTransition,
+  findTransition,
+  isWorkInProgress,
+} from '../services/workflow';
+import { can } from '../services/permissions';
+import type { ArticleStatus, AuthUser, UserRole } from '../types';
+
+// ── fixtures ─────────────────────────────────────────────────────────────────
+
+function makeUser(role: UserRole, id: number): AuthUser {
+  return { id, role, name: `User ${id}`, email: `user${id}@taram.fr` };
+}
+
+const author = makeUser('author', 1);
+const editor = makeUser('editor', 2);
+
+const article = (status: ArticleStatus, authorId = 1) => ({ status, authorId });
+
+const targets = (user: AuthUser, a: ReturnType<typeof article>) => availableTransitions(user, a).map(t => t.to);
+
+// ── tests ────────────────────────────────────────────────────────────────────
+
+describe('workflow table', () => {
+  it('never publishes an article that was not approved', () => {
+    expect(findTransition('draft', 'published')).toBeUndefined();
+    expect(findTransition('in_review', 'published')).toBeUndefined();
+    expect(findTransition('changes_requested', 'scheduled')).toBeUndefined();
+    expect(findTransition('approved', 'published')).toBeDefined();
+  });
+
+  it('requires a comment to send an article back', () => {
+    expect(findTransition('in_review', 'changes_requested')?.requiresComment).toBe(true);
+    expect(findTransition('draft', 'in_review')?.assignsReviewer).toBe(true);
+  });
+
+  it('keeps drafts and articles to correct editable', () => {
+    expect(isWorkInProgress('draft')).toBe(true);
+    expect(isWorkInProgress('changes_requested')).toBe(true);
+    expect(isWorkInProgress('in_review')).toBe(false);
+  });
+});
+
+describe('availableTransitions', () => {
+  it('lets authors submit and withdraw their own articles only', () => {
+    expect(targets(author, article('draft'))).toEqual(['in_review']);
+    expect(targets(author, article('in_review'))).toEqual(['draft']);
+    expect(targets(author, article('draft', 99))).toEqual([]);
+  });
+
+  it('lets editors review the articles of others', () => {
+    expect(targets(editor, article('in_review'))).toEqual(['approved', 'changes_requested', 'draft']);
+    expect(targets(editor, article('approved'))).toEqual(['published', 'scheduled', 'changes_requested']);
+  });
+
+  it('refuses a review by the author of the article', () => {
+    expect(canTransition(editor, article('in_review', 2), 'approved')).toBe(false);
+    expect(canTransition(editor, article('in_review', 2), 'draft')).toBe(true);
+  });
+
+  it('offers nothing without a user', () => {
+    expect(availableTransitions(null, article('draft'))).toEqual([]);
+  });
+});
+
+describe('bulkTransitions', () => {
+  it('keeps the changes allowed on every selected article', () => {
+    expect(bulkTransitions(editor, [article('approved'), article('scheduled')])).toEqual(['published']);
+    expect(bulkTransitions(editor, [article('draft'), article('published')])).toEqual(['archived']);
+  });
+
+  it('leaves changes needing a comment or a date to the article form', () => {
+    expect(bulkTransitions(editor, [article('in_review')])).toEqual(['draft', 'approved']);
+    expect(bulkTransitions(editor, [article('approved')])).toEqual(['published']);
+    expect(bulkTransitions(editor, [])).toEqual([]);
+  });
+});
+
+describe('permissions – review', () => {
+  it('lets authors submit and fix their own articles', () => {
+    expect(can(author, 'article:submit', article('draft'))).toBe(true);
+    expect(can(author, 'article:submit', article('draft', 99))).toBe(false);
+    expect(can(author, 'article:edit', article('changes_requested'))).toBe(true);
+    expect(can(author, 'article:edit', article('in_review'))).toBe(false);
+    expect(can(author, 'article:review')).toBe(false);
+    expect(can(editor, 'article:review')).toBe(true);
+  });
+});
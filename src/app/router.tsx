@@ -1,26 +1,37 @@
 import { createBrowserRouter, RouterProvider } from 'react-router-dom';
 import AppShell from '../components/layout/AppShell';
+import RequireAuth from '../components/auth/RequireAuth';
+import LoginPage          from '../pages/LoginPage';
 import DashboardPage      from '../pages/DashboardPage';
 import ArticlesPage       from '../pages/ArticlesPage';
 import ArticleFormPage    from '../pages/ArticleFormPage';
+import CalendarPage       from '../pages/CalendarPage';
 import CategoriesPage     from '../pages/CategoriesPage';
 import NetworksPage       from '../pages/NetworksPage';
 import NotificationsPage  from '../pages/NotificationsPage';
 import ImportPage         from '../pages/ImportPage';
+import MediaLibraryPage   from '../pages/MediaLibraryPage';
 
 const router = createBrowserRouter([
+  { path: '/login', element: <LoginPage /> },
   {
     path: '/',
-    element: <AppShell />,
+    element: (
+      <RequireAuth>
+        <AppShell />
+      </RequireAuth>
+    ),
     children: [
       { index: true,                      element: <DashboardPage /> },
       { path: 'articles',                 element: <ArticlesPage /> },
       { path: 'articles/new',             element: <ArticleFormPage /> },
       { path: 'articles/:id/edit',        element: <ArticleFormPage /> },
-      { path: 'categories',               element: <CategoriesPage /> },
-      { path: 'networks',                 element: <NetworksPage /> },
-      { path: 'notifications',            element: <NotificationsPage /> },
-      { path: 'import',                   element: <ImportPage /> },
+      { path: 'calendar',                 element: <CalendarPage /> },
+      { path: 'media',                    element: <RequireAuth permission="media:upload"><MediaLibraryPage /></RequireAuth> },
+      { path: 'categories',               element: <RequireAuth permission="category:manage"><CategoriesPage /></RequireAuth> },
+      { path: 'networks',                 element: <RequireAuth permission="network:manage"><NetworksPage /></RequireAuth> },
+      { path: 'notifications',            element: <RequireAuth permission="article:notify"><NotificationsPage /></RequireAuth> },
+      { path: 'import',                   element: <RequireAuth permission="article:import"><ImportPage /></RequireAuth> },
     ],
   },
 ]);
@@ -0,0 +1,376 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import Divider from '@mui/material/Divider';
+import Drawer from '@mui/material/Drawer';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import IconButton from '@mui/material/IconButton';
+import Paper from '@mui/material/Paper';
+import Skeleton from '@mui/material/Skeleton';
+import Stack from '@mui/material/Stack';
+import Switch from '@mui/material/Switch';
+import Tab from '@mui/material/Tab';
+import Tabs from '@mui/material/Tabs';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import CloseIcon from '@mui/icons-material/Close';
+import {
+  addArticleNote,
+  createCommentThread,
+  getArticleNotes,
+  replyToCommentThread,
+  setCommentThreadResolved,
+} from '../../services/api';
+import { applyFieldErrors } from '../../services/errors';
+import { locateAnchor } from '../../services/comments';
+import type { ArticleNote, CommentThread, TextAnchor } from '../../types';
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' });
+
+// ── Message composer ──────────────────────────────────────────────────────────
+// No <form> here: the panel is rendered inside the article form.
+
+const messageSchema = z.object({
+  body: z.string().trim().min(1, 'Écrivez votre message').max(2000, '2000 caractères maximum'),
+});
+
+type MessageValues = z.infer<typeof messageSchema>;
+
+const MESSAGE_FIELDS = messageSchema.keyof().options;
+
+interface MessageComposerProps {
+  label:       string;
+  submitLabel: string;
+  autoFocus?:  boolean;
+  send:        (body: string) => Promise<unknown>;
+  onCancel?:   () => void;
+  onError:     (message: string) => void;
+}
+
+function MessageComposer({ label, submitLabel, autoFocus, send, onCancel, onError }: MessageComposerProps) {
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors },
+  } = useForm<MessageValues>({
+    resolver: zodResolver(messageSchema),
+    defaultValues: { body: '' },
+  });
+
+  const sendMut = useMutation({
+    mutationFn: (values: MessageValues) => send(values.body.trim()),
+    onSuccess: () => reset({ body: '' }),
+    onError: (e: Error) => {
+      if (!applyFieldErrors(e, setError, MESSAGE_FIELDS)) onError(e.message);
+    },
+  });
+  const submit = handleSubmit(values => sendMut.mutate(values));
+
+  return (
+    <Stack spacing={1}>
+      <TextField
+        {...register('body')}
+        label={label}
+        size="small"
+        multiline
+        minRows={2}
+        fullWidth
+        autoFocus={autoFocus}
+        error={!!errors.body}
+        helperText={errors.body?.message ?? 'Ctrl + Entrée pour envoyer'}
+        onKeyDown={e => {
+          if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            submit();
+          }
+        }}
+      />
+      <Stack direction="row" spacing={1} justifyContent="flex-end">
+        {onCancel && (
+          <Button size="small" color="inherit" onClick={onCancel}>
+            Annuler
+          </Button>
+        )}
+        <Button size="small" variant="contained" onClick={() => submit()} disabled={sendMut.isPending}>
+          {submitLabel}
+        </Button>
+      </Stack>
+    </Stack>
+  );
+}
+
+// ── Panel ─────────────────────────────────────────────────────────────────────
+
+type PanelTab = 'comments' | 'notes';
+
+interface CommentsPanelProps {
+  open:           boolean;
+  articleId:      number | string;
+  threads:        CommentThread[];
+  loading:        boolean;
+  /** Plain text of the content being edited, to flag passages that are gone */
+  text:           string;
+  activeThreadId: number | null;
+  onSelectThread: (id: number | null) => void;
+  /** Passage selected in the editor, waiting for its first comment */
+  draftAnchor:    TextAnchor | null;
+  onDraftClose:   () => void;
+  onError:        (message: string) => void;
+  onClose:        () => void;
+}
+
+/**
+ * Side panel of the article form: comment threads on passages of the content,
+ * and private notes to the desk. Neither is part of the article.
+ */
+export default function CommentsPanel({
+  open,
+  articleId,
+  threads,
+  loading,
+  text,
+  activeThreadId,
+  onSelectThread,
+  draftAnchor,
+  onDraftClose,
+  onError,
+  onClose,
+}: CommentsPanelProps) {
+  const qc = useQueryClient();
+  const [tab, setTab] = useState<PanelTab>('comments');
+  const [showResolved, setShowResolved] = useState(false);
+
+  // A passage picked in the editor brings its thread forward
+  useEffect(() => {
+    if (draftAnchor || activeThreadId != null) setTab('comments');
+  }, [draftAnchor, activeThreadId]);
+
+  const { data: notes = [], isLoading: loadingNotes, error: notesError } = useQuery({
+    queryKey: ['notes', String(articleId)],
+    queryFn:  () => getArticleNotes(articleId),
+    enabled:  open && tab === 'notes',
+  });
+
+  const saveThread = (thread: CommentThread) => {
+    qc.setQueryData<CommentThread[]>(['comments', String(articleId)], (prev = []) =>
+      prev.some(t => t.id === thread.id) ? prev.map(t => (t.id === thread.id ? thread : t)) : [...prev, thread],
+    );
+    return thread;
+  };
+
+  const resolveMut = useMutation({
+    mutationFn: ({ thread, resolved }: { thread: CommentThread; resolved: boolean }) =>
+      setCommentThreadResolved(articleId, thread.id, resolved),
+    onSuccess: thread => {
+      saveThread(thread);
+      if (thread.resolved) onSelectThread(null);
+    },
+    onError: (e: Error) => onError(e.message),
+  });
+
+  // Open threads in the order of the text, passages that are gone last
+  const positions = new Map(threads.map(t => [t.id, locateAnchor(text, t.anchor)]));
+  const listed = threads
+    .filter(t => showResolved || !t.resolved)
+    .sort((a, b) =>
+      Number(a.resolved) - Number(b.resolved) ||
+      (positions.get(a.id)?.start ?? Infinity) - (positions.get(b.id)?.start ?? Infinity) ||
+      a.id - b.id,
+    );
+  const openCount = threads.filter(t => !t.resolved).length;
+
+  return (
+    <Drawer
+      anchor="right"
+      variant="persistent"
+      open={open}
+      PaperProps={{
+        sx: {
+          width: { xs: '100%', sm: 400 },
+          top: { xs: 56, sm: 64 },
+          height: { xs: 'calc(100% - 56px)', sm: 'calc(100% - 64px)' },
+          boxSizing: 'border-box',
+        },
+      }}
+    >
+      <Stack direction="row" alignItems="center" px={2} pt={1}>
+        <Typography variant="h6" fontWeight={700} sx={{ flexGrow: 1 }}>
+          Annotations
+        </Typography>
+        <IconButton onClick={onClose} aria-label="Fermer les annotations">
+          <CloseIcon />
+        </IconButton>
+      </Stack>
+      <Tabs value={tab} onChange={(_e, value: PanelTab) => setTab(value)} variant="fullWidth">
+        <Tab value="comments" label={`Commentaires (${openCount})`} />
+        <Tab value="notes" label="Notes" />
+      </Tabs>
+      <Divider />
+
+      <Box sx={{ flexGrow: 1, overflowY: 'auto', p: 2 }}>
+        {/* ── Comment threads ───────────────────────────────────────────── */}
+        {tab === 'comments' && (
+          <Stack spacing={1.5}>
+            {draftAnchor && (
+              <Paper variant="outlined" sx={{ p: 1.5, borderColor: 'warning.main' }}>
+                <Quote text={draftAnchor.quote} />
+                <Box mt={1.5}>
+                  <MessageComposer
+                    label="Commentaire"
+                    submitLabel="Commenter"
+                    autoFocus
+                    send={body =>
+                      createCommentThread(articleId, { anchor: draftAnchor, body }).then(thread => {
+                        saveThread(thread);
+                        onDraftClose();
+                        onSelectThread(thread.id);
+                      })
+                    }
+                    onCancel={onDraftClose}
+                    onError={onError}
+                  />
+                </Box>
+              </Paper>
+            )}
+
+            <FormControlLabel
+              control={<Switch size="small" checked={showResolved} onChange={e => setShowResolved(e.target.checked)} />}
+              label={<Typography variant="body2">Afficher les commentaires résolus</Typography>}
+            />
+
+            {loading && Array.from({ length: 2 }).map((_, i) => <Skeleton key={i} height={96} />)}
+
+            {!loading && listed.length === 0 && !draftAnchor && (
+              <Typography variant="body2" color="text.secondary">
+                Aucun commentaire ouvert. Sélectionnez un passage du contenu puis « Commenter la sélection ».
+              </Typography>
+            )}
+
+            {listed.map(thread => {
+              const active = thread.id === activeThreadId;
+              return (
+                <Paper
+                  key={thread.id}
+                  variant="outlined"
+                  data-testid={`comment-thread-${thread.id}`}
+                  onClick={() => onSelectThread(thread.id)}
+                  sx={{
+                    p: 1.5,
+                    cursor: 'pointer',
+                    borderColor: active ? 'warning.main' : undefined,
+                    opacity: thread.resolved ? 0.7 : 1,
+                  }}
+                >
+                  <Quote text={thread.anchor.quote} />
+                  {!positions.get(thread.id) && (
+                    <Chip label="Passage modifié ou supprimé" size="small" variant="outlined" sx={{ mt: 1 }} />
+                  )}
+
+                  {thread.messages.map(message => (
+                    <Box key={message.id} mt={1.25}>
+                      <Stack direction="row" spacing={1} alignItems="baseline">
+                        <Typography variant="caption" fontWeight={700}>{message.authorName}</Typography>
+                        <Typography variant="caption" color="text.secondary">{formatDate(message.createdAt)}</Typography>
+                      </Stack>
+                      <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                        {message.body}
+                      </Typography>
+                    </Box>
+                  ))}
+
+                  {thread.resolved && (
+                    <Typography variant="caption" color="success.main" display="block" mt={1}>
+                      Résolu{thread.resolvedByName ? ` par ${thread.resolvedByName}` : ''}
+                      {thread.resolvedAt ? ` le ${formatDate(thread.resolvedAt)}` : ''}
+                    </Typography>
+                  )}
+
+                  {active && !thread.resolved && (
+                    <Box mt={1.5}>
+                      <MessageComposer
+                        label="Répondre"
+                        submitLabel="Répondre"
+                        send={body => replyToCommentThread(articleId, thread.id, body).then(saveThread)}
+                        onError={onError}
+                      />
+                    </Box>
+                  )}
+
+                  <Stack direction="row" justifyContent="flex-end" mt={1}>
+                    <Button
+                      size="small"
+                      color={thread.resolved ? 'inherit' : 'success'}
+                      disabled={resolveMut.isPending}
+                      onClick={e => {
+                        e.stopPropagation();
+                        resolveMut.mutate({ thread, resolved: !thread.resolved });
+                      }}
+                    >
+                      {thread.resolved ? 'Rouvrir' : 'Résoudre'}
+                    </Button>
+                  </Stack>
+                </Paper>
+              );
+            })}
+          </Stack>
+        )}
+
+        {/* ── Notes to the desk ─────────────────────────────────────────── */}
+        {tab === 'notes' && (
+          <Stack spacing={1.5}>
+            <Typography variant="caption" color="text.secondary">
+              Notes internes à la rédaction : elles ne sont jamais publiées avec l'article.
+            </Typography>
+            {notesError && <Alert severity="error">{(notesError as Error).message}</Alert>}
+            {loadingNotes && Array.from({ length: 2 }).map((_, i) => <Skeleton key={i} height={64} />)}
+            {notes.map(note => (
+              <Paper key={note.id} variant="outlined" sx={{ p: 1.5 }}>
+                <Stack direction="row" spacing={1} alignItems="baseline">
+                  <Typography variant="caption" fontWeight={700}>{note.authorName}</Typography>
+                  <Typography variant="caption" color="text.secondary">{formatDate(note.createdAt)}</Typography>
+                </Stack>
+                <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                  {note.body}
+                </Typography>
+              </Paper>
+            ))}
+            <MessageComposer
+              label="Note à la rédaction"
+              submitLabel="Ajouter la note"
+              send={body =>
+                addArticleNote(articleId, body).then(note =>
+                  qc.setQueryData<ArticleNote[]>(['notes', String(articleId)], (prev = []) => [...prev, note]),
+                )
+              }
+              onError={onError}
+            />
+          </Stack>
+        )}
+      </Box>
+    </Drawer>
+  );
+}
+
+/** Commented passage */
+function Quote({ text }: { text: string }) {
+  return (
+    <Typography
+      variant="caption"
+      color="text.secondary"
+      sx={{ display: 'block', borderLeft: '3px solid #FFC107', pl: 1, fontStyle: 'italic' }}
+      noWrap
+      title={text}
+    >
+      « {text} »
+    </Typography>
+  );
+}
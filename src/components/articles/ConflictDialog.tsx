@@ -0,0 +1,205 @@
+import { useEffect, useMemo, useState } from 'react';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import CircularProgress from '@mui/material/CircularProgress';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import Divider from '@mui/material/Divider';
+import Grid from '@mui/material/Grid';
+import Radio from '@mui/material/Radio';
+import Stack from '@mui/material/Stack';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import { alpha } from '@mui/material/styles';
+import {
+  CONFLICT_FIELD_LABELS,
+  diffVersions,
+  mergeVersions,
+  toConflictValues,
+  type ConflictField,
+  type ConflictSide,
+  type ConflictValues,
+} from '../../services/articleConflict';
+import { BRAND } from '../../theme';
+import type { Article, Category, Network } from '../../types';
+
+/** Text fields whose merged value can be edited by hand */
+type EditableField = Extract<ConflictField, 'title' | 'excerpt'>;
+const EDITABLE: readonly ConflictField[] = ['title', 'excerpt'];
+
+interface ConflictDialogProps {
+  open:       boolean;
+  /** Version the form was loaded from (null when unknown) */
+  base:       ConflictValues | null;
+  mine:       ConflictValues;
+  theirs:     Article;
+  categories: Category[];
+  networks:   Network[];
+  saving?:    boolean;
+  onResolve:  (merged: ConflictValues) => void;
+  onClose:    () => void;
+}
+
+function plainText(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+export default function ConflictDialog({
+  open,
+  base,
+  mine,
+  theirs,
+  categories,
+  networks,
+  saving = false,
+  onResolve,
+  onClose,
+}: ConflictDialogProps) {
+  const theirValues = useMemo(() => toConflictValues(theirs), [theirs]);
+  const diffs       = useMemo(() => diffVersions(base, mine, theirValues), [base, mine, theirValues]);
+
+  const [picks, setPicks] = useState<Partial<Record<ConflictField, ConflictSide>>>({});
+  const [edits, setEdits] = useState<Partial<Record<EditableField, string>>>({});
+
+  // Start from the suggested side of every field each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setPicks(Object.fromEntries(diffs.map(d => [d.field, d.initial])));
+    setEdits({});
+  }, [open, diffs]);
+
+  const pick = (field: ConflictField, side: ConflictSide) => {
+    setPicks(prev => ({ ...prev, [field]: side }));
+    setEdits(({ [field as EditableField]: _dropped, ...rest }) => rest);
+  };
+
+  const merged = { ...mergeVersions(mine, theirValues, picks), ...edits };
+
+  const render = (field: ConflictField, values: ConflictValues) => {
+    switch (field) {
+      case 'categoryIds':
+        return (
+          <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+            {values.categoryIds.length === 0 && <Typography variant="body2" color="text.secondary">Aucune</Typography>}
+            {values.categoryIds.map(cid => {
+              const cat = categories.find(c => Number(c.id) === cid);
+              return <Chip key={cid} size="small" label={cat?.name ?? `#${cid}`} sx={{ bgcolor: cat?.color, color: cat?.color ? '#fff' : undefined }} />;
+            })}
+          </Stack>
+        );
+      case 'networkId':
+        return (
+          <Typography variant="body2">
+            {networks.find(n => Number(n.id) === values.networkId)?.name ?? '—'}
+          </Typography>
+        );
+      case 'content':
+        return (
+          <Typography variant="body2" sx={{ maxHeight: 160, overflowY: 'auto', whiteSpace: 'pre-wrap' }}>
+            {plainText(values.content) || '—'}
+          </Typography>
+        );
+      default:
+        return <Typography variant="body2">{values[field] || '—'}</Typography>;
+    }
+  };
+
+  const side = (field: ConflictField, value: ConflictSide, label: string, values: ConflictValues) => {
+    const selected = picks[field] === value;
+    return (
+      <Box
+        role="radio"
+        aria-checked={selected}
+        aria-label={`${CONFLICT_FIELD_LABELS[field]} – ${label}`}
+        tabIndex={0}
+        onClick={() => pick(field, value)}
+        onKeyDown={e => { if (e.key === ' ' || e.key === 'Enter') { e.preventDefault(); pick(field, value); } }}
+        sx={{
+          height: '100%',
+          p: 1.5,
+          borderRadius: 2,
+          cursor: 'pointer',
+          border: '1px solid',
+          borderColor: selected ? BRAND.blue : 'divider',
+          bgcolor: selected ? alpha(BRAND.blue, 0.08) : 'transparent',
+        }}
+      >
+        <Stack direction="row" alignItems="center" spacing={0.5} mb={0.5}>
+          <Radio checked={selected} size="small" tabIndex={-1} sx={{ p: 0.25 }} />
+          <Typography variant="caption" fontWeight={700} color="text.secondary">{label}</Typography>
+        </Stack>
+        {render(field, values)}
+      </Box>
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={saving ? undefined : onClose} maxWidth="md" fullWidth>
+      <DialogTitle sx={{ fontWeight: 700 }}>Conflit de modification</DialogTitle>
+      <DialogContent>
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Cet article a été modifié par un autre utilisateur
+          {theirs.updatedAt && ` le ${new Date(theirs.updatedAt).toLocaleString('fr-FR')}`} pendant que vous l'éditiez.
+          Choisissez la version à conserver pour chaque champ.
+        </Alert>
+
+        {diffs.length === 0 && (
+          <Typography color="text.secondary">
+            Les titre, extrait, contenu, catégories et réseau sont identiques dans les deux versions.
+          </Typography>
+        )}
+
+        <Stack spacing={2} divider={<Divider flexItem />}>
+          {diffs.map(({ field, conflict, initial }) => (
+            <Box key={field}>
+              <Stack direction="row" alignItems="center" spacing={1} mb={1}>
+                <Typography variant="subtitle2" fontWeight={700}>{CONFLICT_FIELD_LABELS[field]}</Typography>
+                {conflict ? (
+                  <Chip size="small" color="warning" variant="outlined" label="Modifié des deux côtés" />
+                ) : (
+                  <Chip size="small" variant="outlined" label={initial === 'mine' ? 'Modifié par vous' : 'Modifié par ailleurs'} />
+                )}
+              </Stack>
+              <Grid container spacing={1.5}>
+                <Grid item xs={12} sm={6}>{side(field, 'mine', 'Ma version', mine)}</Grid>
+                <Grid item xs={12} sm={6}>{side(field, 'theirs', 'Version serveur', theirValues)}</Grid>
+              </Grid>
+              {EDITABLE.includes(field) && (
+                <TextField
+                  label="Version retenue"
+                  size="small"
+                  fullWidth
+                  multiline={field === 'excerpt'}
+                  value={merged[field as EditableField]}
+                  onChange={e => setEdits(prev => ({ ...prev, [field]: e.target.value }))}
+                  sx={{ mt: 1.5 }}
+                />
+              )}
+            </Box>
+          ))}
+        </Stack>
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2, gap: 1 }}>
+        <Button onClick={onClose} disabled={saving} variant="outlined" color="inherit" size="small">
+          Annuler
+        </Button>
+        <Button onClick={() => onResolve(theirValues)} disabled={saving} color="inherit" size="small">
+          Garder la version serveur
+        </Button>
+        <Button
+          onClick={() => onResolve(merged)}
+          disabled={saving}
+          variant="contained"
+          size="small"
+          startIcon={saving ? <CircularProgress size={14} color="inherit" /> : undefined}
+        >
+          Enregistrer la fusion
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,222 @@
+import { useEffect, useRef, useState } from 'react';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import Slider from '@mui/material/Slider';
+import Stack from '@mui/material/Stack';
+import Typography from '@mui/material/Typography';
+import CoverRendition from './CoverRendition';
+import { FULL_FRAME, MIN_CROP, RENDITION_LABELS, normalizeCrop } from '../../services/renditions';
+import type { ImageCrop, RenditionRatio } from '../../types';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface CoverCropDialogProps {
+  open:     boolean;
+  src:      string;
+  crop:     ImageCrop | null;
+  /** Formats previewed, those of the article's network */
+  ratios:   RenditionRatio[];
+  onClose:  () => void;
+  /** null when the whole image is kept, centred */
+  onApply:  (crop: ImageCrop | null) => void;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const isFullFrame = (crop: ImageCrop) =>
+  (Object.keys(FULL_FRAME) as Array<keyof ImageCrop>).every(key => Math.abs(crop[key] - FULL_FRAME[key]) < 1e-3);
+
+/**
+ * Framing of the cover: drag over the image to choose the area kept, click to
+ * place the focal point. Every format of the network is previewed live.
+ */
+export default function CoverCropDialog({ open, src, crop, ratios, onClose, onApply }: CoverCropDialogProps) {
+  const [draft,  setDraft]  = useState<ImageCrop>(crop ?? FULL_FRAME);
+  const [aspect, setAspect] = useState<number | undefined>();
+  const dragRef = useRef<{ start: Point; moved: boolean } | null>(null);
+
+  useEffect(() => {
+    if (open) setDraft(crop ?? FULL_FRAME);
+  }, [open, crop]);
+
+  /** Pointer position in fractions of the image, null before layout */
+  const pointAt = (e: React.PointerEvent<HTMLElement>): Point | null => {
+    const box = e.currentTarget.getBoundingClientRect();
+    if (!box.width || !box.height) return null;
+    return { x: clamp01((e.clientX - box.left) / box.width), y: clamp01((e.clientY - box.top) / box.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLElement>) => {
+    const start = pointAt(e);
+    if (!start) return;
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    dragRef.current = { start, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLElement>) => {
+    const drag  = dragRef.current;
+    const point = pointAt(e);
+    if (!drag || !point) return;
+    const width  = Math.abs(point.x - drag.start.x);
+    const height = Math.abs(point.y - drag.start.y);
+    if (!drag.moved && width < MIN_CROP && height < MIN_CROP) return;
+    drag.moved = true;
+    setDraft(current => {
+      const area = { x: Math.min(point.x, drag.start.x), y: Math.min(point.y, drag.start.y), width, height };
+      const keepsFocal = current.focalX >= area.x && current.focalX <= area.x + width
+        && current.focalY >= area.y && current.focalY <= area.y + height;
+      return normalizeCrop({
+        ...area,
+        focalX: keepsFocal ? current.focalX : area.x + width / 2,
+        focalY: keepsFocal ? current.focalY : area.y + height / 2,
+      });
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLElement>) => {
+    const drag  = dragRef.current;
+    const point = pointAt(e);
+    dragRef.current = null;
+    // A click places the focal point, kept inside the area
+    if (drag && !drag.moved && point) {
+      setDraft(current => normalizeCrop({ ...current, focalX: point.x, focalY: point.y }));
+    }
+  };
+
+  const setFocal = (key: 'focalX' | 'focalY', percent: number) =>
+    setDraft(current => normalizeCrop({ ...current, [key]: percent / 100 }));
+
+  const pct = (value: number) => `${value * 100}%`;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth aria-labelledby="cover-crop-title">
+      <DialogTitle id="cover-crop-title">Recadrer l’image de couverture</DialogTitle>
+      <DialogContent dividers>
+        <Box sx={{ display: 'grid', gap: 3, gridTemplateColumns: { xs: '1fr', md: '1fr 300px' }, alignItems: 'start' }}>
+          <Box>
+            <Typography variant="body2" color="text.secondary" mb={1.5}>
+              Faites glisser sur l’image pour choisir la zone conservée, cliquez pour placer le point focal :
+              il reste visible dans tous les formats.
+            </Typography>
+            <Box
+              data-testid="cover-crop-area"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={() => { dragRef.current = null; }}
+              sx={{
+                position: 'relative',
+                overflow: 'hidden',
+                width: 'fit-content',
+                maxWidth: '100%',
+                mx: 'auto',
+                cursor: 'crosshair',
+                touchAction: 'none',
+                userSelect: 'none',
+              }}
+            >
+              <Box
+                component="img"
+                src={src}
+                alt=""
+                draggable={false}
+                onLoad={e => {
+                  const img = e.currentTarget as HTMLImageElement;
+                  if (img.naturalWidth && img.naturalHeight) setAspect(img.naturalWidth / img.naturalHeight);
+                }}
+                sx={{ display: 'block', maxWidth: '100%', maxHeight: '60vh' }}
+              />
+              {/* Everything outside the area is dimmed */}
+              <Box
+                aria-hidden
+                sx={{
+                  position: 'absolute',
+                  left: pct(draft.x),
+                  top: pct(draft.y),
+                  width: pct(draft.width),
+                  height: pct(draft.height),
+                  outline: '2px solid #fff',
+                  boxShadow: '0 0 0 9999px rgba(0,0,0,0.55)',
+                  pointerEvents: 'none',
+                }}
+              />
+              <Box
+                aria-hidden
+                sx={{
+                  position: 'absolute',
+                  left: pct(draft.focalX),
+                  top: pct(draft.focalY),
+                  width: 22,
+                  height: 22,
+                  transform: 'translate(-50%, -50%)',
+                  borderRadius: '50%',
+                  border: '3px solid #fff',
+                  boxShadow: '0 0 0 2px rgba(0,0,0,0.5)',
+                  pointerEvents: 'none',
+                }}
+              />
+            </Box>
+
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={3} mt={2}>
+              <Box flex={1}>
+                <Typography variant="caption" color="text.secondary" id="focal-x-label">
+                  Point focal – horizontal
+                </Typography>
+                <Slider
+                  size="small"
+                  value={Math.round(draft.focalX * 100)}
+                  onChange={(_, value) => setFocal('focalX', value as number)}
+                  valueLabelDisplay="auto"
+                  valueLabelFormat={v => `${v} %`}
+                  aria-labelledby="focal-x-label"
+                />
+              </Box>
+              <Box flex={1}>
+                <Typography variant="caption" color="text.secondary" id="focal-y-label">
+                  Point focal – vertical
+                </Typography>
+                <Slider
+                  size="small"
+                  value={Math.round(draft.focalY * 100)}
+                  onChange={(_, value) => setFocal('focalY', value as number)}
+                  valueLabelDisplay="auto"
+                  valueLabelFormat={v => `${v} %`}
+                  aria-labelledby="focal-y-label"
+                />
+              </Box>
+            </Stack>
+          </Box>
+
+          <Stack spacing={2} component="section" aria-label="Aperçu des formats">
+            {ratios.map(ratio => (
+              <Box key={ratio}>
+                <Typography variant="caption" color="text.secondary" display="block" mb={0.5}>
+                  {RENDITION_LABELS[ratio]}
+                </Typography>
+                <Box sx={{ width: ratio === '16:9' ? '100%' : '70%' }}>
+                  <CoverRendition src={src} crop={draft} ratio={ratio} imageAspect={aspect} />
+                </Box>
+              </Box>
+            ))}
+          </Stack>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button color="inherit" onClick={() => setDraft(FULL_FRAME)} sx={{ mr: 'auto' }}>
+          Réinitialiser
+        </Button>
+        <Button color="inherit" onClick={onClose}>Annuler</Button>
+        <Button variant="contained" onClick={() => onApply(isFullFrame(draft) ? null : draft)}>
+          Appliquer
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
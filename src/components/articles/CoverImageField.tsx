@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Stack from '@mui/material/Stack';
+import Typography from '@mui/material/Typography';
+import PhotoLibraryIcon from '@mui/icons-material/PhotoLibrary';
+import CropIcon from '@mui/icons-material/Crop';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import CoverCropDialog from './CoverCropDialog';
+import CoverRendition from './CoverRendition';
+import MediaPickerDialog from '../media/MediaPickerDialog';
+import type { ImageCrop, MediaAsset, RenditionRatio } from '../../types';
+
+interface CoverImageFieldProps {
+  /** URL of the current cover, '' without one */
+  value:        string;
+  crop:         ImageCrop | null;
+  /** Formats the article's network publishes */
+  ratios:       RenditionRatio[];
+  disabled?:    boolean;
+  /** The asset picked, null when the cover is removed */
+  onChange:     (asset: MediaAsset | null) => void;
+  onCropChange: (crop: ImageCrop | null) => void;
+  onError:      (message: string) => void;
+}
+
+/** Cover of an article, picked from the media library and framed for each format. */
+export default function CoverImageField({ value, crop, ratios, disabled = false, onChange, onCropChange, onError }: CoverImageFieldProps) {
+  const [picking,  setPicking]  = useState(false);
+  const [cropping, setCropping] = useState(false);
+
+  return (
+    <Box>
+      <Typography variant="body2" color="text.secondary" mb={1}>
+        Image de couverture
+      </Typography>
+      <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }}>
+        <Box
+          sx={{
+            width: 180,
+            aspectRatio: '16 / 9',
+            borderRadius: 2,
+            overflow: 'hidden',
+            border: '1px solid',
+            borderColor: 'divider',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            flexShrink: 0,
+            bgcolor: 'grey.100',
+          }}
+        >
+          {value ? (
+            <CoverRendition src={value} crop={crop} ratio="16:9" alt="Couverture" borderRadius={0} />
+          ) : (
+            <Typography variant="caption" color="text.secondary">Aucune image</Typography>
+          )}
+        </Box>
+        <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={<PhotoLibraryIcon />}
+            onClick={() => setPicking(true)}
+            disabled={disabled}
+          >
+            Choisir dans la médiathèque
+          </Button>
+          {value && (
+            <>
+              <Button
+                variant="outlined"
+                size="small"
+                startIcon={<CropIcon />}
+                onClick={() => setCropping(true)}
+                disabled={disabled}
+              >
+                Recadrer
+              </Button>
+              <Button
+                size="small"
+                color="inherit"
+                startIcon={<DeleteOutlineIcon />}
+                onClick={() => onChange(null)}
+                disabled={disabled}
+              >
+                Retirer
+              </Button>
+            </>
+          )}
+        </Stack>
+      </Stack>
+
+      <MediaPickerDialog
+        open={picking}
+        title="Image de couverture"
+        confirmLabel="Utiliser en couverture"
+        onClose={() => setPicking(false)}
+        onSelect={asset => {
+          onChange(asset);
+          setPicking(false);
+        }}
+        onError={onError}
+      />
+
+      {value && (
+        <CoverCropDialog
+          open={cropping}
+          src={value}
+          crop={crop}
+          ratios={ratios}
+          onClose={() => setCropping(false)}
+          onApply={next => {
+            onCropChange(next);
+            setCropping(false);
+          }}
+        />
+      )}
+    </Box>
+  );
+}
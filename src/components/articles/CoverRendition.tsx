@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react';
+import Box from '@mui/material/Box';
+import { focalObjectPosition, renditionImageStyle, renditionRect } from '../../services/renditions';
+import type { ImageCrop, RenditionRatio } from '../../types';
+
+interface CoverRenditionProps {
+  src:           string;
+  crop?:         ImageCrop | null;
+  ratio:         RenditionRatio;
+  alt?:          string;
+  /** Width / height of the source, when already known; measured on load otherwise */
+  imageAspect?:  number;
+  borderRadius?: number;
+}
+
+/**
+ * A cover image cut to one format, as published. Until the size of the image
+ * is known it is only centred on the focal point.
+ */
+export default function CoverRendition({ src, crop, ratio, alt = '', imageAspect, borderRadius = 1 }: CoverRenditionProps) {
+  const [measured, setMeasured] = useState<number | null>(null);
+  useEffect(() => setMeasured(null), [src]);
+
+  const aspect = imageAspect ?? measured;
+  const rect   = aspect ? renditionRect(crop, ratio, aspect) : null;
+
+  return (
+    <Box
+      data-ratio={ratio}
+      sx={{
+        position: 'relative',
+        overflow: 'hidden',
+        width: '100%',
+        aspectRatio: ratio.replace(':', ' / '),
+        borderRadius,
+        bgcolor: 'grey.100',
+      }}
+    >
+      <Box
+        component="img"
+        src={src}
+        alt={alt}
+        draggable={false}
+        onLoad={e => {
+          const img = e.currentTarget as HTMLImageElement;
+          if (img.naturalWidth && img.naturalHeight) setMeasured(img.naturalWidth / img.naturalHeight);
+        }}
+        onError={e => { (e.currentTarget as HTMLImageElement).style.visibility = 'hidden'; }}
+        sx={rect ? renditionImageStyle(rect) : {
+          display: 'block',
+          width: '100%',
+          height: '100%',
+          objectFit: 'cover',
+          objectPosition: focalObjectPosition(crop),
+        }}
+      />
+    </Box>
+  );
+}
@@ -0,0 +1,95 @@
+import Alert from '@mui/material/Alert';
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import Typography from '@mui/material/Typography';
+import { IDLE_MS } from '../../services/presence';
+import type { LockState } from '../../hooks/useArticlePresence';
+import type { PresenceEntry } from '../../types';
+
+interface LockNoticeProps {
+  state:      LockState;
+  /** Session holding the lock, unless it is this tab */
+  holder?:    PresenceEntry;
+  userId?:    number;
+  onAcquire:  (takeOver: boolean) => void;
+  onReadOnly: () => void;
+  /** Co-edits alongside the holder; only offered while co-editing is connected */
+  onShare?:   () => void;
+}
+
+/** Soft lock of the article form: who else is editing, and how to get the article back. */
+export default function LockNotice({ state, holder, userId, onAcquire, onReadOnly, onShare }: LockNoticeProps) {
+  const self = !!holder && holder.userId === userId;
+  const editing =
+    !holder ? "Quelqu'un modifie cet article." :
+    self    ? 'Vous modifiez déjà cet article dans un autre onglet.' :
+    `${holder.userName} modifie cet article.`;
+
+  if (state === 'blocked') {
+    return (
+      <Dialog open maxWidth="xs" fullWidth>
+        <DialogTitle sx={{ fontWeight: 700 }}>Article en cours de modification</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary">
+            {editing} En prenant la main, les modifications non sauvegardées de l'autre session
+            ne pourront plus être enregistrées sans fusion avec les vôtres.
+            {onShare && ' En co-éditant, vos modifications et les siennes sont fusionnées en direct.'}
+          </Typography>
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2, gap: 1 }}>
+          <Button onClick={onReadOnly} variant="outlined" color="inherit" size="small">
+            Lecture seule
+          </Button>
+          {onShare && (
+            <Button onClick={onShare} variant="outlined" size="small">
+              Co-éditer
+            </Button>
+          )}
+          <Button onClick={() => onAcquire(true)} variant="contained" color="warning" size="small">
+            Prendre la main
+          </Button>
+        </DialogActions>
+      </Dialog>
+    );
+  }
+
+  const action = (label: string, takeOver: boolean) => (
+    <Button color="inherit" size="small" onClick={() => onAcquire(takeOver)}>
+      {label}
+    </Button>
+  );
+
+  if (state === 'readonly') {
+    return holder ? (
+      <Alert severity="info" sx={{ mb: 2 }} action={action('Prendre la main', true)}>
+        {editing} Vous le consultez en lecture seule.
+      </Alert>
+    ) : (
+      <Alert severity="info" sx={{ mb: 2 }} action={action('Modifier', false)}>
+        Plus personne ne modifie cet article.
+      </Alert>
+    );
+  }
+
+  if (state === 'idle') {
+    return (
+      <Alert severity="info" sx={{ mb: 2 }} action={action('Reprendre', false)}>
+        Article libéré après {IDLE_MS / 60_000} minutes d'inactivité : d'autres peuvent le modifier.
+      </Alert>
+    );
+  }
+
+  if (state === 'lost') {
+    return (
+      <Alert severity="warning" sx={{ mb: 2 }} action={action('Reprendre la main', true)}>
+        {self ? 'Vous avez pris la main dans un autre onglet.' : `${holder?.userName ?? "Quelqu'un"} a pris la main sur cet article.`}{' '}
+        Vos modifications non sauvegardées restent à l'écran mais ne sont plus enregistrées.
+      </Alert>
+    );
+  }
+
+  return null;
+}
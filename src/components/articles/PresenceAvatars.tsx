@@ -0,0 +1,46 @@
+import Avatar from '@mui/material/Avatar';
+import AvatarGroup from '@mui/material/AvatarGroup';
+import Tooltip from '@mui/material/Tooltip';
+import { BRAND } from '../../theme';
+import type { PresenceEntry } from '../../types';
+
+const EDITING_COLOR = '#FF9800';
+
+const describe = (entry: PresenceEntry) =>
+  `${entry.userName} ${entry.editing ? 'modifie' : 'consulte'} l'article`;
+
+interface PresenceAvatarsProps {
+  /** One entry per user, as given by `presentUsers` */
+  entries: PresenceEntry[];
+  size?:   'small' | 'medium';
+}
+
+/** Who has the article open; the one editing it is ringed. */
+export default function PresenceAvatars({ entries, size = 'medium' }: PresenceAvatarsProps) {
+  if (entries.length === 0) return null;
+  const px = size === 'small' ? 22 : 30;
+
+  return (
+    <AvatarGroup
+      max={4}
+      sx={{
+        justifyContent: 'flex-end',
+        '& .MuiAvatar-root': { width: px, height: px, fontSize: px * 0.45, borderColor: 'background.paper' },
+      }}
+    >
+      {entries.map(entry => (
+        <Tooltip key={entry.sessionId} title={describe(entry)}>
+          <Avatar
+            alt={entry.userName}
+            sx={{
+              background: BRAND.gradientDiag,
+              ...(entry.editing && { outline: `2px solid ${EDITING_COLOR}`, outlineOffset: -1 }),
+            }}
+          >
+            {entry.userName[0]?.toUpperCase()}
+          </Avatar>
+        </Tooltip>
+      ))}
+    </AvatarGroup>
+  );
+}
@@ -0,0 +1,33 @@
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import { keyframes } from '@mui/material/styles';
+import { useRecentUpdate } from '../../hooks/useRealtime';
+import { BRAND } from '../../theme';
+
+const pulse = keyframes`
+  0%   { opacity: 1; }
+  50%  { opacity: 0.35; }
+  100% { opacity: 1; }
+`;
+
+/** "Modifié par X" next to an article changed by another user a moment ago */
+export default function RecentUpdateBadge({ articleId }: { articleId: number | string }) {
+  const update = useRecentUpdate(articleId);
+  if (!update) return null;
+
+  return (
+    <Box
+      component="span"
+      sx={{ display: 'inline-flex', alignItems: 'center', gap: 0.5, color: BRAND.blue }}
+      title={new Date(update.at).toLocaleTimeString('fr-FR')}
+    >
+      <Box
+        component="span"
+        sx={{ width: 6, height: 6, borderRadius: '50%', bgcolor: BRAND.blue, animation: `${pulse} 1.6s ease-in-out 3` }}
+      />
+      <Typography component="span" variant="caption" noWrap>
+        {update.label}
+      </Typography>
+    </Box>
+  );
+}
@@ -0,0 +1,98 @@
+import Box from '@mui/material/Box';
+import Stack from '@mui/material/Stack';
+import Typography from '@mui/material/Typography';
+import { alpha } from '@mui/material/styles';
+import { diffWords, htmlToText, type DiffPart } from '../../services/diff';
+import { describeCrop } from '../../services/renditions';
+import type { ArticleFormData, Category, Network } from '../../types';
+
+/** A cover picked from the library shows through its URL */
+type RevisionField = Exclude<keyof ArticleFormData, 'imageId'>;
+
+const FIELDS: Array<[RevisionField, string]> = [
+  ['title',       'Titre'],
+  ['excerpt',     'Extrait'],
+  ['content',     'Contenu'],
+  ['authorName',  'Auteur'],
+  ['slug',        'Slug'],
+  ['summary',     'Résumé'],
+  ['imageUrl',    'Image'],
+  ['imageCrop',   'Cadrage'],
+  ['featured',    'Mis en avant'],
+  ['categoryIds', 'Catégories'],
+  ['networkId',   'Réseau'],
+];
+
+interface RevisionDiffProps {
+  before:     ArticleFormData;
+  after:      ArticleFormData;
+  categories: Category[];
+  networks:   Network[];
+}
+
+/** Changed parts in green, removed parts struck through in red */
+export function DiffText({ parts }: { parts: DiffPart[] }) {
+  return (
+    <Typography variant="body2" component="div" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+      {parts.map((part, i) =>
+        part.op === 'equal' ? (
+          <span key={i}>{part.text}</span>
+        ) : (
+          <Box
+            key={i}
+            component={part.op === 'insert' ? 'ins' : 'del'}
+            sx={theme => {
+              const color = part.op === 'insert' ? theme.palette.success.main : theme.palette.error.main;
+              return { bgcolor: alpha(color, 0.22), color: 'text.primary', textDecoration: part.op === 'delete' ? 'line-through' : 'none', borderRadius: 0.5 };
+            }}
+          >
+            {part.text}
+          </Box>
+        ),
+      )}
+    </Typography>
+  );
+}
+
+/** Inline word-level differences between two saved versions of an article. */
+export default function RevisionDiff({ before, after, categories, networks }: RevisionDiffProps) {
+  const text = (field: RevisionField, data: ArticleFormData): string => {
+    switch (field) {
+      case 'content':
+        return htmlToText(data.content);
+      case 'featured':
+        return data.featured ? 'Oui' : 'Non';
+      case 'categoryIds':
+        return data.categoryIds
+          .map(cid => categories.find(c => Number(c.id) === Number(cid))?.name ?? `#${cid}`)
+          .join(', ');
+      case 'networkId':
+        return networks.find(n => String(n.id) === String(data.networkId))?.name ?? '';
+      case 'imageCrop':
+        return describeCrop(data.imageCrop);
+      default:
+        return data[field] ?? '';
+    }
+  };
+
+  const changes = FIELDS
+    .map(([field, label]) => ({ field, label, before: text(field, before), after: text(field, after) }))
+    .filter(change => change.before !== change.after);
+
+  if (changes.length === 0) {
+    return <Typography variant="body2" color="text.secondary">Aucune différence entre ces deux versions.</Typography>;
+  }
+
+  return (
+    <Stack spacing={2}>
+      {changes.map(change => (
+        <Box key={change.field}>
+          <Typography variant="caption" fontWeight={700} color="text.secondary" display="block" mb={0.5}>
+            {change.label}
+          </Typography>
+          <DiffText parts={diffWords(change.before, change.after)} />
+        </Box>
+      ))}
+    </Stack>
+  );
+}
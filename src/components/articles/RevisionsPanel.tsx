@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import Divider from '@mui/material/Divider';
+import Drawer from '@mui/material/Drawer';
+import FormControl from '@mui/material/FormControl';
+import IconButton from '@mui/material/IconButton';
+import InputLabel from '@mui/material/InputLabel';
+import List from '@mui/material/List';
+import ListItemButton from '@mui/material/ListItemButton';
+import ListItemText from '@mui/material/ListItemText';
+import MenuItem from '@mui/material/MenuItem';
+import Select from '@mui/material/Select';
+import Skeleton from '@mui/material/Skeleton';
+import Stack from '@mui/material/Stack';
+import Typography from '@mui/material/Typography';
+import CloseIcon from '@mui/icons-material/Close';
+import RestoreIcon from '@mui/icons-material/Restore';
+import StatusChip from '../common/StatusChip';
+import RevisionDiff from './RevisionDiff';
+import { getArticleRevisions } from '../../services/api';
+import type { ArticleRevision, Category, Network, RevisionSource } from '../../types';
+
+export const REVISION_SOURCE_LABELS: Record<RevisionSource, string> = {
+  manual:   'Sauvegarde',
+  autosave: 'Sauvegarde auto',
+  status:   'Changement de statut',
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' });
+
+interface RevisionsPanelProps {
+  open:       boolean;
+  articleId:  number | string;
+  categories: Category[];
+  networks:   Network[];
+  /** Restoring is offered only when the form can be edited */
+  canRestore: boolean;
+  onRestore:  (revision: ArticleRevision) => void;
+  onClose:    () => void;
+}
+
+/** Saved versions of an article: who saved them and when, differences, restore. */
+export default function RevisionsPanel({
+  open,
+  articleId,
+  categories,
+  networks,
+  canRestore,
+  onRestore,
+  onClose,
+}: RevisionsPanelProps) {
+  const { data: revisions = [], isLoading, error } = useQuery({
+    queryKey: ['revisions', String(articleId)],
+    queryFn:  () => getArticleRevisions(articleId),
+    enabled:  open,
+  });
+
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [compareId,  setCompareId]  = useState<number | null>(null);
+
+  // Back to the latest version each time the panel opens
+  useEffect(() => {
+    if (open) { setSelectedId(null); setCompareId(null); }
+  }, [open]);
+
+  // Newest first: by default a version is compared with the one saved just before it
+  const selectedIndex = Math.max(0, revisions.findIndex(r => r.id === selectedId));
+  const selected      = revisions[selectedIndex];
+  const compareIndex  = compareId != null ? revisions.findIndex(r => r.id === compareId) : selectedIndex + 1;
+  const compared      = compareIndex >= 0 ? revisions[compareIndex] : undefined;
+  const [older, newer] = compareIndex > selectedIndex ? [compared, selected] : [selected, compared];
+
+  const select = (id: number) => {
+    setSelectedId(id);
+    setCompareId(null);
+  };
+
+  return (
+    <Drawer
+      anchor="right"
+      open={open}
+      onClose={onClose}
+      PaperProps={{ sx: { width: { xs: '100%', md: 860 }, boxSizing: 'border-box' } }}
+    >
+      <Stack direction="row" alignItems="center" px={2} py={1.5}>
+        <Typography variant="h6" fontWeight={700} sx={{ flexGrow: 1 }}>
+          Historique des versions
+        </Typography>
+        <IconButton onClick={onClose} aria-label="Fermer l'historique">
+          <CloseIcon />
+        </IconButton>
+      </Stack>
+      <Divider />
+
+      {error && <Alert severity="error" sx={{ m: 2 }}>{(error as Error).message}</Alert>}
+
+      <Stack direction={{ xs: 'column', md: 'row' }} sx={{ flexGrow: 1, minHeight: 0 }}>
+        {/* ── Versions ─────────────────────────────────────────────────── */}
+        <List
+          dense
+          aria-label="Versions enregistrées"
+          sx={{ width: { md: 280 }, flexShrink: 0, overflowY: 'auto', maxHeight: { xs: 240, md: 'none' } }}
+        >
+          {isLoading && Array.from({ length: 4 }).map((_, i) => <Skeleton key={i} height={56} sx={{ mx: 2 }} />)}
+          {revisions.map((revision, i) => (
+            <ListItemButton
+              key={revision.id}
+              selected={revision === selected}
+              onClick={() => select(revision.id)}
+            >
+              <ListItemText
+                primary={
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <span>{formatDate(revision.createdAt)}</span>
+                    {i === 0 && <Chip label="Actuelle" size="small" color="primary" variant="outlined" />}
+                  </Stack>
+                }
+                secondary={
+                  <Stack component="span" direction="row" spacing={0.5} alignItems="center" flexWrap="wrap" useFlexGap>
+                    <span>{revision.userName ?? 'Automatique'} ·</span>
+                    <span>{REVISION_SOURCE_LABELS[revision.source]}</span>
+                    {revision.source === 'status' && <StatusChip status={revision.status} />}
+                  </Stack>
+                }
+                secondaryTypographyProps={{ component: 'span' }}
+              />
+            </ListItemButton>
+          ))}
+        </List>
+
+        <Divider orientation="vertical" flexItem />
+
+        {/* ── Differences ──────────────────────────────────────────────── */}
+        <Box sx={{ flexGrow: 1, minWidth: 0, overflowY: 'auto', p: 2 }}>
+          {selected && (
+            <>
+              <Stack direction="row" spacing={1.5} alignItems="center" mb={2} flexWrap="wrap" useFlexGap>
+                <FormControl size="small" sx={{ minWidth: 240 }}>
+                  <InputLabel id="revision-compare-label">Comparer avec</InputLabel>
+                  <Select
+                    labelId="revision-compare-label"
+                    label="Comparer avec"
+                    value={compared?.id ?? ''}
+                    onChange={e => setCompareId(Number(e.target.value))}
+                  >
+                    {revisions.filter(r => r !== selected).map(r => (
+                      <MenuItem key={r.id} value={r.id}>
+                        {formatDate(r.createdAt)} – {r.userName ?? 'Automatique'}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <Box sx={{ flexGrow: 1 }} />
+                {canRestore && (
+                  <Button
+                    variant="outlined"
+                    size="small"
+                    startIcon={<RestoreIcon />}
+                    onClick={() => onRestore(selected)}
+                  >
+                    Restaurer cette version
+                  </Button>
+                )}
+              </Stack>
+
+              {older && newer ? (
+                <>
+                  <Typography variant="caption" color="text.secondary" display="block" mb={1.5}>
+                    Du {formatDate(older.createdAt)} au {formatDate(newer.createdAt)}
+                  </Typography>
+                  <RevisionDiff before={older.data} after={newer.data} categories={categories} networks={networks} />
+                </>
+              ) : (
+                <Typography variant="body2" color="text.secondary">
+                  Première version enregistrée de l'article.
+                </Typography>
+              )}
+            </>
+          )}
+        </Box>
+      </Stack>
+    </Drawer>
+  );
+}
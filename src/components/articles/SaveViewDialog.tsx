@@ -0,0 +1,127 @@
+import { useEffect } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import Button from '@mui/material/Button';
+import CircularProgress from '@mui/material/CircularProgress';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Stack from '@mui/material/Stack';
+import Switch from '@mui/material/Switch';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import { createView } from '../../services/api';
+import { applyFieldErrors } from '../../services/errors';
+import type { ArticleView } from '../../types';
+
+const schema = z.object({
+  name:   z.string().trim().min(2, 'Le nom doit contenir au moins 2 caractères').max(60, 'Nom trop long'),
+  shared: z.boolean(),
+  pinned: z.boolean(),
+});
+
+type FormValues = z.infer<typeof schema>;
+
+const FORM_FIELDS = schema.keyof().options;
+
+const DEFAULT_VALUES: FormValues = { name: '', shared: false, pinned: true };
+
+interface SaveViewDialogProps {
+  open:    boolean;
+  /** Filters to save, as an articles list query string */
+  query:   string;
+  onClose: () => void;
+  onSaved: (view: ArticleView) => void;
+  onError: (message: string) => void;
+}
+
+export default function SaveViewDialog({ open, query, onClose, onSaved, onError }: SaveViewDialogProps) {
+  const qc = useQueryClient();
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    reset,
+    setError,
+    formState: { errors },
+  } = useForm<FormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  useEffect(() => {
+    if (open) reset(DEFAULT_VALUES);
+  }, [open, reset]);
+
+  const createMut = useMutation({
+    mutationFn: (values: FormValues) => createView({ ...values, query }),
+    onSuccess: view => {
+      qc.invalidateQueries({ queryKey: ['views'] });
+      onSaved(view);
+    },
+    onError: (e: Error) => {
+      if (!applyFieldErrors(e, setError, FORM_FIELDS)) onError(e.message);
+    },
+  });
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <form onSubmit={handleSubmit(values => createMut.mutate(values))} noValidate>
+        <DialogTitle sx={{ fontWeight: 700 }}>Enregistrer la vue</DialogTitle>
+        <DialogContent>
+          <Stack spacing={1.5} pt={1}>
+            <TextField
+              {...register('name')}
+              label="Nom de la vue"
+              placeholder="Ex. Mes brouillons"
+              size="small"
+              autoFocus
+              fullWidth
+              error={!!errors.name}
+              helperText={errors.name?.message}
+            />
+            <Controller
+              name="shared"
+              control={control}
+              render={({ field }) => (
+                <FormControlLabel
+                  control={<Switch checked={field.value} onChange={e => field.onChange(e.target.checked)} size="small" />}
+                  label={<Typography variant="body2">Partager avec l'équipe</Typography>}
+                />
+              )}
+            />
+            <Controller
+              name="pinned"
+              control={control}
+              render={({ field }) => (
+                <FormControlLabel
+                  control={<Switch checked={field.value} onChange={e => field.onChange(e.target.checked)} size="small" />}
+                  label={<Typography variant="body2">Épingler dans le menu</Typography>}
+                />
+              )}
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2, gap: 1 }}>
+          <Button onClick={onClose} disabled={createMut.isPending} variant="outlined" color="inherit" size="small">
+            Annuler
+          </Button>
+          <Button
+            type="submit"
+            variant="contained"
+            size="small"
+            disabled={createMut.isPending}
+            startIcon={createMut.isPending ? <CircularProgress size={14} color="inherit" /> : undefined}
+          >
+            Enregistrer
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
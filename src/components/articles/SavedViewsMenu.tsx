@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import Button from '@mui/material/Button';
+import Divider from '@mui/material/Divider';
+import IconButton from '@mui/material/IconButton';
+import ListItemIcon from '@mui/material/ListItemIcon';
+import ListItemText from '@mui/material/ListItemText';
+import ListSubheader from '@mui/material/ListSubheader';
+import Menu from '@mui/material/Menu';
+import MenuItem from '@mui/material/MenuItem';
+import Tooltip from '@mui/material/Tooltip';
+import BookmarksIcon from '@mui/icons-material/Bookmarks';
+import BookmarkAddIcon from '@mui/icons-material/BookmarkAdd';
+import DeleteIcon from '@mui/icons-material/Delete';
+import PeopleIcon from '@mui/icons-material/People';
+import PushPinIcon from '@mui/icons-material/PushPin';
+import PushPinOutlinedIcon from '@mui/icons-material/PushPinOutlined';
+import ConfirmDialog from '../common/ConfirmDialog';
+import SaveViewDialog from './SaveViewDialog';
+import { deleteView, setViewPinned } from '../../services/api';
+import { normalizeViewQuery } from '../../services/articleFilters';
+import { useArticleViews } from '../../hooks/useArticleViews';
+import type { ArticleView } from '../../types';
+
+interface SavedViewsMenuProps {
+  /** Current filters, as an articles list query string */
+  query:     string;
+  onMessage: (msg: string, sev: 'success' | 'error') => void;
+}
+
+/** Saved views of the articles list: open, pin, delete, save the current filters. */
+export default function SavedViewsMenu({ query, onMessage }: SavedViewsMenuProps) {
+  const navigate = useNavigate();
+  const qc       = useQueryClient();
+  const { ownViews, sharedViews } = useArticleViews();
+
+  const [anchor, setAnchor]               = useState<HTMLElement | null>(null);
+  const [saveOpen, setSaveOpen]           = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState<ArticleView | null>(null);
+
+  const current    = normalizeViewQuery(query);
+  const activeView = [...ownViews, ...sharedViews].find(v => normalizeViewQuery(v.query) === current);
+
+  const pinMut = useMutation({
+    mutationFn: ({ id, pinned }: { id: number; pinned: boolean }) => setViewPinned(id, pinned),
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['views'] }),
+    onError: (e: Error) => onMessage(e.message, 'error'),
+  });
+
+  const deleteMut = useMutation({
+    mutationFn: (id: number) => deleteView(id),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['views'] });
+      onMessage('Vue supprimée', 'success');
+    },
+    onError: (e: Error) => onMessage(e.message, 'error'),
+  });
+
+  const open = (view: ArticleView) => {
+    setAnchor(null);
+    navigate(view.query ? `/articles?${view.query}` : '/articles');
+  };
+
+  const renderView = (view: ArticleView, owned: boolean) => (
+    <MenuItem
+      key={view.id}
+      selected={view.id === activeView?.id}
+      onClick={() => open(view)}
+      sx={{ pr: 1 }}
+    >
+      <ListItemText
+        primary={view.name}
+        secondary={owned ? (view.shared ? 'Partagée' : 'Privée') : view.ownerName}
+        primaryTypographyProps={{ variant: 'body2', noWrap: true }}
+        secondaryTypographyProps={{ variant: 'caption' }}
+        sx={{ mr: 1 }}
+      />
+      <Tooltip title={view.pinned ? 'Désépingler' : 'Épingler dans le menu'}>
+        <IconButton
+          size="small"
+          aria-label={view.pinned ? `Désépingler ${view.name}` : `Épingler ${view.name}`}
+          onClick={e => {
+            e.stopPropagation();
+            pinMut.mutate({ id: view.id, pinned: !view.pinned });
+          }}
+        >
+          {view.pinned ? <PushPinIcon fontSize="small" color="primary" /> : <PushPinOutlinedIcon fontSize="small" />}
+        </IconButton>
+      </Tooltip>
+      {owned && (
+        <Tooltip title="Supprimer">
+          <IconButton
+            size="small"
+            aria-label={`Supprimer ${view.name}`}
+            onClick={e => {
+              e.stopPropagation();
+              setAnchor(null);
+              setConfirmDelete(view);
+            }}
+          >
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      )}
+    </MenuItem>
+  );
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        color="inherit"
+        startIcon={<BookmarksIcon fontSize="small" />}
+        onClick={e => setAnchor(e.currentTarget)}
+        sx={{ whiteSpace: 'nowrap', color: 'text.secondary', borderColor: 'divider' }}
+      >
+        {activeView?.name ?? 'Vues'}
+      </Button>
+
+      <Menu
+        anchorEl={anchor}
+        open={!!anchor}
+        onClose={() => setAnchor(null)}
+        PaperProps={{ sx: { minWidth: 280, maxWidth: 360 } }}
+      >
+        <ListSubheader sx={{ lineHeight: '32px' }}>Mes vues</ListSubheader>
+        {ownViews.length === 0 && (
+          <MenuItem disabled>
+            <ListItemText primary="Aucune vue enregistrée" primaryTypographyProps={{ variant: 'body2' }} />
+          </MenuItem>
+        )}
+        {ownViews.map(v => renderView(v, true))}
+
+        {sharedViews.length > 0 && [
+          <ListSubheader key="shared" sx={{ lineHeight: '32px', display: 'flex', alignItems: 'center', gap: 0.5 }}>
+            <PeopleIcon sx={{ fontSize: 14 }} /> Partagées par l'équipe
+          </ListSubheader>,
+          ...sharedViews.map(v => renderView(v, false)),
+        ]}
+
+        <Divider />
+        <MenuItem
+          onClick={() => {
+            setAnchor(null);
+            setSaveOpen(true);
+          }}
+        >
+          <ListItemIcon><BookmarkAddIcon fontSize="small" /></ListItemIcon>
+          <ListItemText primary="Enregistrer la vue actuelle…" primaryTypographyProps={{ variant: 'body2' }} />
+        </MenuItem>
+      </Menu>
+
+      <SaveViewDialog
+        open={saveOpen}
+        query={current}
+        onClose={() => setSaveOpen(false)}
+        onSaved={view => {
+          setSaveOpen(false);
+          onMessage(`Vue « ${view.name} » enregistrée`, 'success');
+        }}
+        onError={msg => onMessage(msg, 'error')}
+      />
+
+      <ConfirmDialog
+        open={!!confirmDelete}
+        title="Supprimer la vue ?"
+        message={`La vue « ${confirmDelete?.name ?? ''} » sera supprimée${confirmDelete?.shared ? ' pour toute l\'équipe' : ''}.`}
+        loading={deleteMut.isPending}
+        onConfirm={() => {
+          if (confirmDelete) {
+            deleteMut.mutate(confirmDelete.id, { onSettled: () => setConfirmDelete(null) });
+          }
+        }}
+        onClose={() => setConfirmDelete(null)}
+      />
+    </>
+  );
+}
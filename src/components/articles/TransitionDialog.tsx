@@ -0,0 +1,161 @@
+import { useEffect, useMemo } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import Button from '@mui/material/Button';
+import CircularProgress from '@mui/material/CircularProgress';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import MenuItem from '@mui/material/MenuItem';
+import Stack from '@mui/material/Stack';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import { getReviewers, patchArticleStatus } from '../../services/api';
+import { applyFieldErrors } from '../../services/errors';
+import { ROLE_LABELS } from '../../services/permissions';
+import type { WorkflowTransition } from '../../services/workflow';
+import type { Article } from '../../types';
+
+function makeSchema(requiresComment: boolean) {
+  return z.object({
+    /** '' = any reviewer */
+    reviewerId: z.union([z.number(), z.literal('')]),
+    comment:    requiresComment
+      ? z.string().trim().min(10, 'Expliquez les corrections attendues (10 caractères minimum)').max(1000, 'Commentaire trop long')
+      : z.string(),
+  });
+}
+
+type FormValues = z.infer<ReturnType<typeof makeSchema>>;
+
+const FORM_FIELDS = ['reviewerId', 'comment'] as const;
+
+interface TransitionDialogProps {
+  /** Change to confirm, null when closed */
+  transition: WorkflowTransition | null;
+  article:    Article;
+  onClose:    () => void;
+  onDone:     (article: Article) => void;
+  onError:    (message: string) => void;
+}
+
+/** Status change that needs more than a click: reviewer to assign or corrections to explain. */
+export default function TransitionDialog({ transition, article, onClose, onDone, onError }: TransitionDialogProps) {
+  const open            = !!transition;
+  const requiresComment = !!transition?.requiresComment;
+  const assignsReviewer = !!transition?.assignsReviewer;
+  const schema = useMemo(() => makeSchema(requiresComment), [requiresComment]);
+
+  const { data: reviewers = [] } = useQuery({
+    queryKey: ['reviewers'],
+    queryFn:  getReviewers,
+    enabled:  assignsReviewer,
+  });
+  // Nobody reviews their own article
+  const candidates = reviewers.filter(r => r.id !== article.authorId);
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    reset,
+    setError,
+    formState: { errors },
+  } = useForm<FormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: { reviewerId: '', comment: '' },
+  });
+
+  useEffect(() => {
+    if (open) reset({ reviewerId: article.reviewerId ?? '', comment: '' });
+  }, [open, article.reviewerId, reset]);
+
+  const statusMut = useMutation({
+    mutationFn: (values: FormValues) =>
+      patchArticleStatus(article.id, transition!.to, {
+        ...(assignsReviewer && { reviewerId: values.reviewerId === '' ? null : values.reviewerId }),
+        ...(requiresComment && { comment: values.comment }),
+      }),
+    onSuccess: onDone,
+    onError: (e: Error) => {
+      if (!applyFieldErrors(e, setError, FORM_FIELDS)) onError(e.message);
+    },
+  });
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <form
+        onSubmit={e => {
+          // Rendered inside the article form: its submit must not save the article too
+          e.stopPropagation();
+          handleSubmit(values => statusMut.mutate(values))(e);
+        }}
+        noValidate
+      >
+        <DialogTitle sx={{ fontWeight: 700 }}>{transition?.label}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} pt={1}>
+            <Typography variant="body2" color="text.secondary">
+              {requiresComment
+                ? "L'article repart chez son auteur avec votre commentaire."
+                : "L'article ne pourra plus être modifié par son auteur pendant la relecture."}
+            </Typography>
+            {assignsReviewer && (
+              <Controller
+                name="reviewerId"
+                control={control}
+                render={({ field }) => (
+                  <TextField
+                    select
+                    label="Relecteur"
+                    size="small"
+                    fullWidth
+                    value={field.value}
+                    onChange={e => field.onChange(e.target.value === '' ? '' : Number(e.target.value))}
+                    error={!!errors.reviewerId}
+                    helperText={errors.reviewerId?.message ?? 'Sans relecteur désigné, tout relecteur peut prendre l\'article'}
+                  >
+                    <MenuItem value="">Tout relecteur</MenuItem>
+                    {candidates.map(r => (
+                      <MenuItem key={r.id} value={r.id}>{r.name} – {ROLE_LABELS[r.role]}</MenuItem>
+                    ))}
+                  </TextField>
+                )}
+              />
+            )}
+            {requiresComment && (
+              <TextField
+                {...register('comment')}
+                label="Corrections attendues"
+                multiline
+                minRows={4}
+                fullWidth
+                autoFocus
+                required
+                error={!!errors.comment}
+                helperText={errors.comment?.message}
+              />
+            )}
+          </Stack>
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2, gap: 1 }}>
+          <Button onClick={onClose} disabled={statusMut.isPending} variant="outlined" color="inherit" size="small">
+            Annuler
+          </Button>
+          <Button
+            type="submit"
+            variant="contained"
+            size="small"
+            disabled={statusMut.isPending}
+            startIcon={statusMut.isPending ? <CircularProgress size={14} color="inherit" /> : undefined}
+          >
+            {transition?.label}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
@@ -0,0 +1,42 @@
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { getCurrentUser } from '../../services/api';
+import { can } from '../../services/permissions';
+import type { Permission } from '../../services/permissions';
+import { useSession } from '../../hooks/useSession';
+import EmptyState from '../common/EmptyState';
+
+interface RequireAuthProps {
+  children:    React.ReactNode;
+  /** When set, signed-in users without this permission get an "access denied" state */
+  permission?: Permission;
+}
+
+/** Renders its children only for signed-in users, otherwise redirects to /login. */
+export default function RequireAuth({ children, permission }: RequireAuthProps) {
+  const session  = useSession();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  // Keep the user (and its role) in sync with the API
+  useQuery({
+    queryKey: ['me'],
+    queryFn:  getCurrentUser,
+    enabled:  !!session,
+  });
+
+  if (!session) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+  if (permission && !can(session.user, permission)) {
+    return (
+      <EmptyState
+        title="Accès refusé"
+        description="Votre rôle ne permet pas d'accéder à cette page."
+        actionLabel="Retour au dashboard"
+        onAction={() => navigate('/')}
+      />
+    );
+  }
+  return <>{children}</>;
+}
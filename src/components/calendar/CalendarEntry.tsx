@@ -0,0 +1,79 @@
+import Box from '@mui/material/Box';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+import ScheduleIcon from '@mui/icons-material/Schedule';
+import { alpha } from '@mui/material/styles';
+import { calendarDate } from '../../services/calendar';
+import { statusLabel } from '../common/StatusChip';
+import type { Article, Category } from '../../types';
+
+interface CalendarEntryProps {
+  article:     Article;
+  category:    Category | null;
+  /** Scheduled articles can be moved to another day */
+  draggable:   boolean;
+  onOpen:      () => void;
+  onDragStart: () => void;
+  onDragEnd:   () => void;
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' });
+
+/** Article in a calendar day, bordered with the colour of its first category. */
+export default function CalendarEntry({ article, category, draggable, onOpen, onDragStart, onDragEnd }: CalendarEntryProps) {
+  const color = category?.color ?? '#9E9E9E';
+  const date  = calendarDate(article);
+  const scheduled = article.status === 'scheduled';
+
+  return (
+    <Tooltip
+      title={`${article.title} – ${statusLabel(article.status)}${category ? ` · ${category.name}` : ''}`}
+      placement="top"
+      disableInteractive
+    >
+      <Box
+        component="button"
+        type="button"
+        draggable={draggable}
+        onClick={onOpen}
+        onDragStart={e => {
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', String(article.id));
+          onDragStart();
+        }}
+        onDragEnd={onDragEnd}
+        aria-label={`${article.title} (${statusLabel(article.status)})`}
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 0.5,
+          width: '100%',
+          minWidth: 0,
+          px: 0.75,
+          py: 0.25,
+          border: 'none',
+          borderLeft: `3px solid ${color}`,
+          borderRadius: 0.5,
+          bgcolor: alpha(color, 0.14),
+          color: 'text.primary',
+          font: 'inherit',
+          textAlign: 'left',
+          cursor: draggable ? 'grab' : 'pointer',
+          opacity: article.status === 'archived' ? 0.6 : 1,
+          '&:hover': { bgcolor: alpha(color, 0.26) },
+        }}
+      >
+        {scheduled && <ScheduleIcon sx={{ fontSize: 13, color: '#40C4FF', flexShrink: 0 }} />}
+        {date && (
+          <Typography component="span" variant="caption" color="text.secondary" sx={{ flexShrink: 0 }}>
+            {formatTime(date)}
+          </Typography>
+        )}
+        <Typography component="span" variant="caption" noWrap fontWeight={600}>
+          {article.title}
+        </Typography>
+      </Box>
+    </Tooltip>
+  );
+}
@@ -1,18 +1,91 @@
-import { useRef, useEffect, useCallback } from 'react';
+import { useRef, useEffect, useLayoutEffect, useCallback, useState } from 'react';
 import Box from '@mui/material/Box';
 import Paper from '@mui/material/Paper';
 import IconButton from '@mui/material/IconButton';
 import Tooltip from '@mui/material/Tooltip';
 import Typography from '@mui/material/Typography';
 import Divider from '@mui/material/Divider';
+import InputBase from '@mui/material/InputBase';
+import Menu from '@mui/material/Menu';
+import MenuItem from '@mui/material/MenuItem';
+import GlobalStyles from '@mui/material/GlobalStyles';
+import { alpha } from '@mui/material/styles';
 import FormatBoldIcon from '@mui/icons-material/FormatBold';
 import FormatItalicIcon from '@mui/icons-material/FormatItalic';
 import FormatUnderlinedIcon from '@mui/icons-material/FormatUnderlined';
 import FormatListBulletedIcon from '@mui/icons-material/FormatListBulleted';
 import FormatListNumberedIcon from '@mui/icons-material/FormatListNumbered';
 import FormatQuoteIcon from '@mui/icons-material/FormatQuote';
+import TitleIcon from '@mui/icons-material/Title';
+import HorizontalRuleIcon from '@mui/icons-material/HorizontalRule';
+import TableChartOutlinedIcon from '@mui/icons-material/TableChartOutlined';
+import TableRowsOutlinedIcon from '@mui/icons-material/TableRowsOutlined';
 import LinkIcon from '@mui/icons-material/Link';
 import LinkOffIcon from '@mui/icons-material/LinkOff';
+import AddCommentOutlinedIcon from '@mui/icons-material/AddCommentOutlined';
+import AddPhotoAlternateOutlinedIcon from '@mui/icons-material/AddPhotoAlternateOutlined';
+import UndoIcon from '@mui/icons-material/Undo';
+import RedoIcon from '@mui/icons-material/Redo';
+import CodeIcon from '@mui/icons-material/Code';
+import { mapTextOffset } from '../../services/collab';
+import {
+  locateAnchor,
+  rangeFromOffsets,
+  selectionAnchor,
+  textOffset,
+  type TextPosition,
+} from '../../services/comments';
+import { looksLikeMarkdown, markdownShortcut, parseMarkdown, toMarkdown } from '../../services/markdown';
+import {
+  activeFormat,
+  adjacentCell,
+  collapsed,
+  createTable,
+  domPoint,
+  editTable,
+  insertBlocksAfter,
+  insertFragment,
+  insertText,
+  isCollapsed,
+  parseHtml,
+  readDocument,
+  removeLink,
+  renderDocument,
+  sameRange,
+  setLink,
+  toEditingHtml,
+  toggleFormat,
+  toggleMark,
+  toHtml,
+  type ActiveFormat,
+  type DocPosition,
+  type DocRange,
+  type Edit,
+  type InlineMark,
+  type Marks,
+  type RichDocument,
+  type TableAction,
+  type TextFormat,
+} from '../../services/richText';
+import { cleanPastedHtml } from '../../services/sanitize';
+import { UndoHistory } from '../../services/undoHistory';
+import { richTextStyles } from './richTextStyles';
+import type { TextAnchor } from '../../types';
+
+/** Passage painted over the content, e.g. an open comment thread */
+export interface EditorHighlight {
+  id:     number;
+  anchor: TextAnchor;
+}
+
+/** Caret or selection of another editor, in text offsets */
+export interface EditorCursor {
+  id:    string;
+  label: string;
+  color: string;
+  start: number;
+  end:   number;
+}
 
 export interface RichTextEditorProps {
   value: string;
@@ -23,16 +96,142 @@ export interface RichTextEditorProps {
   minHeight?: number;
   placeholder?: string;
   disabled?: boolean;
+  /** Highlighted passages; they are painted over the text, never written into the HTML */
+  highlights?: EditorHighlight[];
+  /** Highlight shown as selected */
+  activeHighlight?: number | null;
+  /** Adds a "Commenter" button, called with the selected passage. Still offered when disabled. */
+  onComment?: (anchor: TextAnchor) => void;
+  /** Click inside a highlighted passage */
+  onHighlightClick?: (id: number) => void;
+  /** Other editors' carets, labelled with their name */
+  cursors?: EditorCursor[];
+  /** Caret or selection moved inside the editor, in text offsets */
+  onSelectionChange?: (position: TextPosition) => void;
+  /**
+   * Adds an "Insérer une image" button. Gets the function inserting the image
+   * HTML after the paragraph holding the caret, to call once it is chosen.
+   */
+  onInsertImage?: (insert: (html: string) => void) => void;
 }
 
 interface ToolbarButton {
   label: string;
   icon: React.ReactNode;
   action: () => void;
+  /** Also available when the editor is disabled */
+  readOnly?: boolean;
+  /** Shown pressed: the format applies at the cursor */
+  active?: boolean;
+  disabled?: boolean;
+  /** Opens a menu of these entries instead of acting */
+  menu?: ToolbarMenuEntry[];
+  /** Also available in the Markdown source view */
+  inSource?: boolean;
+}
+
+interface ToolbarMenuEntry {
+  label: string;
+  /** Called with the selection as it was when the menu opened */
+  action: (range: DocRange) => void;
+  selected?: boolean;
+}
+
+/** Menu of the toolbar, kept while it closes */
+interface ToolbarMenu {
+  label:  string;
+  anchor: HTMLElement;
+  range:  DocRange;
+  open:   boolean;
 }
 
 type ToolbarItem = ToolbarButton | null;
 
+interface Box2D {
+  left:   number;
+  top:    number;
+  width:  number;
+  height: number;
+}
+
+/** Where a cursor is drawn, relative to the editable area */
+interface CursorBoxes {
+  caret:     Box2D | null;
+  selection: Box2D[];
+}
+
+/** CSS Custom Highlight API registry names */
+const HIGHLIGHT = 'editor-comment';
+const ACTIVE_HIGHLIGHT = 'editor-comment-active';
+
+// Not available in every browser (nor in jsdom): passages are then listed without being painted
+const supportsHighlights = () => typeof CSS !== 'undefined' && !!CSS.highlights && typeof Highlight !== 'undefined';
+
+/** A state of the content: the document and where the selection was */
+interface EditorState {
+  doc:   RichDocument;
+  range: DocRange | null;
+}
+
+/** Marks chosen with the caret alone: they apply to the text typed there next */
+interface PendingMarks {
+  marks: Marks;
+  at:    DocPosition;
+}
+
+const SHORTCUT_MARKS: Record<string, InlineMark> = { b: 'bold', i: 'italic', u: 'underline' };
+
+/** Steps of the history: typing and deleting are undone by bursts */
+function inputKind(inputType: string | undefined): string | null {
+  if (inputType === 'insertText' || inputType === 'insertCompositionText') return 'typing';
+  if (inputType?.startsWith('delete')) return 'deleting';
+  return null;
+}
+
+/** Block styles of the "Style du paragraphe" menu */
+const BLOCK_STYLES: Array<{ format: TextFormat; label: string }> = [
+  { format: 'paragraph',       label: 'Paragraphe' },
+  { format: 'heading2',        label: 'Titre 2' },
+  { format: 'heading3',        label: 'Titre 3' },
+  { format: 'heading4',        label: 'Titre 4' },
+  { format: 'pullquote',       label: 'Citation en exergue' },
+  { format: 'code',            label: 'Bloc de code' },
+  { format: 'callout-info',    label: 'Encadré information' },
+  { format: 'callout-warning', label: 'Encadré attention' },
+  { format: 'callout-success', label: 'Encadré à retenir' },
+];
+
+const TABLE_ACTIONS: Array<{ action: TableAction; label: string }> = [
+  { action: 'rowAbove',     label: 'Insérer une ligne au-dessus' },
+  { action: 'rowBelow',     label: 'Insérer une ligne en dessous' },
+  { action: 'columnBefore', label: 'Insérer une colonne à gauche' },
+  { action: 'columnAfter',  label: 'Insérer une colonne à droite' },
+  { action: 'deleteRow',    label: 'Supprimer la ligne' },
+  { action: 'deleteColumn', label: 'Supprimer la colonne' },
+  { action: 'toggleHeader', label: 'Ligne d’en-tête' },
+  { action: 'deleteTable',  label: 'Supprimer le tableau' },
+];
+
+/** Pasted HTML formatted as such; other HTML may be the rendering of Markdown text, e.g. from a code editor */
+const FORMATTED_HTML = /<(h[1-6]|ul|ol|table|blockquote|pre|strong|b|em|i|u|a|img)[\s>]/i;
+
+const NO_FORMAT: ActiveFormat = { marks: {}, format: null, cell: null };
+
+const sameFormat = (a: ActiveFormat, b: ActiveFormat) => JSON.stringify(a) === JSON.stringify(b);
+
+/** Selects a range of the document in its DOM */
+function selectRange(root: HTMLElement, range: DocRange): void {
+  const selection = window.getSelection();
+  if (!selection) return;
+  const start = domPoint(root, range.start);
+  const end   = domPoint(root, range.end);
+  const dom   = document.createRange();
+  dom.setStart(start.node, start.offset);
+  dom.setEnd(end.node, end.offset);
+  selection.removeAllRanges();
+  selection.addRange(dom);
+}
+
 export default function RichTextEditor({
   value,
   onChange,
@@ -42,68 +241,491 @@ export default function RichTextEditor({
   minHeight = 300,
   placeholder = 'Écrivez votre contenu ici…',
   disabled = false,
+  highlights,
+  activeHighlight = null,
+  onComment,
+  onHighlightClick,
+  cursors,
+  onSelectionChange,
+  onInsertImage,
 }: RichTextEditorProps) {
   const editorRef   = useRef<HTMLDivElement>(null);
   const lastValueRef = useRef<string>(value);
+  const historyRef  = useRef<UndoHistory<EditorState> | null>(null);
+  const pendingRef  = useRef<PendingMarks | null>(null);
+  /** Where the highlighted passages currently stand in the text */
+  const locatedRef  = useRef<Array<TextPosition & { id: number }>>([]);
+  const frameRef    = useRef<HTMLDivElement>(null);
+  const [cursorBoxes, setCursorBoxes] = useState<CursorBoxes[]>([]);
+  const [active, setActive] = useState<ActiveFormat>(NO_FORMAT);
+  const [steps,  setSteps]  = useState({ canUndo: false, canRedo: false });
+  const [menu,   setMenu]   = useState<ToolbarMenu | null>(null);
+  /** Markdown being edited in the source view, null in the rich text one */
+  const [source, setSource] = useState<string | null>(null);
+
+  historyRef.current ??= new UndoHistory<EditorState>({ doc: parseHtml(value), range: null });
+  const history = historyRef.current;
+
+  const refreshSteps = useCallback(() => {
+    setSteps(current => (current.canUndo === history.canUndo && current.canRedo === history.canRedo
+      ? current
+      : { canUndo: history.canUndo, canRedo: history.canRedo }));
+  }, [history]);
+
+  /** The content as it stands in the DOM, with where the selection is in it */
+  const read = useCallback((): EditorState | null => {
+    const root = editorRef.current;
+    if (!root) return null;
+    const selection = window.getSelection();
+    const range = selection && selection.rangeCount > 0 && root.contains(selection.anchorNode)
+      ? selection.getRangeAt(0)
+      : null;
+    const { doc, positions } = readDocument(root, range ? [
+      { node: range.startContainer, offset: range.startOffset },
+      { node: range.endContainer,   offset: range.endOffset },
+    ] : []);
+    return { doc, range: range ? { start: positions[0], end: positions[1] } : null };
+  }, []);
+
+  /** Renders a state into the DOM and puts its selection back */
+  const show = useCallback((state: EditorState) => {
+    const root = editorRef.current;
+    if (!root) return;
+    root.replaceChildren(renderDocument(state.doc, true));
+    if (state.range) selectRange(root, state.range);
+  }, []);
+
+  const showFormat = useCallback((state: EditorState) => {
+    const pending = pendingRef.current;
+    const format  = state.range ? activeFormat(state.doc, state.range) : NO_FORMAT;
+    const next    = pending ? { ...format, marks: pending.marks } : format;
+    setActive(current => (sameFormat(current, next) ? current : next));
+  }, []);
+
+  /** Shows the formats and steps of the state the content is in, and hands its HTML over */
+  const publish = useCallback((state: EditorState) => {
+    refreshSteps();
+    showFormat(state);
+    const html = toHtml(state.doc);
+    if (html === lastValueRef.current) return;
+    lastValueRef.current = html;
+    onChange(html);
+  }, [onChange, refreshSteps, showFormat]);
+
+  /** Records a new state of the content */
+  const commit = useCallback((state: EditorState, kind: string | null) => {
+    history.push(state, kind);
+    publish(state);
+  }, [history, publish]);
+
+  /** Applies a command to the content at the selection, or at `at` when it moved since (e.g. into a menu) */
+  const apply = useCallback((command: (doc: RichDocument, range: DocRange) => Edit, at?: DocRange) => {
+    const state = read();
+    const range = at ?? state?.range;
+    if (!state || !range) return;
+    const edit = command(state.doc, range);
+    pendingRef.current = null;
+    show(edit);
+    commit(edit, null);
+  }, [read, show, commit]);
 
   // Set initial content on mount
-  useEffect(() => {
-    if (editorRef.current) {
-      editorRef.current.innerHTML = value;
-      lastValueRef.current = value;
-    }
+  useLayoutEffect(() => {
+    editorRef.current?.replaceChildren(renderDocument(history.present.doc, true));
+    lastValueRef.current = value;
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // Sync external value changes (e.g. form reset)
-  useEffect(() => {
-    if (!editorRef.current) return;
+  // Sync external value changes (e.g. form reset, another editor's edit),
+  // keeping the caret at the same place in the text. They start a new
+  // history: undoing never takes back someone else's work.
+  useLayoutEffect(() => {
+    const root = editorRef.current;
+    if (!root) return;
     if (value === lastValueRef.current) return;
-    editorRef.current.innerHTML = value;
+    const selection = window.getSelection();
+    const range = selection && selection.rangeCount > 0 && root.contains(selection.anchorNode)
+      ? selection.getRangeAt(0)
+      : null;
+    const before = root.textContent ?? '';
+    const start  = range ? textOffset(root, range.startContainer, range.startOffset) : 0;
+    const end    = range ? textOffset(root, range.endContainer, range.endOffset) : 0;
+
+    const doc = parseHtml(value);
+    root.replaceChildren(renderDocument(doc, true));
     lastValueRef.current = value;
-  }, [value]);
-
-  const handleInput = useCallback(() => {
-    if (!editorRef.current) return;
-    const newValue = editorRef.current.innerHTML;
-    lastValueRef.current = newValue;
-    onChange(newValue);
-  }, [onChange]);
-
-  const execCmd = useCallback(
-    (command: string, argument?: string) => {
-      editorRef.current?.focus();
-      // execCommand is deprecated but still universally supported and appropriate here
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      (document as any).execCommand(command, false, argument ?? null);
-      handleInput();
-    },
-    [handleInput],
+    history.reset({ doc, range: null });
+    pendingRef.current = null;
+    refreshSteps();
+    setSource(current => (current === null ? null : toMarkdown(doc)));
+
+    if (!range || !selection) return;
+    const after    = root.textContent ?? '';
+    const restored = rangeFromOffsets(root, mapTextOffset(before, after, start), mapTextOffset(before, after, end));
+    if (!restored) return;
+    selection.removeAllRanges();
+    selection.addRange(restored);
+  }, [value, history, refreshSteps]);
+
+  // Measure the other editors' carets whenever they or the text change
+  useLayoutEffect(() => {
+    const root  = editorRef.current;
+    const frame = frameRef.current;
+    if (!root || !frame || !cursors?.length) {
+      setCursorBoxes(boxes => (boxes.length ? [] : boxes));
+      return;
+    }
+    const origin = frame.getBoundingClientRect();
+    const relative = (rect: DOMRect): Box2D =>
+      ({ left: rect.left - origin.left, top: rect.top - origin.top, width: rect.width, height: rect.height });
+    // Range geometry is missing in jsdom: the labels are still rendered
+    const measurable = typeof Range.prototype.getClientRects === 'function';
+
+    setCursorBoxes(cursors.map(cursor => {
+      const range = measurable ? rangeFromOffsets(root, cursor.start, cursor.end) : null;
+      if (!range) return { caret: null, selection: [] };
+      const caret = range.cloneRange();
+      caret.collapse(false);
+      return {
+        caret:     relative(caret.getBoundingClientRect()),
+        selection: range.collapsed ? [] : [...range.getClientRects()].map(relative),
+      };
+    }));
+  }, [cursors, value]);
+
+  // Follow the selection: formats shown in the toolbar, caret reported to the other editors
+  useEffect(() => {
+    const handler = () => {
+      const root      = editorRef.current;
+      const selection = window.getSelection();
+      if (!root || !selection || selection.rangeCount === 0 || !root.contains(selection.anchorNode)) return;
+      const state   = read();
+      const pending = pendingRef.current;
+      if (pending && (!state?.range || !isCollapsed(state.range) || !sameRange(state.range, { start: pending.at, end: pending.at }))) {
+        pendingRef.current = null;
+      }
+      if (state) showFormat(state);
+      if (!onSelectionChange) return;
+      const range = selection.getRangeAt(0);
+      onSelectionChange({
+        start: textOffset(root, range.startContainer, range.startOffset),
+        end:   textOffset(root, range.endContainer, range.endOffset),
+      });
+    };
+    document.addEventListener('selectionchange', handler);
+    return () => document.removeEventListener('selectionchange', handler);
+  }, [onSelectionChange, read, showFormat]);
+
+  // Paint the highlights again whenever they or the text change
+  useEffect(() => {
+    const root = editorRef.current;
+    if (!root || !highlights) return;
+    const text = root.textContent ?? '';
+    locatedRef.current = highlights.flatMap(h => {
+      const position = locateAnchor(text, h.anchor);
+      return position ? [{ id: h.id, ...position }] : [];
+    });
+    if (!supportsHighlights()) return;
+
+    const normal = new Highlight();
+    const active = new Highlight();
+    locatedRef.current.forEach(({ id, start, end }) => {
+      const range = rangeFromOffsets(root, start, end);
+      if (range) (id === activeHighlight ? active : normal).add(range);
+    });
+    CSS.highlights.set(HIGHLIGHT, normal);
+    CSS.highlights.set(ACTIVE_HIGHLIGHT, active);
+    return () => {
+      CSS.highlights.delete(HIGHLIGHT);
+      CSS.highlights.delete(ACTIVE_HIGHLIGHT);
+    };
+  }, [highlights, activeHighlight, value]);
+
+  // Bring the selected passage into view
+  useEffect(() => {
+    const root = editorRef.current;
+    const position = locatedRef.current.find(h => h.id === activeHighlight);
+    if (!root || !position) return;
+    const range = rangeFromOffsets(root, position.start, position.end);
+    range?.startContainer.parentElement?.scrollIntoView?.({ block: 'nearest', behavior: 'smooth' });
+  }, [activeHighlight]);
+
+  /** Reads what the browser changed, normalising its markup when it strayed from the model's */
+  const syncInput = useCallback((kind: string | null) => {
+    const root  = editorRef.current;
+    const state = read();
+    if (!root || !state) return;
+    const html = toEditingHtml(state.doc);
+    if (html !== root.innerHTML) show(state);
+    if (html === toEditingHtml(history.present.doc)) {
+      history.replace(state);
+      return;
+    }
+    commit(state, kind);
+  }, [read, show, commit, history]);
+
+  const handleInput = useCallback((e: React.FormEvent<HTMLDivElement>) => {
+    const native = e.nativeEvent as InputEvent;
+    // Rendering again would break the word being composed: it is read once done
+    if (native.isComposing) return;
+    syncInput(inputKind(native.inputType));
+  }, [syncInput]);
+
+  /** Shows a state taken back from the history, in the view in use */
+  const restore = useCallback((state: EditorState | null) => {
+    if (!state) return;
+    pendingRef.current = null;
+    show(state);
+    publish(state);
+    setSource(current => (current === null ? null : toMarkdown(state.doc)));
+  }, [show, publish]);
+
+  const undo = useCallback(() => restore(history.undo()), [history, restore]);
+  const redo = useCallback(() => restore(history.redo()), [history, restore]);
+
+  const handleMark = useCallback((mark: InlineMark) => {
+    const state = read();
+    if (!state?.range) return;
+    if (!isCollapsed(state.range)) {
+      apply((doc, range) => toggleMark(doc, range, mark));
+      return;
+    }
+    const marks = pendingRef.current?.marks ?? activeFormat(state.doc, state.range).marks;
+    pendingRef.current = { marks: { ...marks, [mark]: !marks[mark] }, at: state.range.start };
+    showFormat(state);
+  }, [read, apply, showFormat]);
+
+  const handleFormat = useCallback(
+    (format: TextFormat, at?: DocRange) => apply((doc, range) => toggleFormat(doc, range, format), at),
+    [apply],
   );
 
+  /** Inserts a rule or a table after the block holding the caret */
+  const handleInsertBlock = useCallback(
+    (block: 'rule' | 'table') => apply((doc, range) =>
+      insertBlocksAfter(doc, range.end.block, [block === 'rule' ? { type: 'rule' } : createTable()])),
+    [apply],
+  );
+
+  // Text typed with marks chosen at the caret, and undo / redo from the browser's menus
+  useEffect(() => {
+    const root = editorRef.current;
+    if (!root) return;
+    const handler = (e: InputEvent) => {
+      if (e.inputType === 'historyUndo' || e.inputType === 'historyRedo') {
+        e.preventDefault();
+        if (e.inputType === 'historyUndo') undo();
+        else redo();
+        return;
+      }
+      if (e.inputType === 'insertParagraph' || e.inputType === 'insertLineBreak') {
+        // A new line in code or in a table cell stays in the block, where the browser would split it
+        const state = read();
+        const at    = state?.range?.start;
+        if (!state?.range || !at || !isCollapsed(state.range)) return;
+        if (state.doc[at.block]?.type !== 'code' && !at.cell) return;
+        e.preventDefault();
+        const edit = insertText(state.doc, at, '\n', activeFormat(state.doc, state.range).marks);
+        pendingRef.current = null;
+        show(edit);
+        commit(edit, 'typing');
+        return;
+      }
+      const pending = pendingRef.current;
+      // Markdown shortcuts are complete once a space or an emphasis delimiter is typed
+      if (e.inputType !== 'insertText' || !e.data || (!pending && !/^[ *_]$/.test(e.data))) return;
+      const state = read();
+      if (!state?.range || !isCollapsed(state.range)) return;
+      const typed    = insertText(state.doc, state.range.start, e.data, pending?.marks ?? activeFormat(state.doc, state.range).marks);
+      const shortcut = markdownShortcut(typed.doc, typed.range.start);
+      if (shortcut) {
+        e.preventDefault();
+        // The Markdown as typed is a step of its own: undoing the shortcut gives it back
+        history.push(typed, 'typing');
+        const { marks, ...edit } = shortcut;
+        pendingRef.current = marks ? { marks, at: edit.range.start } : null;
+        show(edit);
+        commit(edit, null);
+        return;
+      }
+      if (!pending) return;
+      e.preventDefault();
+      pendingRef.current = { marks: pending.marks, at: typed.range.start };
+      show(typed);
+      commit(typed, 'typing');
+    };
+    root.addEventListener('beforeinput', handler);
+    return () => root.removeEventListener('beforeinput', handler);
+  }, [read, show, commit, history, undo, redo]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (disabled) return;
+    if (e.key === 'Tab' && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      // Tab moves from cell to cell; past the table, it leaves the editor
+      const root   = editorRef.current;
+      const state  = read();
+      const target = state?.range ? adjacentCell(state.doc, state.range.start, e.shiftKey ? -1 : 1) : null;
+      if (!root || !target) return;
+      e.preventDefault();
+      selectRange(root, collapsed(target));
+      return;
+    }
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+    const key  = e.key.toLowerCase();
+    const mark = e.shiftKey ? undefined : SHORTCUT_MARKS[key];
+    const action =
+      key === 'z' ? (e.shiftKey ? redo : undo)
+      : key === 'y' ? redo
+      : mark ? () => handleMark(mark)
+      : null;
+    if (!action) return;
+    e.preventDefault();
+    action();
+  }, [disabled, read, undo, redo, handleMark]);
+
   const handleLink = useCallback(() => {
-    const selection = window.getSelection();
-    if (!selection || selection.isCollapsed) {
+    const state = read();
+    if (!state?.range) return;
+    if (isCollapsed(state.range)) {
       // unlink if cursor is in a link
-      execCmd('unlink');
+      apply(removeLink);
       return;
     }
     // eslint-disable-next-line no-alert
     const url = window.prompt('URL du lien :');
-    if (url) execCmd('createLink', url);
-  }, [execCmd]);
+    if (url) apply((doc, range) => setLink(doc, range, url));
+  }, [read, apply]);
+
+  const handlePaste = useCallback((e: React.ClipboardEvent<HTMLDivElement>) => {
+    const html  = e.clipboardData.getData('text/html');
+    const text  = e.clipboardData.getData('text/plain');
+    const state = read();
+    const code  = !!state?.range && state.doc[state.range.start.block]?.type === 'code';
+    const markdown = !code && !FORMATTED_HTML.test(html) && looksLikeMarkdown(text);
+    // Other plain text is pasted by the browser, as if typed
+    if (disabled || (!html && !markdown)) return;
+    e.preventDefault();
+    const fragment = markdown ? parseMarkdown(text) : parseHtml(cleanPastedHtml(html));
+    apply((doc, range) => insertFragment(doc, range, fragment));
+  }, [disabled, read, apply]);
+
+  const toggleSource = useCallback(() => {
+    setMenu(null);
+    setSource(current => (current === null ? toMarkdown(history.present.doc) : null));
+  }, [history]);
+
+  /** Markdown edited in the source view, read into the document as it is typed */
+  const handleSourceChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const text  = e.target.value;
+    const state = { doc: parseMarkdown(text), range: null };
+    setSource(text);
+    pendingRef.current = null;
+    show(state);
+    if (toEditingHtml(state.doc) === toEditingHtml(history.present.doc)) {
+      history.replace(state);
+      return;
+    }
+    commit(state, 'typing');
+  }, [show, commit, history]);
+
+  const handleSourceKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // The editor's history, not the text area's, which would not know of the rich text edits
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+    const key    = e.key.toLowerCase();
+    const action = key === 'z' ? (e.shiftKey ? redo : undo) : key === 'y' ? redo : null;
+    if (!action) return;
+    e.preventDefault();
+    action();
+  }, [undo, redo]);
 
+  const handleComment = useCallback(() => {
+    const root      = editorRef.current;
+    const selection = window.getSelection();
+    if (!root || !selection || selection.rangeCount === 0) return;
+    const anchor = selectionAnchor(root, selection.getRangeAt(0));
+    if (anchor) onComment?.(anchor);
+  }, [onComment]);
+
+  const handleInsertImage = useCallback(() => {
+    if (!onInsertImage) return;
+    // The image is chosen in a dialog, which takes the focus: the block
+    // holding the caret is found now
+    const state = read();
+    const after = state?.range?.end.block ?? history.present.doc.length - 1;
+    onInsertImage(html => {
+      // The content may have changed meanwhile, e.g. by a co-editor: past its end, the image goes last
+      const current = history.present.doc;
+      const edit = insertBlocksAfter(current, after, parseHtml(html));
+      pendingRef.current = null;
+      show(edit);
+      commit(edit, null);
+    });
+  }, [onInsertImage, read, history, show, commit]);
+
+  const handleClick = useCallback(() => {
+    const root      = editorRef.current;
+    const selection = window.getSelection();
+    if (!onHighlightClick || !root || !selection?.isCollapsed || !selection.anchorNode) return;
+    if (!root.contains(selection.anchorNode)) return;
+    const offset = textOffset(root, selection.anchorNode, selection.anchorOffset);
+    const hit = locatedRef.current.find(h => h.start <= offset && offset <= h.end);
+    if (hit) onHighlightClick(hit.id);
+  }, [onHighlightClick]);
+
+  const openMenu = (label: string, anchor: HTMLElement) => {
+    // The menu takes the focus: the selection is kept to apply its entries to
+    const range = read()?.range;
+    if (range) setMenu({ label, anchor, range, open: true });
+  };
+
+  const { marks, format, cell } = active;
   const toolbarItems: ToolbarItem[] = [
-    { label: 'Gras',              icon: <FormatBoldIcon />,          action: () => execCmd('bold') },
-    { label: 'Italique',          icon: <FormatItalicIcon />,        action: () => execCmd('italic') },
-    { label: 'Souligné',          icon: <FormatUnderlinedIcon />,    action: () => execCmd('underline') },
+    { label: 'Annuler',           icon: <UndoIcon />,                action: undo, disabled: !steps.canUndo, inSource: true },
+    { label: 'Rétablir',          icon: <RedoIcon />,                action: redo, disabled: !steps.canRedo, inSource: true },
+    null,
+    { label: 'Gras',              icon: <FormatBoldIcon />,          action: () => handleMark('bold'),      active: !!marks.bold },
+    { label: 'Italique',          icon: <FormatItalicIcon />,        action: () => handleMark('italic'),    active: !!marks.italic },
+    { label: 'Souligné',          icon: <FormatUnderlinedIcon />,    action: () => handleMark('underline'), active: !!marks.underline },
     null,
-    { label: 'Liste à puces',     icon: <FormatListBulletedIcon />,  action: () => execCmd('insertUnorderedList') },
-    { label: 'Liste numérotée',   icon: <FormatListNumberedIcon />,  action: () => execCmd('insertOrderedList') },
-    { label: 'Citation',          icon: <FormatQuoteIcon />,         action: () => execCmd('formatBlock', 'blockquote') },
+    {
+      label: 'Style du paragraphe',
+      icon: <TitleIcon />,
+      action: () => {},
+      menu: BLOCK_STYLES.map(style => ({
+        label:    style.label,
+        selected: format === style.format,
+        action:   range => {
+          if (format !== style.format) handleFormat(style.format, range);
+        },
+      })),
+    },
+    { label: 'Liste à puces',     icon: <FormatListBulletedIcon />,  action: () => handleFormat('bulleted'), active: format === 'bulleted' },
+    { label: 'Liste numérotée',   icon: <FormatListNumberedIcon />,  action: () => handleFormat('numbered'), active: format === 'numbered' },
+    { label: 'Citation',          icon: <FormatQuoteIcon />,         action: () => handleFormat('quote'),    active: format === 'quote' },
+    null,
+    { label: 'Ligne de séparation', icon: <HorizontalRuleIcon />,    action: () => handleInsertBlock('rule') },
+    { label: 'Insérer un tableau',  icon: <TableChartOutlinedIcon />, action: () => handleInsertBlock('table') },
+    ...(cell ? [{
+      label: 'Modifier le tableau',
+      icon: <TableRowsOutlinedIcon />,
+      action: () => {},
+      menu: TABLE_ACTIONS.map(entry => ({
+        label:  entry.label,
+        action: (range: DocRange) => apply((doc, r) => editTable(doc, r.start, entry.action), range),
+      })),
+    }] : []),
     null,
-    { label: 'Insérer un lien',   icon: <LinkIcon />,                action: handleLink },
-    { label: 'Supprimer le lien', icon: <LinkOffIcon />,             action: () => execCmd('unlink') },
+    { label: 'Insérer un lien',   icon: <LinkIcon />,                action: handleLink, active: !!marks.link },
+    { label: 'Supprimer le lien', icon: <LinkOffIcon />,             action: () => apply(removeLink) },
+    ...(onInsertImage ? [
+      { label: 'Insérer une image', icon: <AddPhotoAlternateOutlinedIcon />, action: handleInsertImage },
+    ] : []),
+    null,
+    { label: 'Source Markdown',   icon: <CodeIcon />,                action: toggleSource, active: source !== null, inSource: true },
+    ...(onComment ? [
+      null,
+      { label: 'Commenter la sélection', icon: <AddCommentOutlinedIcon />, action: handleComment, readOnly: true },
+    ] : []),
   ];
 
   const borderColor      = error ? 'error.main'   : 'rgba(255,255,255,0.12)';
@@ -111,6 +733,15 @@ export default function RichTextEditor({
 
   return (
     <Box>
+      {highlights && (
+        <GlobalStyles
+          styles={{
+            [`::highlight(${HIGHLIGHT})`]:        { backgroundColor: 'rgba(255,193,7,0.22)' },
+            [`::highlight(${ACTIVE_HIGHLIGHT})`]: { backgroundColor: 'rgba(255,193,7,0.55)' },
+          }}
+        />
+      )}
+
       {label && (
         <Typography
           variant="caption"
@@ -133,7 +764,8 @@ export default function RichTextEditor({
           borderRadius: 1,
           overflow: 'hidden',
           opacity: disabled ? 0.5 : 1,
-          pointerEvents: disabled ? 'none' : undefined,
+          // Text can still be selected to comment on it
+          pointerEvents: disabled && !onComment ? 'none' : undefined,
           transition: 'border-color 0.2s',
           '&:focus-within': {
             borderColor: hoverBorderColor,
@@ -160,66 +792,157 @@ export default function RichTextEditor({
               <Divider key={i} orientation="vertical" flexItem sx={{ mx: 0.25, my: 0.25 }} />
             ) : (
               <Tooltip key={item.label} title={item.label} placement="top">
-                <IconButton
-                  size="small"
-                  aria-label={item.label}
-                  onMouseDown={e => {
-                    // Prevent losing focus from editor
-                    e.preventDefault();
-                    item.action();
-                  }}
-                  sx={{ borderRadius: 1 }}
-                >
-                  {item.icon}
-                </IconButton>
+                <span>
+                  <IconButton
+                    size="small"
+                    aria-label={item.label}
+                    aria-pressed={item.active === undefined ? undefined : item.active}
+                    disabled={(disabled && !item.readOnly) || (source !== null && !item.inSource) || item.disabled}
+                    aria-haspopup={item.menu ? 'menu' : undefined}
+                    onMouseDown={e => {
+                      // Prevent losing focus from editor
+                      e.preventDefault();
+                      if (item.menu) openMenu(item.label, e.currentTarget);
+                      else item.action();
+                    }}
+                    sx={{
+                      borderRadius: 1,
+                      ...(item.active && { color: 'primary.main', bgcolor: theme => alpha(theme.palette.primary.main, 0.16) }),
+                    }}
+                  >
+                    {item.icon}
+                  </IconButton>
+                </span>
               </Tooltip>
             ),
           )}
         </Box>
 
+        <Menu
+          anchorEl={menu?.anchor}
+          open={!!menu?.open}
+          onClose={() => setMenu(current => current && { ...current, open: false })}
+          // The focus goes back to the text, not to the toolbar
+          disableRestoreFocus
+        >
+          {toolbarItems.find(item => item?.label === menu?.label)?.menu?.map(entry => (
+            <MenuItem
+              key={entry.label}
+              selected={entry.selected}
+              dense
+              onClick={() => {
+                setMenu({ ...menu!, open: false });
+                editorRef.current?.focus();
+                entry.action(menu!.range);
+              }}
+            >
+              {entry.label}
+            </MenuItem>
+          ))}
+        </Menu>
+
         {/* ── Editable area ────────────────────────────────────── */}
-        <Box
-          ref={editorRef}
-          contentEditable={!disabled}
-          suppressContentEditableWarning
-          onInput={handleInput}
-          data-placeholder={placeholder}
-          role="textbox"
-          aria-multiline="true"
-          aria-label={label ?? 'Éditeur de texte'}
-          sx={{
-            minHeight,
-            p: 2,
-            outline: 'none',
-            fontSize: '0.9rem',
-            lineHeight: 1.75,
-            color: 'text.primary',
-            overflowY: 'auto',
-            // Placeholder via CSS pseudo-element
-            '&:empty:before': {
-              content: 'attr(data-placeholder)',
-              color: 'text.disabled',
-              pointerEvents: 'none',
-              display: 'block',
-            },
-            // Rich text styles
-            '& h2': { fontSize: '1.3rem', fontWeight: 700, mt: 2, mb: 1 },
-            '& h3': { fontSize: '1.1rem', fontWeight: 600, mt: 1.5, mb: 0.75 },
-            '& p':  { mt: 0, mb: 1 },
-            '& blockquote': {
-              borderLeft: '3px solid',
-              borderColor: 'primary.main',
-              pl: 2,
-              ml: 0,
-              color: 'text.secondary',
-              fontStyle: 'italic',
-              my: 1,
-            },
-            '& ul, & ol': { pl: 3, my: 1 },
-            '& li': { mb: 0.5 },
-            '& a':  { color: 'primary.main', textDecoration: 'underline' },
-          }}
-        />
+        <Box ref={frameRef} sx={{ position: 'relative' }}>
+          <Box
+            ref={editorRef}
+            contentEditable={!disabled}
+            suppressContentEditableWarning
+            onInput={handleInput}
+            onCompositionEnd={() => syncInput('typing')}
+            onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            onClick={handleClick}
+            data-placeholder={placeholder}
+            role="textbox"
+            aria-multiline="true"
+            aria-label={label ?? 'Éditeur de texte'}
+            // Hidden, not unmounted, in the source view: it keeps the content rendered
+            hidden={source !== null}
+            sx={{
+              minHeight,
+              p: 2,
+              outline: 'none',
+              fontSize: '0.9rem',
+              lineHeight: 1.75,
+              color: 'text.primary',
+              overflowY: 'auto',
+              // Placeholder via CSS pseudo-element
+              '&:empty:before': {
+                content: 'attr(data-placeholder)',
+                color: 'text.disabled',
+                pointerEvents: 'none',
+                display: 'block',
+              },
+              // Rich text styles, as in the preview
+              ...richTextStyles,
+            }}
+          />
+
+          {/* ── Markdown source ──────────────────────────────────── */}
+          {source !== null && (
+            <InputBase
+              value={source}
+              onChange={handleSourceChange}
+              onKeyDown={handleSourceKeyDown}
+              readOnly={disabled}
+              multiline
+              fullWidth
+              autoFocus
+              inputProps={{ 'aria-label': 'Source Markdown', spellCheck: false }}
+              sx={{
+                minHeight,
+                p: 2,
+                alignItems: 'flex-start',
+                fontFamily: '"JetBrains Mono", "Fira Code", monospace',
+                fontSize: '0.85rem',
+                lineHeight: 1.75,
+              }}
+            />
+          )}
+
+          {/* ── Other editors ────────────────────────────────────── */}
+          {source === null && cursors?.map((cursor, i) => {
+            const boxes = cursorBoxes[i];
+            return (
+              <Box key={cursor.id} aria-hidden sx={{ pointerEvents: 'none' }}>
+                {boxes?.selection.map((rect, j) => (
+                  <Box key={j} sx={{ position: 'absolute', ...rect, bgcolor: alpha(cursor.color, 0.25) }} />
+                ))}
+                <Box
+                  data-testid="editor-cursor"
+                  sx={{
+                    position: 'absolute',
+                    left:   boxes?.caret?.left ?? 0,
+                    top:    boxes?.caret?.top ?? 0,
+                    height: boxes?.caret?.height || '1.5em',
+                    width:  2,
+                    bgcolor: cursor.color,
+                    visibility: boxes?.caret ? 'visible' : 'hidden',
+                  }}
+                >
+                  <Typography
+                    component="span"
+                    sx={{
+                      position: 'absolute',
+                      bottom: '100%',
+                      left: 0,
+                      px: 0.5,
+                      borderRadius: 0.5,
+                      bgcolor: cursor.color,
+                      color: '#000',
+                      fontSize: 11,
+                      fontWeight: 600,
+                      lineHeight: 1.5,
+                      whiteSpace: 'nowrap',
+                    }}
+                  >
+                    {cursor.label}
+                  </Typography>
+                </Box>
+              </Box>
+            );
+          })}
+        </Box>
       </Paper>
 
       {helperText && (
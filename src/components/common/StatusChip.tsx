@@ -1,24 +1,57 @@
+import { useEffect, useState } from 'react';
 import Chip from '@mui/material/Chip';
 import type { ChipProps } from '@mui/material/Chip';
+import Tooltip from '@mui/material/Tooltip';
+import { formatCountdown, formatScheduleDate } from '../../services/schedule';
 import type { ArticleStatus } from '../../types';
 
 interface StatusChipProps extends Omit<ChipProps, 'color' | 'label'> {
-  status: ArticleStatus;
+  status:       ArticleStatus;
+  /** Scheduled publication, shown as a countdown in the tooltip */
+  publishAt?:   string;
+  /** Automatic archiving, shown as a countdown in the tooltip */
+  unpublishAt?: string;
 }
 
 const STATUS_MAP: Record<
   ArticleStatus,
   { label: string; color: string; bg: string }
 > = {
-  draft:     { label: 'Brouillon', color: '#FFB74D', bg: 'rgba(255,183,77,0.14)' },
-  published: { label: 'Publié',    color: '#00E676', bg: 'rgba(0,230,118,0.13)' },
-  archived:  { label: 'Archivé',   color: '#9090B8', bg: 'rgba(144,144,184,0.12)' },
+  draft:             { label: 'Brouillon',    color: '#FFB74D', bg: 'rgba(255,183,77,0.14)' },
+  in_review:         { label: 'En relecture', color: '#B388FF', bg: 'rgba(179,136,255,0.14)' },
+  changes_requested: { label: 'À corriger',   color: '#FF5252', bg: 'rgba(255,82,82,0.13)' },
+  approved:          { label: 'Approuvé',     color: '#64FFDA', bg: 'rgba(100,255,218,0.12)' },
+  scheduled:         { label: 'Programmé',    color: '#40C4FF', bg: 'rgba(64,196,255,0.13)' },
+  published:         { label: 'Publié',       color: '#00E676', bg: 'rgba(0,230,118,0.13)' },
+  archived:          { label: 'Archivé',      color: '#9090B8', bg: 'rgba(144,144,184,0.12)' },
 };
 
-export default function StatusChip({ status, sx, ...rest }: StatusChipProps) {
+export const statusLabel = (status: ArticleStatus): string => STATUS_MAP[status]?.label ?? status;
+
+/** Current time, refreshed every minute while `active` */
+function useMinuteClock(active: boolean): number {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(timer);
+  }, [active]);
+  return now;
+}
+
+export default function StatusChip({ status, publishAt, unpublishAt, sx, ...rest }: StatusChipProps) {
   const conf = STATUS_MAP[status] ?? { label: status, color: '#fff', bg: 'transparent' };
 
-  return (
+  const showPublish   = status === 'scheduled' && !!publishAt;
+  const showUnpublish = status !== 'archived' && !!unpublishAt;
+  const now = useMinuteClock(showPublish || showUnpublish);
+
+  const schedule = [
+    showPublish   && `Publication ${formatCountdown(publishAt!, now)} (${formatScheduleDate(publishAt!)})`,
+    showUnpublish && `Archivage ${formatCountdown(unpublishAt!, now)} (${formatScheduleDate(unpublishAt!)})`,
+  ].filter(Boolean).join(' · ');
+
+  const chip = (
     <Chip
       {...rest}
       label={conf.label}
@@ -35,4 +68,6 @@ export default function StatusChip({ status, sx, ...rest }: StatusChipProps) {
       }}
     />
   );
+
+  return schedule ? <Tooltip title={schedule}>{chip}</Tooltip> : chip;
 }
@@ -0,0 +1,76 @@
+import { alpha, type Theme } from '@mui/material/styles';
+import type { CalloutTone } from '../../services/richText';
+
+// ── Article content styles ──────────────────────────────────────────────────
+// How the elements of the article content look, shared by the editor and the
+// preview so that both show it the same. Sizes are relative to the font size
+// of the box they are spread into.
+
+const calloutColor = (theme: Theme, tone: CalloutTone) => theme.palette[tone].main;
+
+const callout = (tone: CalloutTone) => ({
+  borderLeft: '4px solid',
+  borderColor: (theme: Theme) => calloutColor(theme, tone),
+  bgcolor:     (theme: Theme) => alpha(calloutColor(theme, tone), 0.08),
+});
+
+export const richTextStyles = {
+  '& h2': { fontSize: '1.45em', fontWeight: 700, mt: '1em', mb: '0.5em' },
+  '& h3': { fontSize: '1.2em', fontWeight: 600, mt: '0.9em', mb: '0.4em' },
+  '& h4': { fontSize: '1.05em', fontWeight: 600, mt: '0.8em', mb: '0.4em' },
+  '& p':  { mt: 0, mb: '0.6em' },
+  '& blockquote': {
+    borderLeft: '3px solid',
+    borderColor: 'primary.main',
+    pl: 2,
+    ml: 0,
+    color: 'text.secondary',
+    fontStyle: 'italic',
+    my: '0.75em',
+  },
+  '& blockquote.pullquote': {
+    border: 'none',
+    borderTop: '2px solid',
+    borderBottom: '2px solid',
+    borderColor: 'primary.main',
+    px: 1,
+    py: '0.5em',
+    mx: '1.5em',
+    fontSize: '1.25em',
+    fontWeight: 600,
+    textAlign: 'center',
+    color: 'text.primary',
+    '& p:last-child': { mb: 0 },
+  },
+  '& ul, & ol': { pl: 3, my: '0.6em' },
+  '& li': { mb: '0.3em' },
+  '& a':  { color: 'primary.main', textDecoration: 'underline' },
+  '& figure': { mx: 0, my: '1em' },
+  '& img':    { maxWidth: '100%', height: 'auto', display: 'block', borderRadius: 1 },
+  '& figcaption': { fontSize: '0.85em', color: 'text.secondary', mt: 0.5 },
+  '& hr': { border: 'none', borderTop: '1px solid', borderColor: 'divider', my: '1.25em' },
+  '& table': { width: '100%', borderCollapse: 'collapse', my: '0.75em' },
+  '& th, & td': {
+    border: '1px solid',
+    borderColor: 'rgba(255,255,255,0.12)',
+    px: 1,
+    py: 0.5,
+    textAlign: 'left',
+    verticalAlign: 'top',
+  },
+  '& th': { fontWeight: 600, bgcolor: 'rgba(255,255,255,0.04)' },
+  '& pre': {
+    fontFamily: '"JetBrains Mono", "Fira Code", monospace',
+    fontSize: '0.9em',
+    lineHeight: 1.6,
+    whiteSpace: 'pre-wrap',
+    bgcolor: 'rgba(255,255,255,0.05)',
+    borderRadius: 1,
+    p: 1.5,
+    my: '0.75em',
+  },
+  '& .callout': { borderRadius: 1, px: 2, py: '0.6em', my: '0.75em', '& p:last-child': { mb: 0 } },
+  '& .callout-info':    callout('info'),
+  '& .callout-warning': callout('warning'),
+  '& .callout-success': callout('success'),
+};
@@ -4,12 +4,14 @@ import Box from '@mui/material/Box';
 import Toolbar from '@mui/material/Toolbar';
 import Sidebar, { SIDEBAR_WIDTH, SIDEBAR_COLLAPSED_W } from './Sidebar';
 import Topbar from './Topbar';
+import { useRealtimeSync } from '../../hooks/useRealtime';
 
 /** Map route prefix → human-readable page title */
 function usePageTitle(): string {
   const { pathname } = useLocation();
   if (pathname === '/')                   return 'Dashboard';
   if (pathname.startsWith('/articles'))   return 'Articles';
+  if (pathname.startsWith('/calendar'))   return 'Calendrier';
   if (pathname.startsWith('/categories')) return 'Catégories';
   if (pathname.startsWith('/notifications')) return 'Notifications';
   if (pathname.startsWith('/import'))     return 'Import';
@@ -20,6 +22,7 @@ export default function AppShell() {
   const [sidebarOpen,  setSidebarOpen]  = useState(true);
   const [mobileOpen,   setMobileOpen]   = useState(false);
   const title = usePageTitle();
+  const realtimeStatus = useRealtimeSync();
 
   const sidebarW = sidebarOpen ? SIDEBAR_WIDTH : SIDEBAR_COLLAPSED_W;
 
@@ -51,6 +54,7 @@ export default function AppShell() {
           sidebarOpen={sidebarOpen}
           onMobileMenu={() => setMobileOpen(true)}
           title={title}
+          realtimeStatus={realtimeStatus}
         />
 
         {/* Spacer so content starts below the fixed AppBar */}
@@ -9,36 +9,104 @@ import ListItemText from '@mui/material/ListItemText';
 import IconButton from '@mui/material/IconButton';
 import Tooltip from '@mui/material/Tooltip';
 import Divider from '@mui/material/Divider';
+import Typography from '@mui/material/Typography';
 import DashboardIcon from '@mui/icons-material/Dashboard';
 import ArticleIcon from '@mui/icons-material/Article';
+import CalendarMonthIcon from '@mui/icons-material/CalendarMonth';
 import CategoryIcon from '@mui/icons-material/Category';
 import NotificationsIcon from '@mui/icons-material/Notifications';
 import HubIcon from '@mui/icons-material/Hub';
+import PhotoLibraryIcon from '@mui/icons-material/PhotoLibrary';
 import UploadFileIcon from '@mui/icons-material/UploadFile';
 import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
 import MenuIcon from '@mui/icons-material/Menu';
 import { alpha } from '@mui/material/styles';
 import BrandLogo from '../branding/BrandLogo';
 import { BRAND } from '../../theme';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useArticleViews, useViewCount } from '../../hooks/useArticleViews';
+import { normalizeViewQuery } from '../../services/articleFilters';
+import type { Permission } from '../../services/permissions';
+import type { ArticleView } from '../../types';
 
 export const SIDEBAR_WIDTH        = 240;
 export const SIDEBAR_COLLAPSED_W  = 64;
 
 interface NavItem {
-  label: string;
-  path:  string;
-  icon:  React.ReactNode;
+  label:       string;
+  path:        string;
+  icon:        React.ReactNode;
+  /** Hidden for users lacking this permission */
+  permission?: Permission;
 }
 
 const NAV_ITEMS: NavItem[] = [
   { label: 'Dashboard',     path: '/',              icon: <DashboardIcon /> },
   { label: 'Articles',      path: '/articles',      icon: <ArticleIcon /> },
-  { label: 'Catégories',    path: '/categories',    icon: <CategoryIcon /> },
-  { label: 'Réseaux',       path: '/networks',      icon: <HubIcon /> },
-  { label: 'Notifications', path: '/notifications', icon: <NotificationsIcon /> },
-  { label: 'Import',        path: '/import',        icon: <UploadFileIcon /> },
+  { label: 'Calendrier',    path: '/calendar',      icon: <CalendarMonthIcon /> },
+  { label: 'Médiathèque',   path: '/media',         icon: <PhotoLibraryIcon />,  permission: 'media:upload' },
+  { label: 'Catégories',    path: '/categories',    icon: <CategoryIcon />,      permission: 'category:manage' },
+  { label: 'Réseaux',       path: '/networks',      icon: <HubIcon />,           permission: 'network:manage' },
+  { label: 'Notifications', path: '/notifications', icon: <NotificationsIcon />, permission: 'article:notify' },
+  { label: 'Import',        path: '/import',        icon: <UploadFileIcon />,    permission: 'article:import' },
 ];
 
+// ── Pinned article views (nested under "Articles") ──
+
+interface PinnedViewItemProps {
+  view:     ArticleView;
+  active:   boolean;
+  onSelect: () => void;
+}
+
+function PinnedViewItem({ view, active, onSelect }: PinnedViewItemProps) {
+  const count = useViewCount(view);
+  return (
+    <ListItemButton
+      onClick={onSelect}
+      sx={{
+        borderRadius: 2,
+        mb: 0.25,
+        pl: 6.5,
+        pr: 1.5,
+        py: 0.5,
+        minHeight: 32,
+        backgroundColor: active ? alpha(BRAND.blue, 0.1) : 'transparent',
+        '&:hover': { backgroundColor: alpha(BRAND.blue, 0.09) },
+      }}
+    >
+      <ListItemText
+        primary={view.name}
+        primaryTypographyProps={{
+          noWrap: true,
+          fontSize: '0.8rem',
+          fontWeight: active ? 700 : 500,
+          color: active ? 'text.primary' : 'text.secondary',
+        }}
+      />
+      {count !== undefined && (
+        <Typography
+          component="span"
+          sx={{
+            ml: 1,
+            px: 0.75,
+            minWidth: 22,
+            textAlign: 'center',
+            borderRadius: 10,
+            fontSize: '0.7rem',
+            fontWeight: 700,
+            lineHeight: '18px',
+            color: active ? '#fff' : 'text.secondary',
+            background: active ? BRAND.gradient : alpha(BRAND.blue, 0.12),
+          }}
+        >
+          {count}
+        </Typography>
+      )}
+    </ListItemButton>
+  );
+}
+
 interface SidebarProps {
   open: boolean;
   onToggle: () => void;
@@ -54,11 +122,17 @@ export default function Sidebar({
   onMobileClose,
 }: SidebarProps) {
   const navigate  = useNavigate();
-  const { pathname } = useLocation();
+  const { pathname, search } = useLocation();
+  const { can } = usePermissions();
+  const { pinnedViews } = useArticleViews();
+
+  const navItems = NAV_ITEMS.filter(item => !item.permission || can(item.permission));
 
   const isActive = (path: string) =>
     path === '/' ? pathname === '/' : pathname.startsWith(path);
 
+  const currentQuery = pathname === '/articles' ? normalizeViewQuery(search) : null;
+
   const drawerContent = (
     <Box
       sx={{
@@ -99,66 +173,80 @@ export default function Sidebar({
 
       {/* ── Navigation ── */}
       <List sx={{ flex: 1, pt: 1, px: open ? 1 : 0.5 }}>
-        {NAV_ITEMS.map((item) => {
+        {navItems.map((item) => {
           const active = isActive(item.path);
+          const views  = open && item.path === '/articles' ? pinnedViews : [];
           return (
-            <Tooltip
-              key={item.path}
-              title={!open ? item.label : ''}
-              placement="right"
-            >
-              <ListItemButton
-                onClick={() => navigate(item.path)}
-                sx={{
-                  borderRadius: 2,
-                  mb: 0.5,
-                  px: open ? 2 : 1.5,
-                  py: 1.1,
-                  justifyContent: open ? 'flex-start' : 'center',
-                  minHeight: 44,
-                  position: 'relative',
-                  backgroundColor: active
-                    ? alpha(BRAND.blue, 0.14)
-                    : 'transparent',
-                  '&:hover': {
-                    backgroundColor: alpha(BRAND.blue, 0.09),
-                  },
-                  // Left accent bar for active item
-                  '&::before': active
-                    ? {
-                        content: '""',
-                        position: 'absolute',
-                        left: 0,
-                        top: '20%',
-                        height: '60%',
-                        width: 3,
-                        borderRadius: '0 3px 3px 0',
-                        background: BRAND.gradient,
-                      }
-                    : {},
-                }}
+            <Box key={item.path}>
+              <Tooltip
+                title={!open ? item.label : ''}
+                placement="right"
               >
-                <ListItemIcon
+                <ListItemButton
+                  onClick={() => navigate(item.path)}
                   sx={{
-                    minWidth: open ? 36 : 'auto',
-                    color: active ? BRAND.blue : 'text.secondary',
-                    transition: 'color 0.2s',
+                    borderRadius: 2,
+                    mb: 0.5,
+                    px: open ? 2 : 1.5,
+                    py: 1.1,
+                    justifyContent: open ? 'flex-start' : 'center',
+                    minHeight: 44,
+                    position: 'relative',
+                    backgroundColor: active
+                      ? alpha(BRAND.blue, 0.14)
+                      : 'transparent',
+                    '&:hover': {
+                      backgroundColor: alpha(BRAND.blue, 0.09),
+                    },
+                    // Left accent bar for active item
+                    '&::before': active
+                      ? {
+                          content: '""',
+                          position: 'absolute',
+                          left: 0,
+                          top: '20%',
+                          height: '60%',
+                          width: 3,
+                          borderRadius: '0 3px 3px 0',
+                          background: BRAND.gradient,
+                        }
+                      : {},
                   }}
                 >
-                  {item.icon}
-                </ListItemIcon>
-                {open && (
-                  <ListItemText
-                    primary={item.label}
-                    primaryTypographyProps={{
-                      fontWeight: active ? 700 : 500,
-                      fontSize: '0.875rem',
-                      color: active ? 'text.primary' : 'text.secondary',
+                  <ListItemIcon
+                    sx={{
+                      minWidth: open ? 36 : 'auto',
+                      color: active ? BRAND.blue : 'text.secondary',
+                      transition: 'color 0.2s',
                     }}
-                  />
-                )}
-              </ListItemButton>
-            </Tooltip>
+                  >
+                    {item.icon}
+                  </ListItemIcon>
+                  {open && (
+                    <ListItemText
+                      primary={item.label}
+                      primaryTypographyProps={{
+                        fontWeight: active ? 700 : 500,
+                        fontSize: '0.875rem',
+                        color: active ? 'text.primary' : 'text.secondary',
+                      }}
+                    />
+                  )}
+                </ListItemButton>
+              </Tooltip>
+              {views.length > 0 && (
+                <List disablePadding aria-label="Vues épinglées" sx={{ mb: 0.5 }}>
+                  {views.map(view => (
+                    <PinnedViewItem
+                      key={view.id}
+                      view={view}
+                      active={currentQuery === normalizeViewQuery(view.query)}
+                      onSelect={() => navigate(view.query ? `/articles?${view.query}` : '/articles')}
+                    />
+                  ))}
+                </List>
+              )}
+            </Box>
           );
         })}
       </List>
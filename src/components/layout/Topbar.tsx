@@ -1,10 +1,25 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import AppBar from '@mui/material/AppBar';
 import Toolbar from '@mui/material/Toolbar';
 import Typography from '@mui/material/Typography';
 import IconButton from '@mui/material/IconButton';
 import Box from '@mui/material/Box';
+import Avatar from '@mui/material/Avatar';
+import Tooltip from '@mui/material/Tooltip';
+import CircularProgress from '@mui/material/CircularProgress';
+import Chip from '@mui/material/Chip';
 import MenuIcon from '@mui/icons-material/Menu';
+import LogoutIcon from '@mui/icons-material/Logout';
+import ScienceIcon from '@mui/icons-material/Science';
 import BrandLogo from '../branding/BrandLogo';
+import { logout } from '../../services/api';
+import { useSession } from '../../hooks/useSession';
+import { ROLE_LABELS } from '../../services/permissions';
+import { DEMO_MODE_FORCED, isDemoMode, setDemoMode } from '../../services/demoMode';
+import type { RealtimeStatus } from '../../services/realtime';
+import { BRAND } from '../../theme';
 import { SIDEBAR_WIDTH, SIDEBAR_COLLAPSED_W } from './Sidebar';
 
 interface TopbarProps {
@@ -12,15 +27,36 @@ interface TopbarProps {
   onMobileMenu:   () => void;
   title:          string;
   actions?:       React.ReactNode;
+  /** State of the server push channel */
+  realtimeStatus?: RealtimeStatus;
 }
 
+const REALTIME_LABELS: Record<RealtimeStatus, string> = {
+  open:       'Mises à jour en direct',
+  connecting: 'Connexion aux mises à jour en direct…',
+  closed:     'Mises à jour en direct interrompues – reconnexion…',
+};
+
 export default function Topbar({
   sidebarOpen,
   onMobileMenu,
   title,
   actions,
+  realtimeStatus,
 }: TopbarProps) {
   const sidebarW = sidebarOpen ? SIDEBAR_WIDTH : SIDEBAR_COLLAPSED_W;
+  const navigate = useNavigate();
+  const qc       = useQueryClient();
+  const user     = useSession()?.user;
+
+  const [loggingOut, setLoggingOut] = useState(false);
+
+  const handleLogout = async () => {
+    setLoggingOut(true);
+    await logout();
+    qc.clear();
+    navigate('/login', { replace: true });
+  };
 
   return (
     <AppBar
@@ -61,6 +97,73 @@ export default function Topbar({
 
         {/* Contextual actions slot */}
         {actions && <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>{actions}</Box>}
+
+        {/* Demo mode indicator (click to go back to the real API) */}
+        {isDemoMode() && (
+          <Tooltip title={DEMO_MODE_FORCED ? 'Données fictives' : 'Données fictives – cliquer pour revenir à l\'API'}>
+            <Chip
+              icon={<ScienceIcon />}
+              label="Mode démo"
+              size="small"
+              color="warning"
+              variant="outlined"
+              onClick={DEMO_MODE_FORCED ? undefined : () => setDemoMode(false)}
+            />
+          </Tooltip>
+        )}
+
+        {/* Live updates indicator */}
+        {user && realtimeStatus && (
+          <Tooltip title={REALTIME_LABELS[realtimeStatus]}>
+            <Box
+              role="status"
+              aria-label={REALTIME_LABELS[realtimeStatus]}
+              sx={{
+                width: 8,
+                height: 8,
+                borderRadius: '50%',
+                bgcolor: realtimeStatus === 'open' ? 'success.main' : realtimeStatus === 'connecting' ? 'warning.main' : 'text.disabled',
+              }}
+            />
+          </Tooltip>
+        )}
+
+        {/* Current user + logout */}
+        {user && (
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+            <Box sx={{ display: { xs: 'none', sm: 'block' }, textAlign: 'right', maxWidth: 180 }}>
+              <Typography variant="body2" color="text.primary" noWrap lineHeight={1.2}>
+                {user.name}
+              </Typography>
+              <Typography variant="caption" color="text.secondary" noWrap display="block">
+                {ROLE_LABELS[user.role] ?? user.role}
+              </Typography>
+            </Box>
+            <Tooltip title={user.email}>
+              <Avatar
+                src={user.avatarUrl}
+                alt={user.name}
+                sx={{ width: 32, height: 32, fontSize: 14, background: BRAND.gradientDiag }}
+              >
+                {user.name[0]?.toUpperCase()}
+              </Avatar>
+            </Tooltip>
+            <Tooltip title="Se déconnecter">
+              <span>
+                <IconButton
+                  color="inherit"
+                  size="small"
+                  aria-label="Se déconnecter"
+                  onClick={handleLogout}
+                  disabled={loggingOut}
+                  sx={{ color: 'text.secondary' }}
+                >
+                  {loggingOut ? <CircularProgress size={18} color="inherit" /> : <LogoutIcon fontSize="small" />}
+                </IconButton>
+              </span>
+            </Tooltip>
+          </Box>
+        )}
       </Toolbar>
     </AppBar>
   );
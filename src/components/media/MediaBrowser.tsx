@@ -0,0 +1,81 @@
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import InputAdornment from '@mui/material/InputAdornment';
+import Pagination from '@mui/material/Pagination';
+import Skeleton from '@mui/material/Skeleton';
+import Stack from '@mui/material/Stack';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import SearchIcon from '@mui/icons-material/Search';
+import MediaGrid from './MediaGrid';
+import MediaUploader from './MediaUploader';
+import { useMediaLibrary } from '../../hooks/useMediaLibrary';
+import { usePermissions } from '../../hooks/usePermissions';
+import type { MediaAsset } from '../../types';
+
+interface MediaBrowserProps {
+  selectedId?: number | null;
+  onSelect:    (asset: MediaAsset) => void;
+  /** Compact layout of the picker dialog */
+  dense?:      boolean;
+}
+
+/** Search, upload and pick from the media library. Uploaded images are selected. */
+export default function MediaBrowser({ selectedId, onSelect, dense = false }: MediaBrowserProps) {
+  const { can } = usePermissions();
+  const library = useMediaLibrary();
+
+  return (
+    <Stack spacing={2}>
+      {can('media:upload') && <MediaUploader dense={dense} onUploaded={onSelect} />}
+
+      <TextField
+        value={library.searchInput}
+        onChange={e => library.setSearch(e.target.value)}
+        placeholder="Rechercher par nom, texte alternatif, légende ou crédit…"
+        size="small"
+        fullWidth
+        inputProps={{ 'aria-label': 'Rechercher un média' }}
+        InputProps={{
+          startAdornment: (
+            <InputAdornment position="start">
+              <SearchIcon fontSize="small" />
+            </InputAdornment>
+          ),
+        }}
+      />
+
+      {library.error ? (
+        <Alert severity="error">{library.error.message}</Alert>
+      ) : library.isLoading ? (
+        <Box sx={{ display: 'grid', gap: 1.5, gridTemplateColumns: 'repeat(auto-fill, minmax(150px, 1fr))' }}>
+          {Array.from({ length: 6 }, (_, i) => (
+            <Skeleton key={i} variant="rounded" sx={{ aspectRatio: '4 / 3', height: 'auto' }} />
+          ))}
+        </Box>
+      ) : library.assets.length === 0 ? (
+        <Typography color="text.secondary" textAlign="center" py={4}>
+          {library.searchInput ? 'Aucun média ne correspond à la recherche.' : 'La médiathèque est vide.'}
+        </Typography>
+      ) : (
+        <MediaGrid
+          assets={library.assets}
+          selectedId={selectedId}
+          onSelect={onSelect}
+          tileWidth={dense ? 130 : 170}
+        />
+      )}
+
+      {library.pageCount > 1 && (
+        <Stack direction="row" justifyContent="center">
+          <Pagination
+            count={library.pageCount}
+            page={library.page}
+            onChange={(_, page) => library.setPage(page)}
+            size="small"
+          />
+        </Stack>
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,181 @@
+import { useEffect } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import Alert from '@mui/material/Alert';
+import Autocomplete from '@mui/material/Autocomplete';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Stack from '@mui/material/Stack';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import { updateMediaAsset } from '../../services/api';
+import { applyFieldErrors } from '../../services/errors';
+import { MEDIA_LICENSES, formatFileSize } from '../../services/media';
+import type { MediaAsset, MediaAssetFormData } from '../../types';
+
+// No <form> here: the picker is opened from inside the article form.
+
+const detailsSchema = z.object({
+  alt:     z.string().trim().min(1, 'Décrivez l’image pour les lecteurs qui ne la voient pas').max(250, '250 caractères maximum'),
+  caption: z.string().max(500, '500 caractères maximum'),
+  credit:  z.string().max(120, '120 caractères maximum'),
+  license: z.string().max(120, '120 caractères maximum'),
+});
+
+type DetailsValues = z.infer<typeof detailsSchema>;
+
+const DETAILS_FIELDS = detailsSchema.keyof().options;
+
+const toValues = (asset: MediaAsset): DetailsValues => ({
+  alt:     asset.alt,
+  caption: asset.caption ?? '',
+  credit:  asset.credit ?? '',
+  license: asset.license ?? '',
+});
+
+const toPayload = (values: DetailsValues): MediaAssetFormData => ({
+  alt:     values.alt.trim(),
+  caption: values.caption.trim() || undefined,
+  credit:  values.credit.trim() || undefined,
+  license: values.license.trim() || undefined,
+});
+
+interface MediaDetailsFormProps {
+  asset:        MediaAsset;
+  /** The user may not edit this asset: details are shown, not saved */
+  readOnly?:    boolean;
+  /** No button without a label */
+  submitLabel?: string;
+  /** After a save, or straight away when nothing changed */
+  onSubmitted:  (asset: MediaAsset) => void;
+  onError:      (message: string) => void;
+}
+
+/** Preview and metadata of an asset: alt text, caption, credit and license. */
+export default function MediaDetailsForm({ asset, readOnly = false, submitLabel, onSubmitted, onError }: MediaDetailsFormProps) {
+  const qc = useQueryClient();
+  const {
+    control,
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors, isDirty },
+  } = useForm<DetailsValues>({
+    resolver: zodResolver(detailsSchema),
+    defaultValues: toValues(asset),
+  });
+
+  useEffect(() => { reset(toValues(asset)); }, [asset, reset]);
+
+  const saveMut = useMutation({
+    mutationFn: (values: DetailsValues) => updateMediaAsset(asset.id, toPayload(values)),
+    onSuccess: saved => {
+      qc.invalidateQueries({ queryKey: ['media'] });
+      reset(toValues(saved));
+      onSubmitted(saved);
+    },
+    onError: (e: Error) => {
+      if (!applyFieldErrors(e, setError, DETAILS_FIELDS)) onError(e.message);
+    },
+  });
+
+  const submit = handleSubmit(values => {
+    if (isDirty) saveMut.mutate(values);
+    else onSubmitted(asset);
+  });
+
+  const dimensions = asset.width && asset.height ? `${asset.width} × ${asset.height} px · ` : '';
+
+  return (
+    <Stack spacing={2}>
+      <Box
+        component="img"
+        src={asset.url}
+        alt={asset.alt}
+        sx={{ width: '100%', maxHeight: 220, objectFit: 'contain', borderRadius: 2, bgcolor: 'grey.100' }}
+      />
+      <Box>
+        <Typography variant="body2" fontWeight={600} noWrap>{asset.fileName}</Typography>
+        <Typography variant="caption" color="text.secondary">
+          {dimensions}{formatFileSize(asset.size)}
+          {asset.uploadedByName && ` · importé par ${asset.uploadedByName}`}
+        </Typography>
+      </Box>
+
+      {readOnly && !asset.alt && (
+        <Alert severity="warning">
+          Cette image n’a pas de texte alternatif. Seule la personne qui l’a importée ou un éditeur peut le renseigner.
+        </Alert>
+      )}
+
+      <TextField
+        {...register('alt')}
+        label="Texte alternatif"
+        required
+        size="small"
+        multiline
+        fullWidth
+        disabled={readOnly}
+        error={!!errors.alt}
+        helperText={errors.alt?.message ?? 'Ce que montre l’image, lu par les lecteurs d’écran'}
+      />
+      <TextField
+        {...register('caption')}
+        label="Légende"
+        size="small"
+        multiline
+        fullWidth
+        disabled={readOnly}
+        error={!!errors.caption}
+        helperText={errors.caption?.message}
+      />
+      <TextField
+        {...register('credit')}
+        label="Crédit"
+        size="small"
+        fullWidth
+        disabled={readOnly}
+        error={!!errors.credit}
+        helperText={errors.credit?.message}
+      />
+      <Controller
+        name="license"
+        control={control}
+        render={({ field }) => (
+          <Autocomplete
+            freeSolo
+            options={MEDIA_LICENSES}
+            value={field.value}
+            onInputChange={(_, value) => field.onChange(value)}
+            disabled={readOnly}
+            renderInput={params => (
+              <TextField
+                {...params}
+                label="Licence"
+                size="small"
+                onBlur={field.onBlur}
+                error={!!errors.license}
+                helperText={errors.license?.message}
+              />
+            )}
+          />
+        )}
+      />
+
+      {submitLabel && (
+        <Stack direction="row" justifyContent="flex-end">
+          <Button
+            variant="contained"
+            onClick={() => submit()}
+            disabled={saveMut.isPending || (readOnly && !asset.alt)}
+          >
+            {submitLabel}
+          </Button>
+        </Stack>
+      )}
+    </Stack>
+  );
+}
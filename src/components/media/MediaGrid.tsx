@@ -0,0 +1,73 @@
+import Box from '@mui/material/Box';
+import ButtonBase from '@mui/material/ButtonBase';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+import WarningAmberIcon from '@mui/icons-material/WarningAmber';
+import { alpha } from '@mui/material/styles';
+import { BRAND } from '../../theme';
+import type { MediaAsset } from '../../types';
+
+interface MediaGridProps {
+  assets:      MediaAsset[];
+  selectedId?: number | null;
+  onSelect:    (asset: MediaAsset) => void;
+  /** Minimum width of a thumbnail, in pixels */
+  tileWidth?:  number;
+}
+
+/** Thumbnails of the library; assets without alt text are flagged. */
+export default function MediaGrid({ assets, selectedId, onSelect, tileWidth = 150 }: MediaGridProps) {
+  return (
+    <Box
+      role="list"
+      aria-label="Médias"
+      sx={{ display: 'grid', gap: 1.5, gridTemplateColumns: `repeat(auto-fill, minmax(${tileWidth}px, 1fr))` }}
+    >
+      {assets.map(asset => {
+        const selected = asset.id === selectedId;
+        return (
+          <Box key={asset.id} role="listitem" sx={{ minWidth: 0 }}>
+            <ButtonBase
+              onClick={() => onSelect(asset)}
+              aria-label={asset.alt || asset.fileName}
+              aria-pressed={selected}
+              sx={{
+                display: 'block',
+                width: '100%',
+                textAlign: 'left',
+                borderRadius: 2,
+                overflow: 'hidden',
+                border: '2px solid',
+                borderColor: selected ? BRAND.blue : 'divider',
+                boxShadow: selected ? `0 0 0 3px ${alpha(BRAND.blue, 0.2)}` : 'none',
+                transition: 'border-color 0.15s, box-shadow 0.15s',
+              }}
+            >
+              <Box sx={{ position: 'relative', aspectRatio: '4 / 3', bgcolor: 'grey.100' }}>
+                <Box
+                  component="img"
+                  src={asset.thumbnailUrl ?? asset.url}
+                  alt=""
+                  loading="lazy"
+                  sx={{ width: '100%', height: '100%', objectFit: 'cover', display: 'block' }}
+                />
+                {!asset.alt && (
+                  <Tooltip title="Sans texte alternatif">
+                    <WarningAmberIcon
+                      color="warning"
+                      aria-label="Sans texte alternatif"
+                      sx={{ position: 'absolute', top: 6, right: 6, bgcolor: 'background.paper', borderRadius: '50%', p: 0.25 }}
+                    />
+                  </Tooltip>
+                )}
+              </Box>
+              <Typography variant="caption" component="div" noWrap sx={{ px: 1, py: 0.5 }}>
+                {asset.fileName}
+              </Typography>
+            </ButtonBase>
+          </Box>
+        );
+      })}
+    </Box>
+  );
+}
@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import Typography from '@mui/material/Typography';
+import MediaBrowser from './MediaBrowser';
+import MediaDetailsForm from './MediaDetailsForm';
+import { usePermissions } from '../../hooks/usePermissions';
+import { canEditAsset } from '../../services/media';
+import type { MediaAsset } from '../../types';
+
+interface MediaPickerDialogProps {
+  open:         boolean;
+  title:        string;
+  /** Button using the selected image, e.g. "Insérer" */
+  confirmLabel: string;
+  onClose:      () => void;
+  /** The image chosen, with its details saved */
+  onSelect:     (asset: MediaAsset) => void;
+  onError:      (message: string) => void;
+}
+
+/**
+ * Picks an image from the media library, or uploads one. Its details can be
+ * completed before it is used: an image is only used with its alt text.
+ */
+export default function MediaPickerDialog({ open, title, confirmLabel, onClose, onSelect, onError }: MediaPickerDialogProps) {
+  const { user } = usePermissions();
+  const [selected, setSelected] = useState<MediaAsset | null>(null);
+
+  useEffect(() => {
+    if (open) setSelected(null);
+  }, [open]);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth aria-labelledby="media-picker-title">
+      <DialogTitle id="media-picker-title">{title}</DialogTitle>
+      <DialogContent dividers>
+        <Box sx={{ display: 'grid', gap: 3, gridTemplateColumns: { xs: '1fr', md: '1fr 320px' }, alignItems: 'start' }}>
+          <MediaBrowser dense selectedId={selected?.id} onSelect={setSelected} />
+          <Box component="section" aria-label="Détails du média">
+            {selected ? (
+              <MediaDetailsForm
+                asset={selected}
+                readOnly={!canEditAsset(user, selected)}
+                submitLabel={confirmLabel}
+                onSubmitted={onSelect}
+                onError={onError}
+              />
+            ) : (
+              <Typography variant="body2" color="text.secondary" textAlign="center" py={4}>
+                Sélectionnez une image pour voir et compléter ses informations.
+              </Typography>
+            )}
+          </Box>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} color="inherit">Annuler</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
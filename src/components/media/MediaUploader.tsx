@@ -0,0 +1,144 @@
+import { useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import Box from '@mui/material/Box';
+import Stack from '@mui/material/Stack';
+import Typography from '@mui/material/Typography';
+import LinearProgress from '@mui/material/LinearProgress';
+import CloudUploadIcon from '@mui/icons-material/CloudUpload';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import ErrorIcon from '@mui/icons-material/Error';
+import { alpha } from '@mui/material/styles';
+import { uploadMediaAsset } from '../../services/api';
+import { ACCEPTED_IMAGE_TYPES, MAX_UPLOAD_BYTES, checkUpload, formatFileSize } from '../../services/media';
+import { BRAND } from '../../theme';
+import type { MediaAsset } from '../../types';
+
+interface MediaUploaderProps {
+  /** Called for each file once uploaded */
+  onUploaded?: (asset: MediaAsset) => void;
+  /** Smaller drop zone, e.g. in the picker dialog */
+  dense?: boolean;
+}
+
+interface Upload {
+  key:      number;
+  name:     string;
+  progress: number;
+  done:     boolean;
+  error?:   string;
+}
+
+/** Drop zone (or file browser) uploading images to the media library, one file after the other. */
+export default function MediaUploader({ onUploaded, dense = false }: MediaUploaderProps) {
+  const qc        = useQueryClient();
+  const inputRef  = useRef<HTMLInputElement>(null);
+  const keyRef    = useRef(0);
+  const [dragOver, setDragOver] = useState(false);
+  const [uploads,  setUploads]  = useState<Upload[]>([]);
+
+  const patch = (key: number, change: Partial<Upload>) =>
+    setUploads(list => list.map(u => (u.key === key ? { ...u, ...change } : u)));
+
+  const upload = async (files: File[]) => {
+    const batch = files.map(file => ({ key: ++keyRef.current, file, error: checkUpload(file) }));
+    setUploads(list => [
+      ...batch.map(({ key, file, error }) => ({ key, name: file.name, progress: 0, done: false, error: error ?? undefined })),
+      ...list.filter(u => !u.done),
+    ]);
+
+    // One at a time: a large batch does not hold up the first images
+    for (const { key, file, error } of batch) {
+      if (error) continue;
+      try {
+        const asset = await uploadMediaAsset(file, {}, ratio => patch(key, { progress: ratio }));
+        patch(key, { progress: 1, done: true });
+        onUploaded?.(asset);
+      } catch (e) {
+        patch(key, { error: (e as Error).message });
+      }
+    }
+    qc.invalidateQueries({ queryKey: ['media'] });
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(false);
+    upload([...e.dataTransfer.files]);
+  };
+
+  const handleInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    upload([...(e.target.files ?? [])]);
+    // The same files can be picked again after an error
+    e.target.value = '';
+  };
+
+  return (
+    <Box>
+      <Box
+        role="button"
+        tabIndex={0}
+        aria-label="Importer des images"
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={e => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            inputRef.current?.click();
+          }
+        }}
+        onDragOver={e => { e.preventDefault(); setDragOver(true); }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={handleDrop}
+        sx={{
+          p: dense ? 2 : 4,
+          textAlign: 'center',
+          borderRadius: 2,
+          border: `2px dashed ${dragOver ? BRAND.blue : alpha(BRAND.blue, 0.25)}`,
+          bgcolor: dragOver ? alpha(BRAND.blue, 0.07) : 'transparent',
+          transition: 'border-color 0.2s, background-color 0.2s',
+          cursor: 'pointer',
+        }}
+      >
+        <CloudUploadIcon sx={{ fontSize: dense ? 28 : 44, color: dragOver ? BRAND.blue : alpha(BRAND.blue, 0.4), mb: dense ? 0.5 : 1 }} />
+        <Typography variant={dense ? 'body2' : 'subtitle1'} fontWeight={600}>
+          Glissez vos images ici ou cliquez pour parcourir
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          JPEG, PNG, WebP ou GIF – {formatFileSize(MAX_UPLOAD_BYTES)} maximum par fichier
+        </Typography>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          hidden
+          accept={ACCEPTED_IMAGE_TYPES.join(',')}
+          aria-label="Fichiers à importer"
+          onChange={handleInput}
+        />
+      </Box>
+
+      {uploads.length > 0 && (
+        <Stack spacing={1} mt={1.5} component="ul" aria-label="Imports" sx={{ listStyle: 'none', p: 0, m: 0 }}>
+          {uploads.map(u => (
+            <Stack key={u.key} component="li" direction="row" spacing={1} alignItems="center">
+              {u.error ? (
+                <ErrorIcon fontSize="small" color="error" />
+              ) : u.done ? (
+                <CheckCircleIcon fontSize="small" color="success" />
+              ) : (
+                <CloudUploadIcon fontSize="small" color="action" />
+              )}
+              <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+                <Typography variant="body2" noWrap>{u.name}</Typography>
+                {u.error ? (
+                  <Typography variant="caption" color="error">{u.error}</Typography>
+                ) : !u.done && (
+                  <LinearProgress variant="determinate" value={u.progress * 100} sx={{ mt: 0.5 }} />
+                )}
+              </Box>
+            </Stack>
+          ))}
+        </Stack>
+      )}
+    </Box>
+  );
+}
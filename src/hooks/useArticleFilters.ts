@@ -0,0 +1,49 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  DEFAULT_ARTICLE_FILTERS,
+  parseArticleFilters,
+  serializeArticleFilters,
+  type ArticleListFilters,
+} from '../services/articleFilters';
+
+interface UpdateOptions {
+  /** Replace the current history entry instead of pushing a new one */
+  replace?: boolean;
+}
+
+interface UseArticleFilters {
+  filters:    ArticleListFilters;
+  /** Merges a change into the URL; any change other than `page` goes back to page 1 */
+  setFilters: (patch: Partial<ArticleListFilters>, options?: UpdateOptions) => void;
+  resetFilters: () => void;
+}
+
+/** Articles list filters stored in the query string (shareable, back/forward aware). */
+export function useArticleFilters(): UseArticleFilters {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const filters = useMemo(() => parseArticleFilters(searchParams), [searchParams]);
+
+  const setFilters = useCallback(
+    (patch: Partial<ArticleListFilters>, { replace = false }: UpdateOptions = {}) => {
+      setSearchParams(
+        prev => {
+          const current = parseArticleFilters(prev);
+          const next    = { ...current, ...patch };
+          if (!('page' in patch)) next.page = 1;
+          return serializeArticleFilters(next);
+        },
+        { replace },
+      );
+    },
+    [setSearchParams],
+  );
+
+  const resetFilters = useCallback(
+    () => setSearchParams(serializeArticleFilters(DEFAULT_ARTICLE_FILTERS)),
+    [setSearchParams],
+  );
+
+  return { filters, setFilters, resetFilters };
+}
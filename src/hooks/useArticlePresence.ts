@@ -0,0 +1,182 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  acquireArticleLock,
+  getLockingPresence,
+  getPresence,
+  leaveArticle,
+  releaseArticleLock,
+  sendPresenceHeartbeat,
+} from '../services/api';
+import { isArticleLocked } from '../services/errors';
+import {
+  HEARTBEAT_MS,
+  IDLE_MS,
+  TAB_SESSION_ID,
+  lockHolder,
+  presentUsers,
+  storePresence,
+} from '../services/presence';
+import type { ArticlePresence, PresenceEntry } from '../types';
+
+/** Refresh interval of the presence shown in the articles list */
+const LIST_REFRESH_MS = 30_000;
+
+const ACTIVITY_EVENTS = ['keydown', 'pointerdown', 'wheel'] as const;
+
+/**
+ * - `off`       no lock to take (nothing to edit), or the server does not support it
+ * - `acquiring` asking for the lock, the form stays editable meanwhile
+ * - `held`      this tab holds the lock
+ * - `blocked`   another session holds it: read only or take over?
+ * - `readonly`  the user chose to read only
+ * - `idle`      released after `IDLE_MS` without activity
+ * - `lost`      another session took it over
+ * - `shared`    the user chose to co-edit with the holder, merged live
+ */
+export type LockState = 'off' | 'acquiring' | 'held' | 'blocked' | 'readonly' | 'idle' | 'lost' | 'shared';
+
+interface UseArticlePresence {
+  /** Other people on the article, lock holder first */
+  others:   PresenceEntry[];
+  /** Session holding the lock, unless it is this tab */
+  holder?:  PresenceEntry;
+  state:    LockState;
+  /** False while the article is left to another session */
+  canEdit:  boolean;
+  /** Asks for the lock, taking it from its holder if `takeOver` */
+  acquire:  (takeOver: boolean) => void;
+  readOnly: () => void;
+  /** Edits alongside the holder, without the lock */
+  share:    () => void;
+}
+
+/**
+ * Presence of this tab on an article: joins it and keeps the session alive
+ * while mounted, and holds the soft lock while `wantsLock` – i.e. while the
+ * user may edit the article.
+ */
+export function useArticlePresence(articleId: string | undefined, wantsLock: boolean): UseArticlePresence {
+  const qc = useQueryClient();
+  const [state, setState] = useState<LockState>('off');
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // Fed by the heartbeat and the events channel only: a list refetch landing
+  // late would show a lock this tab has taken over since
+  const { data: presence } = useQuery({
+    queryKey: ['presence'],
+    queryFn:  getPresence,
+    enabled:  false,
+    select:   (all: ArticlePresence[]) => all.find(p => String(p.articleId) === articleId),
+  });
+
+  useEffect(() => {
+    if (!articleId) return;
+    let stopped = false;
+    const beat = () => {
+      sendPresenceHeartbeat(articleId, TAB_SESSION_ID)
+        .then(p => { if (!stopped) storePresence(qc, p); })
+        .catch(() => {});
+    };
+    // Not guaranteed to reach the server once the tab is closing: the session
+    // then expires on its own when the heartbeat stops
+    const leave = () => { leaveArticle(articleId, TAB_SESSION_ID).catch(() => {}); };
+
+    beat();
+    const timer = setInterval(beat, HEARTBEAT_MS);
+    window.addEventListener('pagehide', leave);
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+      window.removeEventListener('pagehide', leave);
+      leave();
+    };
+  }, [articleId, qc]);
+
+  const acquire = useCallback((takeOver: boolean) => {
+    if (!articleId) return;
+    setState('acquiring');
+    acquireArticleLock(articleId, TAB_SESSION_ID, takeOver)
+      .then(p => {
+        storePresence(qc, p);
+        setState('held');
+      })
+      .catch(async (e: unknown) => {
+        if (!isArticleLocked(e)) {
+          setState('off');
+          return;
+        }
+        storePresence(qc, await getLockingPresence(articleId, e).catch(() => ({ articleId: Number(articleId), entries: [] })));
+        setState('blocked');
+      });
+  }, [articleId, qc]);
+
+  const release = useCallback(() => {
+    if (!articleId) return;
+    releaseArticleLock(articleId, TAB_SESSION_ID)
+      .then(p => storePresence(qc, p))
+      .catch(() => {});
+  }, [articleId, qc]);
+
+  useEffect(() => {
+    if (!articleId || !wantsLock) {
+      setState('off');
+      return;
+    }
+    acquire(false);
+    return () => {
+      if (stateRef.current === 'held') release();
+    };
+  }, [articleId, wantsLock, acquire, release]);
+
+  // Taken over by another session, or dropped by the server while this tab
+  // was asleep: take it back unless someone else has it now
+  const holder = lockHolder(presence);
+  useEffect(() => {
+    if (state !== 'held' || !presence) return;
+    if (!holder) acquire(false);
+    else if (holder.sessionId !== TAB_SESSION_ID) setState('lost');
+  }, [state, presence, holder, acquire]);
+
+  useEffect(() => {
+    if (state !== 'held') return;
+    let timer = setTimeout(goIdle, IDLE_MS);
+    function goIdle() {
+      setState('idle');
+      release();
+    }
+    const onActivity = () => {
+      clearTimeout(timer);
+      timer = setTimeout(goIdle, IDLE_MS);
+    };
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, onActivity, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, onActivity));
+    };
+  }, [state, release]);
+
+  const readOnly = useCallback(() => setState('readonly'), []);
+  const share    = useCallback(() => setState('shared'), []);
+
+  return useMemo(() => ({
+    others:  presentUsers(presence, TAB_SESSION_ID),
+    holder:  holder?.sessionId === TAB_SESSION_ID ? undefined : holder,
+    state,
+    canEdit: state === 'off' || state === 'acquiring' || state === 'held' || state === 'shared',
+    acquire,
+    readOnly,
+    share,
+  }), [presence, holder, state, acquire, readOnly, share]);
+}
+
+/** People on each article, by article id, for the articles list. */
+export function usePresenceByArticle(): Map<number, PresenceEntry[]> {
+  const { data = [] } = useQuery({
+    queryKey: ['presence'],
+    queryFn:  getPresence,
+    refetchInterval: LIST_REFRESH_MS,
+  });
+  return useMemo(() => new Map(data.map(p => [p.articleId, presentUsers(p)])), [data]);
+}
@@ -0,0 +1,61 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { countArticles, getViews } from '../services/api';
+import { parseArticleFilters, toArticleQueryParams } from '../services/articleFilters';
+import { useNetworkScope } from './useNetworkScope';
+import { usePermissions } from './usePermissions';
+import type { ArticleView } from '../types';
+
+/** Refresh interval of the sidebar badges */
+const COUNT_REFRESH_MS = 60_000;
+
+interface UseArticleViews {
+  views:       ArticleView[];
+  /** Views owned by the current user */
+  ownViews:    ArticleView[];
+  /** Views shared by other team members */
+  sharedViews: ArticleView[];
+  pinnedViews: ArticleView[];
+  isLoading:   boolean;
+}
+
+/** Saved views of the articles list visible to the current user. */
+export function useArticleViews(): UseArticleViews {
+  const { user } = usePermissions();
+
+  const { data: views = [], isLoading } = useQuery({
+    queryKey: ['views'],
+    queryFn:  getViews,
+    enabled:  !!user,
+  });
+
+  return useMemo(() => ({
+    views,
+    ownViews:    views.filter(v => v.ownerId === user?.id),
+    sharedViews: views.filter(v => v.ownerId !== user?.id),
+    pinnedViews: views.filter(v => v.pinned),
+    isLoading,
+  }), [views, user, isLoading]);
+}
+
+/**
+ * Number of articles matching a view, for the current user and network scope.
+ * Kept under the `articles` key so that any article mutation refreshes it.
+ */
+export function useViewCount(view: ArticleView): number | undefined {
+  const { user }       = usePermissions();
+  const { networkIds } = useNetworkScope();
+
+  const params = toArticleQueryParams(parseArticleFilters(new URLSearchParams(view.query)), 1, {
+    networkIds,
+    userId: user?.id,
+  });
+
+  const { data } = useQuery({
+    queryKey: ['articles', 'count', params],
+    queryFn:  () => countArticles(params),
+    enabled:  !!user,
+    refetchInterval: COUNT_REFRESH_MS,
+  });
+  return data;
+}
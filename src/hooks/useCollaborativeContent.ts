@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSession } from './useSession';
+import { CollabSession, collabConnector, type CollabPresence, type CollabStatus } from '../services/collab';
+import type { TextPosition } from '../services/comments';
+
+interface UseCollaborativeContent {
+  /** `off` when there is nothing to share */
+  status: CollabStatus | 'off';
+  /** Other editors connected to the content */
+  peers:  CollabPresence[];
+  /** Shared content, null until the first sync */
+  html:   () => string | null;
+  /** Local edit: the new content of the editor */
+  update: (html: string) => void;
+  select: (position: TextPosition | null) => void;
+}
+
+/**
+ * Shares the content of an article with its other editors while mounted.
+ * `base` is the saved content the form starts from; `onRemoteChange` gets the
+ * content each time another editor changes it.
+ */
+export function useCollaborativeContent(
+  articleId: number | undefined,
+  base: string | undefined,
+  onRemoteChange: (html: string) => void,
+): UseCollaborativeContent {
+  const user = useSession()?.user;
+  const userId   = user?.id;
+  const userName = user?.name;
+  const [status, setStatus] = useState<CollabStatus | 'off'>('off');
+  const [peers, setPeers]   = useState<CollabPresence[]>([]);
+  const sessionRef = useRef<CollabSession | null>(null);
+  const changeRef  = useRef(onRemoteChange);
+  changeRef.current = onRemoteChange;
+  const baseRef = useRef(base);
+  baseRef.current = base;
+  const ready = base !== undefined;
+
+  useEffect(() => {
+    if (articleId === undefined || !ready || userId === undefined || userName === undefined) return;
+    const session = new CollabSession({
+      connect:  collabConnector(articleId, { id: userId, name: userName }),
+      base:     baseRef.current ?? '',
+      onChange: html => changeRef.current(html),
+      onPeers:  setPeers,
+      onStatus: setStatus,
+    });
+    sessionRef.current = session;
+    return () => {
+      session.close();
+      sessionRef.current = null;
+      setStatus('off');
+      setPeers([]);
+    };
+  }, [articleId, ready, userId, userName]);
+
+  const html   = useCallback(() => sessionRef.current?.html ?? null, []);
+  const update = useCallback((content: string) => sessionRef.current?.update(content), []);
+  const select = useCallback((position: TextPosition | null) => sessionRef.current?.select(position), []);
+
+  return { status, peers, html, update, select };
+}
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { getMediaAssets } from '../services/api';
+import type { MediaAsset } from '../types';
+
+const PAGE_SIZE = 24;
+
+interface UseMediaLibrary {
+  assets:      MediaAsset[];
+  total:       number;
+  page:        number;
+  pageCount:   number;
+  setPage:     (page: number) => void;
+  /** Search as typed, applied once the user pauses */
+  searchInput: string;
+  setSearch:   (value: string) => void;
+  isLoading:   boolean;
+  error:       Error | null;
+}
+
+/** One page of the media library, newest first, with a debounced search. */
+export function useMediaLibrary(): UseMediaLibrary {
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearchValue]      = useState('');
+  const [page, setPage]               = useState(1);
+  const searchTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  const setSearch = useCallback((value: string) => {
+    setSearchInput(value);
+    clearTimeout(searchTimer.current);
+    searchTimer.current = setTimeout(() => {
+      setSearchValue(value.trim());
+      setPage(1);
+    }, 300);
+  }, []);
+  useEffect(() => () => clearTimeout(searchTimer.current), []);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['media', { search, page }],
+    queryFn:  () => getMediaAssets({ search, page, limit: PAGE_SIZE }),
+    placeholderData: keepPreviousData,
+  });
+
+  const total = data?.total ?? 0;
+  return {
+    assets:    data?.data ?? [],
+    total,
+    page,
+    pageCount: Math.max(1, Math.ceil(total / PAGE_SIZE)),
+    setPage,
+    searchInput,
+    setSearch,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,35 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getNetworks } from '../services/api';
+import { getNetworkScope, isArticleInScope, scopeNetworks } from '../services/permissions';
+import { useSession } from './useSession';
+import type { Article, Network } from '../types';
+
+interface UseNetworkScope {
+  /** Networks visible to the current user */
+  networks:   Network[];
+  /** Network ids to send to the API, undefined when the user is not restricted */
+  networkIds: number[] | undefined;
+  restricted: boolean;
+  inScope:    (article: Pick<Article, 'networkId' | 'network'>) => boolean;
+}
+
+/** Networks list and article filter restricted to the user's assigned networks. */
+export function useNetworkScope(): UseNetworkScope {
+  const user = useSession()?.user ?? null;
+
+  const { data: allNetworks = [] } = useQuery({
+    queryKey: ['networks'],
+    queryFn:  getNetworks,
+  });
+
+  const scope      = useMemo(() => getNetworkScope(user), [user]);
+  const networks   = useMemo(() => scopeNetworks(user, allNetworks), [user, allNetworks]);
+  const networkIds = useMemo(() => (scope ? Array.from(scope, Number) : undefined), [scope]);
+  const inScope    = useCallback(
+    (article: Pick<Article, 'networkId' | 'network'>) => isArticleInScope(user, article),
+    [user],
+  );
+
+  return { networks, networkIds, restricted: !!scope, inScope };
+}
@@ -0,0 +1,21 @@
+import { useCallback } from 'react';
+import { can as checkPermission } from '../services/permissions';
+import type { Permission } from '../services/permissions';
+import { useSession } from './useSession';
+import type { Article, AuthUser } from '../types';
+
+interface UsePermissions {
+  user: AuthUser | null;
+  can:  (permission: Permission, article?: Pick<Article, 'authorId' | 'status'> | null) => boolean;
+}
+
+/** Permission check bound to the signed-in user. */
+export function usePermissions(): UsePermissions {
+  const user = useSession()?.user ?? null;
+  const can = useCallback(
+    (permission: Permission, article?: Pick<Article, 'authorId' | 'status'> | null) =>
+      checkPermission(user, permission, article),
+    [user],
+  );
+  return { user, can };
+}
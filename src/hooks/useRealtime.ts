@@ -0,0 +1,94 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { applyRealtimeEvent, connectRealtime, type RealtimeStatus } from '../services/realtime';
+import { useSession } from './useSession';
+import type { ArticleStatus, RealtimeEvent } from '../types';
+
+// ── Recent changes made by other users ──────────────────────────────────────
+// Kept for a short while so that the affected rows can show who changed them.
+
+const RECENT_UPDATE_MS = 30_000;
+
+export interface RecentUpdate {
+  /** e.g. "Publié par Marc Lefèvre" */
+  label: string;
+  at:    number;
+}
+
+const STATUS_VERBS: Record<ArticleStatus, string> = {
+  draft:             'Repassé en brouillon',
+  in_review:         'Soumis à relecture',
+  changes_requested: 'Renvoyé pour corrections',
+  approved:          'Approuvé',
+  scheduled:         'Programmé',
+  published:         'Publié',
+  archived:          'Archivé',
+};
+
+let recent = new Map<string, RecentUpdate>();
+const listeners = new Set<() => void>();
+
+function setRecent(next: Map<string, RecentUpdate>) {
+  recent = next;
+  listeners.forEach(l => l());
+}
+
+function recordUpdate(event: RealtimeEvent) {
+  if (
+    event.type === 'notification.status' ||
+    event.type === 'article.presence' ||
+    event.type === 'article.deleted' ||
+    !event.actor
+  ) return;
+
+  const verb =
+    event.type === 'article.created'        ? 'Créé' :
+    event.type === 'article.status_changed' ? STATUS_VERBS[event.article.status] :
+    'Modifié';
+  const id = String(event.article.id);
+  const update: RecentUpdate = { label: `${verb} par ${event.actor.name}`, at: Date.now() };
+
+  setRecent(new Map(recent).set(id, update));
+  setTimeout(() => {
+    if (recent.get(id) !== update) return;
+    const next = new Map(recent);
+    next.delete(id);
+    setRecent(next);
+  }, RECENT_UPDATE_MS);
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/** Latest change of the article by another user, if recent. */
+export function useRecentUpdate(articleId: number | string): RecentUpdate | undefined {
+  return useSyncExternalStore(subscribe, () => recent.get(String(articleId)));
+}
+
+// ── Connection ──────────────────────────────────────────────────────────────
+
+/**
+ * Keeps the query cache in sync with the server push channel while a user is
+ * signed in. Mounted once, by the app shell.
+ */
+export function useRealtimeSync(): RealtimeStatus {
+  const qc     = useQueryClient();
+  const userId = useSession()?.user.id;
+  const [status, setStatus] = useState<RealtimeStatus>('closed');
+
+  useEffect(() => {
+    if (userId == null) return;
+    return connectRealtime({
+      onEvent: event => {
+        applyRealtimeEvent(qc, event);
+        // Own changes are already on screen
+        if (!('actor' in event) || event.actor?.id !== userId) recordUpdate(event);
+      },
+      onStatus: setStatus,
+    });
+  }, [qc, userId]);
+
+  return status;
+}
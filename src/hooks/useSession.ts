@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getSession, subscribeSession } from '../services/session';
+import type { AuthSession } from '../types';
+
+/** Current auth session, re-rendering on login / logout / token refresh. */
+export function useSession(): AuthSession | null {
+  return useSyncExternalStore(subscribeSession, getSession);
+}
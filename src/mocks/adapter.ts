@@ -0,0 +1,95 @@
+import { AxiosError } from 'axios';
+import type { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { createDb, type MockDb } from './db';
+import { matchRoute, userFromToken, type MockResponse } from './handlers';
+import { expirePresence } from './presence';
+import { runSchedules } from './scheduler';
+
+// ── Axios adapter serving every request from the in-memory database ─────────
+
+interface MockAdapterOptions {
+  db?:      MockDb;
+  /** Simulated network latency in ms */
+  latency?: number;
+}
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK', 201: 'Created', 204: 'No Content', 400: 'Bad Request', 401: 'Unauthorized',
+  403: 'Forbidden', 404: 'Not Found', 409: 'Conflict', 422: 'Unprocessable Entity',
+};
+
+function parseBody(data: unknown): unknown {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+function readQuery(config: InternalAxiosRequestConfig, url: URL): Record<string, string> {
+  const query = Object.fromEntries(url.searchParams);
+  Object.entries((config.params ?? {}) as Record<string, unknown>).forEach(([key, value]) => {
+    if (value != null) query[key] = String(value);
+  });
+  return query;
+}
+
+/** Request headers with lower-case names */
+function readHeaders(config: InternalAxiosRequestConfig): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(config.headers.toJSON()).map(([name, value]) => [name.toLowerCase(), String(value)]),
+  );
+}
+
+export function createMockAdapter({ db = createDb(), latency = 250 }: MockAdapterOptions = {}): AxiosAdapter {
+  return async (config) => {
+    if (latency > 0) await new Promise(resolve => setTimeout(resolve, latency));
+
+    // Publications, expiries and lost sessions that fell due since the last request
+    runSchedules(db);
+    expirePresence(db);
+
+    const method = (config.method ?? 'get').toUpperCase();
+    const url    = new URL(config.url ?? '/', 'http://demo.local');
+    const match  = matchRoute(method, url.pathname);
+    const token  = String(config.headers.Authorization ?? '').replace(/^Bearer\s+/, '');
+
+    const result: MockResponse = match
+      ? await match.handler({
+          method,
+          path:    url.pathname,
+          params:  match.params,
+          query:   readQuery(config, url),
+          body:    parseBody(config.data),
+          headers: readHeaders(config),
+          user:    userFromToken(db, token),
+          db,
+        })
+      : { status: 404, data: { message: `Route inconnue : ${method} ${url.pathname}` } };
+
+    const response: AxiosResponse = {
+      // Serialised like a real HTTP body: callers never share objects with the db
+      data:       result.data === undefined ? '' : JSON.parse(JSON.stringify(result.data)),
+      status:     result.status,
+      statusText: STATUS_TEXT[result.status] ?? String(result.status),
+      headers:    {},
+      config,
+    };
+
+    const valid = config.validateStatus ? config.validateStatus(result.status) : result.status < 400;
+    if (valid) return response;
+
+    throw new AxiosError(
+      `Request failed with status code ${result.status}`,
+      result.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      null,
+      response,
+    );
+  };
+}
+
+/** Database and adapter shared by the app in demo mode */
+export const demoDb      = createDb();
+export const mockAdapter = createMockAdapter({ db: demoDb });
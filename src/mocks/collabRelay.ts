@@ -0,0 +1,172 @@
+import { demoDb } from './adapter';
+import { SequenceDoc } from '../services/crdt';
+import { tokenizeHtml, type CollabChannelHandlers, type CollabConnector, type CollabRelay } from '../services/collab';
+import type { CollabClientMessage, CollabPeer, CollabServerMessage, RealtimeActor } from '../types';
+
+// ── Co-editing relay of the demo backend ─────────────────────────────────────
+// Plays the server side of `WS /api/articles/:id/collab` in memory: one shared
+// document per article, started from its saved content and kept while someone
+// is connected, then for a grace period so that a short disconnection merges
+// instead of starting over. Tests use it too, and cut connections with
+// `setOffline` to simulate a network loss.
+
+const ROOM_GRACE_MS = 5 * 60_000;
+
+interface Connection {
+  articleId: number;
+  user:      RealtimeActor;
+  handlers:  CollabChannelHandlers;
+  clientId:  string | null;
+  open:      boolean;
+}
+
+interface Room {
+  epoch:       string;
+  doc:         SequenceDoc;
+  connections: Set<Connection>;
+  peers:       Map<string, CollabPeer>;
+  dropTimer?:  ReturnType<typeof setTimeout>;
+}
+
+let epochs = 0;
+
+export class LocalCollabRelay implements CollabRelay {
+  private readonly loadContent: (articleId: number) => string | undefined;
+  private rooms       = new Map<number, Room>();
+  private connections = new Set<Connection>();
+  private offline     = new Set<string>();
+
+  constructor(loadContent: (articleId: number) => string | undefined) {
+    this.loadContent = loadContent;
+  }
+
+  connect(articleId: number, user: RealtimeActor): CollabConnector {
+    return handlers => {
+      const connection: Connection = { articleId, user, handlers, clientId: null, open: false };
+      this.connections.add(connection);
+      this.later(() => this.open(connection));
+      return {
+        send:  message => this.later(() => this.receive(connection, message)),
+        close: () => {
+          this.connections.delete(connection);
+          this.later(() => this.leave(connection));
+        },
+      };
+    };
+  }
+
+  /** Cuts the connections of a client as a network loss would, until called again with false */
+  setOffline(clientId: string, offline: boolean): void {
+    if (offline) this.offline.add(clientId);
+    else this.offline.delete(clientId);
+
+    for (const connection of this.connections) {
+      if (connection.clientId !== clientId) continue;
+      if (offline && connection.open) {
+        this.leave(connection);
+        connection.open = false;
+        this.later(() => connection.handlers.onClose());
+      } else if (!offline && !connection.open) {
+        this.later(() => this.open(connection));
+      }
+    }
+  }
+
+  /** Content of the shared document of an article, undefined when nobody edits it */
+  content(articleId: number): string | undefined {
+    return this.rooms.get(articleId)?.doc.values().join('');
+  }
+
+  private later(task: () => void) {
+    queueMicrotask(task);
+  }
+
+  private open(connection: Connection) {
+    if (!this.connections.has(connection) || connection.open) return;
+    if (connection.clientId && this.offline.has(connection.clientId)) return;
+    connection.open = true;
+    connection.handlers.onOpen();
+  }
+
+  private receive(connection: Connection, message: CollabClientMessage) {
+    if (!connection.open || !this.connections.has(connection)) return;
+    if (message.type === 'hello') {
+      this.hello(connection, message);
+      return;
+    }
+
+    const room = this.rooms.get(connection.articleId);
+    if (!room?.connections.has(connection) || !connection.clientId) return;
+    if (message.type === 'ops') {
+      const applied = room.doc.apply(message.ops);
+      if (applied.length > 0) this.broadcast(room, connection, { type: 'ops', ops: applied });
+    } else {
+      const peer = room.peers.get(connection.clientId);
+      if (!peer) return;
+      peer.selection = message.selection;
+      this.broadcast(room, connection, { type: 'peer', peer });
+    }
+  }
+
+  private hello(connection: Connection, { clientId, epoch, vector }: Extract<CollabClientMessage, { type: 'hello' }>) {
+    const room = this.room(connection.articleId);
+    clearTimeout(room.dropTimer);
+    connection.clientId = clientId;
+    room.connections.add(connection);
+
+    const peer: CollabPeer = { clientId, userId: connection.user.id, userName: connection.user.name, selection: null };
+    room.peers.set(clientId, peer);
+    this.deliver(connection, {
+      type:   'welcome',
+      epoch:  room.epoch,
+      vector: room.doc.stateVector(),
+      // A client of an older document gets the whole current one
+      ops:    room.doc.opsSince(epoch === room.epoch ? vector : {}),
+      peers:  [...room.peers.values()].filter(p => p.clientId !== clientId),
+    });
+    this.broadcast(room, connection, { type: 'peer', peer });
+  }
+
+  private leave(connection: Connection) {
+    const room = this.rooms.get(connection.articleId);
+    if (!room?.connections.delete(connection) || !connection.clientId) return;
+    room.peers.delete(connection.clientId);
+    this.broadcast(room, connection, { type: 'leave', clientId: connection.clientId });
+    if (room.connections.size === 0) {
+      room.dropTimer = setTimeout(() => this.rooms.delete(connection.articleId), ROOM_GRACE_MS);
+    }
+  }
+
+  private room(articleId: number): Room {
+    let room = this.rooms.get(articleId);
+    if (!room) {
+      const epoch = `${++epochs}-${Math.random().toString(36).slice(2, 8)}`;
+      const doc   = new SequenceDoc(`seed-${epoch}`);
+      doc.insert(0, tokenizeHtml(this.loadContent(articleId) ?? ''));
+      room = { epoch, doc, connections: new Set(), peers: new Map() };
+      this.rooms.set(articleId, room);
+    }
+    return room;
+  }
+
+  private broadcast(room: Room, from: Connection, message: CollabServerMessage) {
+    room.connections.forEach(connection => {
+      if (connection !== from) this.deliver(connection, message);
+    });
+  }
+
+  private deliver(connection: Connection, message: CollabServerMessage) {
+    // Serialised like a real message: clients never share objects with the relay
+    const copy = JSON.parse(JSON.stringify(message)) as CollabServerMessage;
+    this.later(() => {
+      if (connection.open && this.connections.has(connection)) connection.handlers.onMessage(copy);
+    });
+  }
+}
+
+let demoRelay: LocalCollabRelay | null = null;
+
+export function demoCollabRelay(): LocalCollabRelay {
+  demoRelay ??= new LocalCollabRelay(articleId => demoDb.articles.find(a => a.id === articleId)?.content);
+  return demoRelay;
+}
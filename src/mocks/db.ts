@@ -0,0 +1,357 @@
+import { DEMO_PASSWORD } from '../services/demoMode';
+import { editorText } from '../services/comments';
+import type {
+  Article,
+  ArticleFormData,
+  ArticleNote,
+  ArticleRevision,
+  ArticleView,
+  AuthUser,
+  Category,
+  CommentThread,
+  MediaAsset,
+  Network,
+  Notification,
+  PresenceEntry,
+  RevisionSource,
+} from '../types';
+
+// ── In-memory database of the demo backend ──────────────────────────────────
+// Rebuilt from the seed on every page load: changes made in demo mode are
+// deliberately not persisted.
+
+export interface MockUser extends AuthUser {
+  password: string;
+}
+
+/** Pins are per user: `pinned` is resolved for the requesting user */
+export interface MockView extends Omit<ArticleView, 'pinned' | 'ownerName'> {
+  pinnedBy: number[];
+}
+
+export interface MockPresence extends PresenceEntry {
+  articleId: number;
+}
+
+export interface MockDb {
+  users:         MockUser[];
+  networks:      Network[];
+  categories:    Category[];
+  articles:      Article[];
+  notifications: Notification[];
+  views:         MockView[];
+  revisions:     ArticleRevision[];
+  comments:      CommentThread[];
+  notes:         ArticleNote[];
+  media:         MediaAsset[];
+  /** Open sessions, keyed by article and session id */
+  presence:      MockPresence[];
+  nextId:        (table: keyof Omit<MockDb, 'nextId' | 'presence'>) => number;
+}
+
+// ── Seed ────────────────────────────────────────────────────────────────────
+
+const HOUR = 60 * 60 * 1000;
+const DAY  = 24 * HOUR;
+
+function daysAgo(days: number, hour = 9): string {
+  const d = new Date(Date.now() - days * DAY);
+  d.setHours(hour, 0, 0, 0);
+  return d.toISOString();
+}
+
+function hoursAgo(hours: number): string {
+  return new Date(Date.now() - hours * HOUR).toISOString();
+}
+
+function hoursFromNow(hours: number): string {
+  const d = new Date(Date.now() + hours * HOUR);
+  d.setSeconds(0, 0);
+  return d.toISOString();
+}
+
+export function slugify(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+const USERS: MockUser[] = [
+  { id: 1, name: 'Sophie Bernard', email: 'admin@taram.fr',   role: 'admin',  password: DEMO_PASSWORD },
+  { id: 2, name: 'Marc Lefèvre',   email: 'editeur@taram.fr', role: 'editor', password: DEMO_PASSWORD },
+  { id: 3, name: 'Julie Morel',    email: 'auteur@taram.fr',  role: 'author', password: DEMO_PASSWORD, networkIds: [1, 3] },
+];
+
+const NETWORKS: Network[] = [
+  { id: 1, name: 'TARAM Info',    slug: 'taram-info',    description: 'Actualité générale et politique',        renditions: ['16:9', '1:1'] },
+  { id: 2, name: 'TARAM Sport',   slug: 'taram-sport',   description: 'Toute l\'actualité sportive',             renditions: ['16:9', '4:5'] },
+  { id: 3, name: 'TARAM Culture', slug: 'taram-culture', description: 'Cinéma, musique, livres et expositions' },
+];
+
+const CATEGORIES: Category[] = [
+  { id: 1, name: 'Politique',     slug: 'politique',     color: '#E53935', description: 'Vie politique nationale et locale' },
+  { id: 2, name: 'Économie',      slug: 'economie',      color: '#1E88E5', description: 'Entreprises, emploi, finances publiques' },
+  { id: 3, name: 'Sport',         slug: 'sport',         color: '#43A047' },
+  { id: 4, name: 'Culture',       slug: 'culture',       color: '#8E24AA' },
+  { id: 5, name: 'Société',       slug: 'societe',       color: '#FB8C00' },
+  { id: 6, name: 'International', slug: 'international', color: '#00ACC1' },
+];
+
+/** Scheduled publication / automatic archiving in hours from now, review */
+interface SeedExtras {
+  publishIn?:     number;
+  unpublishIn?:   number;
+  reviewerId?:    number;
+  reviewComment?: string;
+}
+
+/** [title, networkId, categoryIds, status, featured, authorId, days ago, extras] */
+type ArticleSeed = [string, number, number[], Article['status'], boolean, number, number, SeedExtras?];
+
+const ARTICLES: ArticleSeed[] = [
+  ['Le budget régional 2025 adopté après une longue séance',       1, [1, 2], 'published', true,  2, 1],
+  ['Transports : la nouvelle ligne de tramway ouvrira en septembre', 1, [5],    'published', false, 3, 2],
+  ['Sommet européen : les points clés de l\'accord sur l\'énergie',  1, [6, 2], 'published', true,  2, 3],
+  ['Municipales : les premières listes déposées en préfecture',      1, [1],    'draft',     false, 3, 0],
+  ['Le chômage recule pour le troisième trimestre consécutif',       1, [2],    'published', false, 2, 5],
+  ['Logement étudiant : une pénurie qui s\'aggrave',                 1, [5],    'in_review', false, 3, 1, { reviewerId: 2 }],
+  ['Réforme des retraites : ce qui change au 1er janvier',           1, [1, 5], 'archived',  false, 2, 40],
+  ['Ligue 1 : le club local arrache le nul face au leader',          2, [3],    'published', true,  2, 1],
+  ['Marathon de printemps : record de participation',                2, [3, 5], 'published', false, 2, 4, { unpublishIn: 72 }],
+  ['Rugby : le XV de départ dévoilé pour le derby',                  2, [3],    'draft',     false, 1, 0],
+  ['Handball féminin : qualification historique en coupe d\'Europe', 2, [3, 6], 'published', false, 2, 6],
+  ['Tennis : le tournoi régional change de surface',                 2, [3],    'archived',  false, 1, 60],
+  ['Cyclisme : le parcours de l\'étape régionale présenté',          2, [3],    'draft',     false, 2, 2],
+  ['Festival d\'été : la programmation complète dévoilée',           3, [4],    'published', true,  3, 2],
+  ['Le musée des Beaux-Arts rouvre après deux ans de travaux',       3, [4],    'published', false, 3, 7],
+  ['Cinéma : trois films tournés dans la région en compétition',     3, [4, 6], 'changes_requested', false, 3, 1,
+    { reviewerId: 2, reviewComment: 'Citer la source du palmarès et raccourcir le chapeau.' }],
+  ['Rentrée littéraire : les premiers romans à ne pas manquer',      3, [4],    'published', false, 2, 9],
+  ['Patrimoine : la restauration de la cathédrale s\'achève',        3, [4, 5], 'archived',  false, 2, 90],
+  ['Concerts gratuits : la ville lance sa saison estivale',          3, [4, 5], 'draft',     false, 3, 3],
+  ['Exportations : les PME régionales gagnent des parts de marché',  1, [2, 6], 'published', false, 2, 12],
+  ['Santé : ouverture d\'une maison médicale en zone rurale',        1, [5],    'published', false, 3, 14],
+  ['Agriculture : la sécheresse pèse sur les récoltes',              1, [2, 5], 'approved',  false, 2, 4, { reviewerId: 1 }],
+  ['Budget participatif : les projets lauréats annoncés',           1, [1, 5], 'scheduled', false, 2, 0, { publishIn: 3, unpublishIn: 24 * 14, reviewerId: 1 }],
+  ['Fête de la musique : les scènes du centre-ville dévoilées',     3, [4],    'scheduled', true,  2, 1, { publishIn: 20, reviewerId: 1 }],
+];
+
+function seedArticle([title, networkId, categoryIds, status, featured, authorId, age, extras]: ArticleSeed, index: number): Article {
+  const author   = USERS.find(u => u.id === authorId)!;
+  const reviewer = USERS.find(u => u.id === extras?.reviewerId);
+  const excerpt = `${title.split(':')[0].trim()} : notre rédaction fait le point sur l'essentiel.`;
+  return {
+    id:          index + 1,
+    title,
+    slug:        slugify(title),
+    excerpt,
+    summary:     excerpt,
+    content:
+      `<p>${excerpt}</p>` +
+      '<p>Les informations recueillies auprès des acteurs concernés permettent de dresser un premier bilan. ' +
+      'Nos journalistes ont interrogé élus, habitants et spécialistes pour éclairer les enjeux.</p>' +
+      '<h2>Ce qu\'il faut retenir</h2>' +
+      '<ul><li>Un calendrier désormais connu</li><li>Des financements confirmés</li><li>Des réactions contrastées</li></ul>',
+    authorName:  author.name,
+    authorId,
+    featured,
+    status,
+    networkId,
+    categoryIds,
+    createdAt:   daysAgo(age + 1, 8),
+    updatedAt:   daysAgo(age, 17),
+    publishedAt: status === 'published' || status === 'archived' ? daysAgo(age, 10) : undefined,
+    publishAt:   extras?.publishIn   != null ? hoursFromNow(extras.publishIn)   : undefined,
+    unpublishAt: extras?.unpublishIn != null ? hoursFromNow(extras.unpublishIn) : undefined,
+    reviewerId:    reviewer?.id,
+    reviewerName:  reviewer?.name,
+    reviewComment: extras?.reviewComment,
+  };
+}
+
+/** Article fields kept in a revision */
+export function toRevisionData(article: Article): ArticleFormData {
+  return {
+    title:       article.title,
+    content:     article.content,
+    excerpt:     article.excerpt,
+    authorName:  article.authorName,
+    summary:     article.summary,
+    slug:        article.slug,
+    imageUrl:    article.imageUrl,
+    imageId:     article.imageId ?? null,
+    imageCrop:   article.imageCrop ?? null,
+    featured:    article.featured,
+    categoryIds: article.categoryIds ?? [],
+    networkId:   article.networkId ?? null,
+    publishAt:   article.publishAt,
+    unpublishAt: article.unpublishAt,
+  };
+}
+
+/**
+ * Keeps a copy of the article as a revision; `user` is null for automatic
+ * changes. A save changing nothing since the last revision is not kept.
+ */
+export function recordRevision(
+  db: MockDb,
+  article: Article,
+  user: Pick<AuthUser, 'id' | 'name'> | null,
+  source: RevisionSource,
+): void {
+  const data     = toRevisionData(article);
+  const previous = db.revisions.filter(r => r.articleId === article.id).pop();
+  if (previous && previous.status === article.status && JSON.stringify(previous.data) === JSON.stringify(data)) return;
+  db.revisions.push({
+    id:        db.nextId('revisions'),
+    articleId: article.id,
+    source,
+    status:    article.status,
+    userId:    user?.id,
+    userName:  user?.name,
+    createdAt: article.updatedAt ?? new Date().toISOString(),
+    data,
+  });
+}
+
+/** First draft, publication and last edit of each seeded article */
+function seedRevisions(articles: Article[]): ArticleRevision[] {
+  const revisions: ArticleRevision[] = [];
+  const add = (article: Article, source: RevisionSource, status: Article['status'], createdAt: string, data: ArticleFormData) => {
+    const user = USERS.find(u => u.id === article.authorId)!;
+    revisions.push({
+      id: revisions.length + 1, articleId: article.id, source, status, userId: user.id, userName: user.name, createdAt, data,
+    });
+  };
+
+  articles.forEach(article => {
+    const current = toRevisionData(article);
+    const draft   = {
+      ...current,
+      title:   article.title.replace(/ :.*$/, ''),
+      content: article.content.replace(/<h2>[\s\S]*$/, ''),
+    };
+    add(article, 'manual', 'draft', article.createdAt!, draft);
+    if (article.publishedAt) add(article, 'status', 'published', article.publishedAt, current);
+    add(article, 'manual', article.status, article.updatedAt!, current);
+  });
+  return revisions;
+}
+
+function seedNotifications(articles: Article[]): Notification[] {
+  return articles
+    .filter(a => a.status === 'published')
+    .slice(0, 6)
+    .map((a, i) => ({
+      id:             i + 1,
+      articleId:      a.id,
+      title:          a.title,
+      subject:        `[TARAM] ${a.title}`,
+      message:        a.excerpt,
+      status:         i === 4 ? 'failed' : 'sent',
+      recipients:     ['redaction@taram.fr', 'abonnes@taram.fr'],
+      recipientCount: 2,
+      sentAt:         a.publishedAt,
+      createdAt:      a.publishedAt,
+    }));
+}
+
+function seedViews(): MockView[] {
+  const view = (id: number, ownerId: number, name: string, query: string, shared: boolean, pinnedBy: number[]): MockView =>
+    ({ id, ownerId, name, query, shared, pinnedBy, createdAt: daysAgo(30), updatedAt: daysAgo(30) });
+  return [
+    view(1, 3, 'Mes brouillons',         'status=draft&mine=true',        false, [3]),
+    view(2, 2, 'Mes brouillons',         'status=draft&mine=true',        false, [2]),
+    view(3, 2, 'À la une – TARAM Sport', 'networkId=2&featured=true',     true,  [1, 2]),
+    view(4, 1, 'Archivés ce mois-ci',    'status=archived&period=month',  true,  [1]),
+  ];
+}
+
+/** Review comments on the article in review, one of them resolved */
+function seedComments(articles: Article[]): CommentThread[] {
+  const article = articles.find(a => a.status === 'in_review')!;
+  const text    = editorText(article.content);
+  const anchor  = (quote: string) => ({ start: text.indexOf(quote), end: text.indexOf(quote) + quote.length, quote });
+  const message = (id: number, userId: number, body: string, createdAt: string) => ({
+    id, authorId: userId, authorName: USERS.find(u => u.id === userId)!.name, body, createdAt,
+  });
+  return [
+    {
+      id: 1, articleId: article.id, anchor: anchor('Des financements confirmés'), resolved: false, createdAt: hoursAgo(5),
+      messages: [
+        message(1, 2, 'Lesquels ? Préciser les montants et qui finance.', hoursAgo(5)),
+        message(2, 3, 'Je rappelle la région ce matin pour avoir les chiffres.', hoursAgo(3)),
+      ],
+    },
+    {
+      id: 2, articleId: article.id, anchor: anchor('un premier bilan'), resolved: true,
+      resolvedByName: 'Julie Morel', resolvedAt: hoursAgo(2), createdAt: hoursAgo(4),
+      messages: [message(3, 2, '« Bilan provisoire » serait plus juste à ce stade.', hoursAgo(4))],
+    },
+  ];
+}
+
+function seedNotes(articles: Article[]): ArticleNote[] {
+  const inReview = articles.find(a => a.status === 'in_review')!;
+  const toFix    = articles.find(a => a.status === 'changes_requested')!;
+  return [
+    {
+      id: 1, articleId: inReview.id, authorId: 1, authorName: 'Sophie Bernard', createdAt: hoursAgo(6),
+      body: 'À croiser avec l\'enquête du service Société avant publication.',
+    },
+    {
+      id: 2, articleId: toFix.id, authorId: 2, authorName: 'Marc Lefèvre', createdAt: hoursAgo(20),
+      body: 'Le distributeur demande à relire les citations : ne pas publier avant son retour.',
+    },
+  ];
+}
+
+const MEDIA: Array<Pick<MediaAsset, 'fileName' | 'alt' | 'caption' | 'credit' | 'license'> & { photo: number; by: number; days: number }> = [
+  { photo: 1031, by: 2, days: 1,  fileName: 'skyline-paris.jpg',       alt: 'Vue aérienne des toits de Paris au lever du jour', caption: 'Paris, vue depuis Montmartre', credit: 'Marc Lefèvre / TARAM', license: 'Tous droits réservés' },
+  { photo: 1067, by: 1, days: 3,  fileName: 'conseil-municipal.jpg',   alt: 'Façade de la mairie éclairée le soir',             caption: 'La mairie avant le conseil municipal', credit: 'AFP', license: 'Droits agence' },
+  { photo: 1043, by: 3, days: 5,  fileName: 'festival-ete.jpg',        alt: '',                                                 credit: 'Julie Morel' },
+  { photo: 1018, by: 2, days: 8,  fileName: 'montagne-randonnee.jpg',  alt: 'Randonneurs sur une crête de montagne',            caption: 'Sentier des crêtes', credit: 'Unsplash', license: 'CC0 (domaine public)' },
+  { photo: 1080, by: 1, days: 12, fileName: 'marche-producteurs.jpg',  alt: 'Étal de fraises sur un marché de producteurs',     caption: 'Marché de producteurs du samedi', credit: 'Sophie Bernard / TARAM', license: 'Tous droits réservés' },
+  { photo: 1011, by: 3, days: 20, fileName: 'lac-kayak.jpg',           alt: 'Kayakiste sur un lac entouré de forêts',           credit: 'Unsplash', license: 'CC BY 4.0' },
+];
+
+function seedMedia(users: MockUser[]): MediaAsset[] {
+  return MEDIA.map(({ photo, by, days, ...asset }, index) => ({
+    id:             index + 1,
+    url:            `https://picsum.photos/id/${photo}/1200/800`,
+    thumbnailUrl:   `https://picsum.photos/id/${photo}/400/267`,
+    mimeType:       'image/jpeg',
+    size:           180_000 + photo * 37,
+    width:          1200,
+    height:         800,
+    uploadedBy:     by,
+    uploadedByName: users.find(u => u.id === by)?.name,
+    createdAt:      daysAgo(days),
+    updatedAt:      daysAgo(days),
+    ...asset,
+  }));
+}
+
+// ── Factory ─────────────────────────────────────────────────────────────────
+
+export function createDb(): MockDb {
+  const articles = ARTICLES.map(seedArticle);
+  const db: MockDb = {
+    users:         USERS.map(u => ({ ...u })),
+    networks:      NETWORKS.map(n => ({ ...n })),
+    categories:    CATEGORIES.map(c => ({ ...c })),
+    articles,
+    notifications: seedNotifications(articles),
+    views:         seedViews(),
+    revisions:     seedRevisions(articles),
+    comments:      seedComments(articles),
+    notes:         seedNotes(articles),
+    media:         seedMedia(USERS),
+    presence:      [],
+    nextId:        (table) => Math.max(0, ...db[table].map(row => row.id)) + 1,
+  };
+  return db;
+}
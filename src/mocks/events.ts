@@ -0,0 +1,60 @@
+import { recordRevision, type MockDb } from './db';
+import { canTransition } from '../services/workflow';
+import type { Article, AuthUser, RealtimeActor, RealtimeEvent } from '../types';
+
+// ── Events channel of the demo backend ───────────────────────────────────────
+// Stands in for the server push channel (`GET /api/events`): handlers publish
+// here and `services/realtime.ts` subscribes in demo mode.
+
+type Listener = (event: RealtimeEvent) => void;
+
+const listeners = new Set<Listener>();
+
+export const mockEvents = {
+  publish(event: RealtimeEvent): void {
+    // Serialised like a real message: subscribers never share objects with the db
+    const message = JSON.parse(JSON.stringify(event)) as RealtimeEvent;
+    listeners.forEach(listener => listener(message));
+  },
+
+  subscribe(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  },
+};
+
+export const toActor = ({ id, name }: AuthUser): RealtimeActor => ({ id, name });
+
+// ── Simulated colleague ─────────────────────────────────────────────────────
+// In demo mode nobody else is connected: another account edits an article
+// from time to time so that live updates can be seen, within the workflow:
+// only an article already approved is published.
+
+const ACTIVITY_INTERVAL_MS = 45_000;
+
+export function startColleagueActivity(db: MockDb, currentUserId: number | undefined): () => void {
+  const timer = setInterval(() => {
+    const colleague = db.users.find(u => u.id !== currentUserId && u.role !== 'author');
+    const candidates = db.articles.filter(a => a.status !== 'archived');
+    if (!colleague || candidates.length === 0) return;
+
+    const article: Article = candidates[Math.floor(Math.random() * candidates.length)];
+    const actor = toActor(colleague);
+    const previousStatus = article.status;
+    article.updatedAt = new Date().toISOString();
+
+    if (canTransition(colleague, article, 'published') && Math.random() < 0.3) {
+      article.status      = 'published';
+      article.publishedAt = article.updatedAt;
+      article.publishAt   = undefined;
+      recordRevision(db, article, colleague, 'status');
+      mockEvents.publish({ type: 'article.status_changed', article, actor, previousStatus });
+    } else {
+      article.featured = !article.featured;
+      recordRevision(db, article, colleague, 'manual');
+      mockEvents.publish({ type: 'article.updated', article, actor, fields: ['featured'] });
+    }
+  }, ACTIVITY_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,985 @@
+import { can, isArticleInScope, isNetworkInScope, type Permission } from '../services/permissions';
+import { calendarDate } from '../services/calendar';
+import { canEditAsset, checkUpload } from '../services/media';
+import { cropError } from '../services/renditions';
+import { escapeHtml } from '../services/sanitize';
+import { findTransition, reviewRefusal } from '../services/workflow';
+import { recordRevision, slugify, type MockDb, type MockUser, type MockView } from './db';
+import { mockEvents, toActor } from './events';
+import { articlePresence, publishPresence } from './presence';
+import type {
+  Article,
+  ArticleFormData,
+  ArticleView,
+  ArticleViewFormData,
+  ArticleStatus,
+  AuthUser,
+  Category,
+  CategoryFormData,
+  CommentThread,
+  CommentThreadFormData,
+  ImportError,
+  MediaAsset,
+  MediaAssetFormData,
+  Network,
+  NetworkFormData,
+  Notification,
+  NotifyPayload,
+  ScheduleDates,
+  StatusChangeOptions,
+} from '../types';
+
+// ── Routing primitives ──────────────────────────────────────────────────────
+
+export interface MockRequest {
+  method:  string;
+  path:    string;
+  params:  Record<string, string>;
+  query:   Record<string, string>;
+  /** Lower-case header names */
+  headers: Record<string, string>;
+  body:    unknown;
+  /** User resolved from the bearer token, null when anonymous */
+  user:    AuthUser | null;
+  db:      MockDb;
+}
+
+export interface MockResponse {
+  status: number;
+  data?:  unknown;
+}
+
+type Handler = (req: MockRequest) => MockResponse | Promise<MockResponse>;
+
+interface Route {
+  method:  string;
+  pattern: RegExp;
+  keys:    string[];
+  handler: Handler;
+}
+
+const routes: Route[] = [];
+
+function route(method: string, path: string, handler: Handler) {
+  const keys: string[] = [];
+  const pattern = new RegExp(
+    '^' + path.replace(/:(\w+)/g, (_, key: string) => { keys.push(key); return '([^/]+)'; }) + '$',
+  );
+  routes.push({ method, pattern, keys, handler });
+}
+
+export function matchRoute(method: string, path: string): { handler: Handler; params: Record<string, string> } | null {
+  for (const r of routes) {
+    if (r.method !== method) continue;
+    const m = r.pattern.exec(path);
+    if (!m) continue;
+    const params = Object.fromEntries(r.keys.map((k, i) => [k, decodeURIComponent(m[i + 1])]));
+    return { handler: r.handler, params };
+  }
+  return null;
+}
+
+// ── Response helpers ────────────────────────────────────────────────────────
+
+const ok        = (data: unknown): MockResponse => ({ status: 200, data });
+const created   = (data: unknown): MockResponse => ({ status: 201, data });
+const noContent = (): MockResponse => ({ status: 204 });
+
+function fail(status: number, message: string, extra: Record<string, unknown> = {}): MockResponse {
+  return { status, data: { message, ...extra } };
+}
+
+const unauthorized = () => fail(401, 'Authentification requise');
+const forbidden    = () => fail(403, 'Action non autorisée');
+const notFound     = (what: string) => fail(404, `${what} introuvable`);
+
+/** Checks a permission; on an article, also that it is in one of the user's networks */
+function guard(user: AuthUser | null, permission: Permission, article?: Article): MockResponse | null {
+  if (!user) return unauthorized();
+  if (article && !isArticleInScope(user, article)) return forbidden();
+  return can(user, permission, article) ? null : forbidden();
+}
+
+const now = () => new Date().toISOString();
+
+function toNumberList(value: string | undefined): number[] {
+  return (value ?? '').split(',').filter(Boolean).map(Number);
+}
+
+// ── Tokens ──────────────────────────────────────────────────────────────────
+// Opaque enough for the UI, trivially reversible by the mock itself.
+
+const accessToken  = (user: MockUser) => `demo-access.${user.id}.${Date.now()}`;
+const refreshToken = (user: MockUser) => `demo-refresh.${user.id}`;
+
+export function userFromToken(db: MockDb, token: string | null | undefined): AuthUser | null {
+  const match = /^demo-(?:access|refresh)\.(\d+)/.exec(token ?? '');
+  const user  = match ? db.users.find(u => u.id === Number(match[1])) : undefined;
+  return user ? publicUser(user) : null;
+}
+
+function publicUser({ password: _password, ...user }: MockUser): AuthUser {
+  return user;
+}
+
+// ── Auth ────────────────────────────────────────────────────────────────────
+
+route('POST', '/api/auth/login', ({ body, db }) => {
+  const { email, password } = (body ?? {}) as { email?: string; password?: string };
+  const user = db.users.find(u => u.email.toLowerCase() === email?.toLowerCase());
+  if (!user || user.password !== password) return fail(401, 'Identifiants invalides');
+  return ok({ accessToken: accessToken(user), refreshToken: refreshToken(user), user: publicUser(user) });
+});
+
+route('POST', '/api/auth/refresh', ({ body, db }) => {
+  const token = (body as { refreshToken?: string } | undefined)?.refreshToken;
+  const user  = userFromToken(db, token);
+  const full  = user && db.users.find(u => u.id === user.id);
+  return full ? ok({ accessToken: accessToken(full) }) : fail(401, 'Session invalide');
+});
+
+route('POST', '/api/auth/logout', () => noContent());
+
+route('GET', '/api/auth/me', ({ user }) => (user ? ok(user) : unauthorized()));
+
+// ── Articles ────────────────────────────────────────────────────────────────
+
+const SORTABLE = ['createdAt', 'updatedAt', 'publishedAt', 'title', 'status', 'networkId'] as const;
+
+function findArticle(db: MockDb, id: string): Article | undefined {
+  return db.articles.find(a => String(a.id) === id);
+}
+
+function slugTaken(db: MockDb, slug: string, exceptId?: number): boolean {
+  return db.articles.some(a => a.slug === slug && a.id !== exceptId);
+}
+
+/** Schedule dates as they will be stored: valid, archiving after publication */
+function validateSchedule({ publishAt, unpublishAt }: ScheduleDates): MockResponse | null {
+  const errors: Record<string, string> = {};
+  if (publishAt && Number.isNaN(Date.parse(publishAt)))     errors.publishAt   = 'Date invalide';
+  if (unpublishAt && Number.isNaN(Date.parse(unpublishAt))) errors.unpublishAt = 'Date invalide';
+  if (!errors.publishAt && !errors.unpublishAt && publishAt && unpublishAt && Date.parse(unpublishAt) <= Date.parse(publishAt)) {
+    errors.unpublishAt = 'L\'archivage doit suivre la publication';
+  }
+  return Object.keys(errors).length > 0 ? fail(422, 'Données invalides', { errors }) : null;
+}
+
+function validateArticle(body: Partial<ArticleFormData>, partial: boolean): MockResponse | null {
+  const errors: Record<string, string> = {};
+  if ((!partial || body.title !== undefined) && (body.title ?? '').trim().length < 5) {
+    errors.title = 'Le titre doit contenir au moins 5 caractères';
+  }
+  if ((!partial || body.networkId !== undefined) && (body.networkId == null || body.networkId === '')) {
+    errors.networkId = 'Réseau obligatoire';
+  }
+  const badCrop = body.imageCrop ? cropError(body.imageCrop) : null;
+  if (badCrop) errors.imageCrop = badCrop;
+  return Object.keys(errors).length > 0 ? fail(422, 'Données invalides', { errors }) : null;
+}
+
+route('GET', '/api/articles', ({ query, user, db }) => {
+  if (!user) return unauthorized();
+
+  const search      = query.search?.toLowerCase();
+  const networkIds  = toNumberList(query.networkIds);
+  const categoryIds = toNumberList(query.categoryIds);
+
+  let list = db.articles.filter(a => isArticleInScope(user, a));
+  if (search)              list = list.filter(a => a.title.toLowerCase().includes(search) || a.content.toLowerCase().includes(search));
+  if (query.status)        list = list.filter(a => a.status === query.status);
+  if (query.networkId)     list = list.filter(a => String(a.networkId) === query.networkId);
+  if (networkIds.length)   list = list.filter(a => networkIds.includes(Number(a.networkId)));
+  if (categoryIds.length)  list = list.filter(a => a.categoryIds?.some(id => categoryIds.includes(id)));
+  if (query.featured === 'true') list = list.filter(a => a.featured);
+  if (query.authorId)      list = list.filter(a => String(a.authorId) === query.authorId);
+  if (query.updatedFrom)   list = list.filter(a => (a.updatedAt ?? a.createdAt ?? '') >= query.updatedFrom);
+  if (query.publishedFrom) list = list.filter(a => (calendarDate(a) ?? '') >= query.publishedFrom);
+  if (query.publishedTo)   list = list.filter(a => !!calendarDate(a) && calendarDate(a)! < query.publishedTo);
+
+  const sortBy = SORTABLE.find(s => s === query.sortBy) ?? 'createdAt';
+  const dir    = query.sortDir === 'asc' ? 1 : -1;
+  list = [...list].sort((a, b) => String(a[sortBy] ?? '').localeCompare(String(b[sortBy] ?? '')) * dir);
+
+  const page  = Math.max(1, Number(query.page) || 1);
+  const limit = Math.max(1, Number(query.limit) || 20);
+  return ok({ data: list.slice((page - 1) * limit, page * limit), total: list.length, page, limit });
+});
+
+route('GET', '/api/articles/:id', ({ params, user, db }) => {
+  if (!user) return unauthorized();
+  const article = findArticle(db, params.id);
+  if (!article) return notFound('Article');
+  return isArticleInScope(user, article) ? ok(article) : forbidden();
+});
+
+route('GET', '/api/articles/:id/revisions', ({ params, user, db }) => {
+  if (!user) return unauthorized();
+  const article = findArticle(db, params.id);
+  if (!article) return notFound('Article');
+  if (!isArticleInScope(user, article)) return forbidden();
+  return ok(
+    db.revisions
+      .filter(r => r.articleId === article.id)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id - a.id),
+  );
+});
+
+route('POST', '/api/articles', ({ body, user, db }) => {
+  const denied = guard(user, 'article:create');
+  if (denied) return denied;
+
+  const data    = (body ?? {}) as ArticleFormData;
+  const invalid = validateArticle(data, false) ?? validateSchedule(data);
+  if (invalid) return invalid;
+  if (!isNetworkInScope(user, data.networkId)) return forbidden();
+
+  const slug = data.slug || slugify(data.title);
+  if (slugTaken(db, slug)) {
+    return fail(409, 'Ce slug est déjà utilisé par un autre article', { code: 'DUPLICATE_SLUG', field: 'slug' });
+  }
+
+  const article: Article = {
+    id:          db.nextId('articles'),
+    title:       data.title,
+    slug,
+    content:     data.content ?? '',
+    excerpt:     data.excerpt ?? '',
+    summary:     data.summary,
+    authorName:  data.authorName || user!.name,
+    authorId:    user!.id,
+    imageUrl:    data.imageUrl || undefined,
+    imageId:     data.imageId ?? undefined,
+    imageCrop:   data.imageCrop ?? undefined,
+    featured:    !!data.featured && can(user, 'article:feature'),
+    status:      'draft',
+    networkId:   Number(data.networkId),
+    categoryIds: (data.categoryIds ?? []).map(Number),
+    publishAt:   data.publishAt   ?? undefined,
+    unpublishAt: data.unpublishAt ?? undefined,
+    createdAt:   now(),
+    updatedAt:   now(),
+  };
+  db.articles.push(article);
+  recordRevision(db, article, user!, 'manual');
+  mockEvents.publish({ type: 'article.created', article, actor: toActor(user!) });
+  return created(article);
+});
+
+route('PUT', '/api/articles/:id', ({ params, query, headers, body, user, db }) => {
+  const article = findArticle(db, params.id);
+  if (!article) return notFound('Article');
+  const denied = guard(user, 'article:edit', article);
+  if (denied) return denied;
+
+  // Optimistic concurrency: the version the edit started from must still be current
+  const expected = headers['if-match']?.replace(/^W\/|"/g, '');
+  if (expected && expected !== article.updatedAt) {
+    return fail(409, 'L\'article a été modifié entre-temps par un autre utilisateur', {
+      code:    'EDIT_CONFLICT',
+      current: article,
+    });
+  }
+
+  const data    = (body ?? {}) as Partial<ArticleFormData>;
+  const invalid = validateArticle(data, true) ?? validateSchedule({
+    publishAt:   data.publishAt   !== undefined ? data.publishAt   : article.publishAt,
+    unpublishAt: data.unpublishAt !== undefined ? data.unpublishAt : article.unpublishAt,
+  });
+  if (invalid) return invalid;
+  // Moving the article out of the user's networks is not editing it
+  if (data.networkId !== undefined && !isNetworkInScope(user, data.networkId)) return forbidden();
+  if (data.featured !== undefined && data.featured !== article.featured && !can(user, 'article:feature')) {
+    return forbidden();
+  }
+  if (data.slug && slugTaken(db, data.slug, article.id)) {
+    return fail(409, 'Ce slug est déjà utilisé par un autre article', { code: 'DUPLICATE_SLUG', field: 'slug' });
+  }
+
+  const { networkId, categoryIds, publishAt, unpublishAt, imageUrl, imageId, imageCrop, ...rest } = data;
+  Object.assign(article, rest, {
+    ...(networkId   !== undefined && { networkId: Number(networkId) }),
+    ...(imageUrl    !== undefined && { imageUrl: imageUrl || undefined }),
+    ...(imageId     !== undefined && { imageId: imageId ?? undefined }),
+    ...(imageCrop   !== undefined && { imageCrop: imageCrop ?? undefined }),
+    ...(categoryIds !== undefined && { categoryIds: categoryIds.map(Number) }),
+    ...(publishAt   !== undefined && { publishAt: publishAt ?? undefined }),
+    ...(unpublishAt !== undefined && { unpublishAt: unpublishAt ?? undefined }),
+    updatedAt: now(),
+  });
+  recordRevision(db, article, user!, query.autosave === 'true' ? 'autosave' : 'manual');
+  mockEvents.publish({ type: 'article.updated', article, actor: toActor(user!), fields: Object.keys(data) });
+  return ok(article);
+});
+
+route('DELETE', '/api/articles/:id', ({ params, user, db }) => {
+  const article = findArticle(db, params.id);
+  if (!article) return notFound('Article');
+  const denied = guard(user, 'article:delete', article);
+  if (denied) return denied;
+  db.articles = db.articles.filter(a => a !== article);
+  db.comments  = db.comments.filter(t => t.articleId !== article.id);
+  db.notes     = db.notes.filter(n => n.articleId !== article.id);
+  db.presence  = db.presence.filter(p => p.articleId !== article.id);
+  mockEvents.publish({ type: 'article.deleted', id: article.id, actor: toActor(user!) });
+  return noContent();
+});
+
+route('PATCH', '/api/articles/:id/status', ({ params, body, user, db }) => {
+  const article = findArticle(db, params.id);
+  if (!article) return notFound('Article');
+
+  const { status, reviewerId, comment, ...dates } = (body ?? {}) as { status?: ArticleStatus } & StatusChangeOptions;
+  const transition = status ? findTransition(article.status, status) : undefined;
+  if (!transition) {
+    return fail(422, 'Changement de statut impossible', {
+      errors: { status: `Le circuit de relecture ne permet pas de passer de « ${article.status} » à « ${status ?? ''} »` },
+    });
+  }
+
+  const denied = guard(user, transition.permission, article);
+  if (denied) return denied;
+  const refusal = transition.permission === 'article:review' ? reviewRefusal(user, article) : null;
+  if (refusal) return fail(403, refusal);
+
+  if (transition.requiresComment && !comment?.trim()) {
+    return fail(422, 'Commentaire obligatoire', { errors: { comment: 'Expliquez les corrections attendues' } });
+  }
+  const reviewer = reviewerId != null ? db.users.find(u => u.id === Number(reviewerId)) : undefined;
+  if (reviewerId != null && (!reviewer || !can(reviewer, 'article:review') || reviewer.id === article.authorId)) {
+    return fail(422, 'Relecteur invalide', { errors: { reviewerId: 'Choisissez un relecteur autre que l\'auteur' } });
+  }
+
+  const publishAt   = dates.publishAt   !== undefined ? dates.publishAt   : article.publishAt;
+  const unpublishAt = dates.unpublishAt !== undefined ? dates.unpublishAt : article.unpublishAt;
+  if (status === 'scheduled' && !(publishAt && Date.parse(publishAt) > Date.now())) {
+    return fail(422, 'Date de publication invalide', { errors: { publishAt: 'Choisissez une date de publication future' } });
+  }
+  const invalid = validateSchedule({ publishAt: status === 'scheduled' ? publishAt : null, unpublishAt });
+  if (invalid) return invalid;
+
+  const previousStatus = article.status;
+  article.status      = status!;
+  article.updatedAt   = now();
+  // Only a scheduled article keeps a publication date
+  article.publishAt   = status === 'scheduled' ? publishAt ?? undefined : undefined;
+  article.unpublishAt = unpublishAt ?? undefined;
+  if (status === 'published') article.publishedAt = now();
+
+  // Reviewer: assigned on submission, then whoever took the decision
+  if (transition.assignsReviewer) {
+    article.reviewerId   = reviewer?.id;
+    article.reviewerName = reviewer?.name;
+  }
+  if (transition.permission === 'article:review') {
+    article.reviewerId    = user!.id;
+    article.reviewerName  = user!.name;
+    article.reviewComment = status === 'changes_requested' ? comment!.trim() : undefined;
+  }
+
+  recordRevision(db, article, user!, 'status');
+  mockEvents.publish({ type: 'article.status_changed', article, actor: toActor(user!), previousStatus });
+  return ok(article);
+});
+
+/** Simulated delivery time of a notification */
+const NOTIFY_DELIVERY_MS = 3_000;
+
+route('POST', '/api/articles/:id/notify', ({ params, body, user, db }) => {
+  const article = findArticle(db, params.id);
+  if (!article) return notFound('Article');
+  const denied = guard(user, 'article:notify', article);
+  if (denied) return denied;
+  if (article.status !== 'published') return fail(400, 'Seuls les articles publiés peuvent être notifiés');
+
+  const payload    = (body ?? {}) as NotifyPayload;
+  const recipients = payload.recipients?.length ? payload.recipients : ['abonnes@taram.fr'];
+  const subject    = payload.subject || `[TARAM] ${article.title}`;
+  const html       = `<h1>${escapeHtml(article.title)}</h1><p>${escapeHtml(article.excerpt)}</p>`;
+
+  const notification: Notification = {
+    id:             db.nextId('notifications'),
+    articleId:      article.id,
+    title:          article.title,
+    subject,
+    message:        article.excerpt,
+    html,
+    status:         'pending',
+    recipients,
+    recipientCount: recipients.length,
+    createdAt:      now(),
+  };
+  db.notifications.push(notification);
+
+  // Delivery is asynchronous: the final status is pushed on the events channel
+  setTimeout(() => {
+    Object.assign(notification, { status: 'sent', sentAt: now() });
+    mockEvents.publish({ type: 'notification.status', notification });
+  }, NOTIFY_DELIVERY_MS);
+
+  return ok({ html, message: `Notification envoyée à ${recipients.length} destinataire(s)` });
+});
+
+// ── Comments and notes ──────────────────────────────────────────────────────
+// Stored beside the article, never in it: the article payload stays clean.
+
+const COMMENT_MAX_LENGTH = 2000;
+
+/** Comments and notes are open to every user who can see the article */
+function commentGuard(user: AuthUser | null, article: Article): MockResponse | null {
+  return guard(user, 'article:comment') ?? (isArticleInScope(user!, article) ? null : forbidden());
+}
+
+const nextMessageId = (db: MockDb) => Math.max(0, ...db.comments.flatMap(t => t.messages.map(m => m.id))) + 1;
+
+function invalidBody(body: unknown): MockResponse | null {
+  const text = typeof body === 'string' ? body.trim() : '';
+  if (!text) return fail(422, 'Message vide', { errors: { body: 'Écrivez votre message' } });
+  if (text.length > COMMENT_MAX_LENGTH) {
+    return fail(422, 'Message trop long', { errors: { body: `${COMMENT_MAX_LENGTH} caractères maximum` } });
+  }
+  return null;
+}
+
+function findThread(db: MockDb, article: Article, id: string): CommentThread | undefined {
+  return db.comments.find(t => t.articleId === article.id && String(t.id) === id);
+}
+
+route('GET', '/api/articles/:id/comments', ({ params, user, db }) => {
+  const article = findArticle(db, params.id);
+  if (!article) return notFound('Article');
+  const denied = commentGuard(user, article);
+  if (denied) return denied;
+  return ok(db.comments.filter(t => t.articleId === article.id));
+});
+
+route('POST', '/api/articles/:id/comments', ({ params, body, user, db }) => {
+  const article = findArticle(db, params.id);
+  if (!article) return notFound('Article');
+  const denied = commentGuard(user, article);
+  if (denied) return denied;
+  const { anchor, body: text } = (body ?? {}) as Partial<CommentThreadFormData>;
+  if (!anchor || !anchor.quote?.trim() || !(anchor.start >= 0 && anchor.end > anchor.start)) {
+    return fail(422, 'Passage invalide', { errors: { anchor: 'Sélectionnez le passage à commenter' } });
+  }
+  const invalid = invalidBody(text);
+  if (invalid) return invalid;
+
+  const thread: CommentThread = {
+    id:        db.nextId('comments'),
+    articleId: article.id,
+    anchor:    { start: anchor.start, end: anchor.end, quote: anchor.quote },
+    resolved:  false,
+    createdAt: now(),
+    messages:  [{
+      id: nextMessageId(db), authorId: user!.id, authorName: user!.name, body: text!.trim(), createdAt: now(),
+    }],
+  };
+  db.comments.push(thread);
+  return created(thread);
+});
+
+route('POST', '/api/articles/:id/comments/:threadId/messages', ({ params, body, user, db }) => {
+  const article = findArticle(db, params.id);
+  if (!article) return notFound('Article');
+  const denied = commentGuard(user, article);
+  if (denied) return denied;
+  const thread = findThread(db, article, params.threadId);
+  if (!thread) return notFound('Commentaire');
+  const { body: text } = (body ?? {}) as { body?: string };
+  const invalid = invalidBody(text);
+  if (invalid) return invalid;
+
+  thread.messages.push({
+    id: nextMessageId(db), authorId: user!.id, authorName: user!.name, body: text!.trim(), createdAt: now(),
+  });
+  return created(thread);
+});
+
+route('PATCH', '/api/articles/:id/comments/:threadId', ({ params, body, user, db }) => {
+  const article = findArticle(db, params.id);
+  if (!article) return notFound('Article');
+  const denied = commentGuard(user, article);
+  if (denied) return denied;
+  const thread = findThread(db, article, params.threadId);
+  if (!thread) return notFound('Commentaire');
+
+  thread.resolved       = !!(body as { resolved?: boolean } | null)?.resolved;
+  thread.resolvedByName = thread.resolved ? user!.name : undefined;
+  thread.resolvedAt     = thread.resolved ? now() : undefined;
+  return ok(thread);
+});
+
+route('GET', '/api/articles/:id/notes', ({ params, user, db }) => {
+  const article = findArticle(db, params.id);
+  if (!article) return notFound('Article');
+  const denied = commentGuard(user, article);
+  if (denied) return denied;
+  return ok(db.notes.filter(n => n.articleId === article.id));
+});
+
+route('POST', '/api/articles/:id/notes', ({ params, body, user, db }) => {
+  const article = findArticle(db, params.id);
+  if (!article) return notFound('Article');
+  const denied = commentGuard(user, article);
+  if (denied) return denied;
+  const { body: text } = (body ?? {}) as { body?: string };
+  const invalid = invalidBody(text);
+  if (invalid) return invalid;
+
+  const note = {
+    id:         db.nextId('notes'),
+    articleId:  article.id,
+    authorId:   user!.id,
+    authorName: user!.name,
+    body:       text!.trim(),
+    createdAt:  now(),
+  };
+  db.notes.push(note);
+  return created(note);
+});
+
+// ── Presence ────────────────────────────────────────────────────────────────
+// One row per open tab. The lock is soft: PUT /api/articles/:id never checks it.
+
+function readSessionId(value: unknown): string | null {
+  return typeof value === 'string' && /^[\w-]{1,64}$/.test(value) ? value : null;
+}
+
+const invalidSession = () => fail(422, 'Session invalide', { errors: { sessionId: 'Identifiant de session attendu' } });
+
+/** Presence is open to every user who can see the article */
+function presenceGuard(user: AuthUser | null, article: Article): MockResponse | null {
+  if (!user) return unauthorized();
+  return isArticleInScope(user, article) ? null : forbidden();
+}
+
+/** Session of `user` on `article`, created on its first heartbeat */
+function joinArticle(db: MockDb, user: AuthUser, article: Article, sessionId: string) {
+  const stamp = now();
+  let entry = db.presence.find(p => p.articleId === article.id && p.sessionId === sessionId);
+  if (entry) {
+    entry.lastSeenAt = stamp;
+  } else {
+    entry = { articleId: article.id, sessionId, userId: user.id, userName: user.name, editing: false, since: stamp, lastSeenAt: stamp };
+    db.presence.push(entry);
+  }
+  return entry;
+}
+
+route('GET', '/api/presence', ({ user, db }) => {
+  if (!user) return unauthorized();
+  const articleIds = [...new Set(db.presence.map(p => p.articleId))];
+  return ok(
+    articleIds
+      .filter(id => db.articles.some(a => a.id === id && isArticleInScope(user, a)))
+      .map(id => articlePresence(db, id)),
+  );
+});
+
+route('PUT', '/api/articles/:id/presence', ({ params, body, user, db }) => {
+  const article = findArticle(db, params.id);
+  if (!article) return notFound('Article');
+  const denied = presenceGuard(user, article);
+  if (denied) return denied;
+  const sessionId = readSessionId((body as { sessionId?: unknown } | null)?.sessionId);
+  if (!sessionId) return invalidSession();
+
+  const known = db.presence.length;
+  joinArticle(db, user!, article, sessionId);
+  if (db.presence.length !== known) publishPresence(db, article.id);
+  return ok(articlePresence(db, article.id));
+});
+
+route('DELETE', '/api/articles/:id/presence', ({ params, query, user, db }) => {
+  const article = findArticle(db, params.id);
+  if (!article) return notFound('Article');
+  const denied = presenceGuard(user, article);
+  if (denied) return denied;
+
+  const before = db.presence.length;
+  db.presence = db.presence.filter(p => !(p.articleId === article.id && p.sessionId === query.sessionId));
+  if (db.presence.length !== before) publishPresence(db, article.id);
+  return noContent();
+});
+
+route('POST', '/api/articles/:id/lock', ({ params, body, user, db }) => {
+  const article = findArticle(db, params.id);
+  if (!article) return notFound('Article');
+  const denied = presenceGuard(user, article) ?? guard(user, 'article:edit', article);
+  if (denied) return denied;
+  const { sessionId: rawSessionId, takeOver } = (body ?? {}) as { sessionId?: unknown; takeOver?: boolean };
+  const sessionId = readSessionId(rawSessionId);
+  if (!sessionId) return invalidSession();
+
+  const holder = db.presence.find(p => p.articleId === article.id && p.editing && p.sessionId !== sessionId);
+  if (holder && !takeOver) {
+    const who = holder.userId === user!.id ? 'vous, dans un autre onglet' : holder.userName;
+    return fail(409, `Article en cours de modification par ${who}`, {
+      code:     'ARTICLE_LOCKED',
+      presence: articlePresence(db, article.id),
+    });
+  }
+  if (holder) holder.editing = false;
+  joinArticle(db, user!, article, sessionId).editing = true;
+  publishPresence(db, article.id);
+  return ok(articlePresence(db, article.id));
+});
+
+route('DELETE', '/api/articles/:id/lock', ({ params, query, user, db }) => {
+  const article = findArticle(db, params.id);
+  if (!article) return notFound('Article');
+  const denied = presenceGuard(user, article);
+  if (denied) return denied;
+
+  const entry = db.presence.find(p => p.articleId === article.id && p.sessionId === query.sessionId && p.editing);
+  if (entry) {
+    entry.editing = false;
+    publishPresence(db, article.id);
+  }
+  return ok(articlePresence(db, article.id));
+});
+
+// ── Users ───────────────────────────────────────────────────────────────────
+
+route('GET', '/api/users/reviewers', ({ user, db }) => {
+  if (!user) return unauthorized();
+  return ok(db.users.filter(u => can(u, 'article:review')).map(({ id, name, role }) => ({ id, name, role })));
+});
+
+// ── Categories ──────────────────────────────────────────────────────────────
+
+function categoryConflict(db: MockDb, slug: string, exceptId?: number): MockResponse | null {
+  return db.categories.some(c => c.slug === slug && c.id !== exceptId)
+    ? fail(409, 'Une catégorie porte déjà ce nom', { code: 'DUPLICATE_SLUG', field: 'slug' })
+    : null;
+}
+
+route('GET', '/api/categories', ({ user, db }) => (user ? ok(db.categories) : unauthorized()));
+
+route('POST', '/api/categories', ({ body, user, db }) => {
+  const denied = guard(user, 'category:manage');
+  if (denied) return denied;
+  const data     = body as CategoryFormData;
+  const slug     = data.slug || slugify(data.name);
+  const conflict = categoryConflict(db, slug);
+  if (conflict) return conflict;
+  const category: Category = { ...data, id: db.nextId('categories'), slug, createdAt: now(), updatedAt: now() };
+  db.categories.push(category);
+  return created(category);
+});
+
+route('PUT', '/api/categories/:id', ({ params, body, user, db }) => {
+  const denied = guard(user, 'category:manage');
+  if (denied) return denied;
+  const category = db.categories.find(c => String(c.id) === params.id);
+  if (!category) return notFound('Catégorie');
+  const data     = body as Partial<CategoryFormData>;
+  const slug     = data.slug || slugify(data.name ?? category.name);
+  const conflict = categoryConflict(db, slug, category.id);
+  if (conflict) return conflict;
+  Object.assign(category, data, { slug, updatedAt: now() });
+  return ok(category);
+});
+
+route('DELETE', '/api/categories/:id', ({ params, user, db }) => {
+  const denied = guard(user, 'category:manage');
+  if (denied) return denied;
+  const id = Number(params.id);
+  if (!db.categories.some(c => c.id === id)) return notFound('Catégorie');
+  if (db.articles.some(a => a.categoryIds?.includes(id))) {
+    return fail(409, 'Catégorie utilisée par des articles', { code: 'IN_USE' });
+  }
+  db.categories = db.categories.filter(c => c.id !== id);
+  return noContent();
+});
+
+// ── Networks ────────────────────────────────────────────────────────────────
+
+function networkConflict(db: MockDb, slug: string, exceptId?: number): MockResponse | null {
+  return db.networks.some(n => n.slug === slug && n.id !== exceptId)
+    ? fail(409, 'Ce slug est déjà utilisé par un autre réseau', { code: 'DUPLICATE_SLUG', field: 'slug' })
+    : null;
+}
+
+route('GET', '/api/networks', ({ user, db }) => (user ? ok(db.networks) : unauthorized()));
+
+route('POST', '/api/networks', ({ body, user, db }) => {
+  const denied = guard(user, 'network:manage');
+  if (denied) return denied;
+  const data     = body as NetworkFormData;
+  const slug     = data.slug || slugify(data.name);
+  const conflict = networkConflict(db, slug);
+  if (conflict) return conflict;
+  const network: Network = { ...data, id: db.nextId('networks'), slug, createdAt: now(), updatedAt: now() };
+  db.networks.push(network);
+  return created(network);
+});
+
+route('PUT', '/api/networks/:id', ({ params, body, user, db }) => {
+  const denied = guard(user, 'network:manage');
+  if (denied) return denied;
+  const network = db.networks.find(n => String(n.id) === params.id);
+  if (!network) return notFound('Réseau');
+  const data     = body as Partial<NetworkFormData>;
+  const slug     = data.slug || slugify(data.name ?? network.name);
+  const conflict = networkConflict(db, slug, network.id);
+  if (conflict) return conflict;
+  Object.assign(network, data, { slug, updatedAt: now() });
+  return ok(network);
+});
+
+route('DELETE', '/api/networks/:id', ({ params, user, db }) => {
+  const denied = guard(user, 'network:manage');
+  if (denied) return denied;
+  const id = Number(params.id);
+  if (!db.networks.some(n => n.id === id)) return notFound('Réseau');
+  if (db.articles.some(a => Number(a.networkId) === id)) {
+    return fail(409, 'Réseau utilisé par des articles', { code: 'IN_USE' });
+  }
+  db.networks = db.networks.filter(n => n.id !== id);
+  return noContent();
+});
+
+// ── Saved views ─────────────────────────────────────────────────────────────
+
+function toView(db: MockDb, { pinnedBy, ...view }: MockView, user: AuthUser): ArticleView {
+  return {
+    ...view,
+    pinned:    pinnedBy.includes(user.id),
+    ownerName: db.users.find(u => u.id === view.ownerId)?.name,
+  };
+}
+
+function pin(view: MockView, user: AuthUser, pinned: boolean) {
+  view.pinnedBy = view.pinnedBy.filter(id => id !== user.id);
+  if (pinned) view.pinnedBy.push(user.id);
+}
+
+const visibleTo = (user: AuthUser) => (v: MockView) => v.ownerId === user.id || v.shared;
+
+function validateView(db: MockDb, user: AuthUser, name: string, exceptId?: number): MockResponse | null {
+  if (name.trim().length < 2) {
+    return fail(422, 'Données invalides', { errors: { name: 'Le nom doit contenir au moins 2 caractères' } });
+  }
+  const taken = db.views.some(v =>
+    v.ownerId === user.id && v.id !== exceptId && v.name.toLowerCase() === name.trim().toLowerCase());
+  return taken ? fail(409, 'Vous avez déjà une vue portant ce nom', { code: 'DUPLICATE_NAME', field: 'name' }) : null;
+}
+
+route('GET', '/api/views', ({ user, db }) => {
+  if (!user) return unauthorized();
+  return ok(db.views.filter(visibleTo(user)).map(v => toView(db, v, user)));
+});
+
+route('POST', '/api/views', ({ body, user, db }) => {
+  if (!user) return unauthorized();
+  const data    = (body ?? {}) as ArticleViewFormData;
+  const invalid = validateView(db, user, data.name ?? '');
+  if (invalid) return invalid;
+  const view: MockView = {
+    id:        db.nextId('views'),
+    ownerId:   user.id,
+    name:      data.name.trim(),
+    query:     data.query ?? '',
+    shared:    !!data.shared,
+    pinnedBy:  data.pinned ? [user.id] : [],
+    createdAt: now(),
+    updatedAt: now(),
+  };
+  db.views.push(view);
+  return created(toView(db, view, user));
+});
+
+route('PUT', '/api/views/:id', ({ params, body, user, db }) => {
+  if (!user) return unauthorized();
+  const view = db.views.find(v => String(v.id) === params.id);
+  if (!view || !visibleTo(user)(view)) return notFound('Vue');
+  if (view.ownerId !== user.id) return forbidden();
+  const { pinned, ...data } = (body ?? {}) as Partial<ArticleViewFormData>;
+  const invalid = validateView(db, user, data.name ?? view.name, view.id);
+  if (invalid) return invalid;
+  Object.assign(view, data, { updatedAt: now() });
+  if (pinned !== undefined) pin(view, user, pinned);
+  return ok(toView(db, view, user));
+});
+
+route('DELETE', '/api/views/:id', ({ params, user, db }) => {
+  if (!user) return unauthorized();
+  const view = db.views.find(v => String(v.id) === params.id);
+  if (!view || !visibleTo(user)(view)) return notFound('Vue');
+  if (view.ownerId !== user.id) return forbidden();
+  db.views = db.views.filter(v => v !== view);
+  return noContent();
+});
+
+route('PATCH', '/api/views/:id/pin', ({ params, body, user, db }) => {
+  if (!user) return unauthorized();
+  const view = db.views.find(v => String(v.id) === params.id);
+  if (!view || !visibleTo(user)(view)) return notFound('Vue');
+  const pinned = !!(body as { pinned?: boolean } | undefined)?.pinned;
+  pin(view, user, pinned);
+  return ok(toView(db, view, user));
+});
+
+// ── Media library ───────────────────────────────────────────────────────────
+// Uploaded files are kept as data URLs: nothing leaves the browser.
+
+const MAX_ALT_LENGTH = 250;
+
+function readAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload  = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+function validateAsset(data: Partial<MediaAssetFormData>, requireAlt: boolean): MockResponse | null {
+  const errors: Record<string, string> = {};
+  const alt = (data.alt ?? '').trim();
+  if (requireAlt && !alt) errors.alt = 'Texte alternatif requis';
+  if (alt.length > MAX_ALT_LENGTH) errors.alt = `Texte alternatif limité à ${MAX_ALT_LENGTH} caractères`;
+  return Object.keys(errors).length > 0 ? fail(422, 'Données invalides', { errors }) : null;
+}
+
+const formText = (form: FormData, key: string) => {
+  const value = form.get(key);
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+route('GET', '/api/media', ({ query, user, db }) => {
+  if (!user) return unauthorized();
+  const search = query.search?.toLowerCase();
+  let list = [...db.media].sort((a, b) => (b.createdAt ?? '').localeCompare(a.createdAt ?? '') || b.id - a.id);
+  if (search) {
+    list = list.filter(m =>
+      [m.fileName, m.alt, m.caption, m.credit].some(v => v?.toLowerCase().includes(search)));
+  }
+  const page  = Math.max(1, Number(query.page) || 1);
+  const limit = Math.max(1, Number(query.limit) || 24);
+  return ok({ data: list.slice((page - 1) * limit, page * limit), total: list.length, page, limit });
+});
+
+route('POST', '/api/media', async ({ body, user, db }) => {
+  const denied = guard(user, 'media:upload');
+  if (denied) return denied;
+
+  const file = body instanceof FormData ? body.get('file') : null;
+  if (!(file instanceof File)) return fail(400, 'Fichier manquant');
+  const refused = checkUpload(file);
+  if (refused) return fail(422, refused, { errors: { file: refused } });
+
+  const metadata: MediaAssetFormData = {
+    alt:     formText(body as FormData, 'alt') ?? '',
+    caption: formText(body as FormData, 'caption'),
+    credit:  formText(body as FormData, 'credit'),
+    license: formText(body as FormData, 'license'),
+  };
+  const invalid = validateAsset(metadata, false);
+  if (invalid) return invalid;
+
+  const url = await readAsDataUrl(file);
+  const asset: MediaAsset = {
+    id:             db.nextId('media'),
+    url,
+    fileName:       file.name,
+    mimeType:       file.type,
+    size:           file.size,
+    ...metadata,
+    uploadedBy:     user!.id,
+    uploadedByName: user!.name,
+    createdAt:      now(),
+    updatedAt:      now(),
+  };
+  db.media.push(asset);
+  return created(asset);
+});
+
+route('PUT', '/api/media/:id', ({ params, body, user, db }) => {
+  if (!user) return unauthorized();
+  const asset = db.media.find(m => m.id === Number(params.id));
+  if (!asset) return notFound('Média');
+  if (!canEditAsset(user, asset)) return forbidden();
+
+  const data    = (body ?? {}) as Partial<MediaAssetFormData>;
+  const invalid = validateAsset(data, true);
+  if (invalid) return invalid;
+  Object.assign(asset, {
+    alt:       data.alt!.trim(),
+    caption:   data.caption?.trim() || undefined,
+    credit:    data.credit?.trim() || undefined,
+    license:   data.license?.trim() || undefined,
+    updatedAt: now(),
+  });
+  return ok(asset);
+});
+
+route('DELETE', '/api/media/:id', ({ params, user, db }) => {
+  if (!user) return unauthorized();
+  const asset = db.media.find(m => m.id === Number(params.id));
+  if (!asset) return notFound('Média');
+  if (!canEditAsset(user, asset)) return forbidden();
+  db.media = db.media.filter(m => m !== asset);
+  return noContent();
+});
+
+// ── Import ──────────────────────────────────────────────────────────────────
+
+route('POST', '/api/import/articles', async ({ body, user, db }) => {
+  const denied = guard(user, 'article:import');
+  if (denied) return denied;
+
+  const file = body instanceof FormData ? body.get('file') : null;
+  if (!(file instanceof Blob)) return fail(400, 'Fichier manquant');
+
+  let rows: unknown;
+  try {
+    rows = JSON.parse(await file.text());
+  } catch {
+    return fail(400, 'Le fichier n\'est pas un JSON valide');
+  }
+  if (!Array.isArray(rows)) return fail(400, 'Le fichier doit contenir un tableau d\'articles');
+
+  const errors: ImportError[] = [];
+  rows.forEach((row: Partial<ArticleFormData>, index) => {
+    const error =
+      !row || typeof row !== 'object'         ? 'Ligne invalide' :
+      (row.title ?? '').trim().length < 5     ? 'Titre manquant ou trop court' :
+      !row.content                            ? 'Contenu manquant' :
+      slugTaken(db, row.slug || slugify(row.title!)) ? 'Slug déjà utilisé' :
+      null;
+    if (error) {
+      errors.push({ index, error, message: error });
+      return;
+    }
+    db.articles.push({
+      id:          db.nextId('articles'),
+      title:       row.title!,
+      slug:        row.slug || slugify(row.title!),
+      content:     row.content!,
+      excerpt:     row.excerpt ?? '',
+      authorName:  row.authorName || user!.name,
+      authorId:    user!.id,
+      featured:    false,
+      status:      'draft',
+      networkId:   row.networkId != null ? Number(row.networkId) : undefined,
+      categoryIds: (row.categoryIds ?? []).map(Number),
+      createdAt:   now(),
+      updatedAt:   now(),
+    });
+  });
+
+  const imported = rows.length - errors.length;
+  return ok({ total: rows.length, imported, success: imported, skipped: errors.length, errors });
+});
+
+// ── Notifications ───────────────────────────────────────────────────────────
+
+route('GET', '/api/notifications', ({ user, db }) => {
+  if (!user) return unauthorized();
+  const date = (n: Notification) => n.sentAt ?? n.createdAt ?? '';
+  const list = [...db.notifications].sort((a, b) => date(b).localeCompare(date(a)));
+  return ok(list);
+});
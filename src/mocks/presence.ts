@@ -0,0 +1,34 @@
+import type { MockDb } from './db';
+import { mockEvents } from './events';
+import type { ArticlePresence } from '../types';
+
+// ── Presence of the demo backend ─────────────────────────────────────────────
+// Sessions are kept alive by the client heartbeat. A tab that goes away without
+// leaving (closed, crashed, offline) drops out once its heartbeat stops, and
+// its lock with it.
+
+/** Without a heartbeat for this long, a session is gone */
+export const PRESENCE_TTL_MS = 90_000;
+
+export function articlePresence(db: MockDb, articleId: number): ArticlePresence {
+  return {
+    articleId,
+    entries: db.presence
+      .filter(p => p.articleId === articleId)
+      .map(({ articleId: _articleId, ...entry }) => entry),
+  };
+}
+
+export function publishPresence(db: MockDb, articleId: number): void {
+  mockEvents.publish({ type: 'article.presence', presence: articlePresence(db, articleId) });
+}
+
+/** Drops the sessions not seen since `PRESENCE_TTL_MS` before `at`. */
+export function expirePresence(db: MockDb, at: Date = new Date()): void {
+  const limit = at.getTime() - PRESENCE_TTL_MS;
+  const stale = db.presence.filter(p => Date.parse(p.lastSeenAt) < limit);
+  if (stale.length === 0) return;
+
+  db.presence = db.presence.filter(p => !stale.includes(p));
+  new Set(stale.map(p => p.articleId)).forEach(articleId => publishPresence(db, articleId));
+}
@@ -0,0 +1,45 @@
+import { recordRevision, type MockDb } from './db';
+import { mockEvents } from './events';
+import { expirePresence } from './presence';
+import type { ArticleStatus } from '../types';
+
+// ── Scheduled publishing of the demo backend ─────────────────────────────────
+// A real server runs this from a job queue. Here it runs before every request
+// and, in demo mode, on a timer so that changes are pushed without any action.
+
+const SCHEDULER_INTERVAL_MS = 15_000;
+
+/** Publishes the scheduled articles and archives the expired ones due at `at`. */
+export function runSchedules(db: MockDb, at: Date = new Date()): void {
+  const time  = at.getTime();
+  const stamp = at.toISOString();
+
+  const transition = (article: MockDb['articles'][number], status: ArticleStatus) => {
+    const previousStatus = article.status;
+    article.status    = status;
+    article.updatedAt = stamp;
+    recordRevision(db, article, null, 'status');
+    mockEvents.publish({ type: 'article.status_changed', article, previousStatus });
+  };
+
+  for (const article of db.articles) {
+    if (article.status === 'scheduled' && article.publishAt && Date.parse(article.publishAt) <= time) {
+      article.publishedAt = article.publishAt;
+      article.publishAt   = undefined;
+      transition(article, 'published');
+    }
+    if (article.status === 'published' && article.unpublishAt && Date.parse(article.unpublishAt) <= time) {
+      article.unpublishAt = undefined;
+      transition(article, 'archived');
+    }
+  }
+}
+
+/** Runs the schedules, and drops the sessions that stopped their heartbeat, on a timer. */
+export function startScheduler(db: MockDb): () => void {
+  const timer = setInterval(() => {
+    runSchedules(db);
+    expirePresence(db);
+  }, SCHEDULER_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
@@ -1,4 +1,4 @@
-import { useEffect, useState, useRef, useCallback } from 'react';
+import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useForm, Controller } from 'react-hook-form';
@@ -9,7 +9,6 @@ import {
   Grid,
   Card,
   CardContent,
-  CardMedia,
   TextField,
   Button,
   Switch,
@@ -29,7 +28,10 @@ import {
   FormHelperText,
   CircularProgress,
   Tooltip,
+  AlertTitle,
+  Badge,
 } from '@mui/material';
+import type { ButtonProps } from '@mui/material';
 import {
   Save,
   Publish,
@@ -41,19 +43,51 @@ import {
   CloudDone,
   CloudOff,
   HourglassBottom,
+  SyncProblem,
+  History,
+  Schedule,
+  EventBusy,
+  Send,
+  ThumbUp,
+  AssignmentReturn,
+  Undo,
+  Comment,
 } from '@mui/icons-material';
 import {
   getArticle,
   createArticle,
   updateArticle,
+  getConflictingArticle,
   patchArticleStatus,
   notifyArticle,
   getCategories,
-  getNetworks,
+  getCommentThreads,
 } from '../services/api';
 import StatusChip from '../components/common/StatusChip';
 import RichTextEditor from '../components/common/RichTextEditor';
-import type { ArticleFormData, Category, Network, Article } from '../types';
+import { richTextStyles } from '../components/common/richTextStyles';
+import ConflictDialog from '../components/articles/ConflictDialog';
+import RevisionsPanel from '../components/articles/RevisionsPanel';
+import TransitionDialog from '../components/articles/TransitionDialog';
+import CommentsPanel from '../components/articles/CommentsPanel';
+import LockNotice from '../components/articles/LockNotice';
+import CoverImageField from '../components/articles/CoverImageField';
+import CoverRendition from '../components/articles/CoverRendition';
+import MediaPickerDialog from '../components/media/MediaPickerDialog';
+import PresenceAvatars from '../components/articles/PresenceAvatars';
+import { useArticlePresence } from '../hooks/useArticlePresence';
+import { useCollaborativeContent } from '../hooks/useCollaborativeContent';
+import { usePermissions } from '../hooks/usePermissions';
+import { useNetworkScope } from '../hooks/useNetworkScope';
+import { applyFieldErrors, isApiError, isEditConflict, type ApiError } from '../services/errors';
+import { diffVersions, toConflictValues, type ConflictValues } from '../services/articleConflict';
+import { mediaFigureHtml } from '../services/media';
+import { formatCountdown, fromDateTimeInput, toDateTimeInput } from '../services/schedule';
+import { availableTransitions, isWorkInProgress, type WorkflowTransition } from '../services/workflow';
+import { editorText } from '../services/comments';
+import { escapeHtml, sanitizeHtml } from '../services/sanitize';
+import { networkRenditions } from '../services/renditions';
+import type { ArticleFormData, ArticleRevision, ArticleStatus, Category, ImageCrop, Network, Article, TextAnchor } from '../types';
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
@@ -65,10 +99,33 @@ function plainTextLength(html: string): number {
 /** Render HTML content safely in the preview panel */
 function previewHtml(content: string): string {
   const isHtml = /<[a-zA-Z][\s\S]*>/i.test(content);
-  if (isHtml) return content;
-  return content.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/\n/g, '<br/>');
+  if (isHtml) return sanitizeHtml(content);
+  return escapeHtml(content).replace(/\n/g, '<br/>');
 }
 
+/** Status change buttons: icon and colour by target status */
+const TRANSITION_ICONS: Record<ArticleStatus, React.ReactNode> = {
+  draft:             <Undo />,
+  in_review:         <Send />,
+  changes_requested: <AssignmentReturn />,
+  approved:          <ThumbUp />,
+  scheduled:         <Schedule />,
+  published:         <Publish />,
+  archived:          <Archive />,
+};
+
+const TRANSITION_COLORS: Partial<Record<ArticleStatus, ButtonProps['color']>> = {
+  in_review:         'primary',
+  changes_requested: 'warning',
+  approved:          'success',
+  scheduled:         'info',
+  published:         'success',
+};
+
+// Unscheduling goes back to `approved` but is no approval
+const transitionIcon  = (t: WorkflowTransition) => (t.from === 'scheduled' && t.to === 'approved' ? <EventBusy /> : TRANSITION_ICONS[t.to]);
+const transitionColor = (t: WorkflowTransition) => (t.from === 'scheduled' && t.to === 'approved' ? 'inherit' : TRANSITION_COLORS[t.to] ?? 'inherit');
+
 // ── Validation schema ─────────────────────────────────────────────────────────
 export const articleSchema = z.object({
   title:      z.string().min(5, 'Titre minimum 5 caractères').max(255),
@@ -83,8 +140,14 @@ export const articleSchema = z.object({
   authorName: z.string().min(1, 'Auteur requis').max(100),
   slug:       z.string().max(255).optional().or(z.literal('')),
   imageUrl:   z.string().url('URL invalide').optional().or(z.literal('')),
+  /** Media library asset of the cover */
+  imageId:    z.number().nullable(),
+  imageCrop:  z.custom<ImageCrop>().nullable(),
   featured:   z.boolean(),
   categoryIds: z.array(z.any()).min(1, 'Au moins une catégorie requise'),
+  /** `datetime-local` values (local time) */
+  publishAt:   z.string().optional().or(z.literal('')),
+  unpublishAt: z.string().optional().or(z.literal('')),
   networkId:   z.union([z.string(), z.number()]).nullable().refine(
     v => v !== null && v !== '',
     { message: 'Réseau obligatoire' },
@@ -93,8 +156,45 @@ export const articleSchema = z.object({
 
 type FormValues = z.infer<typeof articleSchema>;
 
+/** Form fields that can receive server-side validation errors */
+const FORM_FIELDS = articleSchema.keyof().options;
+/** Legacy single-category payload errors are shown under the categories field */
+const FIELD_ALIASES = { categoryId: 'categoryIds' } as const;
+
+function toFormValues(article: Article, categories: Category[]): FormValues {
+  const catIds = article.categoryIds?.map(String) ?? (article.categoryId ? [String(article.categoryId)] : []);
+  return {
+    title:       article.title,
+    content:     article.content,
+    summary:     article.summary    ?? '',
+    excerpt:     article.excerpt    ?? '',
+    authorName:  article.authorName ?? '',
+    slug:        article.slug       ?? '',
+    imageUrl:    article.imageUrl   ?? '',
+    imageId:     article.imageId    ?? null,
+    imageCrop:   article.imageCrop  ?? null,
+    featured:    article.featured,
+    categoryIds: catIds.map(cid => categories.find(c => String(c.id) === cid)).filter(Boolean) as Category[],
+    networkId:   article.networkId ? String(article.networkId) : null,
+    publishAt:   toDateTimeInput(article.publishAt),
+    unpublishAt: toDateTimeInput(article.unpublishAt),
+  };
+}
+
+const samePayload = (a: ArticleFormData, b: ArticleFormData) => JSON.stringify(a) === JSON.stringify(b);
+
+function formConflictValues(values: FormValues): ConflictValues {
+  return {
+    title:       values.title,
+    excerpt:     values.excerpt,
+    content:     values.content,
+    categoryIds: (values.categoryIds as Category[]).map(c => Number(c.id)),
+    networkId:   values.networkId ? Number(values.networkId) : null,
+  };
+}
+
 // ── Auto-save indicator ───────────────────────────────────────────────────────
-type SaveState = 'idle' | 'saving' | 'saved' | 'unsaved';
+type SaveState = 'idle' | 'saving' | 'saved' | 'unsaved' | 'conflict';
 
 function AutoSaveIndicator({ state }: { state: SaveState }) {
   const map: Record<SaveState, { icon: React.ReactNode; label: string; color: string }> = {
@@ -102,6 +202,7 @@ function AutoSaveIndicator({ state }: { state: SaveState }) {
     saving:  { icon: <HourglassBottom fontSize="small" />, label: 'Sauvegarde…',                  color: 'info.main' },
     saved:   { icon: <CloudDone fontSize="small" />,       label: 'Brouillon sauvegardé',          color: 'success.main' },
     unsaved: { icon: <CloudOff fontSize="small" />,        label: 'Modifications non sauvegardées', color: 'warning.main' },
+    conflict: { icon: <SyncProblem fontSize="small" />,    label: 'Conflit de modification',        color: 'error.main' },
   };
   const { icon, label, color } = map[state];
   if (!label) return null;
@@ -119,13 +220,30 @@ export default function ArticleFormPage() {
   const isEdit   = !!id;
   const navigate = useNavigate();
   const qc       = useQueryClient();
+  const { can, user } = usePermissions();
+  const { networks, inScope } = useNetworkScope();
 
   const [snack,     setSnack]    = useState<{ msg: string; sev: 'success' | 'error' } | null>(null);
   const [saveState, setSaveState] = useState<SaveState>('idle');
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [commentsOpen, setCommentsOpen] = useState(false);
+  const [activeThreadId, setActiveThreadId] = useState<number | null>(null);
+  /** Passage selected for a new comment thread */
+  const [draftAnchor, setDraftAnchor] = useState<TextAnchor | null>(null);
+  /** Status change waiting for a reviewer or a comment */
+  const [pendingTransition, setPendingTransition] = useState<WorkflowTransition | null>(null);
+  /** Inserts the image picked for the content, set while the picker is open */
+  const [insertImage, setInsertImage] = useState<((html: string) => void) | null>(null);
   const autoSaveTimer = useRef<ReturnType<typeof setInterval>>();
+  /** Server version the form was loaded from, sent as If-Match on save */
+  const baseRef = useRef<Article | null>(null);
+  /** Current server version after a refused save, until the user merges */
+  const [conflict,     setConflict]     = useState<Article | null>(null);
+  /** Versions compared in the merge dialog, null while it is closed */
+  const [comparing,    setComparing]    = useState<{ base: ConflictValues | null; mine: ConflictValues } | null>(null);
 
   // ── Data queries ─────────────────────────────────────────────────────────
-  const { data: article, isLoading: loadingArticle } = useQuery({
+  const { data: article, isLoading: loadingArticle, error: articleError } = useQuery({
     queryKey: ['article', id],
     queryFn:  () => getArticle(id!),
     enabled:  isEdit,
@@ -136,9 +254,11 @@ export default function ArticleFormPage() {
     queryFn:  getCategories,
   });
 
-  const { data: networks = [] } = useQuery({
-    queryKey: ['networks'],
-    queryFn:  getNetworks,
+  const canComment = isEdit && can('article:comment');
+  const { data: threads = [], isLoading: loadingThreads } = useQuery({
+    queryKey: ['comments', id],
+    queryFn:  () => getCommentThreads(id!),
+    enabled:  canComment,
   });
 
   // ── Form ─────────────────────────────────────────────────────────────────
@@ -148,6 +268,9 @@ export default function ArticleFormPage() {
     handleSubmit,
     reset,
     watch,
+    getValues,
+    setValue,
+    setError,
     formState: { errors, isDirty },
   } = useForm<FormValues>({
     resolver: zodResolver(articleSchema),
@@ -159,39 +282,82 @@ export default function ArticleFormPage() {
       authorName:  '',
       slug:        '',
       imageUrl:    '',
+      imageId:     null,
+      imageCrop:   null,
       featured:    false,
       categoryIds: [],
       networkId:   null,
+      publishAt:   '',
+      unpublishAt: '',
     },
   });
 
-  // Populate form when editing
+  // Authors may only edit their own drafts: everything else is shown read-only.
+  // So is an article another tab is editing, unless the user takes over.
+  const mayEdit  = isEdit ? !article || can('article:edit', article) : can('article:create');
+  const presence = useArticlePresence(id, isEdit && !!article && mayEdit);
+  const readOnly = !mayEdit || !presence.canEdit;
+  const canSchedule = can('article:publish');
+
+  // The content is shared live with the other editors of the article: their
+  // edits land in the form without making it dirty
+  const collab = useCollaborativeContent(
+    isEdit && article ? article.id : undefined,
+    article?.content,
+    html => setValue('content', html),
+  );
+
+  /** Form values of a saved version, with the content being co-edited */
+  const liveFormValues = useCallback((saved: Article): FormValues => {
+    const values = toFormValues(saved, categories as Category[]);
+    const live   = collab.html();
+    return live === null ? values : { ...values, content: live };
+  }, [categories, collab.html]);
+
+  // Populate form when editing. Changes pushed by other users never overwrite
+  // unsaved edits: they surface as a conflict on the next save instead.
+  const dirtyRef = useRef(isDirty);
+  dirtyRef.current = isDirty;
   useEffect(() => {
-    if (!article) return;
-    const catIds       = article.categoryIds?.map(String) ?? (article.categoryId ? [String(article.categoryId)] : []);
-    const selectedCats = catIds
-      .map(cid => (categories as Category[]).find(c => String(c.id) === cid))
-      .filter(Boolean) as Category[];
-
-    reset({
-      title:       article.title,
-      content:     article.content,
-      summary:     article.summary    ?? '',
-      excerpt:     article.excerpt    ?? '',
-      authorName:  article.authorName ?? '',
-      slug:        article.slug       ?? '',
-      imageUrl:    article.imageUrl   ?? '',
-      featured:    article.featured,
-      categoryIds: selectedCats,
-      networkId:   article.networkId ? String(article.networkId) : null,
-    });
-  }, [article, categories, reset]);
+    if (!article || dirtyRef.current) return;
+    baseRef.current = article;
+    reset(liveFormValues(article));
+  }, [article, liveFormValues, reset]);
+
+  // Users assigned to a single network get it preselected on creation
+  useEffect(() => {
+    if (isEdit || networks.length !== 1) return;
+    if (getValues('networkId')) return;
+    setValue('networkId', String(networks[0].id));
+  }, [isEdit, networks, getValues, setValue]);
 
   // Mark unsaved when form changes
   useEffect(() => {
     if (isDirty && isEdit) setSaveState('unsaved');
   }, [isDirty, isEdit]);
 
+  // ── Build API payload ────────────────────────────────────────────────────
+  const buildPayload = useCallback((values: FormValues): ArticleFormData => ({
+    title:       values.title,
+    content:     values.content,
+    summary:     values.summary     || undefined,
+    excerpt:     values.excerpt,
+    authorName:  values.authorName,
+    slug:        values.slug        || undefined,
+    // '' removes the cover: an absent field would leave it unchanged
+    imageUrl:    values.imageUrl    ?? '',
+    imageId:     values.imageUrl ? values.imageId : null,
+    imageCrop:   values.imageUrl ? values.imageCrop : null,
+    featured:    values.featured,
+    categoryIds: (values.categoryIds as Category[]).map(c => c.id),
+    networkId:   values.networkId,
+    // Scheduling belongs to the users who may publish
+    ...(canSchedule && {
+      publishAt:   fromDateTimeInput(values.publishAt),
+      unpublishAt: fromDateTimeInput(values.unpublishAt),
+    }),
+  }), [canSchedule]);
+
   // ── Mutations ────────────────────────────────────────────────────────────
   const createMut = useMutation({
     mutationFn: (data: ArticleFormData) => createArticle(data),
@@ -200,69 +366,130 @@ export default function ArticleFormPage() {
       setSnack({ msg: 'Article créé', sev: 'success' });
       navigate(`/articles/${created.id}/edit`, { replace: true });
     },
-    onError: (e: Error) => setSnack({ msg: e.message, sev: 'error' }),
+    onError: (e: Error) => {
+      if (!applyFieldErrors(e, setError, FORM_FIELDS, FIELD_ALIASES)) setSnack({ msg: e.message, sev: 'error' });
+    },
   });
 
+  const compareVersions = useCallback(() => {
+    setComparing({
+      base: baseRef.current ? toConflictValues(baseRef.current) : null,
+      mine: formConflictValues(getValues()),
+    });
+  }, [getValues]);
+
+  /** Saves the form with the update mutation, declared below as it handles conflicts itself */
+  const saveRef = useRef<(payload: ArticleFormData) => void>(() => {});
+
+  /** Fetches the server version after a 409; `compare` opens the merge dialog right away */
+  const handleConflict = useCallback((e: ApiError, compare: boolean) => {
+    setSaveState('conflict');
+    getConflictingArticle(id!, e)
+      .then(current => {
+        // A co-editor saved the content we share: nothing to merge, save on top of it
+        const mine = formConflictValues(getValues());
+        if (collab.peers.length > 0 && diffVersions(null, mine, toConflictValues(current)).every(d => d.field === 'content')) {
+          baseRef.current = current;
+          setSaveState('unsaved');
+          if (compare) saveRef.current(buildPayload(getValues()));
+          return;
+        }
+        setConflict(current);
+        if (compare) compareVersions();
+      })
+      .catch((err: Error) => setSnack({ msg: err.message, sev: 'error' }));
+  }, [id, compareVersions, collab.peers, getValues, buildPayload]);
+
   const updateMut = useMutation({
-    mutationFn: (data: ArticleFormData) => updateArticle(id!, data),
-    onSuccess: () => {
+    mutationFn: (data: ArticleFormData) => updateArticle(id!, data, baseRef.current?.updatedAt),
+    onSuccess: (saved) => {
+      // The saved version becomes the base of the next edit
+      baseRef.current = saved;
+      reset(liveFormValues(saved));
+      qc.setQueryData(['article', id], saved);
       qc.invalidateQueries({ queryKey: ['articles'] });
-      qc.invalidateQueries({ queryKey: ['article', id] });
+      qc.invalidateQueries({ queryKey: ['revisions', id] });
+      setConflict(null);
       setSaveState('saved');
       setSnack({ msg: 'Article sauvegardé', sev: 'success' });
     },
     onError: (e: Error) => {
+      if (isEditConflict(e)) return handleConflict(e, true);
       setSaveState('unsaved');
-      setSnack({ msg: e.message, sev: 'error' });
+      if (!applyFieldErrors(e, setError, FORM_FIELDS, FIELD_ALIASES)) setSnack({ msg: e.message, sev: 'error' });
     },
   });
+  saveRef.current = updateMut.mutate;
 
   const statusMut = useMutation({
-    mutationFn: (status: 'published' | 'archived') => patchArticleStatus(id!, status),
-    onSuccess: () => {
-      qc.invalidateQueries({ queryKey: ['articles'] });
-      qc.invalidateQueries({ queryKey: ['article', id] });
-      setSnack({ msg: 'Statut mis à jour', sev: 'success' });
+    mutationFn: (status: ArticleStatus) => {
+      // Dates come from the Publication card: publication for a schedule, expiry for both
+      const unpublishAt = fromDateTimeInput(getValues('unpublishAt'));
+      const dates =
+        status === 'scheduled' ? { publishAt: fromDateTimeInput(getValues('publishAt')), unpublishAt } :
+        status === 'published' ? { unpublishAt } :
+        undefined;
+      return patchArticleStatus(id!, status, dates);
+    },
+    onSuccess: (updated) => applyStatusChange(updated),
+    onError: (e: Error) => {
+      if (!applyFieldErrors(e, setError, FORM_FIELDS, FIELD_ALIASES)) setSnack({ msg: e.message, sev: 'error' });
     },
-    onError: (e: Error) => setSnack({ msg: e.message, sev: 'error' }),
   });
 
+  const applyStatusChange = (updated: Article) => {
+    // Only the status and dates changed: unsaved edits stay valid against this version
+    baseRef.current = updated;
+    qc.setQueryData(['article', id], updated);
+    qc.invalidateQueries({ queryKey: ['articles'] });
+    qc.invalidateQueries({ queryKey: ['revisions', id] });
+    setPendingTransition(null);
+    setSnack({ msg: updated.status === 'scheduled' ? 'Publication programmée' : 'Statut mis à jour', sev: 'success' });
+  };
+
+  // Submissions and change requests go through a dialog (reviewer, comment)
+  const startTransition = (transition: WorkflowTransition) => {
+    if (transition.assignsReviewer || transition.requiresComment) setPendingTransition(transition);
+    else statusMut.mutate(transition.to);
+  };
+
   const notifyMut = useMutation({
     mutationFn: () => notifyArticle(id!),
     onSuccess: () => setSnack({ msg: 'Notification envoyée', sev: 'success' }),
     onError: (e: Error) => setSnack({ msg: e.message, sev: 'error' }),
   });
 
-  // ── Build API payload ────────────────────────────────────────────────────
-  const buildPayload = useCallback((values: FormValues): ArticleFormData => ({
-    title:       values.title,
-    content:     values.content,
-    summary:     values.summary     || undefined,
-    excerpt:     values.excerpt,
-    authorName:  values.authorName,
-    slug:        values.slug        || undefined,
-    imageUrl:    values.imageUrl    || undefined,
-    featured:    values.featured,
-    categoryIds: (values.categoryIds as Category[]).map(c => c.id),
-    networkId:   values.networkId,
-  }), []);
-
   // ── Auto-save every 30s (draft only) ─────────────────────────────────────
   const formValues = watch();
 
   const doAutoSave = useCallback(() => {
-    if (!isEdit) return;
-    if (article?.status !== 'draft') return;
-    setSaveState('saving');
+    if (!isEdit || readOnly) return;
+    if (!article || !isWorkInProgress(article.status)) return;
+    // Nothing is saved in the background until a pending conflict is merged
+    if (conflict) return;
     try {
       const payload = buildPayload(formValues as FormValues);
-      updateArticle(id!, payload)
-        .then(() => setSaveState('saved'))
-        .catch(() => setSaveState('unsaved'));
+      // Nothing changed since the version the form is based on: saving would only copy it
+      const base = baseRef.current;
+      if (base && samePayload(payload, buildPayload(toFormValues(base, categories as Category[])))) return;
+      setSaveState('saving');
+      updateArticle(id!, payload, baseRef.current?.updatedAt, true)
+        .then(saved => {
+          baseRef.current = saved;
+          // The saved values are the form's clean state, unless edited meanwhile
+          if (samePayload(buildPayload(getValues()), payload)) reset(getValues());
+          qc.setQueryData(['article', id], saved);
+          qc.invalidateQueries({ queryKey: ['revisions', id] });
+          setSaveState('saved');
+        })
+        .catch((e: unknown) => {
+          if (isEditConflict(e)) handleConflict(e, false);
+          else setSaveState('unsaved');
+        });
     } catch {
       setSaveState('unsaved');
     }
-  }, [isEdit, article, formValues, id, buildPayload]);
+  }, [isEdit, readOnly, article, conflict, formValues, categories, id, buildPayload, getValues, reset, qc, handleConflict]);
 
   useEffect(() => {
     clearInterval(autoSaveTimer.current);
@@ -272,11 +499,59 @@ export default function ArticleFormPage() {
 
   // ── Submit ───────────────────────────────────────────────────────────────
   const onSubmit = (values: FormValues) => {
+    if (readOnly) return;
     const payload = buildPayload(values);
     if (isEdit) updateMut.mutate(payload);
     else        createMut.mutate(payload);
   };
 
+  // ── Revisions ────────────────────────────────────────────────────────────
+  /** Loads a saved version into the form; it is kept only once saved again */
+  const restoreRevision = (revision: ArticleRevision) => {
+    const { data } = revision;
+    reset(
+      toFormValues(
+        {
+          ...article!,
+          ...data,
+          networkId:   data.networkId != null ? Number(data.networkId) : undefined,
+          imageId:     data.imageId     ?? undefined,
+          imageCrop:   data.imageCrop   ?? undefined,
+          publishAt:   data.publishAt   ?? undefined,
+          unpublishAt: data.unpublishAt ?? undefined,
+        },
+        categories as Category[],
+      ),
+      { keepDefaultValues: true },
+    );
+    setHistoryOpen(false);
+    setSnack({
+      msg: `Version du ${new Date(revision.createdAt).toLocaleString('fr-FR')} chargée : sauvegardez pour la restaurer`,
+      sev: 'success',
+    });
+  };
+
+  // ── Conflict resolution ──────────────────────────────────────────────────
+  const resolveConflict = (merged: ConflictValues) => {
+    const opts = { shouldDirty: true, shouldValidate: true };
+    setValue('title',   merged.title,   opts);
+    setValue('excerpt', merged.excerpt, opts);
+    setValue('content', merged.content, opts);
+    setValue(
+      'categoryIds',
+      merged.categoryIds
+        .map(cid => (categories as Category[]).find(c => Number(c.id) === cid))
+        .filter(Boolean) as Category[],
+      opts,
+    );
+    setValue('networkId', merged.networkId != null ? String(merged.networkId) : null, opts);
+
+    // The merge is saved on top of the server version it was made against
+    baseRef.current = conflict;
+    setComparing(null);
+    handleSubmit(onSubmit)();
+  };
+
   // ── Preview watchers ─────────────────────────────────────────────────────
   const watchTitle      = watch('title');
   const watchContent    = watch('content');
@@ -284,10 +559,41 @@ export default function ArticleFormPage() {
   const watchExcerpt    = watch('excerpt');
   const watchAuthorName = watch('authorName');
   const watchImageUrl   = watch('imageUrl');
+  const watchImageCrop  = watch('imageCrop');
   const watchFeatured   = watch('featured');
   const watchCatIds     = watch('categoryIds') as Category[];
   const watchStatus     = article?.status ?? 'draft';
+  const watchPublishAt  = watch('publishAt');
   const watchNetwork    = (networks as Network[]).find(n => String(n.id) === String(watch('networkId')));
+  const renditions      = networkRenditions(watchNetwork);
+
+  // ── Comments ─────────────────────────────────────────────────────────────
+  const contentText = useMemo(() => editorText(watchContent), [watchContent]);
+  const openThreads = useMemo(() => threads.filter(t => !t.resolved), [threads]);
+  const highlights  = useMemo(() => openThreads.map(t => ({ id: t.id, anchor: t.anchor })), [openThreads]);
+
+  // ── Co-editing ───────────────────────────────────────────────────────────
+  // Every change of the content goes to the co-editors: typing, but also a
+  // restored version or a merge. Their own edits come back equal: no-op.
+  useEffect(() => {
+    if (!readOnly) collab.update(watchContent);
+  }, [watchContent, readOnly, collab.update]);
+
+  const cursors = useMemo(
+    () => collab.peers.flatMap(p => (p.position ? [{ id: p.clientId, label: p.userName, color: p.color, ...p.position }] : [])),
+    [collab.peers],
+  );
+
+  const startComment = (anchor: TextAnchor) => {
+    setDraftAnchor(anchor);
+    setActiveThreadId(null);
+    setCommentsOpen(true);
+  };
+
+  const selectThread = (threadId: number | null) => {
+    setActiveThreadId(threadId);
+    if (threadId != null) setCommentsOpen(true);
+  };
 
   if (loadingArticle) {
     return (
@@ -299,6 +605,30 @@ export default function ArticleFormPage() {
     );
   }
 
+  // Article outside the user's networks (checked here and enforced by the API with a 403)
+  const outOfScope =
+    (article && !inScope(article)) ||
+    (isApiError(articleError) && articleError.status === 403);
+
+  if (outOfScope || articleError) {
+    return (
+      <Box maxWidth={560} mx="auto" mt={4}>
+        <Alert
+          severity="error"
+          action={
+            <Button color="inherit" size="small" onClick={() => navigate('/articles')}>
+              Retour aux articles
+            </Button>
+          }
+        >
+          {outOfScope
+            ? "Cet article appartient à un réseau auquel vous n'avez pas accès."
+            : (articleError as Error).message}
+        </Alert>
+      </Box>
+    );
+  }
+
   const isSaving = createMut.isPending || updateMut.isPending;
 
   return (
@@ -319,57 +649,130 @@ export default function ArticleFormPage() {
 
         {isEdit && <AutoSaveIndicator state={saveState} />}
 
+        <PresenceAvatars entries={presence.others} />
+
+        {collab.status === 'offline' && (
+          <Tooltip title="Vos modifications restent ici et seront fusionnées avec celles des autres à la reconnexion">
+            <Chip label="Co-édition hors ligne" size="small" color="warning" variant="outlined" />
+          </Tooltip>
+        )}
+
+        {readOnly && (
+          <Chip label="Lecture seule" size="small" variant="outlined" />
+        )}
+
+        {isEdit && (
+          <Button size="small" startIcon={<History />} onClick={() => setHistoryOpen(true)}>
+            Historique
+          </Button>
+        )}
+
+        {canComment && (
+          <Button
+            size="small"
+            startIcon={
+              <Badge badgeContent={openThreads.length} color="warning" max={99}>
+                <Comment />
+              </Badge>
+            }
+            onClick={() => setCommentsOpen(o => !o)}
+          >
+            Commentaires
+          </Button>
+        )}
+
         {/* Status actions */}
         {isEdit && article && (
-          <Stack direction="row" spacing={1}>
-            {article.status === 'draft' && (
+          <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+            {availableTransitions(user, article).map(transition => {
+              // The reviewer must get the saved version; a schedule needs its date
+              const blocker =
+                transition.to === 'in_review' && isDirty ? 'Sauvegardez d\'abord vos modifications' :
+                transition.to === 'scheduled' && !watchPublishAt ? 'Choisissez une date de publication' :
+                '';
+              return (
+                <Tooltip key={transition.to} title={blocker}>
+                  <span>
+                    <Button
+                      variant="outlined"
+                      color={transitionColor(transition)}
+                      size="small"
+                      startIcon={transitionIcon(transition)}
+                      onClick={() => startTransition(transition)}
+                      disabled={statusMut.isPending || !!blocker}
+                    >
+                      {transition.label}
+                    </Button>
+                  </span>
+                </Tooltip>
+              );
+            })}
+            {article.status === 'published' && can('article:notify') && (
               <Button
                 variant="outlined"
-                color="success"
+                color="secondary"
                 size="small"
-                startIcon={<Publish />}
-                onClick={() => statusMut.mutate('published')}
-                disabled={statusMut.isPending}
+                startIcon={<Notifications />}
+                onClick={() => notifyMut.mutate()}
+                disabled={notifyMut.isPending}
               >
-                Publier
+                Notifier
               </Button>
             )}
-            {article.status === 'published' && (
-              <>
-                <Button
-                  variant="outlined"
-                  size="small"
-                  startIcon={<Archive />}
-                  onClick={() => statusMut.mutate('archived')}
-                  disabled={statusMut.isPending}
-                >
-                  Archiver
-                </Button>
-                <Button
-                  variant="outlined"
-                  color="secondary"
-                  size="small"
-                  startIcon={<Notifications />}
-                  onClick={() => notifyMut.mutate()}
-                  disabled={notifyMut.isPending}
-                >
-                  Notifier
-                </Button>
-              </>
-            )}
           </Stack>
         )}
 
-        <Button
-          type="submit"
-          variant="contained"
-          startIcon={isSaving ? <CircularProgress size={16} color="inherit" /> : <Save />}
-          disabled={isSaving}
-        >
-          Sauvegarder
-        </Button>
+        {!readOnly && (
+          <Button
+            type="submit"
+            variant="contained"
+            startIcon={isSaving ? <CircularProgress size={16} color="inherit" /> : <Save />}
+            disabled={isSaving}
+          >
+            Sauvegarder
+          </Button>
+        )}
       </Stack>
 
+      {conflict && !comparing && (
+        <Alert
+          severity="warning"
+          sx={{ mb: 2 }}
+          action={
+            <Button color="inherit" size="small" onClick={compareVersions}>
+              Comparer les versions
+            </Button>
+          }
+        >
+          Cet article a été modifié par un autre utilisateur depuis son ouverture.
+          Vos modifications ne seront enregistrées qu'après fusion des deux versions.
+        </Alert>
+      )}
+
+      <LockNotice
+        state={presence.state}
+        holder={presence.holder}
+        userId={user?.id}
+        onAcquire={presence.acquire}
+        onReadOnly={presence.readOnly}
+        onShare={collab.status === 'online' ? presence.share : undefined}
+      />
+
+      {/* ── Review ─────────────────────────────────────────────────────── */}
+      {article?.status === 'changes_requested' && article.reviewComment && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          <AlertTitle>Corrections demandées{article.reviewerName ? ` par ${article.reviewerName}` : ''}</AlertTitle>
+          <Box sx={{ whiteSpace: 'pre-wrap' }}>{article.reviewComment}</Box>
+        </Alert>
+      )}
+      {article?.status === 'in_review' && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          {article.reviewerName
+            ? `En relecture par ${article.reviewerName}.`
+            : 'En attente de relecture : aucun relecteur désigné.'}
+        </Alert>
+      )}
+
       <Grid container spacing={3}>
         {/* ── Left panel: form ──────────────────────────────────────────── */}
         <Grid item xs={12} md={7}>
@@ -383,6 +786,7 @@ export default function ArticleFormPage() {
                     label="Titre *"
                     fullWidth
                     {...register('title')}
+                    disabled={readOnly}
                     error={!!errors.title}
                     helperText={errors.title?.message ?? 'Minimum 5 caractères'}
                   />
@@ -391,6 +795,7 @@ export default function ArticleFormPage() {
                     label="Slug"
                     fullWidth
                     {...register('slug')}
+                    disabled={readOnly}
                     error={!!errors.slug}
                     helperText={errors.slug?.message}
                   />
@@ -399,6 +804,7 @@ export default function ArticleFormPage() {
                     label="Auteur *"
                     fullWidth
                     {...register('authorName')}
+                    disabled={readOnly}
                     error={!!errors.authorName}
                     helperText={errors.authorName?.message ?? 'Nom complet de l\'auteur'}
                   />
@@ -409,6 +815,7 @@ export default function ArticleFormPage() {
                     multiline
                     rows={2}
                     {...register('excerpt')}
+                    disabled={readOnly}
                     error={!!errors.excerpt}
                     helperText={errors.excerpt?.message ?? 'Minimum 10 caractères, max 300 caractères'}
                   />
@@ -435,17 +842,32 @@ export default function ArticleFormPage() {
                         error={!!errors.content}
                         helperText={errors.content?.message ?? 'Minimum 50 caractères de texte'}
                         minHeight={300}
+                        disabled={readOnly}
+                        highlights={canComment ? highlights : undefined}
+                        activeHighlight={activeThreadId}
+                        onComment={canComment ? startComment : undefined}
+                        onHighlightClick={selectThread}
+                        cursors={cursors}
+                        onSelectionChange={readOnly ? undefined : collab.select}
+                        onInsertImage={readOnly ? undefined : insert => setInsertImage(() => insert)}
                       />
                     )}
                   />
 
-                  {/* <TextField
-                    label="URL image de couverture"
-                    fullWidth
-                    {...register('imageUrl')}
-                    error={!!errors.imageUrl}
-                    helperText={errors.imageUrl?.message}
-                  /> */}
+                  <CoverImageField
+                    value={watchImageUrl ?? ''}
+                    crop={watchImageCrop}
+                    ratios={renditions}
+                    disabled={readOnly}
+                    onChange={asset => {
+                      setValue('imageUrl', asset?.url ?? '', { shouldDirty: true });
+                      setValue('imageId', asset?.id ?? null, { shouldDirty: true });
+                      // A new image starts from the whole frame
+                      setValue('imageCrop', null, { shouldDirty: true });
+                    }}
+                    onCropChange={crop => setValue('imageCrop', crop, { shouldDirty: true })}
+                    onError={msg => setSnack({ msg, sev: 'error' })}
+                  />
                 </Stack>
               </CardContent>
             </Card>
@@ -464,6 +886,7 @@ export default function ArticleFormPage() {
                     render={({ field }) => (
                       <Autocomplete
                         multiple
+                        disabled={readOnly}
                         options={categories as Category[]}
                         getOptionLabel={o => o.name}
                         value={field.value as Category[]}
@@ -499,7 +922,7 @@ export default function ArticleFormPage() {
                     name="networkId"
                     control={control}
                     render={({ field }) => (
-                      <FormControl fullWidth error={!!errors.networkId}>
+                      <FormControl fullWidth error={!!errors.networkId} disabled={readOnly}>
                         <InputLabel>Réseau *</InputLabel>
                         <Select
                           {...field}
@@ -529,6 +952,7 @@ export default function ArticleFormPage() {
                             checked={field.value}
                             onChange={e => field.onChange(e.target.checked)}
                             color="warning"
+                            disabled={readOnly || !can('article:feature')}
                           />
                         }
                         label={
@@ -543,6 +967,46 @@ export default function ArticleFormPage() {
                 </Stack>
               </CardContent>
             </Card>
+
+            {/* ── Publication card ───────────────────────────────────── */}
+            <Card>
+              <CardContent>
+                <Typography variant="subtitle2" fontWeight={700} mb={2}>
+                  Publication
+                </Typography>
+                <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+                  {watchStatus !== 'published' && watchStatus !== 'archived' && (
+                    <TextField
+                      label="Publication programmée"
+                      type="datetime-local"
+                      fullWidth
+                      InputLabelProps={{ shrink: true }}
+                      {...register('publishAt')}
+                      disabled={readOnly || !canSchedule}
+                      error={!!errors.publishAt}
+                      helperText={
+                        errors.publishAt?.message ??
+                        (watchStatus === 'scheduled' && article?.publishAt
+                          ? `Publication ${formatCountdown(article.publishAt)} · « Reprogrammer » pour changer de date`
+                          : watchStatus === 'approved'
+                            ? 'Puis « Programmer » pour publier à cette date'
+                            : 'Programmable une fois l\'article approuvé')
+                      }
+                    />
+                  )}
+                  <TextField
+                    label="Archivage automatique"
+                    type="datetime-local"
+                    fullWidth
+                    InputLabelProps={{ shrink: true }}
+                    {...register('unpublishAt')}
+                    disabled={readOnly || !canSchedule || watchStatus === 'archived'}
+                    error={!!errors.unpublishAt}
+                    helperText={errors.unpublishAt?.message ?? 'Optionnel : fin d\'embargo ou expiration'}
+                  />
+                </Stack>
+              </CardContent>
+            </Card>
           </Stack>
         </Grid>
 
@@ -555,17 +1019,13 @@ export default function ArticleFormPage() {
               </Typography>
 
               {watchImageUrl && (
-                <CardMedia
-                  component="img"
-                  image={watchImageUrl}
-                  alt="cover"
-                  sx={{ borderRadius: 1, mb: 2, maxHeight: 180, objectFit: 'cover' }}
-                  onError={e => { (e.target as HTMLImageElement).style.display = 'none'; }}
-                />
+                <Box mb={2}>
+                  <CoverRendition src={watchImageUrl} crop={watchImageCrop} ratio={renditions[0]} alt="cover" />
+                </Box>
               )}
 
               <Stack direction="row" spacing={1} mb={1} flexWrap="wrap">
-                <StatusChip status={watchStatus} />
+                <StatusChip status={watchStatus} publishAt={article?.publishAt} unpublishAt={article?.unpublishAt} />
                 {watchFeatured && (
                   <Chip
                     icon={<Star sx={{ fontSize: 14, color: '#FFD700 !important' }} />}
@@ -637,21 +1097,8 @@ export default function ArticleFormPage() {
                     maxHeight: 320,
                     overflowY: 'auto',
                     position: 'relative',
-                    '& h2': { fontSize: '1.05rem', fontWeight: 700, mt: 1.5, mb: 0.5 },
-                    '& h3': { fontSize: '0.95rem', fontWeight: 600, mt: 1, mb: 0.5 },
-                    '& p':  { mt: 0, mb: 0.75 },
-                    '& blockquote': {
-                      borderLeft: '3px solid',
-                      borderColor: 'primary.main',
-                      pl: 1.5,
-                      ml: 0,
-                      color: 'text.secondary',
-                      fontStyle: 'italic',
-                      my: 1,
-                    },
-                    '& ul, & ol': { pl: 2.5, my: 0.5 },
-                    '& li': { mb: 0.25 },
-                    '& a':  { color: 'primary.main' },
+                    // Same styles as the editor
+                    ...richTextStyles,
                     '&:after': {
                       content: '""',
                       display: 'block',
@@ -687,6 +1134,70 @@ export default function ArticleFormPage() {
         </Grid>
       </Grid>
 
+      {isEdit && (
+        <RevisionsPanel
+          open={historyOpen}
+          articleId={id!}
+          categories={categories as Category[]}
+          networks={networks as Network[]}
+          canRestore={!readOnly}
+          onRestore={restoreRevision}
+          onClose={() => setHistoryOpen(false)}
+        />
+      )}
+
+      {canComment && (
+        <CommentsPanel
+          open={commentsOpen}
+          articleId={id!}
+          threads={threads}
+          loading={loadingThreads}
+          text={contentText}
+          activeThreadId={activeThreadId}
+          onSelectThread={selectThread}
+          draftAnchor={draftAnchor}
+          onDraftClose={() => setDraftAnchor(null)}
+          onError={msg => setSnack({ msg, sev: 'error' })}
+          onClose={() => { setCommentsOpen(false); setActiveThreadId(null); setDraftAnchor(null); }}
+        />
+      )}
+
+      {isEdit && article && (
+        <TransitionDialog
+          transition={pendingTransition}
+          article={article}
+          onClose={() => setPendingTransition(null)}
+          onDone={applyStatusChange}
+          onError={msg => setSnack({ msg, sev: 'error' })}
+        />
+      )}
+
+      <MediaPickerDialog
+        open={!!insertImage}
+        title="Insérer une image"
+        confirmLabel="Insérer"
+        onClose={() => setInsertImage(null)}
+        onSelect={asset => {
+          insertImage?.(mediaFigureHtml(asset));
+          setInsertImage(null);
+        }}
+        onError={msg => setSnack({ msg, sev: 'error' })}
+      />
+
+      {conflict && comparing && (
+        <ConflictDialog
+          open
+          base={comparing.base}
+          mine={comparing.mine}
+          theirs={conflict}
+          categories={categories as Category[]}
+          networks={networks as Network[]}
+          saving={updateMut.isPending}
+          onResolve={resolveConflict}
+          onClose={() => setComparing(null)}
+        />
+      )}
+
       {/* ── Snackbar ────────────────────────────────────────────────────── */}
       <Snackbar
         open={!!snack}
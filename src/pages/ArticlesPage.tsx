@@ -1,6 +1,6 @@
 import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import {
   Box,
   Card,
@@ -34,6 +34,7 @@ import {
   Skeleton,
   Autocomplete,
   Divider,
+  LinearProgress,
 } from '@mui/material';
 import {
   Search,
@@ -46,23 +47,38 @@ import {
   Notifications,
   CheckCircle,
   FilterList,
+  FilterListOff,
+  Visibility,
 } from '@mui/icons-material';
 import {
-  getArticles,
+  getArticlesPaginated,
   getCategories,
-  getNetworks,
   deleteArticle,
   patchArticleStatus,
   notifyArticle,
   updateArticle,
 } from '../services/api';
-import StatusChip from '../components/common/StatusChip';
+import StatusChip, { statusLabel } from '../components/common/StatusChip';
 import ConfirmDialog from '../components/common/ConfirmDialog';
+import SavedViewsMenu from '../components/articles/SavedViewsMenu';
+import RecentUpdateBadge from '../components/articles/RecentUpdateBadge';
+import PresenceAvatars from '../components/articles/PresenceAvatars';
+import { beginArticleUpdate, rollbackArticles, settleArticleUpdate } from '../services/articleCache';
+import { bulkTransitions, canTransition } from '../services/workflow';
+import { usePermissions } from '../hooks/usePermissions';
+import { useNetworkScope } from '../hooks/useNetworkScope';
+import { useArticleFilters } from '../hooks/useArticleFilters';
+import { usePresenceByArticle } from '../hooks/useArticlePresence';
+import {
+  ARTICLE_STATUSES,
+  PERIOD_LABELS,
+  toArticleQueryParams,
+  toViewQuery,
+  type ArticlePeriod,
+  type ArticleSortCol,
+} from '../services/articleFilters';
 import type { Article, ArticleStatus, Category, Network } from '../types';
 
-type SortDir = 'asc' | 'desc';
-type SortCol = 'title' | 'createdAt' | 'status' | 'networkId';
-
 const PAGE_SIZE = 20;
 
 function buildCategoryMap(categories: Category[]): Map<string, Category> {
@@ -79,119 +95,103 @@ function resolveCategory(article: Article, catMap: Map<string, Category>): Categ
 export default function ArticlesPage() {
   const navigate   = useNavigate();
   const qc         = useQueryClient();
-
-  // ── Filter/sort state ──────────────────────────────────────────────────
-  const [search,        setSearch]        = useState('');
-  const [searchInput,   setSearchInput]   = useState('');
-  const [statusFilter,  setStatusFilter]  = useState<ArticleStatus | ''>('');
-  const [selectedCats,  setSelectedCats]  = useState<Category[]>([]);
-  const [networkFilter, setNetworkFilter] = useState<string>('');
-  const [featuredOnly,  setFeaturedOnly]  = useState(false);
-  const [sortCol,       setSortCol]       = useState<SortCol>('createdAt');
-  const [sortDir,       setSortDir]       = useState<SortDir>('desc');
-  const [page,          setPage]          = useState(0);
-
-  // Debounce search
+  const { can, user } = usePermissions();
+  const { networks, networkIds, inScope } = useNetworkScope();
+
+  // Bulk actions change statuses: only for users allowed to publish/archive
+  const canBulk    = can('article:publish') && can('article:archive');
+  const columnCount = canBulk ? 7 : 6;
+
+  // ── Filter/sort state (query string) ───────────────────────────────────
+  const { filters, setFilters, resetFilters } = useArticleFilters();
+  const { sort: sortCol, dir: sortDir } = filters;
+  const page = filters.page - 1;
+  const hasActiveFilters =
+    !!filters.search || !!filters.status || filters.categoryIds.length > 0 ||
+    filters.networkId != null || filters.featured || filters.mine || !!filters.period;
+
+  // Search is typed locally and pushed to the URL once debounced
+  const [searchInput, setSearchInput] = useState(filters.search);
   const searchTimer = useRef<ReturnType<typeof setTimeout>>();
-  useEffect(() => {
-    clearTimeout(searchTimer.current);
-    searchTimer.current = setTimeout(() => {
-      setSearch(searchInput);
-      setPage(0);
-    }, 300);
-    return () => clearTimeout(searchTimer.current);
-  }, [searchInput]);
 
-  // Reset page on filter change
-  useEffect(() => { setPage(0); }, [statusFilter, selectedCats, networkFilter, featuredOnly, sortCol, sortDir]);
+  // Back/forward: follow the search of the restored entry
+  useEffect(() => { setSearchInput(filters.search); }, [filters.search]);
+
+  const handleSearchChange = (value: string) => {
+    setSearchInput(value);
+    clearTimeout(searchTimer.current);
+    // Debounced: one history entry per pause in typing, not per keystroke
+    searchTimer.current = setTimeout(() => setFilters({ search: value.trim() }), 300);
+  };
+  useEffect(() => () => clearTimeout(searchTimer.current), []);
 
   // ── Data queries ───────────────────────────────────────────────────────
-  const { data: allArticles = [], isLoading: loadingArticles } = useQuery({
-    queryKey: ['articles', 'all'],
-    queryFn: () => getArticles({ limit: 100 }),
+  // Filtering, sorting and pagination are done by the API
+  const queryParams = toArticleQueryParams(filters, PAGE_SIZE, { networkIds, userId: user?.id });
+
+  const {
+    data: articlesPage,
+    isLoading: loadingArticles,
+    isFetching,
+    isPlaceholderData,
+  } = useQuery({
+    queryKey: ['articles', 'list', queryParams],
+    queryFn:  () => getArticlesPaginated(queryParams),
+    // Keep the current page on screen while the next one loads
+    placeholderData: keepPreviousData,
   });
 
+  const total = articlesPage?.total ?? 0;
+
   const { data: categories = [] } = useQuery({
     queryKey: ['categories'],
     queryFn: getCategories,
   });
 
-  const { data: networks = [] } = useQuery({
-    queryKey: ['networks'],
-    queryFn: getNetworks,
-  });
-
   const catMap = useMemo(() => buildCategoryMap(categories), [categories]);
 
-  // ── Client-side filtering + sorting ───────────────────────────────────
-  const filtered = useMemo(() => {
-    let list = allArticles as Article[];
-
-    if (search) {
-      const q = search.toLowerCase();
-      list = list.filter(a =>
-        a.title.toLowerCase().includes(q) ||
-        (a.content?.toLowerCase().includes(q))
-      );
-    }
-    if (statusFilter) {
-      list = list.filter(a => a.status === statusFilter);
-    }
-    if (selectedCats.length > 0) {
-      const ids = new Set(selectedCats.map(c => String(c.id)));
-      list = list.filter(a => {
-        const artIds = (a.categoryIds?.map(String) ?? []);
-        if (artIds.length > 0) return artIds.some(id => ids.has(id));
-        if (a.categoryId != null) return ids.has(String(a.categoryId));
-        return false;
-      });
-    }
-    if (networkFilter) {
-      list = list.filter(a => String(a.networkId) === networkFilter);
-    }
-    if (featuredOnly) {
-      list = list.filter(a => a.featured);
-    }
-
-    // Sort
-    list = [...list].sort((a, b) => {
-      let av: string, bv: string;
-      switch (sortCol) {
-        case 'title':     av = a.title;              bv = b.title; break;
-        case 'status':    av = a.status;             bv = b.status; break;
-        case 'networkId': av = String(a.networkId ?? ''); bv = String(b.networkId ?? ''); break;
-        default:          av = a.createdAt ?? '';    bv = b.createdAt ?? '';
-      }
-      return sortDir === 'asc' ? av.localeCompare(bv) : bv.localeCompare(av);
-    });
+  // Who has each article open
+  const presence = usePresenceByArticle();
 
-    return list;
-  }, [allArticles, search, statusFilter, selectedCats, networkFilter, featuredOnly, sortCol, sortDir]);
+  const selectedCats = useMemo(
+    () => categories.filter(c => filters.categoryIds.includes(Number(c.id))),
+    [categories, filters.categoryIds],
+  );
 
-  // Pagination (client-side)
-  const paginated = useMemo(() =>
-    filtered.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE),
-    [filtered, page]
+  // The API already applies the network scope: this only guards the display
+  const rows = useMemo(
+    () => (articlesPage?.data ?? []).filter(inScope),
+    [articlesPage, inScope],
   );
 
+  // Back to the last page when it no longer exists (e.g. after a deletion)
+  useEffect(() => {
+    if (!articlesPage || isPlaceholderData) return;
+    const lastPage = Math.max(0, Math.ceil(total / PAGE_SIZE) - 1);
+    if (page > lastPage) setFilters({ page: lastPage + 1 }, { replace: true });
+  }, [articlesPage, total, page, isPlaceholderData, setFilters]);
+
   // ── Selection (bulk actions) ──────────────────────────────────────────
-  const [selected, setSelected] = useState<Set<string>>(new Set());
-  const allPageIds  = paginated.map(a => String(a.id));
+  // Selected articles are kept with their status: the bulk bar offers the
+  // status changes allowed on all of them
+  const [selected, setSelected] = useState<Map<string, Article>>(new Map());
+  const allPageIds  = rows.map(a => String(a.id));
   const allSelected = allPageIds.length > 0 && allPageIds.every(id => selected.has(id));
   const someSelected = allPageIds.some(id => selected.has(id)) && !allSelected;
 
   const toggleAll = () => {
     setSelected(prev => {
-      const next = new Set(prev);
+      const next = new Map(prev);
       if (allSelected) allPageIds.forEach(id => next.delete(id));
-      else allPageIds.forEach(id => next.add(id));
+      else rows.forEach(a => next.set(String(a.id), a));
       return next;
     });
   };
-  const toggleOne = (id: string) => {
+  const toggleOne = (article: Article) => {
+    const id = String(article.id);
     setSelected(prev => {
-      const next = new Set(prev);
-      next.has(id) ? next.delete(id) : next.add(id);
+      const next = new Map(prev);
+      next.has(id) ? next.delete(id) : next.set(id, article);
       return next;
     });
   };
@@ -212,14 +212,20 @@ export default function ArticlesPage() {
     onError: (e: Error) => setSnack({ msg: e.message, sev: 'error' }),
   });
 
+  // Status and featured toggles are applied to the cache right away and
+  // rolled back if the API refuses them
   const statusMut = useMutation({
     mutationFn: ({ id, status }: { id: string; status: ArticleStatus }) =>
       patchArticleStatus(id, status),
-    onSuccess: () => {
-      qc.invalidateQueries({ queryKey: ['articles'] });
+    onMutate: ({ id, status }) => beginArticleUpdate(qc, id, { status }),
+    onSuccess: article => {
+      settleArticleUpdate(qc, article, ['status']);
       setSnack({ msg: 'Statut mis à jour', sev: 'success' });
     },
-    onError: (e: Error) => setSnack({ msg: e.message, sev: 'error' }),
+    onError: (e: Error, _vars, snapshot) => {
+      if (snapshot) rollbackArticles(qc, snapshot);
+      setSnack({ msg: `Statut inchangé : ${e.message}`, sev: 'error' });
+    },
   });
 
   const notifyMut = useMutation({
@@ -231,24 +237,31 @@ export default function ArticlesPage() {
   const featuredMut = useMutation({
     mutationFn: ({ id, featured }: { id: string; featured: boolean }) =>
       updateArticle(id, { featured }),
-    onSuccess: () => {
-      qc.invalidateQueries({ queryKey: ['articles'] });
+    onMutate: ({ id, featured }) => beginArticleUpdate(qc, id, { featured }),
+    onSuccess: article => settleArticleUpdate(qc, article, ['featured']),
+    onError: (e: Error, { featured }, snapshot) => {
+      if (snapshot) rollbackArticles(qc, snapshot);
+      setSnack({ msg: `${featured ? 'Mise en avant annulée' : 'Retrait de la une annulé'} : ${e.message}`, sev: 'error' });
     },
-    onError: (e: Error) => setSnack({ msg: e.message, sev: 'error' }),
   });
 
   // Bulk status change
   const [bulkStatus, setBulkStatus] = useState<ArticleStatus | ''>('');
   const [bulkLoading, setBulkLoading] = useState(false);
+  const bulkOptions = useMemo(() => bulkTransitions(user, Array.from(selected.values())), [user, selected]);
+  useEffect(() => {
+    if (bulkStatus && !bulkOptions.includes(bulkStatus)) setBulkStatus('');
+  }, [bulkStatus, bulkOptions]);
+
   const applyBulkStatus = useCallback(async () => {
     if (!bulkStatus || selected.size === 0) return;
     setBulkLoading(true);
     try {
       await Promise.all(
-        Array.from(selected).map(id => patchArticleStatus(id, bulkStatus as ArticleStatus))
+        Array.from(selected.keys()).map(id => patchArticleStatus(id, bulkStatus as ArticleStatus))
       );
       qc.invalidateQueries({ queryKey: ['articles'] });
-      setSelected(new Set());
+      setSelected(new Map());
       setBulkStatus('');
       setSnack({ msg: `${selected.size} articles mis à jour`, sev: 'success' });
     } catch (e: any) {
@@ -259,9 +272,9 @@ export default function ArticlesPage() {
   }, [bulkStatus, selected, qc]);
 
   // ── Sort handler ──────────────────────────────────────────────────────
-  const handleSort = (col: SortCol) => {
-    if (sortCol === col) setSortDir(d => d === 'asc' ? 'desc' : 'asc');
-    else { setSortCol(col); setSortDir('asc'); }
+  const handleSort = (col: ArticleSortCol) => {
+    if (sortCol === col) setFilters({ dir: sortDir === 'asc' ? 'desc' : 'asc' });
+    else                 setFilters({ sort: col, dir: 'asc' });
   };
 
   const networkMap = useMemo(() => {
@@ -281,7 +294,7 @@ export default function ArticlesPage() {
               size="small"
               placeholder="Rechercher titre / contenu…"
               value={searchInput}
-              onChange={e => setSearchInput(e.target.value)}
+              onChange={e => handleSearchChange(e.target.value)}
               sx={{ flexGrow: 1, minWidth: 220 }}
               InputProps={{
                 startAdornment: (
@@ -291,14 +304,20 @@ export default function ArticlesPage() {
                 ),
               }}
             />
-            <Button
-              variant="contained"
-              startIcon={<Add />}
-              onClick={() => navigate('/articles/new')}
-              sx={{ whiteSpace: 'nowrap' }}
-            >
-              Nouvel article
-            </Button>
+            <SavedViewsMenu
+              query={toViewQuery(filters)}
+              onMessage={(msg, sev) => setSnack({ msg, sev })}
+            />
+            {can('article:create') && (
+              <Button
+                variant="contained"
+                startIcon={<Add />}
+                onClick={() => navigate('/articles/new')}
+                sx={{ whiteSpace: 'nowrap' }}
+              >
+                Nouvel article
+              </Button>
+            )}
           </Stack>
 
           {/* Row 2: filters */}
@@ -306,14 +325,14 @@ export default function ArticlesPage() {
             <FormControl size="small" sx={{ minWidth: 140 }}>
               <InputLabel>Statut</InputLabel>
               <Select
-                value={statusFilter}
+                value={filters.status}
                 label="Statut"
-                onChange={e => setStatusFilter(e.target.value as ArticleStatus | '')}
+                onChange={e => setFilters({ status: e.target.value as ArticleStatus | '' })}
               >
                 <MenuItem value="">Tous</MenuItem>
-                <MenuItem value="draft">Brouillon</MenuItem>
-                <MenuItem value="published">Publié</MenuItem>
-                <MenuItem value="archived">Archivé</MenuItem>
+                {ARTICLE_STATUSES.map(status => (
+                  <MenuItem key={status} value={status}>{statusLabel(status)}</MenuItem>
+                ))}
               </Select>
             </FormControl>
 
@@ -323,7 +342,7 @@ export default function ArticlesPage() {
               options={categories as Category[]}
               getOptionLabel={o => o.name}
               value={selectedCats}
-              onChange={(_, v) => setSelectedCats(v)}
+              onChange={(_, v) => setFilters({ categoryIds: v.map(c => Number(c.id)) })}
               sx={{ minWidth: 200, flexGrow: 1 }}
               renderInput={params => (
                 <TextField {...params} label="Catégories" placeholder="Filtrer…" />
@@ -347,9 +366,9 @@ export default function ArticlesPage() {
             <FormControl size="small" sx={{ minWidth: 140 }}>
               <InputLabel>Réseau</InputLabel>
               <Select
-                value={networkFilter}
+                value={filters.networkId != null ? String(filters.networkId) : ''}
                 label="Réseau"
-                onChange={e => setNetworkFilter(e.target.value)}
+                onChange={e => setFilters({ networkId: e.target.value ? Number(e.target.value) : null })}
               >
                 <MenuItem value="">Tous</MenuItem>
                 {(networks as Network[]).map(n => (
@@ -358,40 +377,80 @@ export default function ArticlesPage() {
               </Select>
             </FormControl>
 
+            <FormControl size="small" sx={{ minWidth: 160 }}>
+              <InputLabel>Modifiés</InputLabel>
+              <Select
+                value={filters.period}
+                label="Modifiés"
+                onChange={e => setFilters({ period: e.target.value as ArticlePeriod })}
+              >
+                <MenuItem value="">Toutes dates</MenuItem>
+                {Object.entries(PERIOD_LABELS).map(([value, label]) => (
+                  <MenuItem key={value} value={value}>{label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
             <FormControlLabel
               control={
                 <Switch
-                  checked={featuredOnly}
-                  onChange={e => setFeaturedOnly(e.target.checked)}
+                  checked={filters.featured}
+                  onChange={e => setFilters({ featured: e.target.checked })}
                   size="small"
                 />
               }
               label={<Typography variant="body2">Mis en avant</Typography>}
               sx={{ ml: 0 }}
             />
+
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={filters.mine}
+                  onChange={e => setFilters({ mine: e.target.checked })}
+                  size="small"
+                />
+              }
+              label={<Typography variant="body2">Mes articles</Typography>}
+              sx={{ ml: 0 }}
+            />
+
+            {hasActiveFilters && (
+              <Button
+                size="small"
+                color="inherit"
+                startIcon={<FilterListOff fontSize="small" />}
+                onClick={() => { setSearchInput(''); resetFilters(); }}
+                sx={{ color: 'text.secondary', alignSelf: 'center' }}
+              >
+                Réinitialiser
+              </Button>
+            )}
           </Stack>
 
           {/* Row 3: bulk actions (when selection active) */}
-          {selected.size > 0 && (
+          {canBulk && selected.size > 0 && (
             <>
               <Divider sx={{ my: 1.5 }} />
               <Stack direction="row" spacing={1.5} alignItems="center" flexWrap="wrap">
                 <Typography variant="body2" color="text.secondary">
                   {selected.size} sélectionné(s) —
                 </Typography>
-                <FormControl size="small" sx={{ minWidth: 140 }}>
-                  <InputLabel>Changer statut</InputLabel>
-                  <Select
-                    value={bulkStatus}
-                    label="Changer statut"
-                    onChange={e => setBulkStatus(e.target.value as ArticleStatus | '')}
-                  >
-                    <MenuItem value="">—</MenuItem>
-                    <MenuItem value="draft">Brouillon</MenuItem>
-                    <MenuItem value="published">Publié</MenuItem>
-                    <MenuItem value="archived">Archivé</MenuItem>
-                  </Select>
-                </FormControl>
+                <Tooltip title={bulkOptions.length === 0 ? 'Aucun changement de statut commun à la sélection' : ''}>
+                  <FormControl size="small" sx={{ minWidth: 160 }} disabled={bulkOptions.length === 0}>
+                    <InputLabel>Changer statut</InputLabel>
+                    <Select
+                      value={bulkStatus}
+                      label="Changer statut"
+                      onChange={e => setBulkStatus(e.target.value as ArticleStatus | '')}
+                    >
+                      <MenuItem value="">—</MenuItem>
+                      {bulkOptions.map(status => (
+                        <MenuItem key={status} value={status}>{statusLabel(status)}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </Tooltip>
                 <Button
                   variant="outlined"
                   size="small"
@@ -401,7 +460,7 @@ export default function ArticlesPage() {
                 >
                   Appliquer
                 </Button>
-                <Button size="small" onClick={() => setSelected(new Set())}>
+                <Button size="small" onClick={() => setSelected(new Map())}>
                   Annuler sélection
                 </Button>
               </Stack>
@@ -412,18 +471,23 @@ export default function ArticlesPage() {
 
       {/* ── Table ─────────────────────────────────────────────────────── */}
       <Card>
-        <Box sx={{ overflowX: 'auto' }}>
+        <Box sx={{ height: 2 }}>
+          {isFetching && !loadingArticles && <LinearProgress sx={{ height: 2 }} />}
+        </Box>
+        <Box sx={{ overflowX: 'auto', opacity: isPlaceholderData ? 0.6 : 1, transition: 'opacity 0.2s' }}>
           <Table size="small">
             <TableHead>
               <TableRow>
-                <TableCell padding="checkbox">
-                  <Checkbox
-                    indeterminate={someSelected}
-                    checked={allSelected}
-                    onChange={toggleAll}
-                    size="small"
-                  />
-                </TableCell>
+                {canBulk && (
+                  <TableCell padding="checkbox">
+                    <Checkbox
+                      indeterminate={someSelected}
+                      checked={allSelected}
+                      onChange={toggleAll}
+                      size="small"
+                    />
+                  </TableCell>
+                )}
                 <TableCell>
                   <TableSortLabel
                     active={sortCol === 'title'}
@@ -468,14 +532,14 @@ export default function ArticlesPage() {
               {loadingArticles ? (
                 Array.from({ length: 8 }).map((_, i) => (
                   <TableRow key={i}>
-                    {Array.from({ length: 7 }).map((__, j) => (
+                    {Array.from({ length: columnCount }).map((__, j) => (
                       <TableCell key={j}><Skeleton /></TableCell>
                     ))}
                   </TableRow>
                 ))
-              ) : paginated.length === 0 ? (
+              ) : rows.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={7} align="center" sx={{ py: 4 }}>
+                  <TableCell colSpan={columnCount} align="center" sx={{ py: 4 }}>
                     <Stack alignItems="center" spacing={1}>
                       <FilterList sx={{ opacity: 0.3, fontSize: 40 }} />
                       <Typography color="text.secondary">Aucun article trouvé</Typography>
@@ -483,7 +547,7 @@ export default function ArticlesPage() {
                   </TableCell>
                 </TableRow>
               ) : (
-                paginated.map((article: Article) => {
+                rows.map((article: Article) => {
                   const isSelected = selected.has(String(article.id));
                   const cat        = resolveCategory(article, catMap);
                   const allCatIds  = article.categoryIds?.map(String) ?? (article.categoryId ? [String(article.categoryId)] : []);
@@ -496,13 +560,15 @@ export default function ArticlesPage() {
                       hover
                       sx={{ '&.Mui-selected': { bgcolor: 'action.selected' } }}
                     >
-                      <TableCell padding="checkbox">
-                        <Checkbox
-                          checked={isSelected}
-                          onChange={() => toggleOne(String(article.id))}
-                          size="small"
-                        />
-                      </TableCell>
+                      {canBulk && (
+                        <TableCell padding="checkbox">
+                          <Checkbox
+                            checked={isSelected}
+                            onChange={() => toggleOne(article)}
+                            size="small"
+                          />
+                        </TableCell>
+                      )}
 
                       <TableCell>
                         <Stack direction="row" alignItems="center" spacing={0.5}>
@@ -518,7 +584,9 @@ export default function ArticlesPage() {
                                 {article.summary}
                               </Typography>
                             )}
+                            <RecentUpdateBadge articleId={article.id} />
                           </Box>
+                          <PresenceAvatars entries={presence.get(article.id) ?? []} size="small" />
                         </Stack>
                       </TableCell>
 
@@ -546,7 +614,7 @@ export default function ArticlesPage() {
                       </TableCell>
 
                       <TableCell>
-                        <StatusChip status={article.status} />
+                        <StatusChip status={article.status} publishAt={article.publishAt} unpublishAt={article.unpublishAt} />
                       </TableCell>
 
                       <TableCell>
@@ -567,17 +635,20 @@ export default function ArticlesPage() {
                         <Stack direction="row" spacing={0} justifyContent="flex-end">
                           {/* Featured toggle */}
                           <Tooltip title={article.featured ? 'Retirer de la une' : 'Mettre en avant'}>
-                            <IconButton
-                              size="small"
-                              onClick={() => featuredMut.mutate({ id: String(article.id), featured: !article.featured })}
-                            >
-                              {article.featured ? <Star sx={{ color: '#FFD700' }} fontSize="small" /> : <StarBorder fontSize="small" />}
-                            </IconButton>
+                            <span>
+                              <IconButton
+                                size="small"
+                                disabled={!can('article:feature')}
+                                onClick={() => featuredMut.mutate({ id: String(article.id), featured: !article.featured })}
+                              >
+                                {article.featured ? <Star sx={{ color: '#FFD700' }} fontSize="small" /> : <StarBorder fontSize="small" />}
+                              </IconButton>
+                            </span>
                           </Tooltip>
 
                           {/* Publish */}
-                          {article.status === 'draft' && (
-                            <Tooltip title="Publier">
+                          {canTransition(user, article, 'published') && (
+                            <Tooltip title={article.status === 'scheduled' ? 'Publier maintenant' : 'Publier'}>
                               <IconButton
                                 size="small"
                                 color="success"
@@ -589,7 +660,7 @@ export default function ArticlesPage() {
                           )}
 
                           {/* Archive */}
-                          {article.status === 'published' && (
+                          {article.status === 'published' && canTransition(user, article, 'archived') && (
                             <Tooltip title="Archiver">
                               <IconButton
                                 size="small"
@@ -601,7 +672,7 @@ export default function ArticlesPage() {
                           )}
 
                           {/* Notify */}
-                          {article.status === 'published' && (
+                          {article.status === 'published' && can('article:notify') && (
                             <Tooltip title="Notifier">
                               <IconButton
                                 size="small"
@@ -613,26 +684,28 @@ export default function ArticlesPage() {
                             </Tooltip>
                           )}
 
-                          {/* Edit */}
-                          <Tooltip title="Éditer">
+                          {/* Edit (read-only view when not allowed to edit) */}
+                          <Tooltip title={can('article:edit', article) ? 'Éditer' : 'Consulter'}>
                             <IconButton
                               size="small"
                               onClick={() => navigate(`/articles/${article.id}/edit`)}
                             >
-                              <Edit fontSize="small" />
+                              {can('article:edit', article) ? <Edit fontSize="small" /> : <Visibility fontSize="small" />}
                             </IconButton>
                           </Tooltip>
 
                           {/* Delete */}
-                          <Tooltip title="Supprimer">
-                            <IconButton
-                              size="small"
-                              color="error"
-                              onClick={() => setConfirmDelete(String(article.id))}
-                            >
-                              <Delete fontSize="small" />
-                            </IconButton>
-                          </Tooltip>
+                          {can('article:delete', article) && (
+                            <Tooltip title="Supprimer">
+                              <IconButton
+                                size="small"
+                                color="error"
+                                onClick={() => setConfirmDelete(String(article.id))}
+                              >
+                                <Delete fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          )}
                         </Stack>
                       </TableCell>
                     </TableRow>
@@ -645,9 +718,9 @@ export default function ArticlesPage() {
 
         <TablePagination
           component="div"
-          count={filtered.length}
+          count={total}
           page={page}
-          onPageChange={(_, p) => setPage(p)}
+          onPageChange={(_, p) => setFilters({ page: p + 1 })}
           rowsPerPage={PAGE_SIZE}
           rowsPerPageOptions={[PAGE_SIZE]}
           labelDisplayedRows={({ from, to, count }) => `${from}–${to} sur ${count}`}
@@ -0,0 +1,315 @@
+import { useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import {
+  Box,
+  Card,
+  CardContent,
+  Stack,
+  Typography,
+  Button,
+  IconButton,
+  Tooltip,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  LinearProgress,
+  Snackbar,
+  Alert,
+} from '@mui/material';
+import { ChevronLeft, ChevronRight, Today } from '@mui/icons-material';
+import { alpha } from '@mui/material/styles';
+import CalendarEntry from '../components/calendar/CalendarEntry';
+import { getArticles, getCategories, patchArticleStatus } from '../services/api';
+import { beginArticleUpdate, rollbackArticles, settleArticleUpdate } from '../services/articleCache';
+import {
+  WEEKDAY_LABELS,
+  calendarDays,
+  calendarRange,
+  dayKey,
+  groupByDay,
+  moveToDay,
+  parseDayKey,
+  periodLabel,
+  shiftPeriod,
+  type CalendarView,
+} from '../services/calendar';
+import { usePermissions } from '../hooks/usePermissions';
+import { useNetworkScope } from '../hooks/useNetworkScope';
+import type { Article, Category } from '../types';
+
+/** Articles listed in a month cell before "+N" */
+const MONTH_CELL_ENTRIES = 3;
+
+export default function CalendarPage() {
+  const navigate = useNavigate();
+  const qc       = useQueryClient();
+  const { can }  = usePermissions();
+  const { networks, networkIds } = useNetworkScope();
+  const canReschedule = can('article:publish');
+
+  // ── Period and network (query string) ──────────────────────────────────
+  const [searchParams, setSearchParams] = useSearchParams();
+  const view: CalendarView = searchParams.get('view') === 'week' ? 'week' : 'month';
+  const date      = parseDayKey(searchParams.get('date')) ?? new Date();
+  const networkId = Number(searchParams.get('networkId')) || undefined;
+  const todayKey  = dayKey(new Date());
+
+  const update = (changes: { view?: CalendarView; date?: Date; networkId?: number | null }) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (changes.view)      next.set('view', changes.view);
+      if (changes.date)      next.set('date', dayKey(changes.date));
+      if (changes.networkId !== undefined) {
+        if (changes.networkId) next.set('networkId', String(changes.networkId));
+        else                   next.delete('networkId');
+      }
+      return next;
+    });
+  };
+
+  // ── Data queries ───────────────────────────────────────────────────────
+  const days  = calendarDays(view, date);
+  const range = calendarRange(view, date);
+  const queryParams = {
+    publishedFrom: range.from,
+    publishedTo:   range.to,
+    networkId,
+    networkIds,
+    page:  1,
+    limit: 500,
+  };
+
+  const { data: articles = [], isFetching, error } = useQuery({
+    queryKey: ['articles', 'calendar', queryParams],
+    queryFn:  () => getArticles(queryParams),
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ['categories'],
+    queryFn:  getCategories,
+  });
+
+  const byDay = useMemo(() => groupByDay(articles), [articles]);
+  const categoryOf = useMemo(() => {
+    const map = new Map(categories.map(c => [String(c.id), c]));
+    return (article: Article): Category | null => {
+      const id = article.categoryIds?.[0] ?? article.categoryId;
+      return id != null ? map.get(String(id)) ?? null : null;
+    };
+  }, [categories]);
+
+  // ── Rescheduling (drag and drop) ───────────────────────────────────────
+  const [snack, setSnack] = useState<{ msg: string; sev: 'success' | 'error' } | null>(null);
+  const [dragged, setDragged] = useState<Article | null>(null);
+  const [dropKey, setDropKey] = useState<string | null>(null);
+
+  // Moved in the cache right away, back to its day if the API refuses it
+  const rescheduleMut = useMutation({
+    mutationFn: ({ article, publishAt }: { article: Article; publishAt: string }) =>
+      patchArticleStatus(article.id, 'scheduled', { publishAt }),
+    onMutate: ({ article, publishAt }) => beginArticleUpdate(qc, article.id, { publishAt }),
+    onSuccess: article => {
+      settleArticleUpdate(qc, article, ['publishAt']);
+      setSnack({ msg: 'Publication reprogrammée', sev: 'success' });
+    },
+    onError: (e: Error, _vars, snapshot) => {
+      if (snapshot) rollbackArticles(qc, snapshot);
+      setSnack({ msg: `Programmation inchangée : ${e.message}`, sev: 'error' });
+    },
+  });
+
+  // Only future days accept a scheduled article
+  const canDropOn = (day: Date) => !!dragged && dayKey(day) >= todayKey;
+
+  const handleDrop = (day: Date) => {
+    const article = dragged;
+    setDragged(null);
+    setDropKey(null);
+    if (!article?.publishAt || dayKey(new Date(article.publishAt)) === dayKey(day)) return;
+    rescheduleMut.mutate({ article, publishAt: moveToDay(article.publishAt, day) });
+  };
+
+  // ── Day cell ───────────────────────────────────────────────────────────
+  const renderDay = (day: Date) => {
+    const key      = dayKey(day);
+    const entries  = byDay.get(key) ?? [];
+    const outside  = view === 'month' && day.getMonth() !== date.getMonth();
+    const visible  = view === 'month' ? entries.slice(0, MONTH_CELL_ENTRIES) : entries;
+    const hidden   = entries.length - visible.length;
+    const dropping = dropKey === key;
+
+    return (
+      <Box
+        key={key}
+        data-testid={`calendar-day-${key}`}
+        onDragOver={e => {
+          if (!canDropOn(day)) return;
+          e.preventDefault();
+          e.dataTransfer.dropEffect = 'move';
+          if (dropKey !== key) setDropKey(key);
+        }}
+        onDragLeave={() => setDropKey(k => (k === key ? null : k))}
+        onDrop={e => {
+          e.preventDefault();
+          handleDrop(day);
+        }}
+        sx={theme => ({
+          minHeight: view === 'month' ? 112 : 360,
+          p: 0.75,
+          borderRight: `1px solid ${theme.palette.divider}`,
+          borderBottom: `1px solid ${theme.palette.divider}`,
+          bgcolor: dropping
+            ? alpha(theme.palette.primary.main, 0.16)
+            : outside ? alpha(theme.palette.text.primary, 0.03) : 'transparent',
+          outline: dropping ? `2px dashed ${theme.palette.primary.main}` : 'none',
+          outlineOffset: -2,
+          minWidth: 0,
+        })}
+      >
+        <Typography
+          variant="caption"
+          fontWeight={key === todayKey ? 800 : 500}
+          color={key === todayKey ? 'primary.main' : outside ? 'text.disabled' : 'text.secondary'}
+          display="block"
+          mb={0.5}
+        >
+          {view === 'week'
+            ? day.toLocaleDateString('fr-FR', { weekday: 'short', day: 'numeric', month: 'short' })
+            : day.getDate()}
+        </Typography>
+        <Stack spacing={0.5}>
+          {visible.map(article => (
+            <CalendarEntry
+              key={article.id}
+              article={article}
+              category={categoryOf(article)}
+              draggable={canReschedule && article.status === 'scheduled'}
+              onOpen={() => navigate(`/articles/${article.id}/edit`)}
+              onDragStart={() => setDragged(article)}
+              onDragEnd={() => { setDragged(null); setDropKey(null); }}
+            />
+          ))}
+          {hidden > 0 && (
+            <Button
+              size="small"
+              sx={{ justifyContent: 'flex-start', py: 0, minHeight: 0, fontSize: 12 }}
+              onClick={() => update({ view: 'week', date: day })}
+            >
+              +{hidden} autre{hidden > 1 ? 's' : ''}
+            </Button>
+          )}
+        </Stack>
+      </Box>
+    );
+  };
+
+  return (
+    <Box>
+      {/* ── Toolbar ───────────────────────────────────────────────────── */}
+      <Card sx={{ mb: 2 }}>
+        <CardContent sx={{ pb: '12px !important' }}>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={1.5} alignItems={{ md: 'center' }}>
+            <Stack direction="row" spacing={0.5} alignItems="center">
+              <Tooltip title={view === 'week' ? 'Semaine précédente' : 'Mois précédent'}>
+                <IconButton onClick={() => update({ date: shiftPeriod(view, date, -1) })} aria-label="Période précédente">
+                  <ChevronLeft />
+                </IconButton>
+              </Tooltip>
+              <Button size="small" startIcon={<Today />} onClick={() => update({ date: new Date() })}>
+                Aujourd'hui
+              </Button>
+              <Tooltip title={view === 'week' ? 'Semaine suivante' : 'Mois suivant'}>
+                <IconButton onClick={() => update({ date: shiftPeriod(view, date, 1) })} aria-label="Période suivante">
+                  <ChevronRight />
+                </IconButton>
+              </Tooltip>
+            </Stack>
+            <Typography variant="h6" fontWeight={700} sx={{ flexGrow: 1, textTransform: 'capitalize' }}>
+              {periodLabel(view, date)}
+            </Typography>
+            <FormControl size="small" sx={{ minWidth: 200 }}>
+              <InputLabel id="calendar-network-label">Réseau</InputLabel>
+              <Select
+                labelId="calendar-network-label"
+                label="Réseau"
+                value={networkId ?? ''}
+                onChange={e => update({ networkId: Number(e.target.value) || null })}
+              >
+                <MenuItem value="">Tous les réseaux</MenuItem>
+                {networks.map(n => (
+                  <MenuItem key={n.id} value={n.id}>{n.name}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={view}
+              onChange={(_e, value: CalendarView | null) => value && update({ view: value })}
+              aria-label="Affichage"
+            >
+              <ToggleButton value="month">Mois</ToggleButton>
+              <ToggleButton value="week">Semaine</ToggleButton>
+            </ToggleButtonGroup>
+          </Stack>
+        </CardContent>
+      </Card>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{(error as Error).message}</Alert>}
+
+      {/* ── Grid ──────────────────────────────────────────────────────── */}
+      <Card>
+        {isFetching ? <LinearProgress sx={{ height: 2 }} /> : <Box sx={{ height: 2 }} />}
+        <Box
+          sx={theme => ({
+            display: 'grid',
+            gridTemplateColumns: 'repeat(7, minmax(0, 1fr))',
+            borderLeft: `1px solid ${theme.palette.divider}`,
+            borderTop: `1px solid ${theme.palette.divider}`,
+          })}
+        >
+          {view === 'month' && WEEKDAY_LABELS.map(label => (
+            <Typography
+              key={label}
+              variant="caption"
+              fontWeight={700}
+              color="text.secondary"
+              sx={theme => ({
+                px: 0.75,
+                py: 0.5,
+                borderRight: `1px solid ${theme.palette.divider}`,
+                borderBottom: `1px solid ${theme.palette.divider}`,
+              })}
+            >
+              {label}
+            </Typography>
+          ))}
+          {days.map(renderDay)}
+        </Box>
+      </Card>
+
+      {canReschedule && (
+        <Typography variant="caption" color="text.secondary" display="block" mt={1}>
+          Glissez un article programmé sur un autre jour pour le reprogrammer à la même heure.
+        </Typography>
+      )}
+
+      {/* ── Snackbar ───────────────────────────────────────────────────── */}
+      <Snackbar
+        open={!!snack}
+        autoHideDuration={3000}
+        onClose={() => setSnack(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert severity={snack?.sev} onClose={() => setSnack(null)} variant="filled">
+          {snack?.msg}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+}
@@ -26,6 +26,7 @@ import {
 import { Add, Edit, Delete, Check, Close, Category as CategoryIcon } from '@mui/icons-material';
 import { getCategories, createCategory, updateCategory, deleteCategory, getArticles } from '../services/api';
 import ConfirmDialog from '../components/common/ConfirmDialog';
+import { applyFieldErrors, type ApiError } from '../services/errors';
 import type { Category, CategoryFormData, Article } from '../types';
 
 // ── Validation schema ────────────────────────────────────────────────────────
@@ -36,6 +37,11 @@ const schema = z.object({
 });
 type FormValues = z.infer<typeof schema>;
 
+const FORM_FIELDS = schema.keyof().options;
+
+/** Category slugs are derived from the name: a duplicate slug is a duplicate name */
+const FIELD_ALIASES = { slug: 'name' } as const;
+
 // ── Preset colors ────────────────────────────────────────────────────────────
 const PRESET_COLORS = [
   '#2979FF', '#7B2FBE', '#4CAF50', '#FF9800', '#F44336',
@@ -177,6 +183,7 @@ export default function CategoriesPage() {
     handleSubmit,
     control,
     reset,
+    setError,
     formState: { errors },
   } = useForm<FormValues>({
     resolver: zodResolver(schema),
@@ -214,7 +221,9 @@ export default function CategoriesPage() {
       setSnack({ msg: 'Catégorie créée', sev: 'success' });
       closeForm();
     },
-    onError: (e: Error) => setSnack({ msg: e.message, sev: 'error' }),
+    onError: (e: Error) => {
+      if (!applyFieldErrors(e, setError, FORM_FIELDS, FIELD_ALIASES)) setSnack({ msg: e.message, sev: 'error' });
+    },
   });
 
   const updateMut = useMutation({
@@ -225,7 +234,9 @@ export default function CategoriesPage() {
       setSnack({ msg: 'Catégorie modifiée', sev: 'success' });
       closeForm();
     },
-    onError: (e: Error) => setSnack({ msg: e.message, sev: 'error' }),
+    onError: (e: Error) => {
+      if (!applyFieldErrors(e, setError, FORM_FIELDS, FIELD_ALIASES)) setSnack({ msg: e.message, sev: 'error' });
+    },
   });
 
   const deleteMut = useMutation({
@@ -235,7 +246,7 @@ export default function CategoriesPage() {
       setSnack({ msg: 'Catégorie supprimée', sev: 'success' });
       setConfirmDelete(null);
     },
-    onError: (e: Error & { status?: number }) => {
+    onError: (e: ApiError) => {
       setConfirmDelete(null);
       if (e.status === 409) {
         setSnack({ msg: 'Impossible de supprimer: catégorie utilisée par des articles', sev: 'warning' });
@@ -27,6 +27,10 @@ import {
   Notifications as NotifIcon,
   Wifi,
   Category as CategoryIcon,
+  RateReview,
+  AssignmentReturn,
+  ThumbUp,
+  AssignmentInd,
 } from '@mui/icons-material';
 import {
   PieChart,
@@ -36,7 +40,10 @@ import {
   Legend,
   ResponsiveContainer,
 } from 'recharts';
-import { getArticles, getCategories, getNetworks, getNotifications } from '../services/api';
+import { getArticles, getCategories, getNotifications } from '../services/api';
+import { useNetworkScope } from '../hooks/useNetworkScope';
+import { usePermissions } from '../hooks/usePermissions';
+import RecentUpdateBadge from '../components/articles/RecentUpdateBadge';
 import type { Article, Category, Network, Notification } from '../types';
 
 // ── Brand palette for pie slices ────────────────────────────────────────────
@@ -101,27 +108,38 @@ function getArticleCategoryIds(article: Article): Array<number | string> {
 // ── Main dashboard ───────────────────────────────────────────────────────────
 export default function DashboardPage() {
   const navigate = useNavigate();
+  const { networks, networkIds, restricted, inScope } = useNetworkScope();
+  const { can, user } = usePermissions();
 
-  const { data: articles = [], isLoading: loadingArticles } = useQuery({
-    queryKey: ['articles', 'all'],
-    queryFn: () => getArticles({ limit: 100, page: 1 }),
+  const { data: allArticles = [], isLoading: loadingArticles } = useQuery({
+    queryKey: ['articles', 'all', networkIds],
+    queryFn: () => getArticles({ limit: 100, page: 1, networkIds }),
   });
 
+  // Stats only cover the networks the user is assigned to
+  const articles = useMemo(() => allArticles.filter(inScope), [allArticles, inScope]);
+
   const { data: categories = [], isLoading: loadingCategories } = useQuery({
     queryKey: ['categories'],
     queryFn: getCategories,
   });
 
-  const { data: networks = [] } = useQuery({
-    queryKey: ['networks'],
-    queryFn: getNetworks,
-  });
-
-  const { data: notifications = [], isLoading: loadingNotifs } = useQuery({
+  const { data: allNotifications = [], isLoading: loadingNotifs } = useQuery({
     queryKey: ['notifications'],
     queryFn: getNotifications,
   });
 
+  // Restricted users only see notifications about articles of their networks
+  const notifications = useMemo(() => {
+    if (!restricted) return allNotifications;
+    const visibleIds = new Set(articles.map((a: Article) => String(a.id)));
+    return allNotifications.filter((n: Notification) =>
+      n.article
+        ? inScope(n.article)
+        : n.articleId != null && visibleIds.has(String(n.articleId))
+    );
+  }, [allNotifications, articles, restricted, inScope]);
+
   // ── Computed stats ──────────────────────────────────────────────────────
   const stats = useMemo(() => {
     const total     = articles.length;
@@ -130,6 +148,14 @@ export default function DashboardPage() {
     const archived  = articles.filter((a: Article) => a.status === 'archived').length;
     const featured  = articles.filter((a: Article) => a.featured).length;
 
+    // Review workflow
+    const inReview         = articles.filter((a: Article) => a.status === 'in_review').length;
+    const changesRequested = articles.filter((a: Article) => a.status === 'changes_requested').length;
+    const approved         = articles.filter((a: Article) => a.status === 'approved').length;
+    const toReview         = articles.filter((a: Article) =>
+      a.status === 'in_review' && a.authorId !== user?.id && (a.reviewerId == null || a.reviewerId === user?.id),
+    ).length;
+
     // Articles by network
     const networkById = new Map<string, Network>(
       networks.map((n: Network) => [String(n.id), n])
@@ -170,8 +196,10 @@ export default function DashboardPage() {
       .filter(d => d.value > 0)
       .sort((a, b) => b.value - a.value);
 
-    return { total, published, draft, archived, featured, byNetwork, pieData };
-  }, [articles, categories, networks]);
+    return {
+      total, published, draft, archived, featured, inReview, changesRequested, approved, toReview, byNetwork, pieData,
+    };
+  }, [articles, categories, networks, user]);
 
   // ── 5 derniers articles publiés ──────────────────────────────────────────
   const recentPublished = useMemo(() =>
@@ -271,6 +299,52 @@ export default function DashboardPage() {
         </Grid>
       </Grid>
 
+      {/* ── Review workflow ─────────────────────────────────────────────── */}
+      <Grid container spacing={2} mb={3}>
+        <Grid item xs={6} md={3}>
+          <StatCard
+            label="En relecture"
+            value={stats.inReview}
+            icon={<RateReview />}
+            color="#7C4DFF"
+            onClick={() => navigate('/articles?status=in_review')}
+            loading={loading}
+          />
+        </Grid>
+        <Grid item xs={6} md={3}>
+          <StatCard
+            label="À corriger"
+            value={stats.changesRequested}
+            icon={<AssignmentReturn />}
+            color="#E53935"
+            onClick={() => navigate('/articles?status=changes_requested')}
+            loading={loading}
+          />
+        </Grid>
+        <Grid item xs={6} md={3}>
+          <StatCard
+            label="Approuvés, à publier"
+            value={stats.approved}
+            icon={<ThumbUp />}
+            color="#00BFA5"
+            onClick={() => navigate('/articles?status=approved')}
+            loading={loading}
+          />
+        </Grid>
+        {can('article:review') && (
+          <Grid item xs={6} md={3}>
+            <StatCard
+              label="À relire par moi"
+              value={stats.toReview}
+              icon={<AssignmentInd />}
+              color="#5040D8"
+              onClick={() => navigate('/articles?status=in_review')}
+              loading={loading}
+            />
+          </Grid>
+        )}
+      </Grid>
+
       <Grid container spacing={3}>
         {/* ── Pie chart: répartition par catégorie ──────────────────────── */}
         <Grid item xs={12} md={5}>
@@ -415,6 +489,7 @@ export default function DashboardPage() {
                                 ? new Date(a.publishedAt).toLocaleDateString('fr-FR')
                                 : '—'}
                             </Typography>
+                            <RecentUpdateBadge articleId={a.id} />
                           </Stack>
                         }
                       />
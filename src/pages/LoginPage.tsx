@@ -0,0 +1,227 @@
+import { useState } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import type { Location } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  Box,
+  Card,
+  CardContent,
+  TextField,
+  Button,
+  Alert,
+  Stack,
+  Typography,
+  CircularProgress,
+  InputAdornment,
+  IconButton,
+  Divider,
+  Chip,
+} from '@mui/material';
+import { Login, Visibility, VisibilityOff, Science } from '@mui/icons-material';
+import { login } from '../services/api';
+import { consumeSessionExpired } from '../services/session';
+import { isApiError } from '../services/errors';
+import {
+  DEMO_ACCOUNTS,
+  DEMO_MODE_FORCED,
+  DEMO_PASSWORD,
+  isDemoMode,
+  setDemoMode,
+} from '../services/demoMode';
+import { ROLE_LABELS } from '../services/permissions';
+import { useSession } from '../hooks/useSession';
+import BrandLogo from '../components/branding/BrandLogo';
+import { BRAND } from '../theme';
+import type { LoginCredentials } from '../types';
+
+// ── Validation schema ────────────────────────────────────────────────────────
+const schema = z.object({
+  email:    z.string().min(1, 'Email requis').email('Email invalide'),
+  password: z.string().min(1, 'Mot de passe requis'),
+});
+type FormValues = z.infer<typeof schema>;
+
+// ── Main page ────────────────────────────────────────────────────────────────
+export default function LoginPage() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const qc       = useQueryClient();
+  const session  = useSession();
+
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}` : '/';
+
+  const [expired]      = useState(consumeSessionExpired);
+  const [showPassword, setShowPassword] = useState(false);
+  const demo = isDemoMode();
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    formState: { errors },
+  } = useForm<FormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: { email: '', password: '' },
+  });
+
+  const loginMut = useMutation({
+    mutationFn: (credentials: LoginCredentials) => login(credentials),
+    onSuccess: () => {
+      // Never show data cached for a previous user
+      qc.clear();
+      navigate(redirectTo, { replace: true });
+    },
+  });
+
+  if (session && !loginMut.isPending) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const onSubmit = (values: FormValues) => loginMut.mutate(values);
+
+  const fillDemoAccount = (email: string) => {
+    setValue('email', email, { shouldValidate: true });
+    setValue('password', DEMO_PASSWORD, { shouldValidate: true });
+  };
+
+  return (
+    <Box
+      sx={{
+        minHeight: '100vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        bgcolor: 'background.default',
+        p: 2,
+        position: 'relative',
+      }}
+    >
+      {/* Radial glow behind the card */}
+      <Box
+        sx={{
+          position: 'absolute',
+          width: 480,
+          height: 480,
+          borderRadius: '50%',
+          background: `radial-gradient(circle, ${BRAND.blue}1A 0%, transparent 70%)`,
+          pointerEvents: 'none',
+        }}
+      />
+
+      <Card sx={{ width: '100%', maxWidth: 400, position: 'relative' }}>
+        <CardContent sx={{ p: 4 }}>
+          <Stack alignItems="center" mb={3}>
+            <BrandLogo variant="full" logoHeight={48} showTagline />
+          </Stack>
+
+          <Typography variant="h6" fontWeight={700} mb={0.5}>
+            Connexion
+          </Typography>
+          <Typography variant="body2" color="text.secondary" mb={2.5}>
+            Identifiez-vous pour accéder au back-office.
+          </Typography>
+
+          {expired && !loginMut.isError && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              Votre session a expiré, veuillez vous reconnecter.
+            </Alert>
+          )}
+          {loginMut.isError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {isApiError(loginMut.error) && loginMut.error.status === 401
+                ? 'Email ou mot de passe incorrect'
+                : loginMut.error.message}
+            </Alert>
+          )}
+
+          <Stack component="form" spacing={2} onSubmit={handleSubmit(onSubmit)} noValidate>
+            <TextField
+              label="Email"
+              type="email"
+              autoComplete="username"
+              autoFocus
+              fullWidth
+              {...register('email')}
+              error={!!errors.email}
+              helperText={errors.email?.message}
+            />
+            <TextField
+              label="Mot de passe"
+              type={showPassword ? 'text' : 'password'}
+              autoComplete="current-password"
+              fullWidth
+              {...register('password')}
+              error={!!errors.password}
+              helperText={errors.password?.message}
+              InputProps={{
+                endAdornment: (
+                  <InputAdornment position="end">
+                    <IconButton
+                      size="small"
+                      aria-label={showPassword ? 'Masquer le mot de passe' : 'Afficher le mot de passe'}
+                      onClick={() => setShowPassword(v => !v)}
+                      edge="end"
+                    >
+                      {showPassword ? <VisibilityOff fontSize="small" /> : <Visibility fontSize="small" />}
+                    </IconButton>
+                  </InputAdornment>
+                ),
+              }}
+            />
+            <Button
+              type="submit"
+              variant="contained"
+              size="large"
+              disabled={loginMut.isPending}
+              startIcon={loginMut.isPending ? <CircularProgress size={18} color="inherit" /> : <Login />}
+            >
+              Se connecter
+            </Button>
+          </Stack>
+
+          {/* ── Demo mode ─────────────────────────────────────────────── */}
+          <Divider sx={{ my: 2.5 }} />
+          {demo ? (
+            <Box>
+              <Alert severity="info" icon={<Science fontSize="small" />} sx={{ mb: 1.5 }}>
+                Mode démo : données fictives, aucune API requise.
+                Mot de passe : <strong>{DEMO_PASSWORD}</strong>
+              </Alert>
+              <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                {DEMO_ACCOUNTS.map(account => (
+                  <Chip
+                    key={account.email}
+                    label={ROLE_LABELS[account.role]}
+                    size="small"
+                    variant="outlined"
+                    onClick={() => fillDemoAccount(account.email)}
+                  />
+                ))}
+              </Stack>
+              {!DEMO_MODE_FORCED && (
+                <Button size="small" sx={{ mt: 1.5 }} onClick={() => setDemoMode(false)}>
+                  Quitter le mode démo
+                </Button>
+              )}
+            </Box>
+          ) : (
+            <Button
+              fullWidth
+              size="small"
+              color="inherit"
+              startIcon={<Science fontSize="small" />}
+              onClick={() => setDemoMode(true)}
+              sx={{ color: 'text.secondary' }}
+            >
+              Essayer le mode démo (sans API)
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </Box>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Box,
+  Card,
+  CardContent,
+  Button,
+  Typography,
+  Snackbar,
+  Alert,
+} from '@mui/material';
+import { Delete } from '@mui/icons-material';
+import { deleteMediaAsset } from '../services/api';
+import { canEditAsset } from '../services/media';
+import { usePermissions } from '../hooks/usePermissions';
+import BrandGradientText from '../components/branding/BrandGradientText';
+import ConfirmDialog from '../components/common/ConfirmDialog';
+import MediaBrowser from '../components/media/MediaBrowser';
+import MediaDetailsForm from '../components/media/MediaDetailsForm';
+import type { MediaAsset } from '../types';
+
+export default function MediaLibraryPage() {
+  const qc = useQueryClient();
+  const { user } = usePermissions();
+
+  const [selected,      setSelected]      = useState<MediaAsset | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [snack, setSnack] = useState<{ msg: string; sev: 'success' | 'error' } | null>(null);
+
+  const editable = !!selected && canEditAsset(user, selected);
+
+  const deleteMut = useMutation({
+    mutationFn: (id: number) => deleteMediaAsset(id),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['media'] });
+      setSnack({ msg: 'Média supprimé', sev: 'success' });
+      setSelected(null);
+      setConfirmDelete(false);
+    },
+    onError: (e: Error) => {
+      setSnack({ msg: e.message, sev: 'error' });
+      setConfirmDelete(false);
+    },
+  });
+
+  return (
+    <Box>
+      <BrandGradientText variant="h5" sx={{ mb: 3 }}>
+        Médiathèque
+      </BrandGradientText>
+
+      <Box sx={{ display: 'grid', gap: 3, gridTemplateColumns: { xs: '1fr', md: '1fr 340px' }, alignItems: 'start' }}>
+        <MediaBrowser selectedId={selected?.id} onSelect={setSelected} />
+
+        <Card component="section" aria-label="Détails du média" sx={{ position: { md: 'sticky' }, top: { md: 88 } }}>
+          <CardContent>
+            {selected ? (
+              <>
+                <MediaDetailsForm
+                  asset={selected}
+                  readOnly={!editable}
+                  submitLabel={editable ? 'Enregistrer' : undefined}
+                  onSubmitted={asset => {
+                    setSelected(asset);
+                    setSnack({ msg: 'Informations enregistrées', sev: 'success' });
+                  }}
+                  onError={msg => setSnack({ msg, sev: 'error' })}
+                />
+                {editable && (
+                  <Button
+                    color="error"
+                    startIcon={<Delete />}
+                    onClick={() => setConfirmDelete(true)}
+                    sx={{ mt: 1 }}
+                  >
+                    Supprimer
+                  </Button>
+                )}
+              </>
+            ) : (
+              <Typography variant="body2" color="text.secondary" textAlign="center" py={4}>
+                Sélectionnez un média pour voir et modifier ses informations.
+              </Typography>
+            )}
+          </CardContent>
+        </Card>
+      </Box>
+
+      <ConfirmDialog
+        open={confirmDelete}
+        title="Supprimer ce média ?"
+        message="Il ne sera plus proposé dans la médiathèque. Les articles qui l'utilisent déjà le conservent."
+        confirmLabel="Supprimer"
+        loading={deleteMut.isPending}
+        onConfirm={() => selected && deleteMut.mutate(selected.id)}
+        onClose={() => setConfirmDelete(false)}
+      />
+
+      <Snackbar
+        open={!!snack}
+        autoHideDuration={4000}
+        onClose={() => setSnack(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert severity={snack?.sev} onClose={() => setSnack(null)} variant="filled">
+          {snack?.msg}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useForm } from 'react-hook-form';
+import { Controller, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import {
@@ -22,11 +22,17 @@ import {
   Collapse,
   Divider,
   Paper,
+  Checkbox,
+  FormControlLabel,
+  FormGroup,
+  FormHelperText,
 } from '@mui/material';
 import { Add, Edit, Delete, Check, Close } from '@mui/icons-material';
 import HubIcon from '@mui/icons-material/Hub';
 import { getNetworks, createNetwork, updateNetwork, deleteNetwork, getArticles } from '../services/api';
 import ConfirmDialog from '../components/common/ConfirmDialog';
+import { applyFieldErrors, type ApiError } from '../services/errors';
+import { RENDITION_LABELS, RENDITION_RATIOS } from '../services/renditions';
 import type { Network, NetworkFormData, Article } from '../types';
 
 // ── Validation schema ────────────────────────────────────────────────────────
@@ -34,9 +40,12 @@ const schema = z.object({
   name:        z.string().min(1, 'Nom requis').max(100),
   slug:        z.string().max(100).optional().or(z.literal('')),
   description: z.string().max(500).optional().or(z.literal('')),
+  renditions:  z.array(z.enum(['16:9', '1:1', '4:5'])),
 });
 type FormValues = z.infer<typeof schema>;
 
+const FORM_FIELDS = schema.keyof().options;
+
 // ── Network card ─────────────────────────────────────────────────────────────
 interface NetworkCardProps {
   network:      Network;
@@ -80,6 +89,13 @@ function NetworkCard({ network, articleCount, onEdit, onDelete }: NetworkCardPro
             {network.description}
           </Typography>
         )}
+        {!!network.renditions?.length && (
+          <Stack direction="row" spacing={0.5} mt={1} aria-label="Formats d'image">
+            {network.renditions.map(r => (
+              <Chip key={r} label={r} size="small" variant="outlined" />
+            ))}
+          </Stack>
+        )}
       </CardContent>
       <Divider />
       <CardActions sx={{ justifyContent: 'flex-end', py: 0.5 }}>
@@ -143,23 +159,25 @@ export default function NetworksPage() {
 
   const {
     register,
+    control,
     handleSubmit,
     reset,
+    setError,
     formState: { errors },
   } = useForm<FormValues>({
     resolver: zodResolver(schema),
-    defaultValues: { name: '', slug: '', description: '' },
+    defaultValues: { name: '', slug: '', description: '', renditions: [] },
   });
 
   const openCreate = () => {
     setEditTarget(null);
-    reset({ name: '', slug: '', description: '' });
+    reset({ name: '', slug: '', description: '', renditions: [] });
     setFormOpen(true);
   };
 
   const openEdit = (net: Network) => {
     setEditTarget(net);
-    reset({ name: net.name, slug: net.slug ?? '', description: net.description ?? '' });
+    reset({ name: net.name, slug: net.slug ?? '', description: net.description ?? '', renditions: net.renditions ?? [] });
     setFormOpen(true);
   };
 
@@ -182,7 +200,9 @@ export default function NetworksPage() {
       setSnack({ msg: 'Réseau créé', sev: 'success' });
       closeForm();
     },
-    onError: (e: Error) => setSnack({ msg: e.message, sev: 'error' }),
+    onError: (e: Error) => {
+      if (!applyFieldErrors(e, setError, FORM_FIELDS)) setSnack({ msg: e.message, sev: 'error' });
+    },
   });
 
   const updateMut = useMutation({
@@ -193,7 +213,9 @@ export default function NetworksPage() {
       setSnack({ msg: 'Réseau modifié', sev: 'success' });
       closeForm();
     },
-    onError: (e: Error) => setSnack({ msg: e.message, sev: 'error' }),
+    onError: (e: Error) => {
+      if (!applyFieldErrors(e, setError, FORM_FIELDS)) setSnack({ msg: e.message, sev: 'error' });
+    },
   });
 
   const deleteMut = useMutation({
@@ -203,7 +225,7 @@ export default function NetworksPage() {
       setSnack({ msg: 'Réseau supprimé', sev: 'success' });
       setConfirmDelete(null);
     },
-    onError: (e: Error & { status?: number }) => {
+    onError: (e: ApiError) => {
       setConfirmDelete(null);
       if (e.status === 409) {
         setSnack({ msg: 'Impossible de supprimer: réseau utilisé par des articles', sev: 'warning' });
@@ -218,6 +240,7 @@ export default function NetworksPage() {
       name:        values.name,
       slug:        values.slug || undefined,
       description: values.description || undefined,
+      renditions:  values.renditions,
     };
     if (editTarget) updateMut.mutate({ id: editTarget.id, data: payload });
     else            createMut.mutate(payload);
@@ -294,6 +317,39 @@ export default function NetworksPage() {
                 helperText={errors.description?.message}
               />
             </Grid>
+            <Grid item xs={12}>
+              <Typography variant="body2" color="text.secondary" id="network-renditions-label">
+                Formats des images de couverture
+              </Typography>
+              <Controller
+                name="renditions"
+                control={control}
+                render={({ field }) => (
+                  <FormGroup row aria-labelledby="network-renditions-label">
+                    {RENDITION_RATIOS.map(ratio => (
+                      <FormControlLabel
+                        key={ratio}
+                        label={RENDITION_LABELS[ratio]}
+                        control={
+                          <Checkbox
+                            size="small"
+                            checked={field.value.includes(ratio)}
+                            onChange={(_, checked) => field.onChange(
+                              checked
+                                ? RENDITION_RATIOS.filter(r => r === ratio || field.value.includes(r))
+                                : field.value.filter(r => r !== ratio),
+                            )}
+                          />
+                        }
+                      />
+                    ))}
+                  </FormGroup>
+                )}
+              />
+              <FormHelperText error={!!errors.renditions}>
+                {errors.renditions?.message ?? 'Prévisualisés dans le recadrage des articles du réseau — tous si aucun n\'est coché'}
+              </FormHelperText>
+            </Grid>
           </Grid>
           <Stack direction="row" spacing={1} mt={2} justifyContent="flex-end">
             <Button size="small" startIcon={<Close />} onClick={closeForm}>
@@ -46,6 +46,10 @@ import {
   HourglassEmpty,
 } from '@mui/icons-material';
 import { getNotifications, getArticles, notifyArticle } from '../services/api';
+import { useNetworkScope } from '../hooks/useNetworkScope';
+import { focalObjectPosition } from '../services/renditions';
+import { htmlToText } from '../services/diff';
+import { escapeHtml, safeUrl, sanitizeEmailHtml } from '../services/sanitize';
 import type { Article, Notification, NotifyPayload } from '../types';
 
 const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -68,7 +72,7 @@ function HtmlPreviewDialog({
       </DialogTitle>
       <DialogContent dividers sx={{ p: 0, height: 480 }}>
         <iframe
-          srcDoc={html}
+          srcDoc={sanitizeEmailHtml(html)}
           style={{ width: '100%', height: '100%', border: 'none' }}
           sandbox="allow-same-origin"
           title="Email preview"
@@ -82,18 +86,23 @@ function HtmlPreviewDialog({
 }
 
 // ── Simple email template preview (front-side) ────────────────────────────────
+// The cover is shown in 16:9 (338px high in 600px), kept on its focal point:
+// e-mail clients do not all support the positioning of exact renditions.
+// Every value is escaped; the content is quoted as text, a line per block.
 function buildPreviewHtml(article: Article, subject: string): string {
+  const imageUrl = article.imageUrl ? safeUrl(article.imageUrl, 'image') : null;
+  const excerpt  = htmlToText(article.content ?? '').slice(0, 300);
   return `<!DOCTYPE html>
 <html>
-<head><meta charset="utf-8"><title>${subject}</title></head>
+<head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>
 <body style="font-family:sans-serif;background:#f4f4f4;margin:0;padding:20px">
   <div style="max-width:600px;margin:0 auto;background:#fff;border-radius:8px;overflow:hidden">
-    ${article.imageUrl ? `<img src="${article.imageUrl}" style="width:100%;height:200px;object-fit:cover" alt="">` : ''}
+    ${imageUrl ? `<img src="${escapeHtml(imageUrl)}" style="width:100%;height:338px;object-fit:cover;object-position:${focalObjectPosition(article.imageCrop)}" alt="">` : ''}
     <div style="padding:24px">
-      <h1 style="color:#2979FF;margin:0 0 8px">${article.title}</h1>
-      ${article.summary ? `<p style="color:#666;margin:0 0 16px">${article.summary}</p>` : ''}
+      <h1 style="color:#2979FF;margin:0 0 8px">${escapeHtml(article.title)}</h1>
+      ${article.summary ? `<p style="color:#666;margin:0 0 16px">${escapeHtml(article.summary)}</p>` : ''}
       <hr style="border:none;border-top:1px solid #eee;margin:16px 0">
-      <p style="color:#333;white-space:pre-wrap">${article.content?.slice(0, 300)}…</p>
+      <p style="color:#333;white-space:pre-wrap">${escapeHtml(excerpt)}…</p>
       <a href="#" style="display:inline-block;margin-top:16px;padding:10px 20px;background:#2979FF;color:#fff;border-radius:4px;text-decoration:none">
         Lire l'article complet
       </a>
@@ -189,18 +198,34 @@ export default function NotificationsPage() {
   const qc = useQueryClient();
   const [searchParams] = useSearchParams();
   const preselectedArticleId = searchParams.get('articleId');
+  const { networkIds, restricted, inScope } = useNetworkScope();
 
   // ── Data ──────────────────────────────────────────────────────────────
-  const { data: notifications = [], isLoading: loadingNotifs } = useQuery({
+  const { data: allNotifications = [], isLoading: loadingNotifs } = useQuery({
     queryKey: ['notifications'],
     queryFn:  getNotifications,
   });
 
-  const { data: articles = [], isLoading: loadingArticles } = useQuery({
-    queryKey: ['articles', 'all'],
-    queryFn:  () => getArticles({ status: 'published', limit: 500 }),
+  const { data: allArticles = [], isLoading: loadingArticles } = useQuery({
+    queryKey: ['articles', 'all', 'published', networkIds],
+    queryFn:  () => getArticles({ status: 'published', limit: 500, networkIds }),
   });
 
+  // Only articles (and their notifications) from the user's networks
+  const articles = useMemo(
+    () => (allArticles as Article[]).filter(inScope),
+    [allArticles, inScope]
+  );
+  const notifications = useMemo(() => {
+    if (!restricted) return allNotifications;
+    const visibleIds = new Set(articles.map(a => String(a.id)));
+    return allNotifications.filter((n: Notification) =>
+      n.article
+        ? inScope(n.article)
+        : n.articleId != null && visibleIds.has(String(n.articleId))
+    );
+  }, [allNotifications, articles, restricted, inScope]);
+
   // ── Form state ────────────────────────────────────────────────────────
   const [selectedArticleId, setSelectedArticleId] = useState<string>(preselectedArticleId ?? '');
   const [recipientsInput,   setRecipientsInput]   = useState('');
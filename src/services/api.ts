@@ -1,18 +1,74 @@
 import axios from 'axios';
+import type { InternalAxiosRequestConfig } from 'axios';
 import type {
   Article,
   ArticleFormData,
+  ArticleNote,
+  ArticlePresence,
   ArticleQueryParams,
+  ArticleRevision,
   ArticleStatus,
+  ArticleView,
+  ArticleViewFormData,
+  AuthSession,
+  AuthUser,
   Category,
   CategoryFormData,
+  CommentThread,
+  CommentThreadFormData,
+  LoginCredentials,
+  MediaAsset,
+  MediaAssetFormData,
+  MediaQueryParams,
   Network,
   NetworkFormData,
   Notification,
   NotifyPayload,
   ImportResult,
   PaginatedResponse,
+  Reviewer,
+  StatusChangeOptions,
 } from '../types';
+import {
+  clearSession,
+  getAccessToken,
+  getRefreshToken,
+  getSession,
+  setSession,
+  updateTokens,
+} from './session';
+import { toApiError, type ApiError } from './errors';
+import { isDemoMode } from './demoMode';
+import {
+  articleNoteSchema,
+  articlePresenceSchema,
+  articleSchema,
+  articleRevisionSchema,
+  articleViewSchema,
+  authSessionSchema,
+  authUserSchema,
+  categorySchema,
+  commentThreadSchema,
+  importResultSchema,
+  listSchema,
+  mediaAssetSchema,
+  networkSchema,
+  notificationSchema,
+  notifyResultSchema,
+  paginatedSchema,
+  parseResponse,
+  reviewerSchema,
+  tokenPairSchema,
+} from './schemas';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Internal: request already replayed after a token refresh */
+    _retried?: boolean;
+    /** Do not try to refresh the session when this request gets a 401 */
+    skipAuthRefresh?: boolean;
+  }
+}
 
 // ── Axios instance ──────────────────────────────────────────────────────────
 const BASE_URL = (import.meta as any).env.VITE_API_URL || 'http://localhost:4000';
@@ -23,33 +79,70 @@ export const api = axios.create({
   timeout: 30_000,
 });
 
-// Response interceptor – normalize error messages
+// Demo mode – requests are served by the in-browser mock backend (lazy-loaded
+// so the mocks never end up in the main bundle)
+if (isDemoMode()) {
+  api.defaults.adapter = async (config) => {
+    const { mockAdapter } = await import('../mocks/adapter');
+    return mockAdapter(config);
+  };
+}
+
+// Request interceptor – attach the bearer token of the current session
+api.interceptors.request.use((config) => {
+  const token = getAccessToken();
+  if (token && !config.headers.Authorization) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+// ── Token refresh (single in-flight request shared by concurrent 401s) ──────
+let refreshPromise: Promise<string> | null = null;
+
+function refreshAccessToken(): Promise<string> {
+  if (!refreshPromise) {
+    const refreshToken = getRefreshToken();
+    refreshPromise = (
+      refreshToken
+        ? api
+            .post('/api/auth/refresh', { refreshToken }, { skipAuthRefresh: true })
+            .then(({ data }) => {
+              const tokens = parseResponse(tokenPairSchema, data, 'POST /api/auth/refresh');
+              updateTokens(tokens.accessToken, tokens.refreshToken);
+              return tokens.accessToken;
+            })
+        : Promise.reject(new Error('Aucun jeton de rafraîchissement'))
+    ).finally(() => { refreshPromise = null; });
+  }
+  return refreshPromise;
+}
+
+// Response interceptor – refresh on 401, then normalize into ApiError
 api.interceptors.response.use(
   (res) => res,
-  (error) => {
-    const msg =
-      error?.response?.data?.message ||
-      error?.message ||
-      'Une erreur est survenue';
-    // Preserve status code for specific handling (e.g. 409)
-    const err = new Error(msg) as Error & { status?: number };
-    err.status = error?.response?.status;
-    return Promise.reject(err);
-  }
-);
+  async (error) => {
+    const original = error?.config as InternalAxiosRequestConfig | undefined;
+    const status   = error?.response?.status;
 
-// ── Helper: safely unwrap array responses ───────────────────────────────────
-function toArray<T>(data: unknown): T[] {
-  if (Array.isArray(data)) return data as T[];
-  if (data && typeof data === 'object') {
-    for (const key of ['data', 'items', 'results', 'articles', 'categories', 'notifications', 'networks']) {
-      const val = (data as Record<string, unknown>)[key];
-      if (Array.isArray(val)) return val as T[];
+    if (status === 401 && original && !original.skipAuthRefresh) {
+      if (!original._retried) {
+        try {
+          const token = await refreshAccessToken();
+          original._retried = true;
+          original.headers.set('Authorization', `Bearer ${token}`);
+          return api(original);
+        } catch {
+          // Fall through: the session cannot be renewed
+        }
+      }
+      // RequireAuth reacts to the cleared session and redirects to /login
+      clearSession({ expired: true });
     }
+
+    return Promise.reject(toApiError(error));
   }
-  console.warn('toArray: unexpected shape, returning []', data);
-  return [];
-}
+);
 
 // ── Helper: build query string from ArticleQueryParams ──────────────────────
 function buildArticleParams(params: ArticleQueryParams): Record<string, string> {
@@ -59,15 +152,58 @@ function buildArticleParams(params: ArticleQueryParams): Record<string, string>
   if (params.search)         q.search  = params.search;
   if (params.status)         q.status  = params.status;
   if (params.networkId != null) q.networkId = String(params.networkId);
+  if (params.networkIds && params.networkIds.length > 0) {
+    q.networkIds = params.networkIds.join(',');
+  }
   if (params.featured)       q.featured = 'true';
   if (params.sortBy)         q.sortBy  = params.sortBy;
   if (params.sortDir)        q.sortDir = params.sortDir;
   if (params.categoryIds && params.categoryIds.length > 0) {
     q.categoryIds = params.categoryIds.join(',');
   }
+  if (params.authorId != null) q.authorId = String(params.authorId);
+  if (params.updatedFrom)      q.updatedFrom = params.updatedFrom;
+  if (params.publishedFrom)    q.publishedFrom = params.publishedFrom;
+  if (params.publishedTo)      q.publishedTo   = params.publishedTo;
   return q;
 }
 
+// ────────────────────────────────────────────────────────────────────────────
+// AUTH
+// ────────────────────────────────────────────────────────────────────────────
+
+/** POST /api/auth/login – stores the returned session */
+export const login = async (credentials: LoginCredentials): Promise<AuthSession> => {
+  const { data } = await api.post('/api/auth/login', credentials, {
+    skipAuthRefresh: true,
+  });
+  const session = parseResponse(authSessionSchema, data, 'POST /api/auth/login');
+  setSession(session);
+  return session;
+};
+
+/** GET /api/auth/me – current user (role may have changed since login) */
+export const getCurrentUser = async (): Promise<AuthUser> => {
+  const { data } = await api.get('/api/auth/me');
+  const user    = parseResponse(authUserSchema, data, 'GET /api/auth/me');
+  const session = getSession();
+  if (session) setSession({ ...session, user });
+  return user;
+};
+
+/** POST /api/auth/logout – best effort, the local session is always dropped */
+export const logout = async (): Promise<void> => {
+  try {
+    await api.post('/api/auth/logout', { refreshToken: getRefreshToken() }, {
+      skipAuthRefresh: true,
+    });
+  } catch {
+    // Token already revoked or API unreachable: nothing else to do
+  } finally {
+    clearSession();
+  }
+};
+
 // ────────────────────────────────────────────────────────────────────────────
 // ARTICLES
 // ────────────────────────────────────────────────────────────────────────────
@@ -76,7 +212,7 @@ function buildArticleParams(params: ArticleQueryParams): Record<string, string>
 export const getArticles = async (params?: ArticleQueryParams): Promise<Article[]> => {
   const q = params ? buildArticleParams(params) : undefined;
   const { data } = await api.get('/api/articles', { params: q });
-  return toArray<Article>(data);
+  return parseResponse(listSchema(articleSchema, 'articles'), data, 'GET /api/articles');
 };
 
 /** GET /api/articles – paginated variant */
@@ -86,32 +222,47 @@ export const getArticlesPaginated = async (
   const q = buildArticleParams(params);
   const { data } = await api.get('/api/articles', { params: q });
   // Handle both paginated and plain array responses
-  if (data && typeof data === 'object' && !Array.isArray(data) && 'data' in data) {
-    return data as PaginatedResponse<Article>;
-  }
-  const items = toArray<Article>(data);
-  return { data: items, total: items.length, page: params.page ?? 1, limit: params.limit ?? 20 };
+  const schema = paginatedSchema(articleSchema, 'articles', {
+    page:  params.page ?? 1,
+    limit: params.limit ?? 20,
+  });
+  return parseResponse(schema, data, 'GET /api/articles');
 };
 
 /** GET /api/articles/:id */
 export const getArticle = async (id: number | string): Promise<Article> => {
   const { data } = await api.get(`/api/articles/${id}`);
-  return data;
+  return parseResponse(articleSchema, data, 'GET /api/articles/:id');
 };
 
 /** POST /api/articles */
 export const createArticle = async (payload: ArticleFormData): Promise<Article> => {
   const { data } = await api.post('/api/articles', payload);
-  return data;
+  return parseResponse(articleSchema, data, 'POST /api/articles');
 };
 
-/** PUT /api/articles/:id */
+/**
+ * PUT /api/articles/:id – `version` is the `updatedAt` the edit started from,
+ * sent as If-Match: the server answers 409 EDIT_CONFLICT if it is outdated.
+ * `autosave` marks the revision recorded by the server as an automatic save.
+ */
 export const updateArticle = async (
   id: number | string,
-  payload: Partial<ArticleFormData>
+  payload: Partial<ArticleFormData>,
+  version?: string,
+  autosave = false
 ): Promise<Article> => {
-  const { data } = await api.put(`/api/articles/${id}`, payload);
-  return data;
+  const headers = version ? { 'If-Match': `"${version}"` } : undefined;
+  const params  = autosave ? { autosave: true } : undefined;
+  const { data } = await api.put(`/api/articles/${id}`, payload, { headers, params });
+  return parseResponse(articleSchema, data, 'PUT /api/articles/:id');
+};
+
+/** Server version of an article after an edit conflict: from the 409 body, else refetched */
+export const getConflictingArticle = async (id: number | string, error: ApiError): Promise<Article> => {
+  const current = (error.details as { current?: unknown } | undefined)?.current;
+  const parsed  = articleSchema.safeParse(current);
+  return parsed.success ? parsed.data : getArticle(id);
 };
 
 /** DELETE /api/articles/:id */
@@ -119,13 +270,20 @@ export const deleteArticle = async (id: number | string): Promise<void> => {
   await api.delete(`/api/articles/${id}`);
 };
 
-/** PATCH /api/articles/:id/status */
+/**
+ * PATCH /api/articles/:id/status – only the transitions of the editorial
+ * workflow are accepted. `scheduled` needs `options.publishAt`;
+ * `options.unpublishAt` archives the article automatically once published;
+ * `in_review` may assign `options.reviewerId`; `changes_requested` needs
+ * `options.comment`.
+ */
 export const patchArticleStatus = async (
   id: number | string,
-  status: ArticleStatus
+  status: ArticleStatus,
+  options?: StatusChangeOptions
 ): Promise<Article> => {
-  const { data } = await api.patch(`/api/articles/${id}/status`, { status });
-  return data;
+  const { data } = await api.patch(`/api/articles/${id}/status`, { status, ...options });
+  return parseResponse(articleSchema, data, 'PATCH /api/articles/:id/status');
 };
 
 /** POST /api/articles/:id/notify */
@@ -134,7 +292,173 @@ export const notifyArticle = async (
   payload?: NotifyPayload
 ): Promise<{ html?: string; message?: string }> => {
   const { data } = await api.post(`/api/articles/${id}/notify`, payload ?? {});
-  return data;
+  return parseResponse(notifyResultSchema, data || {}, 'POST /api/articles/:id/notify');
+};
+
+/** GET /api/articles?limit=1 – number of articles matching the params */
+export const countArticles = async (params: ArticleQueryParams): Promise<number> => {
+  const page = await getArticlesPaginated({ ...params, page: 1, limit: 1 });
+  return page.total;
+};
+
+// ────────────────────────────────────────────────────────────────────────────
+// REVISIONS
+// ────────────────────────────────────────────────────────────────────────────
+
+/** GET /api/articles/:id/revisions – every saved version, newest first */
+export const getArticleRevisions = async (id: number | string): Promise<ArticleRevision[]> => {
+  const { data } = await api.get(`/api/articles/${id}/revisions`);
+  const revisions = parseResponse(listSchema(articleRevisionSchema, 'revisions'), data, 'GET /api/articles/:id/revisions');
+  return revisions.sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id - a.id);
+};
+
+// ────────────────────────────────────────────────────────────────────────────
+// COMMENTS AND NOTES
+// ────────────────────────────────────────────────────────────────────────────
+// Kept apart from the article: nothing here is part of the article payload.
+
+/** GET /api/articles/:id/comments – threads anchored to the content, oldest first */
+export const getCommentThreads = async (articleId: number | string): Promise<CommentThread[]> => {
+  const { data } = await api.get(`/api/articles/${articleId}/comments`);
+  return parseResponse(listSchema(commentThreadSchema, 'comments'), data, 'GET /api/articles/:id/comments');
+};
+
+/** POST /api/articles/:id/comments – opens a thread on a passage */
+export const createCommentThread = async (
+  articleId: number | string,
+  payload: CommentThreadFormData
+): Promise<CommentThread> => {
+  const { data } = await api.post(`/api/articles/${articleId}/comments`, payload);
+  return parseResponse(commentThreadSchema, data, 'POST /api/articles/:id/comments');
+};
+
+/** POST /api/articles/:id/comments/:threadId/messages */
+export const replyToCommentThread = async (
+  articleId: number | string,
+  threadId: number,
+  body: string
+): Promise<CommentThread> => {
+  const { data } = await api.post(`/api/articles/${articleId}/comments/${threadId}/messages`, { body });
+  return parseResponse(commentThreadSchema, data, 'POST /api/articles/:id/comments/:threadId/messages');
+};
+
+/** PATCH /api/articles/:id/comments/:threadId – resolves or reopens a thread */
+export const setCommentThreadResolved = async (
+  articleId: number | string,
+  threadId: number,
+  resolved: boolean
+): Promise<CommentThread> => {
+  const { data } = await api.patch(`/api/articles/${articleId}/comments/${threadId}`, { resolved });
+  return parseResponse(commentThreadSchema, data, 'PATCH /api/articles/:id/comments/:threadId');
+};
+
+/** GET /api/articles/:id/notes – notes to the desk, oldest first */
+export const getArticleNotes = async (articleId: number | string): Promise<ArticleNote[]> => {
+  const { data } = await api.get(`/api/articles/${articleId}/notes`);
+  return parseResponse(listSchema(articleNoteSchema, 'notes'), data, 'GET /api/articles/:id/notes');
+};
+
+/** POST /api/articles/:id/notes */
+export const addArticleNote = async (articleId: number | string, body: string): Promise<ArticleNote> => {
+  const { data } = await api.post(`/api/articles/${articleId}/notes`, { body });
+  return parseResponse(articleNoteSchema, data, 'POST /api/articles/:id/notes');
+};
+
+// ────────────────────────────────────────────────────────────────────────────
+// PRESENCE
+// ────────────────────────────────────────────────────────────────────────────
+// `sessionId` identifies a browser tab. The lock is soft: saves are never
+// refused because of it, it only tells the next editor someone is at work.
+
+/** GET /api/presence – articles someone has open, within the user's scope */
+export const getPresence = async (): Promise<ArticlePresence[]> => {
+  const { data } = await api.get('/api/presence');
+  return parseResponse(listSchema(articlePresenceSchema, 'presence'), data, 'GET /api/presence');
+};
+
+/** PUT /api/articles/:id/presence – joins the article, then keeps the session alive */
+export const sendPresenceHeartbeat = async (articleId: number | string, sessionId: string): Promise<ArticlePresence> => {
+  const { data } = await api.put(`/api/articles/${articleId}/presence`, { sessionId });
+  return parseResponse(articlePresenceSchema, data, 'PUT /api/articles/:id/presence');
+};
+
+/** DELETE /api/articles/:id/presence – leaves the article, releasing its lock */
+export const leaveArticle = async (articleId: number | string, sessionId: string): Promise<void> => {
+  await api.delete(`/api/articles/${articleId}/presence`, { params: { sessionId } });
+};
+
+/**
+ * POST /api/articles/:id/lock – the server answers 409 ARTICLE_LOCKED while
+ * another session holds the lock, unless `takeOver` is set.
+ */
+export const acquireArticleLock = async (
+  articleId: number | string,
+  sessionId: string,
+  takeOver = false
+): Promise<ArticlePresence> => {
+  const { data } = await api.post(`/api/articles/${articleId}/lock`, { sessionId, takeOver });
+  return parseResponse(articlePresenceSchema, data, 'POST /api/articles/:id/lock');
+};
+
+/** DELETE /api/articles/:id/lock */
+export const releaseArticleLock = async (articleId: number | string, sessionId: string): Promise<ArticlePresence> => {
+  const { data } = await api.delete(`/api/articles/${articleId}/lock`, { params: { sessionId } });
+  return parseResponse(articlePresenceSchema, data, 'DELETE /api/articles/:id/lock');
+};
+
+/** Presence of an article after a refused lock: from the 409 body, else refetched */
+export const getLockingPresence = async (articleId: number | string, error: ApiError): Promise<ArticlePresence> => {
+  const presence = (error.details as { presence?: unknown } | undefined)?.presence;
+  const parsed   = articlePresenceSchema.safeParse(presence);
+  if (parsed.success) return parsed.data;
+  const all = await getPresence();
+  return all.find(p => p.articleId === Number(articleId)) ?? { articleId: Number(articleId), entries: [] };
+};
+
+// ────────────────────────────────────────────────────────────────────────────
+// REVIEWERS
+// ────────────────────────────────────────────────────────────────────────────
+
+/** GET /api/users/reviewers – users allowed to review articles */
+export const getReviewers = async (): Promise<Reviewer[]> => {
+  const { data } = await api.get('/api/users/reviewers');
+  return parseResponse(listSchema(reviewerSchema, 'reviewers'), data, 'GET /api/users/reviewers');
+};
+
+// ────────────────────────────────────────────────────────────────────────────
+// SAVED VIEWS
+// ────────────────────────────────────────────────────────────────────────────
+
+/** GET /api/views – the user's own views and the views shared by the team */
+export const getViews = async (): Promise<ArticleView[]> => {
+  const { data } = await api.get('/api/views');
+  return parseResponse(listSchema(articleViewSchema, 'views'), data, 'GET /api/views');
+};
+
+/** POST /api/views */
+export const createView = async (payload: ArticleViewFormData): Promise<ArticleView> => {
+  const { data } = await api.post('/api/views', payload);
+  return parseResponse(articleViewSchema, data, 'POST /api/views');
+};
+
+/** PUT /api/views/:id – owner only */
+export const updateView = async (
+  id: number | string,
+  payload: Partial<ArticleViewFormData>
+): Promise<ArticleView> => {
+  const { data } = await api.put(`/api/views/${id}`, payload);
+  return parseResponse(articleViewSchema, data, 'PUT /api/views/:id');
+};
+
+/** DELETE /api/views/:id – owner only */
+export const deleteView = async (id: number | string): Promise<void> => {
+  await api.delete(`/api/views/${id}`);
+};
+
+/** PATCH /api/views/:id/pin – pinning is per user, shared views included */
+export const setViewPinned = async (id: number | string, pinned: boolean): Promise<ArticleView> => {
+  const { data } = await api.patch(`/api/views/${id}/pin`, { pinned });
+  return parseResponse(articleViewSchema, data, 'PATCH /api/views/:id/pin');
 };
 
 // ────────────────────────────────────────────────────────────────────────────
@@ -144,13 +468,13 @@ export const notifyArticle = async (
 /** GET /api/categories */
 export const getCategories = async (): Promise<Category[]> => {
   const { data } = await api.get('/api/categories');
-  return toArray<Category>(data);
+  return parseResponse(listSchema(categorySchema, 'categories'), data, 'GET /api/categories');
 };
 
 /** POST /api/categories */
 export const createCategory = async (payload: CategoryFormData): Promise<Category> => {
   const { data } = await api.post('/api/categories', payload);
-  return data;
+  return parseResponse(categorySchema, data, 'POST /api/categories');
 };
 
 /** PUT /api/categories/:id */
@@ -159,7 +483,7 @@ export const updateCategory = async (
   payload: Partial<CategoryFormData>
 ): Promise<Category> => {
   const { data } = await api.put(`/api/categories/${id}`, payload);
-  return data;
+  return parseResponse(categorySchema, data, 'PUT /api/categories/:id');
 };
 
 /** DELETE /api/categories/:id */
@@ -174,13 +498,13 @@ export const deleteCategory = async (id: number | string): Promise<void> => {
 /** GET /api/networks */
 export const getNetworks = async (): Promise<Network[]> => {
   const { data } = await api.get('/api/networks');
-  return toArray<Network>(data);
+  return parseResponse(listSchema(networkSchema, 'networks'), data, 'GET /api/networks');
 };
 
 /** POST /api/networks */
 export const createNetwork = async (payload: NetworkFormData): Promise<Network> => {
   const { data } = await api.post('/api/networks', payload);
-  return data;
+  return parseResponse(networkSchema, data, 'POST /api/networks');
 };
 
 /** PUT /api/networks/:id */
@@ -189,7 +513,7 @@ export const updateNetwork = async (
   payload: Partial<NetworkFormData>
 ): Promise<Network> => {
   const { data } = await api.put(`/api/networks/${id}`, payload);
-  return data;
+  return parseResponse(networkSchema, data, 'PUT /api/networks/:id');
 };
 
 /** DELETE /api/networks/:id */
@@ -208,7 +532,52 @@ export const importArticles = async (file: File): Promise<ImportResult> => {
   const { data } = await api.post('/api/import/articles', formData, {
     headers: { 'Content-Type': 'multipart/form-data' },
   });
-  return data;
+  return parseResponse(importResultSchema, data, 'POST /api/import/articles');
+};
+
+// ────────────────────────────────────────────────────────────────────────────
+// MEDIA LIBRARY
+// ────────────────────────────────────────────────────────────────────────────
+
+/** GET /api/media – newest first */
+export const getMediaAssets = async (params: MediaQueryParams = {}): Promise<PaginatedResponse<MediaAsset>> => {
+  const q: Record<string, string> = {
+    page:  String(params.page ?? 1),
+    limit: String(params.limit ?? 24),
+  };
+  if (params.search) q.search = params.search;
+  const { data } = await api.get('/api/media', { params: q });
+  const schema = paginatedSchema(mediaAssetSchema, 'media', { page: params.page ?? 1, limit: params.limit ?? 24 });
+  return parseResponse(schema, data, 'GET /api/media');
+};
+
+/** POST /api/media – one file per request, metadata alongside it in the multipart body */
+export const uploadMediaAsset = async (
+  file: File,
+  metadata: Partial<MediaAssetFormData> = {},
+  onProgress?: (ratio: number) => void,
+): Promise<MediaAsset> => {
+  const formData = new FormData();
+  formData.append('file', file);
+  Object.entries(metadata).forEach(([key, value]) => {
+    if (value) formData.append(key, value);
+  });
+  const { data } = await api.post('/api/media', formData, {
+    headers: { 'Content-Type': 'multipart/form-data' },
+    onUploadProgress: e => { if (e.total) onProgress?.(e.loaded / e.total); },
+  });
+  return parseResponse(mediaAssetSchema, data, 'POST /api/media');
+};
+
+/** PUT /api/media/:id – alt text, caption, credit and license */
+export const updateMediaAsset = async (id: number | string, payload: MediaAssetFormData): Promise<MediaAsset> => {
+  const { data } = await api.put(`/api/media/${id}`, payload);
+  return parseResponse(mediaAssetSchema, data, 'PUT /api/media/:id');
+};
+
+/** DELETE /api/media/:id – articles keep the URL of an image already used */
+export const deleteMediaAsset = async (id: number | string): Promise<void> => {
+  await api.delete(`/api/media/${id}`);
 };
 
 // ────────────────────────────────────────────────────────────────────────────
@@ -218,5 +587,5 @@ export const importArticles = async (file: File): Promise<ImportResult> => {
 /** GET /api/notifications */
 export const getNotifications = async (): Promise<Notification[]> => {
   const { data } = await api.get('/api/notifications');
-  return toArray<Notification>(data);
+  return parseResponse(listSchema(notificationSchema, 'notifications'), data, 'GET /api/notifications');
 };
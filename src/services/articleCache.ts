@@ -0,0 +1,96 @@
+import type { Query, QueryClient, QueryKey } from '@tanstack/react-query';
+import type { Article, ArticleQueryParams, PaginatedResponse } from '../types';
+
+// ── Article query cache ─────────────────────────────────────────────────────
+// Articles are cached under several keys:
+//   ['articles', 'list', params]  paginated page of the articles list
+//   ['articles', 'count', params] number of matches (saved views)
+//   ['articles', 'all', ...]      unpaginated lists (dashboard, notifications…)
+//   ['articles', 'calendar', params] articles of the calendar period
+//   ['article', id]               detail (edit form)
+// Small edits patch the cached copies in place instead of refetching all of them.
+
+export type ArticleCacheSnapshot = Array<[QueryKey, unknown]>;
+
+const isArticleQuery = (query: Query) =>
+  query.queryKey[0] === 'articles' || query.queryKey[0] === 'article';
+
+function isPage(data: unknown): data is PaginatedResponse<Article> {
+  return !!data && typeof data === 'object' && Array.isArray((data as PaginatedResponse<Article>).data);
+}
+
+function patchData(data: unknown, id: string, update: (article: Article) => Article): unknown {
+  const patchOne = (article: Article) => (String(article.id) === id ? update(article) : article);
+  if (Array.isArray(data)) return data.map(patchOne);
+  if (isPage(data))        return { ...data, data: data.data.map(patchOne) };
+  if (data && typeof data === 'object' && 'id' in data) return patchOne(data as Article);
+  // Counts and anything else are left untouched
+  return data;
+}
+
+/** Applies `patch` to every cached copy of the article. */
+export function patchCachedArticle(qc: QueryClient, id: number | string, patch: Partial<Article>): void {
+  for (const [key, data] of qc.getQueriesData({ predicate: isArticleQuery })) {
+    if (data !== undefined) qc.setQueryData(key, patchData(data, String(id), a => ({ ...a, ...patch })));
+  }
+}
+
+/**
+ * Optimistic update: stops in-flight fetches (they would overwrite the patch),
+ * then patches the cache. Returns the previous state for `rollbackArticles`.
+ */
+export async function beginArticleUpdate(
+  qc: QueryClient,
+  id: number | string,
+  patch: Partial<Article>,
+): Promise<ArticleCacheSnapshot> {
+  await qc.cancelQueries({ predicate: isArticleQuery });
+  const snapshot = qc.getQueriesData({ predicate: isArticleQuery });
+  patchCachedArticle(qc, id, patch);
+  return snapshot;
+}
+
+export function rollbackArticles(qc: QueryClient, snapshot: ArticleCacheSnapshot): void {
+  for (const [key, data] of snapshot) qc.setQueryData(key, data);
+}
+
+/** Filter or sort parameter of the list affected by each article field */
+const PARAM_OF: Partial<Record<keyof Article, keyof ArticleQueryParams>> = {
+  status:      'status',
+  featured:    'featured',
+  updatedAt:   'updatedFrom',
+  publishedAt: 'publishedFrom',
+  publishAt:   'publishedFrom',
+  networkId:   'networkId',
+  categoryIds: 'categoryIds',
+  authorId:    'authorId',
+  title:       'search',
+  content:     'search',
+};
+
+const isSet = (value: unknown) => value != null && !(Array.isArray(value) && value.length === 0);
+
+/**
+ * Whether the content or the order of a cached list may change with `fields`:
+ * patching the rows in place is not enough for those, they must be refetched.
+ */
+export function listDependsOn(queryKey: QueryKey, fields: (keyof Article)[]): boolean {
+  const [root, kind, arg] = queryKey;
+  if (root !== 'articles') return false;
+  // Unpaginated lists are keyed by their status filter, e.g. ['articles', 'all', 'published', …]
+  if (kind === 'all') return fields.includes('status') && typeof arg === 'string';
+  const params = (arg ?? {}) as ArticleQueryParams;
+  return fields.some(field => {
+    const param = PARAM_OF[field];
+    return (param !== undefined && isSet(params[param])) || params.sortBy === field;
+  });
+}
+
+/**
+ * Server confirmation: stores the returned article and refetches only the
+ * lists whose membership or order depends on the changed fields.
+ */
+export function settleArticleUpdate(qc: QueryClient, article: Article, fields: (keyof Article)[]): void {
+  patchCachedArticle(qc, article.id, article);
+  qc.invalidateQueries({ predicate: query => listDependsOn(query.queryKey, [...fields, 'updatedAt']) });
+}
@@ -0,0 +1,87 @@
+import type { Article } from '../types';
+
+// ── Concurrent edits of an article ──────────────────────────────────────────
+// A save is refused (409) when the article changed since the form was loaded.
+// Three versions are then compared field by field:
+//   base   – the version the form was loaded from
+//   mine   – the form values
+//   theirs – the current server version
+
+export const CONFLICT_FIELDS = ['title', 'excerpt', 'content', 'categoryIds', 'networkId'] as const;
+
+export type ConflictField = typeof CONFLICT_FIELDS[number];
+
+export type ConflictSide = 'mine' | 'theirs';
+
+export interface ConflictValues {
+  title:       string;
+  excerpt:     string;
+  content:     string;
+  categoryIds: number[];
+  networkId:   number | null;
+}
+
+export const CONFLICT_FIELD_LABELS: Record<ConflictField, string> = {
+  title:       'Titre',
+  excerpt:     'Extrait',
+  content:     'Contenu',
+  categoryIds: 'Catégories',
+  networkId:   'Réseau',
+};
+
+export function toConflictValues(article: Article): ConflictValues {
+  return {
+    title:       article.title,
+    excerpt:     article.excerpt ?? '',
+    content:     article.content,
+    categoryIds: article.categoryIds ?? (article.categoryId != null ? [Number(article.categoryId)] : []),
+    networkId:   article.networkId != null ? Number(article.networkId) : null,
+  };
+}
+
+function sameValue(field: ConflictField, a: ConflictValues, b: ConflictValues): boolean {
+  if (field === 'categoryIds') {
+    const sorted = (ids: number[]) => [...ids].sort((x, y) => x - y).join(',');
+    return sorted(a.categoryIds) === sorted(b.categoryIds);
+  }
+  return a[field] === b[field];
+}
+
+export interface FieldDiff {
+  field:    ConflictField;
+  /** Changed on both sides: the user has to choose */
+  conflict: boolean;
+  /** Side kept unless the user picks the other one */
+  initial:  ConflictSide;
+}
+
+/**
+ * Fields whose value differs between our version and the server's.
+ * A field changed on one side only defaults to that side.
+ */
+export function diffVersions(base: ConflictValues | null, mine: ConflictValues, theirs: ConflictValues): FieldDiff[] {
+  return CONFLICT_FIELDS
+    .filter(field => !sameValue(field, mine, theirs))
+    .map(field => {
+      const mineChanged   = !base || !sameValue(field, base, mine);
+      const theirsChanged = !base || !sameValue(field, base, theirs);
+      return {
+        field,
+        conflict: mineChanged && theirsChanged,
+        initial:  mineChanged ? 'mine' : 'theirs',
+      };
+    });
+}
+
+/** Our version with the fields picked from the server version. */
+export function mergeVersions(
+  mine: ConflictValues,
+  theirs: ConflictValues,
+  picks: Partial<Record<ConflictField, ConflictSide>>,
+): ConflictValues {
+  const merged = { ...mine };
+  CONFLICT_FIELDS.forEach(field => {
+    if (picks[field] === 'theirs') (merged as Record<ConflictField, unknown>)[field] = theirs[field];
+  });
+  return merged;
+}
@@ -0,0 +1,145 @@
+import type { ArticleQueryParams, ArticleStatus, SortBy, SortDir } from '../types';
+
+// ── Articles list state ─────────────────────────────────────────────────────
+// Every filter of the articles list lives in the query string so that a view
+// can be shared, bookmarked and restored with back/forward:
+//   /articles?search=budget&status=draft&categoryIds=1,4&networkId=3&featured=true&mine=true&period=month&sort=title&dir=asc&page=2
+
+export type ArticleSortCol = Extract<SortBy, 'title' | 'createdAt' | 'status' | 'networkId'>;
+
+/** Relative modification window, resolved when the list is fetched */
+export type ArticlePeriod = '' | '7d' | 'month';
+
+export const PERIOD_LABELS: Record<Exclude<ArticlePeriod, ''>, string> = {
+  '7d':  '7 derniers jours',
+  month: 'Ce mois-ci',
+};
+
+export interface ArticleListFilters {
+  search:      string;
+  status:      ArticleStatus | '';
+  categoryIds: number[];
+  networkId:   number | null;
+  featured:    boolean;
+  /** Only the current user's articles */
+  mine:        boolean;
+  period:      ArticlePeriod;
+  sort:        ArticleSortCol;
+  dir:         SortDir;
+  /** 1-based */
+  page:        number;
+}
+
+export const DEFAULT_ARTICLE_FILTERS: ArticleListFilters = {
+  search:      '',
+  status:      '',
+  categoryIds: [],
+  networkId:   null,
+  featured:    false,
+  mine:        false,
+  period:      '',
+  sort:        'createdAt',
+  dir:         'desc',
+  page:        1,
+};
+
+/** Statuses in workflow order */
+export const ARTICLE_STATUSES: readonly ArticleStatus[] = [
+  'draft', 'in_review', 'changes_requested', 'approved', 'scheduled', 'published', 'archived',
+];
+const SORT_COLS: readonly ArticleSortCol[] = ['title', 'createdAt', 'status', 'networkId'];
+const PERIODS: readonly ArticlePeriod[] = ['7d', 'month'];
+
+function positiveInt(value: string | null): number | null {
+  const n = Number(value);
+  return value && Number.isInteger(n) && n > 0 ? n : null;
+}
+
+/** Reads the filters from a query string; unknown or invalid values fall back to the defaults. */
+export function parseArticleFilters(params: URLSearchParams): ArticleListFilters {
+  const status = params.get('status') as ArticleStatus;
+  const sort   = params.get('sort') as ArticleSortCol;
+  const dir    = params.get('dir');
+  const period = params.get('period') as ArticlePeriod;
+
+  return {
+    search:      params.get('search')?.trim() ?? '',
+    status:      ARTICLE_STATUSES.includes(status) ? status : '',
+    categoryIds: (params.get('categoryIds') ?? '')
+      .split(',')
+      .map(positiveInt)
+      .filter((id): id is number => id !== null),
+    networkId:   positiveInt(params.get('networkId')),
+    featured:    params.get('featured') === 'true',
+    mine:        params.get('mine') === 'true',
+    period:      PERIODS.includes(period) ? period : '',
+    sort:        SORT_COLS.includes(sort) ? sort : DEFAULT_ARTICLE_FILTERS.sort,
+    dir:         dir === 'asc' || dir === 'desc' ? dir : DEFAULT_ARTICLE_FILTERS.dir,
+    page:        positiveInt(params.get('page')) ?? 1,
+  };
+}
+
+/** Writes the filters as a query string, leaving out default values to keep links short. */
+export function serializeArticleFilters(filters: ArticleListFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.search)                    params.set('search', filters.search);
+  if (filters.status)                    params.set('status', filters.status);
+  if (filters.categoryIds.length > 0)    params.set('categoryIds', filters.categoryIds.join(','));
+  if (filters.networkId != null)         params.set('networkId', String(filters.networkId));
+  if (filters.featured)                  params.set('featured', 'true');
+  if (filters.mine)                      params.set('mine', 'true');
+  if (filters.period)                    params.set('period', filters.period);
+  if (filters.sort !== DEFAULT_ARTICLE_FILTERS.sort) params.set('sort', filters.sort);
+  if (filters.dir  !== DEFAULT_ARTICLE_FILTERS.dir)  params.set('dir', filters.dir);
+  if (filters.page > 1)                  params.set('page', String(filters.page));
+  return params;
+}
+
+/** Query string identifying a saved view: the filters without the page */
+export function toViewQuery(filters: ArticleListFilters): string {
+  return serializeArticleFilters({ ...filters, page: 1 }).toString();
+}
+
+/** Canonical form of a view query string, so that two spellings of the same filters compare equal */
+export function normalizeViewQuery(query: string): string {
+  return toViewQuery(parseArticleFilters(new URLSearchParams(query)));
+}
+
+/** Start of the period, as an ISO date */
+export function periodStart(period: ArticlePeriod, now = new Date()): string | undefined {
+  if (!period) return undefined;
+  const start = period === 'month'
+    ? new Date(now.getFullYear(), now.getMonth(), 1)
+    : new Date(now.getFullYear(), now.getMonth(), now.getDate() - 7);
+  return start.toISOString();
+}
+
+interface QueryScope {
+  /** Network scope of the current user */
+  networkIds?: number[];
+  /** Current user, resolves the `mine` filter */
+  userId?:     number;
+  now?:        Date;
+}
+
+/** Maps the list state onto the API query parameters. */
+export function toArticleQueryParams(
+  filters: ArticleListFilters,
+  limit: number,
+  { networkIds, userId, now }: QueryScope = {},
+): ArticleQueryParams {
+  return {
+    page:        filters.page,
+    limit,
+    search:      filters.search || undefined,
+    status:      filters.status || undefined,
+    categoryIds: filters.categoryIds,
+    networkId:   filters.networkId ?? undefined,
+    networkIds,
+    featured:    filters.featured || undefined,
+    authorId:    filters.mine ? userId : undefined,
+    updatedFrom: periodStart(filters.period, now),
+    sortBy:      filters.sort,
+    sortDir:     filters.dir,
+  };
+}
@@ -0,0 +1,98 @@
+import type { Article } from '../types';
+
+// ── Editorial calendar ──────────────────────────────────────────────────────
+// Articles are placed on the day of their publication, or of their scheduled
+// publication for `scheduled` ones. Days are local days, weeks start on Monday.
+
+export type CalendarView = 'month' | 'week';
+
+export const WEEKDAY_LABELS = ['Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam', 'Dim'];
+
+/** Date the article stands on in the calendar */
+export function calendarDate(article: Pick<Article, 'status' | 'publishAt' | 'publishedAt'>): string | undefined {
+  return article.status === 'scheduled' ? article.publishAt : article.publishedAt;
+}
+
+/** "2026-10-19" in local time */
+export function dayKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function parseDayKey(key: string | null | undefined): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key ?? '');
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+export function startOfWeek(date: Date): Date {
+  return addDays(date, -((date.getDay() + 6) % 7));
+}
+
+/** Days shown by the view: whole weeks covering the month, or the week of `date` */
+export function calendarDays(view: CalendarView, date: Date): Date[] {
+  if (view === 'week') {
+    const monday = startOfWeek(date);
+    return Array.from({ length: 7 }, (_, i) => addDays(monday, i));
+  }
+  const first = new Date(date.getFullYear(), date.getMonth(), 1);
+  const last  = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+  const start = startOfWeek(first);
+  const end   = addDays(startOfWeek(last), 7);
+  const days: Date[] = [];
+  for (let day = start; day < end; day = addDays(day, 1)) days.push(day);
+  return days;
+}
+
+/** ISO bounds of the days shown, `to` excluded */
+export function calendarRange(view: CalendarView, date: Date): { from: string; to: string } {
+  const days = calendarDays(view, date);
+  return { from: days[0].toISOString(), to: addDays(days[days.length - 1], 1).toISOString() };
+}
+
+/** Previous / next month or week */
+export function shiftPeriod(view: CalendarView, date: Date, step: number): Date {
+  return view === 'week'
+    ? addDays(date, 7 * step)
+    : new Date(date.getFullYear(), date.getMonth() + step, 1);
+}
+
+/** "octobre 2026" or "19 – 25 oct. 2026" */
+export function periodLabel(view: CalendarView, date: Date): string {
+  if (view === 'month') return date.toLocaleDateString('fr-FR', { month: 'long', year: 'numeric' });
+  const days  = calendarDays('week', date);
+  const first = days[0];
+  const last  = days[6];
+  const end   = last.toLocaleDateString('fr-FR', { day: 'numeric', month: 'short', year: 'numeric' });
+  const start = first.getMonth() === last.getMonth()
+    ? String(first.getDate())
+    : first.toLocaleDateString('fr-FR', { day: 'numeric', month: 'short' });
+  return `${start} – ${end}`;
+}
+
+/** Articles by day key, in chronological order within a day */
+export function groupByDay<T extends Pick<Article, 'status' | 'publishAt' | 'publishedAt'>>(articles: T[]): Map<string, T[]> {
+  const byDay = new Map<string, T[]>();
+  [...articles]
+    .filter(a => calendarDate(a))
+    .sort((a, b) => calendarDate(a)!.localeCompare(calendarDate(b)!))
+    .forEach(article => {
+      const key = dayKey(new Date(calendarDate(article)!));
+      byDay.set(key, [...(byDay.get(key) ?? []), article]);
+    });
+  return byDay;
+}
+
+/** Same time of day, on another day (rescheduling by drag and drop) */
+export function moveToDay(iso: string, day: Date): string {
+  const time = new Date(iso);
+  return new Date(
+    day.getFullYear(), day.getMonth(), day.getDate(),
+    time.getHours(), time.getMinutes(), time.getSeconds(),
+  ).toISOString();
+}
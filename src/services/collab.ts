@@ -0,0 +1,411 @@
+import { api } from './api';
+import { SequenceDoc } from './crdt';
+import { isDemoMode } from './demoMode';
+import { collabServerMessageSchema } from './schemas';
+import { getAccessToken } from './session';
+import type { TextPosition } from './comments';
+import type {
+  CollabClientMessage,
+  CollabPeer,
+  CollabSelection,
+  CollabServerMessage,
+  RealtimeActor,
+} from '../types';
+
+// ── Co-editing of the article content ───────────────────────────────────────
+// Editors of an article share its content as a sequence CRDT (services/crdt.ts)
+// over the tokens of the HTML: tags, entities and characters. Local edits are
+// diffed into operations sent on `WS /api/articles/:id/collab`; the server
+// relays them to the other editors and keeps the document while someone is on
+// it. Edits made offline stay in the local document: on reconnection the state
+// vectors tell each side which operations the other is missing.
+// Saving does not change: any editor saves the article with PUT.
+
+export type CollabStatus = 'connecting' | 'online' | 'offline';
+
+/** A co-editor, as shown over the content */
+export interface CollabPresence {
+  clientId: string;
+  userName: string;
+  color:    string;
+  /** Selection in the text of the content, null when unknown */
+  position: TextPosition | null;
+}
+
+/** One connection to the co-editing server. Handlers must be called asynchronously. */
+export interface CollabChannel {
+  send:  (message: CollabClientMessage) => void;
+  close: () => void;
+}
+
+export interface CollabChannelHandlers {
+  onOpen:    () => void;
+  onMessage: (message: CollabServerMessage) => void;
+  onClose:   () => void;
+}
+
+export type CollabConnector = (handlers: CollabChannelHandlers) => CollabChannel;
+
+/** Server side of the channel: the WebSocket endpoint, or a local relay */
+export interface CollabRelay {
+  connect: (articleId: number, user: RealtimeActor) => CollabConnector;
+}
+
+// ── HTML tokens ─────────────────────────────────────────────────────────────
+
+// Tags and entities are atomic; any other UTF-16 unit is a token of its own, so
+// that text offsets are the same as in the DOM
+const TOKEN = /<!--[\s\S]*?-->|<(?:[^>"']|"[^"]*"|'[^']*')*>|&(?:#\d+|#x[\da-f]+|[a-z][a-z\d]*);|[\s\S]/gi;
+
+export function tokenizeHtml(html: string): string[] {
+  return html.match(TOKEN) ?? [];
+}
+
+const isText = (token: string) => token[0] !== '<';
+
+export interface TokenChange {
+  index:  number;
+  remove: number;
+  insert: string[];
+}
+
+/** The one passage that differs between two versions, null when they are equal */
+export function diffTokens(before: string[], after: string[]): TokenChange | null {
+  const max = Math.min(before.length, after.length);
+  let start = 0;
+  while (start < max && before[start] === after[start]) start++;
+  if (start === before.length && start === after.length) return null;
+  let end = 0;
+  while (end < max - start && before[before.length - 1 - end] === after[after.length - 1 - end]) end++;
+  return { index: start, remove: before.length - start - end, insert: after.slice(start, after.length - end) };
+}
+
+/**
+ * Replays the change from `base` to `mine` on `theirs`, another version of
+ * `base`. Where both changed the same passage, `mine` wins over it.
+ */
+export function rebaseTokens(base: string[], mine: string[], theirs: string[]): string[] {
+  const ours  = diffTokens(base, mine);
+  const other = diffTokens(base, theirs);
+  if (!ours)  return theirs;
+  if (!other) return mine;
+
+  const oursEnd  = ours.index + ours.remove;
+  const otherEnd = other.index + other.remove;
+  const replace  = (index: number, remove: number, insert: string[]) =>
+    [...theirs.slice(0, index), ...insert, ...theirs.slice(index + remove)];
+
+  if (otherEnd <= ours.index) return replace(ours.index + other.insert.length - other.remove, ours.remove, ours.insert);
+  if (oursEnd <= other.index) return replace(ours.index, ours.remove, ours.insert);
+  const start = Math.min(ours.index, other.index);
+  const kept  = base.length - Math.max(oursEnd, otherEnd);
+  return [...theirs.slice(0, start), ...mine.slice(start, mine.length - kept), ...theirs.slice(theirs.length - kept)];
+}
+
+/** Where `offset` of `before` stands in `after`, the text having changed in one passage */
+export function mapTextOffset(before: string, after: string, offset: number): number {
+  const max = Math.min(before.length, after.length);
+  let prefix = 0;
+  while (prefix < max && before[prefix] === after[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < max - prefix && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++;
+
+  if (offset <= prefix) return offset;
+  if (offset >= before.length - suffix) return offset + after.length - before.length;
+  return Math.min(offset, after.length - suffix);
+}
+
+// ── Selections ──────────────────────────────────────────────────────────────
+// A caret is kept as the element right before it: it then follows the edits
+// made around it, and still has a place once that element is deleted.
+
+function idBeforeText(doc: SequenceDoc, offset: number): string | null {
+  let seen = 0;
+  let last: string | null = null;
+  for (const entry of doc.entries()) {
+    if (entry.deleted) continue;
+    if (seen === offset) return last;
+    last = entry.id;
+    if (isText(entry.value)) seen++;
+  }
+  return last;
+}
+
+/** Text offset right after each element, tombstones included */
+function textOffsets(doc: SequenceDoc): Map<string, number> {
+  const offsets = new Map<string, number>();
+  let seen = 0;
+  for (const entry of doc.entries()) {
+    if (!entry.deleted && isText(entry.value)) seen++;
+    offsets.set(entry.id, seen);
+  }
+  return offsets;
+}
+
+const PEER_COLORS = ['#FF7043', '#26A69A', '#AB47BC', '#FFCA28', '#42A5F5', '#EC407A'];
+
+function peerColor(clientId: string): string {
+  let hash = 0;
+  for (let i = 0; i < clientId.length; i++) hash = (hash * 31 + clientId.charCodeAt(i)) | 0;
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+}
+
+const newClientId = () => Math.random().toString(36).slice(2, 10);
+
+// ── Session ─────────────────────────────────────────────────────────────────
+
+interface CollabSessionOptions {
+  connect:   CollabConnector;
+  /** Content the editor starts from */
+  base:      string;
+  clientId?: string;
+  /** The content was changed by another editor */
+  onChange:  (html: string) => void;
+  onPeers?:  (peers: CollabPresence[]) => void;
+  onStatus?: (status: CollabStatus) => void;
+}
+
+export class CollabSession {
+  readonly clientId: string;
+  private readonly options: CollabSessionOptions;
+  private readonly channel: CollabChannel;
+  private doc:    SequenceDoc | null = null;
+  private epoch:  string | null = null;
+  private online  = false;
+  /**
+   * Last content known to be shared with the server, and the local content
+   * while there is no shared document: both are rebased on the server's
+   * document once it is received.
+   */
+  private base:     string;
+  private unsynced: string | null = null;
+  private peers     = new Map<string, CollabPeer>();
+  private selection: CollabSelection | null = null;
+
+  constructor(options: CollabSessionOptions) {
+    this.options  = options;
+    this.clientId = options.clientId ?? newClientId();
+    this.base     = options.base;
+    options.onStatus?.('connecting');
+    this.channel = options.connect({
+      onOpen:    () => this.hello(),
+      onMessage: message => this.receive(message),
+      onClose:   () => this.disconnected(),
+    });
+  }
+
+  /** Shared content, null until the first sync */
+  get html(): string | null {
+    return this.doc ? this.doc.values().join('') : null;
+  }
+
+  /** Local edit: the new content of the editor */
+  update(html: string): void {
+    if (!this.doc) {
+      this.unsynced = html;
+      return;
+    }
+    const change = diffTokens(this.doc.values(), tokenizeHtml(html));
+    if (!change) return;
+    const ops = [...this.doc.delete(change.index, change.remove), ...this.doc.insert(change.index, change.insert)];
+    if (this.online) this.channel.send({ type: 'ops', ops });
+    this.emitPeers();
+  }
+
+  /** Local selection, in text offsets */
+  select(position: TextPosition | null): void {
+    const doc = this.doc;
+    this.selection = position && doc
+      ? { anchor: idBeforeText(doc, position.start), head: idBeforeText(doc, position.end) }
+      : null;
+    if (this.online) this.channel.send({ type: 'selection', selection: this.selection });
+  }
+
+  close(): void {
+    this.online = false;
+    this.channel.close();
+  }
+
+  private hello() {
+    this.channel.send({
+      type:     'hello',
+      clientId: this.clientId,
+      epoch:    this.epoch,
+      vector:   this.doc?.stateVector() ?? {},
+    });
+  }
+
+  private disconnected() {
+    if (this.online && this.html !== null) this.base = this.html;
+    this.online = false;
+    this.peers.clear();
+    this.emitPeers();
+    this.options.onStatus?.('offline');
+  }
+
+  private receive(message: CollabServerMessage) {
+    switch (message.type) {
+      case 'welcome':
+        this.welcome(message);
+        break;
+
+      case 'ops': {
+        if (!this.doc) return;
+        const before = this.html;
+        this.doc.apply(message.ops);
+        if (this.html !== before) this.options.onChange(this.html!);
+        this.emitPeers();
+        break;
+      }
+
+      case 'peer':
+        this.peers.set(message.peer.clientId, message.peer);
+        this.emitPeers();
+        break;
+
+      case 'leave':
+        this.peers.delete(message.clientId);
+        this.emitPeers();
+        break;
+    }
+  }
+
+  private welcome({ epoch, vector, ops, peers }: Extract<CollabServerMessage, { type: 'welcome' }>) {
+    const sameDocument = !!this.doc && this.epoch === epoch;
+    const local = this.html ?? this.unsynced ?? this.base;
+
+    if (!sameDocument) {
+      this.doc   = new SequenceDoc(this.clientId);
+      this.epoch = epoch;
+    }
+    const doc = this.doc!;
+    doc.apply(ops);
+    this.peers  = new Map(peers.map(p => [p.clientId, p]));
+    this.online = true;
+
+    if (sameDocument) {
+      // Edits made offline, or lost with the connection
+      const missing = doc.opsSince(vector);
+      if (missing.length > 0) this.channel.send({ type: 'ops', ops: missing });
+    } else if (local !== this.base) {
+      // No common history with the server's document: replay the local changes on it
+      this.update(rebaseTokens(tokenizeHtml(this.base), tokenizeHtml(local), doc.values()).join(''));
+    }
+    this.unsynced = null;
+    this.base     = this.html!;
+    if (sameDocument && this.selection) this.channel.send({ type: 'selection', selection: this.selection });
+
+    this.options.onStatus?.('online');
+    if (this.html !== local) this.options.onChange(this.html!);
+    this.emitPeers();
+  }
+
+  private emitPeers() {
+    const { onPeers } = this.options;
+    if (!onPeers) return;
+    const offsets = this.doc ? textOffsets(this.doc) : new Map<string, number>();
+    const at = (id: string | null) => (id === null ? 0 : offsets.get(id));
+
+    onPeers([...this.peers.values()].filter(p => p.clientId !== this.clientId).map(peer => {
+      const anchor = peer.selection ? at(peer.selection.anchor) : undefined;
+      const head   = peer.selection ? at(peer.selection.head) : undefined;
+      return {
+        clientId: peer.clientId,
+        userName: peer.userName,
+        color:    peerColor(peer.clientId),
+        position: anchor == null || head == null ? null : { start: Math.min(anchor, head), end: Math.max(anchor, head) },
+      };
+    }));
+  }
+}
+
+// ── Channels ────────────────────────────────────────────────────────────────
+
+const RECONNECT_MIN_MS = 1_000;
+const RECONNECT_MAX_MS = 30_000;
+
+function parseMessage(raw: unknown): CollabServerMessage | null {
+  try {
+    const result = collabServerMessageSchema.safeParse(JSON.parse(String(raw)));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/** `WS /api/articles/:id/collab`, reconnected with a backoff; the token goes in the query string */
+function webSocketConnector(articleId: number): CollabConnector {
+  return ({ onOpen, onMessage, onClose }) => {
+    let socket: WebSocket | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let delay   = RECONNECT_MIN_MS;
+    let stopped = false;
+
+    const open = () => {
+      const url = new URL(`/api/articles/${articleId}/collab`, api.defaults.baseURL);
+      url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+      const token = getAccessToken();
+      if (token) url.searchParams.set('access_token', token);
+
+      socket = new WebSocket(url);
+      socket.onopen = () => {
+        delay = RECONNECT_MIN_MS;
+        onOpen();
+      };
+      socket.onmessage = event => {
+        const message = parseMessage(event.data);
+        if (message) onMessage(message);
+      };
+      socket.onclose = () => {
+        socket = null;
+        if (stopped) return;
+        onClose();
+        timer = setTimeout(open, delay);
+        delay = Math.min(delay * 2, RECONNECT_MAX_MS);
+      };
+    };
+
+    open();
+    return {
+      send: message => {
+        // Dropped while offline: the next welcome tells what the server is missing
+        if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+      },
+      close: () => {
+        stopped = true;
+        clearTimeout(timer);
+        socket?.close();
+      },
+    };
+  };
+}
+
+/** In demo mode the mock backend relays the operations, within this tab */
+function demoConnector(articleId: number, user: RealtimeActor): CollabConnector {
+  return handlers => {
+    let channel: CollabChannel | null = null;
+    let closed = false;
+    import('../mocks/collabRelay').then(({ demoCollabRelay }) => {
+      if (!closed) channel = demoCollabRelay().connect(articleId, user)(handlers);
+    });
+    return {
+      send:  message => channel?.send(message),
+      close: () => {
+        closed = true;
+        channel?.close();
+      },
+    };
+  };
+}
+
+let relayOverride: CollabRelay | null = null;
+
+/** Replaces the WebSocket endpoint, e.g. by a local relay in tests; null restores it. */
+export function setCollabRelay(relay: CollabRelay | null): void {
+  relayOverride = relay;
+}
+
+export function collabConnector(articleId: number, user: RealtimeActor): CollabConnector {
+  if (relayOverride) return relayOverride.connect(articleId, user);
+  return isDemoMode() ? demoConnector(articleId, user) : webSocketConnector(articleId);
+}
@@ -0,0 +1,70 @@
+import type { TextAnchor } from '../types';
+
+// ── Inline comments ─────────────────────────────────────────────────────────
+// Comments never touch the content HTML. They point at a passage by offsets in
+// the plain text of the content (what the editor's textContent reads) and keep
+// the quoted passage to find it again after edits. The editor paints them with
+// the CSS Custom Highlight API, so saved and published articles stay clean.
+
+export interface TextPosition {
+  start: number;
+  end:   number;
+}
+
+/** Text of an HTML fragment as the editor reads it, the one anchor offsets count in. Parsed inert: nothing loads or runs. */
+export function editorText(html: string): string {
+  return new DOMParser().parseFromString(html, 'text/html').body.textContent ?? '';
+}
+
+/**
+ * Where `anchor` stands in `text`: its own offsets while the passage is still
+ * there, else the occurrence of the passage nearest to them, null once it is gone.
+ */
+export function locateAnchor(text: string, anchor: TextAnchor): TextPosition | null {
+  if (!anchor.quote) return null;
+  if (text.slice(anchor.start, anchor.end) === anchor.quote) return { start: anchor.start, end: anchor.end };
+
+  let best = -1;
+  for (let i = text.indexOf(anchor.quote); i !== -1; i = text.indexOf(anchor.quote, i + 1)) {
+    if (best === -1 || Math.abs(i - anchor.start) < Math.abs(best - anchor.start)) best = i;
+  }
+  return best === -1 ? null : { start: best, end: best + anchor.quote.length };
+}
+
+/** Offset in the text of `root` of a DOM position (container + offset, as in a Range) */
+export function textOffset(root: Node, container: Node, offset: number): number {
+  const range = document.createRange();
+  range.selectNodeContents(root);
+  range.setEnd(container, offset);
+  return range.toString().length;
+}
+
+/** Anchor of a selection made in `root`, null when it is empty or outside */
+export function selectionAnchor(root: Node, range: Range): TextAnchor | null {
+  if (range.collapsed || !root.contains(range.commonAncestorContainer)) return null;
+  const start = textOffset(root, range.startContainer, range.startOffset);
+  const end   = textOffset(root, range.endContainer, range.endOffset);
+  const quote = (root.textContent ?? '').slice(start, end);
+  return quote.trim() ? { start, end, quote } : null;
+}
+
+/** DOM range covering [start, end) of the text of `root` */
+export function rangeFromOffsets(root: Node, start: number, end: number): Range | null {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const range  = document.createRange();
+  let position = 0;
+  let started  = false;
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const length = (node as Text).length;
+    if (!started && start <= position + length) {
+      range.setStart(node, start - position);
+      started = true;
+    }
+    if (started && end <= position + length) {
+      range.setEnd(node, end - position);
+      return range;
+    }
+    position += length;
+  }
+  return null;
+}
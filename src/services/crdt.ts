@@ -0,0 +1,164 @@
+import type { CrdtOp } from '../types';
+
+// ── Sequence CRDT ───────────────────────────────────────────────────────────
+// Replicated Growable Array (RGA). Every element has a unique id and records
+// the element it was inserted after (its origin). Concurrent inserts after the
+// same origin are ordered by id, newest first, and deleted elements stay as
+// tombstones that later operations can still refer to: replicas that received
+// the same operations hold the same sequence, in whatever order they came.
+//
+// Ids are `<clock>@<client>`, with a Lamport clock: an element is always newer
+// than the elements that existed where it was inserted.
+
+/** Highest clock received from each client */
+export type StateVector = Record<string, number>;
+
+interface Element {
+  id:      string;
+  clock:   number;
+  client:  string;
+  value:   string;
+  deleted: boolean;
+}
+
+export interface SequenceEntry {
+  id:      string;
+  value:   string;
+  deleted: boolean;
+}
+
+function parseId(id: string): { clock: number; client: string } {
+  const at = id.indexOf('@');
+  return { clock: Number(id.slice(0, at)), client: id.slice(at + 1) };
+}
+
+/** True when `a` comes first among inserts after the same origin */
+function precedes(a: { clock: number; client: string }, b: { clock: number; client: string }): boolean {
+  return a.clock !== b.clock ? a.clock > b.clock : a.client > b.client;
+}
+
+export class SequenceDoc {
+  readonly client: string;
+  private clock    = 0;
+  private elements: Element[] = [];
+  private byId     = new Map<string, Element>();
+  /** Every operation applied, in the order it was applied */
+  private log:     CrdtOp[] = [];
+  private applied  = new Set<string>();
+  /** Operations waiting for the element they refer to */
+  private pending: CrdtOp[] = [];
+
+  constructor(client: string) {
+    this.client = client;
+  }
+
+  /** Visible values, in order */
+  values(): string[] {
+    return this.elements.filter(e => !e.deleted).map(e => e.value);
+  }
+
+  /** Every element in order, tombstones included */
+  entries(): SequenceEntry[] {
+    return this.elements.map(({ id, value, deleted }) => ({ id, value, deleted }));
+  }
+
+  /** Id of the visible element at `index` */
+  idAt(index: number): string | undefined {
+    return this.visible(index)?.id;
+  }
+
+  // ── Local edits ───────────────────────────────────────────────────────────
+
+  /** Inserts `values` before the visible element at `index`; returns the operations to send. */
+  insert(index: number, values: string[]): CrdtOp[] {
+    let origin = index > 0 ? this.visible(index - 1)?.id ?? null : null;
+    const ops: CrdtOp[] = values.map(value => {
+      const op: CrdtOp = { type: 'insert', id: `${++this.clock}@${this.client}`, origin, value };
+      origin = op.id;
+      return op;
+    });
+    this.apply(ops);
+    return ops;
+  }
+
+  /** Deletes `count` visible elements from `index`; returns the operations to send. */
+  delete(index: number, count: number): CrdtOp[] {
+    const targets = this.elements.filter(e => !e.deleted).slice(index, index + count);
+    const ops: CrdtOp[] = targets.map(target => ({ type: 'delete', id: `${++this.clock}@${this.client}`, target: target.id }));
+    this.apply(ops);
+    return ops;
+  }
+
+  // ── Replication ───────────────────────────────────────────────────────────
+
+  /** Integrates operations, skipping the known ones; returns the ones newly applied. */
+  apply(ops: CrdtOp[]): CrdtOp[] {
+    const done: CrdtOp[] = [];
+    let queue = [...this.pending, ...ops];
+    let progress = true;
+    while (progress) {
+      progress = false;
+      const waiting: CrdtOp[] = [];
+      for (const op of queue) {
+        if (this.applied.has(op.id)) continue;
+        if (!this.integrate(op)) {
+          waiting.push(op);
+          continue;
+        }
+        this.applied.add(op.id);
+        this.log.push(op);
+        done.push(op);
+        progress = true;
+      }
+      queue = waiting;
+    }
+    this.pending = queue;
+    return done;
+  }
+
+  stateVector(): StateVector {
+    const vector: StateVector = {};
+    for (const op of this.log) {
+      const { clock, client } = parseId(op.id);
+      if (clock > (vector[client] ?? 0)) vector[client] = clock;
+    }
+    return vector;
+  }
+
+  /** Operations a replica at `vector` has not received */
+  opsSince(vector: StateVector): CrdtOp[] {
+    return this.log.filter(op => {
+      const { clock, client } = parseId(op.id);
+      return clock > (vector[client] ?? 0);
+    });
+  }
+
+  private visible(index: number): Element | undefined {
+    let seen = -1;
+    for (const element of this.elements) {
+      if (!element.deleted && ++seen === index) return element;
+    }
+    return undefined;
+  }
+
+  /** False while the element the operation refers to is unknown */
+  private integrate(op: CrdtOp): boolean {
+    const id = parseId(op.id);
+    if (op.type === 'delete') {
+      const target = this.byId.get(op.target);
+      if (!target) return false;
+      target.deleted = true;
+    } else {
+      const origin = op.origin ? this.byId.get(op.origin) : null;
+      if (origin === undefined) return false;
+      let position = origin ? this.elements.indexOf(origin) + 1 : 0;
+      // Newer inserts after the same origin, and everything inserted after them, come first
+      while (position < this.elements.length && precedes(this.elements[position], id)) position++;
+      const element: Element = { id: op.id, ...id, value: op.value, deleted: false };
+      this.elements.splice(position, 0, element);
+      this.byId.set(op.id, element);
+    }
+    this.clock = Math.max(this.clock, id.clock);
+    return true;
+  }
+}
@@ -0,0 +1,42 @@
+import { clearSession } from './session';
+import type { UserRole } from '../types';
+
+// ── Demo mode ───────────────────────────────────────────────────────────────
+// When enabled, services/api.ts routes every request to the in-browser mock
+// backend (src/mocks) instead of the Express API.
+
+const STORAGE_KEY = 'taram.demo';
+
+/** Forced by the build (`VITE_DEMO_MODE=true`): the toggle is then hidden */
+export const DEMO_MODE_FORCED = import.meta.env.VITE_DEMO_MODE === 'true';
+
+/** Every demo account uses this password */
+export const DEMO_PASSWORD = 'demo';
+
+/** Seeded accounts of the mock backend, one per role */
+export const DEMO_ACCOUNTS: ReadonlyArray<{ email: string; role: UserRole }> = [
+  { email: 'admin@taram.fr',   role: 'admin' },
+  { email: 'editeur@taram.fr', role: 'editor' },
+  { email: 'auteur@taram.fr',  role: 'author' },
+];
+
+export function isDemoMode(): boolean {
+  if (DEMO_MODE_FORCED) return true;
+  try {
+    return window.localStorage.getItem(STORAGE_KEY) === '1';
+  } catch {
+    return false;
+  }
+}
+
+/** Switches backend: the session belongs to the other backend, so it is dropped */
+export function setDemoMode(enabled: boolean): void {
+  try {
+    if (enabled) window.localStorage.setItem(STORAGE_KEY, '1');
+    else         window.localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    return;
+  }
+  clearSession();
+  window.location.assign('/login');
+}
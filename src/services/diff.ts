@@ -0,0 +1,101 @@
+// ── Word-level text diff ────────────────────────────────────────────────────
+// Longest common subsequence over words, whitespace runs being tokens of their
+// own so that the parts joined back give the original texts. Words weigh more
+// than whitespace: a shared word is never traded for two shared spaces.
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  op:   DiffOp;
+  text: string;
+}
+
+/** Above this many cells the LCS table is skipped: the middle is shown as replaced */
+const MAX_TABLE_CELLS = 4_000_000;
+
+export function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+const weight = (token: string) => (/^\s/.test(token) ? 1 : 2);
+
+function push(parts: DiffPart[], op: DiffOp, text: string) {
+  const last = parts[parts.length - 1];
+  if (last?.op === op) last.text += text;
+  else parts.push({ op, text });
+}
+
+/** Differences turning `before` into `after`; deletions come before insertions. */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // The common ends are kept out of the (quadratic) table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const parts: DiffPart[] = [];
+  if (start > 0) push(parts, 'equal', a.slice(0, start).join(''));
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > MAX_TABLE_CELLS) {
+    if (n > 0) push(parts, 'delete', a.slice(start, endA).join(''));
+    if (m > 0) push(parts, 'insert', b.slice(start, endB).join(''));
+  } else {
+    // lcs[i * (m + 1) + j]: weight of the LCS of a[start + i..] and b[start + j..]
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] = a[start + i] === b[start + j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + weight(a[start + i])
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+
+    const deleted: string[]  = [];
+    const inserted: string[] = [];
+    const flush = () => {
+      if (deleted.length)  push(parts, 'delete', deleted.splice(0).join(''));
+      if (inserted.length) push(parts, 'insert', inserted.splice(0).join(''));
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && a[start + i] === b[start + j]) {
+        flush();
+        push(parts, 'equal', a[start + i]);
+        i++; j++;
+      } else if (j >= m || (i < n && lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+        deleted.push(a[start + i++]);
+      } else {
+        inserted.push(b[start + j++]);
+      }
+    }
+    flush();
+  }
+
+  if (endA < a.length) push(parts, 'equal', a.slice(endA).join(''));
+  return parts;
+}
+
+/** Readable text of rich content: one line per block, tags dropped. */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|h[1-6]|li|blockquote|div)>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '• ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+}
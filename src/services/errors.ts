@@ -0,0 +1,162 @@
+import axios from 'axios';
+import type { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+
+// ── API error model ─────────────────────────────────────────────────────────
+
+/**
+ * - `http`      the server answered with an error status
+ * - `network`   the server could not be reached (offline, DNS, CORS…)
+ * - `timeout`   the request exceeded the client timeout
+ * - `cancelled` the request was aborted by the client
+ * - `contract`  the response did not match the expected schema
+ */
+export type ApiErrorKind = 'http' | 'network' | 'timeout' | 'cancelled' | 'contract';
+
+/** Field name → first error message for that field */
+export type FieldErrorMap = Record<string, string>;
+
+interface ApiErrorInit {
+  kind:         ApiErrorKind;
+  status?:      number;
+  code?:        string;
+  fieldErrors?: FieldErrorMap;
+  details?:     unknown;
+}
+
+export class ApiError extends Error {
+  readonly kind:        ApiErrorKind;
+  readonly status?:     number;
+  readonly code?:       string;
+  readonly fieldErrors: FieldErrorMap;
+  /** Raw error body returned by the server */
+  readonly details?:    unknown;
+
+  constructor(message: string, init: ApiErrorInit) {
+    super(message);
+    this.name        = 'ApiError';
+    this.kind        = init.kind;
+    this.status      = init.status;
+    this.code        = init.code;
+    this.fieldErrors = init.fieldErrors ?? {};
+    this.details     = init.details;
+  }
+
+  get hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+/**
+ * The resource changed since it was read: `409 { code: 'EDIT_CONFLICT' }`,
+ * or `412 Precondition Failed` from servers checking If-Match themselves.
+ */
+export function isEditConflict(error: unknown): error is ApiError {
+  return isApiError(error) && (error.status === 412 || (error.status === 409 && error.code === 'EDIT_CONFLICT'));
+}
+
+/** Another session holds the soft lock of the article: `409 { code: 'ARTICLE_LOCKED' }` */
+export function isArticleLocked(error: unknown): error is ApiError {
+  return isApiError(error) && error.status === 409 && error.code === 'ARTICLE_LOCKED';
+}
+
+// ── Normalisation of the Express error payloads ─────────────────────────────
+
+interface ErrorBody {
+  message?: string;
+  error?:   string;
+  code?:    string;
+  field?:   string;
+  errors?:  unknown;
+}
+
+/**
+ * Accepts the shapes our backend produces:
+ * - `{ field: 'slug', message }` (single field, e.g. duplicate slug 409)
+ * - `{ errors: { slug: 'msg' | ['msg'] } }`
+ * - `{ errors: [{ field | path | param, message | msg }] }` (express-validator)
+ */
+function extractFieldErrors(body: ErrorBody): FieldErrorMap {
+  const map: FieldErrorMap = {};
+  const add = (field: unknown, message: unknown) => {
+    if (typeof field !== 'string' || !field || map[field]) return;
+    const text = Array.isArray(message) ? message[0] : message;
+    if (typeof text === 'string' && text) map[field] = text;
+  };
+
+  const { errors } = body;
+  if (Array.isArray(errors)) {
+    errors.forEach((e: Record<string, unknown>) => {
+      if (e && typeof e === 'object') add(e.field ?? e.path ?? e.param, e.message ?? e.msg);
+    });
+  } else if (errors && typeof errors === 'object') {
+    Object.entries(errors as Record<string, unknown>).forEach(([field, msg]) => add(field, msg));
+  }
+  if (body.field) add(body.field, body.message);
+  return map;
+}
+
+/** Converts whatever axios rejected with into an ApiError. */
+export function toApiError(error: unknown): ApiError {
+  if (isApiError(error)) return error;
+
+  if (axios.isCancel(error)) {
+    return new ApiError('Requête annulée', { kind: 'cancelled' });
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      const status = error.response.status;
+      const body   = (error.response.data && typeof error.response.data === 'object'
+        ? error.response.data
+        : {}) as ErrorBody;
+      return new ApiError(
+        body.message || body.error || error.message || 'Une erreur est survenue',
+        {
+          kind:        'http',
+          status,
+          code:        body.code,
+          fieldErrors: extractFieldErrors(body),
+          details:     error.response.data,
+        },
+      );
+    }
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new ApiError('Le serveur met trop de temps à répondre', { kind: 'timeout', code: error.code });
+    }
+    return new ApiError('Impossible de joindre le serveur', { kind: 'network', code: error.code });
+  }
+
+  const message = error instanceof Error ? error.message : 'Une erreur est survenue';
+  return new ApiError(message, { kind: 'network' });
+}
+
+// ── react-hook-form bridge ──────────────────────────────────────────────────
+
+/**
+ * Pushes server field errors into react-hook-form.
+ * Only `fields` known by the form are mapped; `aliases` renames server fields
+ * (e.g. a category `slug` conflict shown under `name`).
+ * Returns true when at least one field error was applied, so the caller can
+ * skip the generic snackbar.
+ */
+export function applyFieldErrors<T extends FieldValues>(
+  error: unknown,
+  setError: UseFormSetError<T>,
+  fields: readonly Path<T>[],
+  aliases: Partial<Record<string, Path<T>>> = {},
+): boolean {
+  if (!isApiError(error) || !error.hasFieldErrors) return false;
+
+  let applied = false;
+  Object.entries(error.fieldErrors).forEach(([serverField, message]) => {
+    const field = (aliases[serverField] ?? serverField) as Path<T>;
+    if (!fields.includes(field)) return;
+    setError(field, { type: 'server', message }, { shouldFocus: !applied });
+    applied = true;
+  });
+  return applied;
+}
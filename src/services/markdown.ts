@@ -0,0 +1,504 @@
+import {
+  activeFormat,
+  blockText,
+  collapsed,
+  deleteRange,
+  isTextBlock,
+  normalizeRuns,
+  parseHtml,
+  runsAt,
+  setMark,
+  toggleFormat,
+  toHtml,
+  type Block,
+  type DocPosition,
+  type Edit,
+  type InlineMark,
+  type Marks,
+  type RichDocument,
+  type TableBlock,
+  type TextBlock,
+  type TextFormat,
+  type TextRun,
+} from './richText';
+import { safeUrl } from './sanitize';
+
+// ── Markdown ────────────────────────────────────────────────────────────────
+// The content editor reads and writes Markdown as another form of its
+// document model: written out and read back, a document gives the same HTML.
+// Beyond CommonMark, it uses GitHub's tables and alerts (`> [!NOTE]`, for the
+// callout boxes, and `> [!PULLQUOTE]`), `<u>` for underlined text, and images
+// as inserted from the media library are kept as HTML.
+
+const HEADING_MARKERS: Partial<Record<TextFormat, string>> = { heading2: '##', heading3: '###', heading4: '####' };
+
+const HEADING_LEVELS: TextFormat[] = ['heading2', 'heading2', 'heading2', 'heading3', 'heading4', 'heading4', 'heading4'];
+
+/** Alerts of quotes, as written */
+const ALERTS: Partial<Record<TextFormat, string>> = {
+  pullquote:         'PULLQUOTE',
+  'callout-info':    'NOTE',
+  'callout-warning': 'WARNING',
+  'callout-success': 'TIP',
+};
+
+/** Alerts of quotes, as read: GitHub's other ones too */
+const ALERT_FORMATS: Record<string, TextFormat> = {
+  PULLQUOTE: 'pullquote',
+  NOTE:      'callout-info',
+  IMPORTANT: 'callout-info',
+  WARNING:   'callout-warning',
+  CAUTION:   'callout-warning',
+  TIP:       'callout-success',
+};
+
+const QUOTES = new Set<TextFormat>(['quote', 'pullquote', 'callout-info', 'callout-warning', 'callout-success']);
+
+// ── Writing ─────────────────────────────────────────────────────────────────
+
+const MARK_ORDER = ['link', 'bold', 'italic', 'underline'] as const;
+
+const MARK_DELIMITERS: Record<InlineMark, [string, string]> = {
+  bold:      ['**', '**'],
+  italic:    ['*', '*'],
+  underline: ['<u>', '</u>'],
+};
+
+/** How line breaks are written: backslash and new line, or `<br>` where a block is one line */
+type Breaks = 'line' | 'tag';
+
+function escapeText(text: string, breaks: Breaks, table: boolean): string {
+  const escaped = text.replace(table ? /[\\*_[\]<`|]|&(?=#)/g : /[\\*_[\]<`]|&(?=#)/g, '\\$&');
+  return escaped.replace(/\n/g, breaks === 'line' ? '\\\n' : '<br>');
+}
+
+function writeLinkTarget(href: string): string {
+  return /[\s()<>]/.test(href) ? `<${href.replace(/>/g, '%3E')}>` : href;
+}
+
+type MarkKey = typeof MARK_ORDER[number];
+
+/** Where the runs from `i` on stop sharing the value of mark `key` */
+function spanEnd(runs: TextRun[], i: number, key: MarkKey): number {
+  let j = i + 1;
+  while (j < runs.length && runs[j].marks[key] === runs[i].marks[key]) j++;
+  return j;
+}
+
+/**
+ * Runs as inline Markdown. Of the marks a run starts, the one lasting
+ * longest is opened first, to stay open over the runs after it; bold is
+ * written `__` where `**` would run into the `*` of an italic, as four
+ * asterisks in a row read back as something else.
+ */
+function writeInline(runs: TextRun[], breaks: Breaks, table = false, keys: readonly MarkKey[] = MARK_ORDER): string {
+  let written = '';
+  for (let i = 0; i < runs.length;) {
+    const marked = keys.filter(key => runs[i].marks[key]);
+    if (marked.length === 0) {
+      let j = i + 1;
+      while (j < runs.length && !keys.some(key => runs[j].marks[key])) j++;
+      written += runs.slice(i, j).map(run => escapeText(run.text, breaks, table)).join('');
+      i = j;
+      continue;
+    }
+    const ends = marked.map(key => spanEnd(runs, i, key));
+    const key  = marked[ends.indexOf(Math.max(...ends))];
+    const j    = spanEnd(runs, i, key);
+    const inner = writeInline(runs.slice(i, j), breaks, table, keys.filter(other => other !== key));
+    if (key === 'link') {
+      written += `[${inner}](${writeLinkTarget(runs[i].marks.link!)})`;
+    } else {
+      const italicAfter = keys.includes('italic') && !!runs[j - 1].marks.italic && !!runs[j]?.marks.italic;
+      const [open, close] = key === 'bold' && (written.endsWith('*') || italicAfter) ? ['__', '__'] : MARK_DELIMITERS[key];
+      written += open + inner + close;
+    }
+    i = j;
+  }
+  return written;
+}
+
+/** Keeps a line of text from reading as the start of a heading, quote, list, fence or table */
+function escapeLineStart(line: string): string {
+  const number = /^(\s*\d+)([.)])(\s|$)/.exec(line);
+  if (number) return `${number[1]}\\${line.slice(number[1].length)}`;
+  return line.replace(/^(\s*)([#>+\-|~=])/, '$1\\$2');
+}
+
+/** A line with its first and last space as a character reference, as reading trims lines */
+const keepEdgeSpaces = (line: string) =>
+  line.replace(/^[ \t]/, space => `&#${space.charCodeAt(0)};`).replace(/[ \t]$/, space => `&#${space.charCodeAt(0)};`);
+
+/** Inline Markdown of a text block, each line escaped; a last line break is a tag, a backslash there would be text */
+function writeText(runs: TextRun[]): string {
+  return writeInline(runs, 'line')
+    .replace(/\\\n$/, '<br>')
+    .split('\n')
+    .map(line => escapeLineStart(keepEdgeSpaces(line)))
+    .join('\n');
+}
+
+/** Lines of `text`, the first after `first` (a list or quote marker), the others after `others` */
+const prefixLines = (text: string, first: string, others: string) =>
+  text.split('\n').map((line, i) => (i === 0 ? first : others) + line).join('\n');
+
+function writeGroup(format: TextFormat, blocks: TextBlock[]): string {
+  if (format === 'bulleted') return blocks.map(block => prefixLines(writeText(block.runs), '- ', '  ')).join('\n');
+  if (format === 'numbered') {
+    return blocks.map((block, i) => {
+      const marker = `${i + 1}. `;
+      return prefixLines(writeText(block.runs), marker, ' '.repeat(marker.length));
+    }).join('\n');
+  }
+  // Quotes and boxes: one paragraph per block, an alert first
+  const alert = ALERTS[format];
+  const body  = blocks.map(block => prefixLines(writeText(block.runs), '> ', '> ')).join('\n>\n');
+  return alert ? `> [!${alert}]\n${body}` : body;
+}
+
+function writeTable(table: TableBlock): string {
+  const row   = (cells: TextRun[][]) => `| ${cells.map(runs => keepEdgeSpaces(writeInline(runs, 'tag', true))).join(' | ')} |`;
+  const [first, ...others] = table.rows;
+  // Markdown tables always have a header: an empty one stands for none
+  const header = table.header ? first : first.map(() => []);
+  const body   = table.header ? others : table.rows;
+  return [row(header), `|${first.map(() => ' --- ').join('|')}|`, ...body.map(row)].join('\n');
+}
+
+function writeCode(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const fence   = '`'.repeat(Math.max(3, longest + 1));
+  return `${fence}\n${text}\n${fence}`;
+}
+
+function writeBlock(block: Block): string {
+  switch (block.type) {
+    case 'rule':   return '---';
+    case 'table':  return writeTable(block);
+    case 'figure': return toHtml([block]);
+    case 'code':   return writeCode(blockText(block));
+    default: {
+      const marker = HEADING_MARKERS[block.type];
+      if (!marker) return writeText(block.runs);
+      // A heading is one line; a # closing it would be read as part of the marker
+      return `${marker} ${keepEdgeSpaces(writeInline(block.runs, 'tag')).replace(/#$/, '\\#')}`;
+    }
+  }
+}
+
+/** The document as Markdown; empty text blocks are left out, as in its HTML */
+export function toMarkdown(doc: RichDocument): string {
+  const blocks = doc.filter(block => !isTextBlock(block) || blockText(block));
+  const parts: string[] = [];
+  for (let i = 0; i < blocks.length;) {
+    const block = blocks[i];
+    const grouped = isTextBlock(block) && (QUOTES.has(block.type) || block.type === 'bulleted' || block.type === 'numbered');
+    if (!grouped) {
+      parts.push(writeBlock(block));
+      i++;
+      continue;
+    }
+    let j = i + 1;
+    while (j < blocks.length && blocks[j].type === block.type) j++;
+    parts.push(writeGroup(block.type, blocks.slice(i, j) as TextBlock[]));
+    i = j;
+  }
+  return parts.length > 0 ? `${parts.join('\n\n')}\n` : '';
+}
+
+// ── Reading ─────────────────────────────────────────────────────────────────
+
+const isWordCharacter = (c: string | undefined) => !!c && /[\p{L}\p{N}]/u.test(c);
+
+/** `[label](href)` at `start`, with where it ends */
+function readLink(text: string, start: number): { label: string; href: string; end: number } | null {
+  let depth = 0;
+  let close = -1;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text[i] === '[') depth++;
+    else if (text[i] === ']' && --depth === 0) {
+      close = i;
+      break;
+    }
+  }
+  if (close < 0 || text[close + 1] !== '(') return null;
+  const target = /^\(\s*(?:<([^>]*)>|([^\s)]*))(?:\s+"[^"]*")?\s*\)/.exec(text.slice(close + 1));
+  if (!target) return null;
+  return { label: text.slice(start + 1, close), href: target[1] ?? target[2], end: close + 1 + target[0].length };
+}
+
+/** Runs of inline Markdown */
+function readInline(text: string, base: Marks = {}): TextRun[] {
+  const runs: TextRun[] = [];
+  const marks: Marks = { ...base };
+  let buffer = '';
+  const flush = () => {
+    if (buffer) runs.push({ text: buffer, marks: { ...marks } });
+    buffer = '';
+  };
+  const toggle = (mark: InlineMark, value = !marks[mark]) => {
+    flush();
+    marks[mark] = value;
+  };
+
+  for (let i = 0; i < text.length;) {
+    const c    = text[i];
+    const rest = text.slice(i);
+    if (c === '\\' && /[!-/:-@[-`{-~]/.test(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+    if (rest.startsWith('**') || rest.startsWith('__')) {
+      // An opening delimiter needs a closing one, else it is text
+      if (marks.bold || text.indexOf(rest.slice(0, 2), i + 2) > 0) {
+        toggle('bold');
+        i += 2;
+        continue;
+      }
+    }
+    if (c === '*' || c === '_') {
+      // snake_case is not emphasis
+      const opens  = !marks.italic && text.indexOf(c, i + 1) > 0 && (c === '*' || !isWordCharacter(text[i - 1]));
+      const closes = !!marks.italic && (c === '*' || !isWordCharacter(text[i + 1]));
+      if (opens || closes) {
+        toggle('italic');
+        i += 1;
+        continue;
+      }
+    }
+    const reference = /^&#(\d{1,7}|[xX][\da-fA-F]{1,6});/.exec(rest);
+    if (reference) {
+      const code = reference[1][0].toLowerCase() === 'x' ? parseInt(reference[1].slice(1), 16) : Number(reference[1]);
+      buffer += code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '\ufffd';
+      i += reference[0].length;
+      continue;
+    }
+    const underline = /^<(\/?)u>/i.exec(rest);
+    if (underline) {
+      toggle('underline', !underline[1]);
+      i += underline[0].length;
+      continue;
+    }
+    const lineBreak = /^<br\s*\/?>/i.exec(rest);
+    if (lineBreak) {
+      buffer += '\n';
+      i += lineBreak[0].length;
+      continue;
+    }
+    const link = c === '[' ? readLink(text, i) : null;
+    if (link) {
+      flush();
+      runs.push(...readInline(link.label, { ...marks, link: safeUrl(link.href) ?? undefined }));
+      i = link.end;
+      continue;
+    }
+    buffer += c;
+    i++;
+  }
+  flush();
+  return runs;
+}
+
+const textBlock = (type: TextFormat, source: string): TextBlock => ({ type, runs: normalizeRuns(readInline(source)) });
+
+/**
+ * Lines of a paragraph as one text: a line ending with a backslash or two
+ * spaces breaks there, others go on after a space.
+ */
+function joinLines(lines: string[]): string {
+  return lines.map((line, i) => {
+    const trimmed = line.trim();
+    if (i === lines.length - 1) return trimmed;
+    if (/ {2,}$/.test(line)) return `${trimmed}\n`;
+    const backslashes = /\\*$/.exec(trimmed)![0].length;
+    return backslashes % 2 === 1 ? `${trimmed.slice(0, -1)}\n` : `${trimmed} `;
+  }).join('');
+}
+
+const FENCE        = /^ {0,3}(`{3,}|~{3,})/;
+const RULE         = /^ {0,3}([-*_])( *\1){2,} *$/;
+const HEADING      = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const QUOTE        = /^ {0,3}> ?/;
+const LIST_ITEM    = /^ {0,3}([-*+]|\d{1,9}[.)])(?:\s+(.*))?$/;
+const TABLE_RULE   = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const HTML_BLOCK   = /^<(figure|table|div|blockquote|pre|ul|ol|p|h[1-6]|hr)[\s>/]/i;
+const IMAGE        = /^!\[([^\]]*)\]\(\s*(\S+?)(?:\s+"([^"]*)")?\s*\)\s*$/;
+
+/** Whether a line starts a block, ending the paragraph before it */
+const startsBlock = (line: string) =>
+  FENCE.test(line) || RULE.test(line) || HEADING.test(line) || QUOTE.test(line) || LIST_ITEM.test(line) || HTML_BLOCK.test(line);
+
+function splitRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map(cell => cell.trim());
+}
+
+function readTable(lines: string[]): TableBlock {
+  const header  = splitRow(lines[0]);
+  const columns = header.length;
+  const cells   = (row: string[]) => Array.from({ length: columns }, (_, i) => normalizeRuns(readInline(row[i] ?? '')));
+  const body    = lines.slice(2).map(line => cells(splitRow(line)));
+  const headed  = header.some(Boolean);
+  const rows    = headed ? [cells(header), ...body] : body;
+  return { type: 'table', header: headed, rows: rows.length > 0 ? rows : [cells([])] };
+}
+
+function readQuote(lines: string[]): TextBlock[] {
+  const inner  = lines.map(line => line.replace(QUOTE, ''));
+  const alert  = /^\[!(\w+)\]\s*$/.exec(inner[0] ?? '');
+  const format = alert ? ALERT_FORMATS[alert[1].toUpperCase()] ?? 'quote' : 'quote';
+  const paragraphs: string[][] = [[]];
+  (alert ? inner.slice(1) : inner).forEach(line => {
+    if (line.trim()) paragraphs[paragraphs.length - 1].push(line);
+    else paragraphs.push([]);
+  });
+  return paragraphs.filter(p => p.length > 0).map(p => textBlock(format, joinLines(p)));
+}
+
+/** A document from Markdown; HTML blocks in it are read as HTML */
+export function parseMarkdown(source: string): RichDocument {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: RichDocument = [];
+  let i = 0;
+  /** Lines from `i` while `keep` holds */
+  const take = (keep: (line: string) => boolean) => {
+    const taken: string[] = [];
+    while (i < lines.length && keep(lines[i])) taken.push(lines[i++]);
+    return taken;
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+    const fence = FENCE.exec(line);
+    if (fence) {
+      i++;
+      const code = take(l => !l.trim().startsWith(fence[1]));
+      i++;
+      blocks.push({ type: 'code', runs: normalizeRuns([{ text: code.join('\n'), marks: {} }]) });
+      continue;
+    }
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push(textBlock(HEADING_LEVELS[heading[1].length], heading[2] ?? ''));
+      i++;
+      continue;
+    }
+    if (QUOTE.test(line)) {
+      blocks.push(...readQuote(take(l => QUOTE.test(l))));
+      continue;
+    }
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      i++;
+      // Indented lines, and lines going on without a marker, continue the item
+      const more   = take(l => !!l.trim() && !LIST_ITEM.test(l) && (/^\s{2,}/.test(l) || !startsBlock(l)));
+      const format = /\d/.test(item[1]) ? 'numbered' : 'bulleted';
+      blocks.push(textBlock(format, joinLines([item[2] ?? '', ...more])));
+      continue;
+    }
+    if (line.includes('|') && TABLE_RULE.test(lines[i + 1] ?? '') && lines[i + 1].includes('-')) {
+      blocks.push(readTable(take(l => l.includes('|'))));
+      continue;
+    }
+    if (HTML_BLOCK.test(line)) {
+      blocks.push(...parseHtml(take(l => !!l.trim()).join('\n')));
+      continue;
+    }
+    const image = IMAGE.exec(line);
+    const src   = image ? safeUrl(image[2], 'image') : null;
+    if (image && src) {
+      blocks.push({ type: 'figure', src, alt: image[1], caption: image[3] ?? '' });
+      i++;
+      continue;
+    }
+    i++;
+    blocks.push(textBlock('paragraph', joinLines([line, ...take(l => !!l.trim() && !startsBlock(l))])));
+  }
+  return blocks;
+}
+
+/** Signs that plain text is Markdown, e.g. copied from a Markdown editor */
+const MARKDOWN_HINTS = [
+  /^#{1,6} \S/m,
+  /^> /m,
+  /^\s{0,3}([-*+]|\d+\.) \S/m,
+  /^(```|~~~)/m,
+  /\*\*[^*\n]+\*\*/,
+  /\[[^\]\n]+\]\([^)\s]+\)/,
+  /^\|.*\|\s*$/m,
+];
+
+export const looksLikeMarkdown = (text: string) => MARKDOWN_HINTS.some(hint => hint.test(text));
+
+// ── Shortcuts ───────────────────────────────────────────────────────────────
+
+/** Markers typed at the start of a paragraph, and the format they give it */
+const BLOCK_SHORTCUTS: Record<string, TextFormat> = {
+  '# ':    'heading2',
+  '## ':   'heading2',
+  '### ':  'heading3',
+  '#### ': 'heading4',
+  '> ':    'quote',
+  '- ':    'bulleted',
+  '* ':    'bulleted',
+  '+ ':    'bulleted',
+  '1. ':   'numbered',
+  '1) ':   'numbered',
+  '``` ':  'code',
+};
+
+/** Emphasis closed just before the caret */
+const INLINE_SHORTCUTS: Array<{ pattern: RegExp; mark: InlineMark }> = [
+  { pattern: /(\*\*|__)(?=\S)([^*_\n]*?\S)\1$/, mark: 'bold' },
+  { pattern: /(?:^|[^*_\p{L}\p{N}])([*_])(?=\S)([^*_\n]*?\S)\1$/u, mark: 'italic' },
+];
+
+export interface Shortcut extends Edit {
+  /** Marks to type with next: those of the emphasis, which has just closed, no longer apply */
+  marks?: Marks;
+}
+
+/**
+ * Formatting for the Markdown just typed before `position`, e.g. "## " at the
+ * start of a paragraph or "**gras**"; null when there is none.
+ */
+export function markdownShortcut(doc: RichDocument, position: DocPosition): Shortcut | null {
+  const runs  = runsAt(doc, position);
+  const block = doc[position.block];
+  if (!runs || block.type === 'code') return null;
+  const before = runs.map(run => run.text).join('').slice(0, position.offset);
+
+  const format = BLOCK_SHORTCUTS[before];
+  if (format && block.type === 'paragraph' && !position.cell) {
+    const cleared = deleteRange(doc, { start: { ...position, offset: 0 }, end: position });
+    return toggleFormat(cleared.doc, cleared.range, format);
+  }
+
+  for (const { pattern, mark } of INLINE_SHORTCUTS) {
+    const match = pattern.exec(before);
+    if (!match) continue;
+    const delimiter = match[1].length;
+    const start = position.offset - match[2].length - 2 * delimiter;
+    const at    = (offset: number): DocPosition => ({ ...position, offset });
+    const closed  = deleteRange(doc, { start: at(position.offset - delimiter), end: position }).doc;
+    const opened  = deleteRange(closed, { start: at(start), end: at(start + delimiter) }).doc;
+    const end     = at(start + match[2].length);
+    const marked  = setMark(opened, { start: at(start), end }, mark, true).doc;
+    const caret   = collapsed(end);
+    return { doc: marked, range: caret, marks: { ...activeFormat(marked, caret).marks, [mark]: false } };
+  }
+  return null;
+}
@@ -0,0 +1,71 @@
+import { can } from './permissions';
+import type { AuthUser, MediaAsset } from '../types';
+
+// ── Media library ───────────────────────────────────────────────────────────
+// Images are uploaded once to `/api/media` with their alt text, caption,
+// credit and license, then picked from the library as an article cover or
+// inserted in the content. Articles keep the image URL: removing an asset from
+// the library does not break the articles already using it.
+
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'] as const;
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+/** Offered in the license field, which also takes free text */
+export const MEDIA_LICENSES = [
+  'Tous droits réservés',
+  'Droits agence',
+  'CC BY 4.0',
+  'CC BY-SA 4.0',
+  'CC0 (domaine public)',
+];
+
+/** Why a file cannot be uploaded, null when it can */
+export function checkUpload(file: File): string | null {
+  if (!(ACCEPTED_IMAGE_TYPES as readonly string[]).includes(file.type)) {
+    return 'Format non pris en charge (JPEG, PNG, WebP ou GIF)';
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return `Fichier trop volumineux (${formatFileSize(MAX_UPLOAD_BYTES)} maximum)`;
+  }
+  return null;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} o`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} Ko`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace('.', ',')} Mo`;
+}
+
+/** Uploaders edit and delete their own assets; editors and admins every asset */
+export function canEditAsset(user: AuthUser | null | undefined, asset: Pick<MediaAsset, 'uploadedBy'>): boolean {
+  if (can(user, 'media:manage')) return true;
+  return can(user, 'media:upload') && asset.uploadedBy === user!.id;
+}
+
+/** Caption line shown under an image: caption, then credit */
+export function mediaLegend(asset: Pick<MediaAsset, 'caption' | 'credit'>): string {
+  return [asset.caption, asset.credit && `© ${asset.credit}`].filter(Boolean).join(' – ');
+}
+
+/** Content HTML of an inline image: a figure with its alt text and legend */
+export function mediaFigureHtml(asset: MediaAsset): string {
+  const figure = document.createElement('figure');
+  const image  = document.createElement('img');
+  image.setAttribute('src', asset.url);
+  image.setAttribute('alt', asset.alt);
+  image.setAttribute('data-media-id', String(asset.id));
+  if (asset.width && asset.height) {
+    image.setAttribute('width', String(asset.width));
+    image.setAttribute('height', String(asset.height));
+  }
+  figure.append(image);
+
+  const legend = mediaLegend(asset);
+  if (legend) {
+    const caption = document.createElement('figcaption');
+    caption.textContent = legend;
+    figure.append(caption);
+  }
+  return figure.outerHTML;
+}
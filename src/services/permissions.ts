@@ -0,0 +1,115 @@
+import type { Article, AuthUser, Network, UserRole } from '../types';
+
+// ── Permissions ─────────────────────────────────────────────────────────────
+// Mirrors the rules enforced by the API so the UI only offers allowed actions.
+
+export type Permission =
+  | 'article:create'
+  | 'article:edit'
+  | 'article:delete'
+  | 'article:submit'
+  | 'article:review'
+  | 'article:comment'
+  | 'article:feature'
+  | 'article:publish'
+  | 'article:archive'
+  | 'article:notify'
+  | 'category:manage'
+  | 'network:manage'
+  | 'article:import'
+  | 'media:upload'
+  | 'media:manage';
+
+const AUTHOR: Permission[] = ['article:create', 'article:edit', 'article:delete', 'article:submit', 'article:comment', 'media:upload'];
+
+const EDITOR: Permission[] = [
+  ...AUTHOR,
+  'article:review',
+  'article:feature',
+  'article:publish',
+  'article:archive',
+  'article:notify',
+  'media:manage',
+];
+
+const ADMIN: Permission[] = [
+  ...EDITOR,
+  'category:manage',
+  'network:manage',
+  'article:import',
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, ReadonlySet<Permission>> = {
+  author: new Set(AUTHOR),
+  editor: new Set(EDITOR),
+  admin:  new Set(ADMIN),
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  author: 'Auteur',
+  editor: 'Éditeur',
+  admin:  'Administrateur',
+};
+
+/** Permissions that authors only hold on their own drafts */
+const OWN_DRAFT_ONLY: ReadonlySet<Permission> = new Set(['article:edit', 'article:delete']);
+
+/** Permissions that authors only hold on their own articles, whatever their status */
+const OWN_ONLY: ReadonlySet<Permission> = new Set(['article:submit']);
+
+/**
+ * Central permission check.
+ * `article` narrows article-level permissions: authors may only edit or delete
+ * drafts they created (including drafts sent back for corrections) and submit
+ * their own articles for review, editors and admins may act on every article.
+ */
+export function can(
+  user: AuthUser | null | undefined,
+  permission: Permission,
+  article?: Pick<Article, 'authorId' | 'status'> | null,
+): boolean {
+  if (!user) return false;
+  const granted = ROLE_PERMISSIONS[user.role];
+  if (!granted?.has(permission)) return false;
+
+  if (user.role === 'author' && article && OWN_DRAFT_ONLY.has(permission)) {
+    return article.authorId === user.id && (article.status === 'draft' || article.status === 'changes_requested');
+  }
+  if (user.role === 'author' && article && OWN_ONLY.has(permission)) {
+    return article.authorId === user.id;
+  }
+  return true;
+}
+
+// ── Network scope ───────────────────────────────────────────────────────────
+
+/**
+ * Networks a user is restricted to, or null when the user may see every
+ * network (admins and users without an assignment).
+ */
+export function getNetworkScope(user: AuthUser | null | undefined): ReadonlySet<string> | null {
+  if (!user || user.role === 'admin') return null;
+  if (!user.networkIds || user.networkIds.length === 0) return null;
+  return new Set(user.networkIds.map(String));
+}
+
+export function isNetworkInScope(
+  user: AuthUser | null | undefined,
+  networkId: number | string | null | undefined,
+): boolean {
+  const scope = getNetworkScope(user);
+  if (!scope) return true;
+  return networkId != null && scope.has(String(networkId));
+}
+
+export function isArticleInScope(
+  user: AuthUser | null | undefined,
+  article: Pick<Article, 'networkId' | 'network'>,
+): boolean {
+  return isNetworkInScope(user, article.networkId ?? article.network?.id);
+}
+
+export function scopeNetworks(user: AuthUser | null | undefined, networks: Network[]): Network[] {
+  const scope = getNetworkScope(user);
+  return scope ? networks.filter(n => scope.has(String(n.id))) : networks;
+}
@@ -0,0 +1,45 @@
+import type { QueryClient } from '@tanstack/react-query';
+import type { ArticlePresence, PresenceEntry } from '../types';
+
+// ── Edit presence and soft locks ────────────────────────────────────────────
+// Every tab with an article form open is a presence session, kept alive by a
+// heartbeat. The tab editing the article holds a soft lock: it warns the next
+// editor, who may read only or take over, but saves are never refused because
+// of it (edit conflicts still catch concurrent saves). The lock ends with its
+// session – tab closed, heartbeat stopped – or after a while without activity.
+//
+// Cached under ['presence']: every article someone has open.
+
+export const HEARTBEAT_MS = 20_000;
+
+/** Without keyboard or pointer activity for this long, the lock is released */
+export const IDLE_MS = 10 * 60_000;
+
+/** Identifies this tab: two tabs of the same user are two sessions */
+export const TAB_SESSION_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const lockHolder = (presence: ArticlePresence | undefined): PresenceEntry | undefined =>
+  presence?.entries.find(e => e.editing);
+
+/**
+ * People on the article, one entry per user – the lock holder's tab, else
+ * the oldest – lock holder first. `exceptSessionId` leaves a tab out.
+ */
+export function presentUsers(presence: ArticlePresence | undefined, exceptSessionId?: string): PresenceEntry[] {
+  const byUser = new Map<number, PresenceEntry>();
+  for (const entry of presence?.entries ?? []) {
+    if (entry.sessionId === exceptSessionId) continue;
+    const known = byUser.get(entry.userId);
+    if (!known || (entry.editing && !known.editing) || (!known.editing && entry.since < known.since)) {
+      byUser.set(entry.userId, entry);
+    }
+  }
+  return [...byUser.values()].sort((a, b) => Number(b.editing) - Number(a.editing) || a.since.localeCompare(b.since));
+}
+
+/** Replaces the cached presence of one article. */
+export function storePresence(qc: QueryClient, presence: ArticlePresence): void {
+  const cached = qc.getQueryData<ArticlePresence[]>(['presence']) ?? [];
+  const others = cached.filter(p => p.articleId !== presence.articleId);
+  qc.setQueryData<ArticlePresence[]>(['presence'], presence.entries.length ? [...others, presence] : others);
+}
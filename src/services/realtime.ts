@@ -0,0 +1,146 @@
+import type { QueryClient } from '@tanstack/react-query';
+import { api } from './api';
+import { settleArticleUpdate } from './articleCache';
+import { isDemoMode } from './demoMode';
+import { storePresence } from './presence';
+import { realtimeEventSchema } from './schemas';
+import { getAccessToken, getSession } from './session';
+import type { Article, Notification, RealtimeEvent } from '../types';
+
+// ── Server push ─────────────────────────────────────────────────────────────
+// Server-Sent Events on `GET /api/events`, one JSON event per message.
+// EventSource cannot send headers: the access token goes in the query string.
+// In demo mode the in-browser mock backend publishes the same events.
+
+export type RealtimeStatus = 'connecting' | 'open' | 'closed';
+
+interface RealtimeHandlers {
+  onEvent:   (event: RealtimeEvent) => void;
+  onStatus?: (status: RealtimeStatus) => void;
+}
+
+const RECONNECT_MIN_MS = 1_000;
+const RECONNECT_MAX_MS = 30_000;
+
+function parseEvent(raw: string): RealtimeEvent | null {
+  try {
+    const result = realtimeEventSchema.safeParse(JSON.parse(raw));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+function connectEventSource({ onEvent, onStatus }: RealtimeHandlers): () => void {
+  let source: EventSource | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let delay   = RECONNECT_MIN_MS;
+  let stopped = false;
+
+  const open = () => {
+    const url = new URL('/api/events', api.defaults.baseURL);
+    const token = getAccessToken();
+    if (token) url.searchParams.set('access_token', token);
+
+    onStatus?.('connecting');
+    source = new EventSource(url.toString());
+    source.onopen = () => {
+      delay = RECONNECT_MIN_MS;
+      onStatus?.('open');
+    };
+    source.onmessage = message => {
+      // Unknown or malformed events are ignored: the next refetch catches up
+      const event = parseEvent(message.data);
+      if (event) onEvent(event);
+    };
+    source.onerror = () => {
+      // EventSource retries by itself unless the server refused the stream
+      // (e.g. expired token): reconnect then with a fresh token and a backoff
+      if (source?.readyState !== EventSource.CLOSED || stopped) return;
+      onStatus?.('closed');
+      timer = setTimeout(open, delay);
+      delay = Math.min(delay * 2, RECONNECT_MAX_MS);
+    };
+  };
+
+  open();
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+    source?.close();
+    onStatus?.('closed');
+  };
+}
+
+function connectDemo({ onEvent, onStatus }: RealtimeHandlers): () => void {
+  let stop    = () => {};
+  let stopped = false;
+
+  onStatus?.('connecting');
+  Promise.all([import('../mocks/events'), import('../mocks/adapter'), import('../mocks/scheduler')]).then(
+    ([{ mockEvents, startColleagueActivity }, { demoDb }, { startScheduler }]) => {
+      if (stopped) return;
+      const unsubscribe   = mockEvents.subscribe(onEvent);
+      const stopActivity  = startColleagueActivity(demoDb, getSession()?.user.id);
+      const stopScheduler = startScheduler(demoDb);
+      stop = () => { unsubscribe(); stopActivity(); stopScheduler(); };
+      onStatus?.('open');
+    },
+  );
+
+  return () => {
+    stopped = true;
+    stop();
+    onStatus?.('closed');
+  };
+}
+
+/** Opens the events channel; returns the function that closes it. */
+export function connectRealtime(handlers: RealtimeHandlers): () => void {
+  return isDemoMode() ? connectDemo(handlers) : connectEventSource(handlers);
+}
+
+// ── Query cache ─────────────────────────────────────────────────────────────
+
+/** Brings the cached articles and notifications up to date with an event. */
+export function applyRealtimeEvent(qc: QueryClient, event: RealtimeEvent): void {
+  switch (event.type) {
+    case 'article.created':
+      // Its position in each list is only known to the server
+      qc.invalidateQueries({ queryKey: ['articles'] });
+      break;
+
+    case 'article.updated': {
+      const fields = (event.fields ?? Object.keys(event.article)) as (keyof Article)[];
+      settleArticleUpdate(qc, event.article, fields);
+      qc.invalidateQueries({ queryKey: ['revisions', String(event.article.id)] });
+      break;
+    }
+
+    case 'article.status_changed':
+      settleArticleUpdate(qc, event.article, ['status']);
+      qc.invalidateQueries({ queryKey: ['revisions', String(event.article.id)] });
+      break;
+
+    case 'article.deleted':
+      qc.removeQueries({ queryKey: ['article', String(event.id)] });
+      qc.removeQueries({ queryKey: ['revisions', String(event.id)] });
+      qc.invalidateQueries({ queryKey: ['articles'] });
+      break;
+
+    case 'article.presence':
+      storePresence(qc, event.presence);
+      break;
+
+    case 'notification.status': {
+      const { notification } = event;
+      const cached = qc.getQueryData<Notification[]>(['notifications']);
+      if (cached?.some(n => n.id === notification.id)) {
+        qc.setQueryData<Notification[]>(['notifications'], cached.map(n => (n.id === notification.id ? notification : n)));
+      } else {
+        qc.invalidateQueries({ queryKey: ['notifications'] });
+      }
+      break;
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import type { ImageCrop, Network, RenditionRatio } from '../types';
+
+// ── Cover renditions ────────────────────────────────────────────────────────
+// An article stores one framing of its cover (`ImageCrop`): the area kept and
+// a focal point. Each format a network publishes (16:9, 1:1, 4:5) is cut from
+// that area, as large as it fits, centred on the focal point as far as the
+// area allows. Everything is in fractions of the image, whatever its size.
+
+export const RENDITION_RATIOS: RenditionRatio[] = ['16:9', '1:1', '4:5'];
+
+export const RENDITION_LABELS: Record<RenditionRatio, string> = {
+  '16:9': 'Paysage 16:9',
+  '1:1':  'Carré 1:1',
+  '4:5':  'Portrait 4:5',
+};
+
+/** Width / height */
+export function ratioValue(ratio: RenditionRatio): number {
+  const [width, height] = ratio.split(':').map(Number);
+  return width / height;
+}
+
+/** Formats previewed for a network: all of them when it names none */
+export function networkRenditions(network: Pick<Network, 'renditions'> | null | undefined): RenditionRatio[] {
+  const wanted = network?.renditions ?? [];
+  return wanted.length > 0 ? RENDITION_RATIOS.filter(r => wanted.includes(r)) : RENDITION_RATIOS;
+}
+
+/** The whole image, focused on its centre */
+export const FULL_FRAME: ImageCrop = { x: 0, y: 0, width: 1, height: 1, focalX: 0.5, focalY: 0.5 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Smallest area the tool lets the user keep, per side */
+export const MIN_CROP = 0.05;
+
+/** Keeps the area inside the image and the focal point inside the area */
+export function normalizeCrop(crop: ImageCrop): ImageCrop {
+  const x      = clamp(crop.x, 0, 1 - MIN_CROP);
+  const y      = clamp(crop.y, 0, 1 - MIN_CROP);
+  const width  = clamp(crop.width, MIN_CROP, 1 - x);
+  const height = clamp(crop.height, MIN_CROP, 1 - y);
+  return {
+    x,
+    y,
+    width,
+    height,
+    focalX: clamp(crop.focalX, x, x + width),
+    focalY: clamp(crop.focalY, y, y + height),
+  };
+}
+
+// Rounding from the pointer makes edges overshoot by a hair
+const EPSILON = 1e-6;
+
+/** Why a framing is not valid, null when it is */
+export function cropError(crop: ImageCrop): string | null {
+  const values = [crop.x, crop.y, crop.width, crop.height, crop.focalX, crop.focalY];
+  if (values.some(v => !Number.isFinite(v) || v < 0 || v > 1)) return 'Valeurs attendues entre 0 et 1';
+  if (crop.width <= 0 || crop.height <= 0) return 'Zone conservée vide';
+  if (crop.x + crop.width > 1 + EPSILON || crop.y + crop.height > 1 + EPSILON) return 'Zone conservée hors de l’image';
+  const inside = crop.focalX >= crop.x - EPSILON && crop.focalX <= crop.x + crop.width + EPSILON
+    && crop.focalY >= crop.y - EPSILON && crop.focalY <= crop.y + crop.height + EPSILON;
+  return inside ? null : 'Point focal hors de la zone conservée';
+}
+
+/** Framing in words, e.g. in the history of an article; '' for the whole image */
+export function describeCrop(crop: ImageCrop | null | undefined): string {
+  if (!crop) return '';
+  const pc = (value: number) => `${Math.round(value * 100)} %`;
+  return `Zone de ${pc(crop.width)} × ${pc(crop.height)} à ${pc(crop.x)}, ${pc(crop.y)} – point focal à ${pc(crop.focalX)}, ${pc(crop.focalY)}`;
+}
+
+export interface Rect {
+  x:      number;
+  y:      number;
+  width:  number;
+  height: number;
+}
+
+/**
+ * Part of the image shown by a rendition, in fractions of the image.
+ * `imageAspect` is the width / height of the source image.
+ */
+export function renditionRect(crop: ImageCrop | null | undefined, ratio: RenditionRatio, imageAspect: number): Rect {
+  const area   = crop ?? FULL_FRAME;
+  const target = ratioValue(ratio);
+  // Sizes in units of the image height, where the image is `imageAspect` wide
+  const areaWidth = area.width * imageAspect;
+  const fitsWidth = areaWidth / area.height > target;
+  const width  = fitsWidth ? (area.height * target) / imageAspect : area.width;
+  const height = fitsWidth ? area.height : areaWidth / target;
+  return {
+    x:      clamp(area.focalX - width / 2, area.x, area.x + area.width - width),
+    y:      clamp(area.focalY - height / 2, area.y, area.y + area.height - height),
+    width,
+    height,
+  };
+}
+
+const percent = (value: number) => `${Math.round(value * 10000) / 100}%`;
+
+/**
+ * Style of an image showing `rect` exactly, inside a box with the aspect ratio
+ * of the rendition, positioned relative and clipping its overflow.
+ */
+export function renditionImageStyle(rect: Rect) {
+  return {
+    position: 'absolute',
+    maxWidth: 'none',
+    width:    percent(1 / rect.width),
+    height:   percent(1 / rect.height),
+    left:     percent(-rect.x / rect.width),
+    top:      percent(-rect.y / rect.height),
+  } as const;
+}
+
+/**
+ * CSS `object-position` keeping the focal point in view under
+ * `object-fit: cover`, where the size of the image is not known (e-mails).
+ */
+export function focalObjectPosition(crop: ImageCrop | null | undefined): string {
+  const { focalX, focalY } = crop ?? FULL_FRAME;
+  return `${percent(focalX)} ${percent(focalY)}`;
+}
@@ -0,0 +1,1081 @@
+import { safeUrl } from './sanitize';
+
+// ── Rich text document ──────────────────────────────────────────────────────
+// The content editor works on a document model rather than on the browser's
+// markup: a flat list of blocks, each holding runs of text sharing the same
+// marks. Consecutive list items, quote lines and callout lines are grouped
+// into one list, blockquote or box when written out. Any HTML is read into
+// the model (markup it does not know keeps its text, loses its formatting)
+// and written back in a single normalised form, whatever the browser
+// produced while typing. Links and images keep only safe URLs.
+
+export interface Marks {
+  bold?:      boolean;
+  italic?:    boolean;
+  underline?: boolean;
+  /** href of the link */
+  link?:      string;
+}
+
+export type InlineMark = 'bold' | 'italic' | 'underline';
+
+export interface TextRun {
+  /** '\n' for a line break */
+  text:  string;
+  marks: Marks;
+}
+
+export type CalloutTone = 'info' | 'warning' | 'success';
+
+export type TextFormat =
+  | 'paragraph'
+  | 'heading2'
+  | 'heading3'
+  | 'heading4'
+  | 'quote'
+  | 'pullquote'
+  | 'bulleted'
+  | 'numbered'
+  /** Pre-formatted text, without marks */
+  | 'code'
+  | `callout-${CalloutTone}`;
+
+export const CALLOUT_TONES: CalloutTone[] = ['info', 'warning', 'success'];
+
+export interface TextBlock {
+  type: TextFormat;
+  runs: TextRun[];
+}
+
+/** An image of the media library, kept as inserted */
+export interface FigureBlock {
+  type:     'figure';
+  src:      string;
+  alt:      string;
+  mediaId?: string;
+  width?:   string;
+  height?:  string;
+  caption:  string;
+}
+
+/** Horizontal rule */
+export interface RuleBlock {
+  type: 'rule';
+}
+
+export interface TableBlock {
+  type:   'table';
+  /** The first row heads the columns */
+  header: boolean;
+  /** Runs of each cell, row by row; every row has the same number of cells */
+  rows:   TextRun[][][];
+}
+
+export type Block = TextBlock | FigureBlock | RuleBlock | TableBlock;
+
+export type RichDocument = Block[];
+
+export interface CellPosition {
+  row:    number;
+  column: number;
+}
+
+/**
+ * A place in the document: a block and a character offset in it. Images,
+ * rules and tables count as one character, unless the position is in a cell
+ * of the table, the offset then being in the cell.
+ */
+export interface DocPosition {
+  block:  number;
+  offset: number;
+  cell?:  CellPosition;
+}
+
+/** Selection in the document, start before end */
+export interface DocRange {
+  start: DocPosition;
+  end:   DocPosition;
+}
+
+/** What the toolbar shows as active at the selection */
+export interface ActiveFormat {
+  marks:  Marks;
+  format: TextFormat | null;
+  /** Cell holding the caret */
+  cell:   CellPosition | null;
+}
+
+export const isTextBlock = (block: Block | undefined): block is TextBlock => !!block && 'runs' in block;
+
+export const isTable = (block: Block | undefined): block is TableBlock => block?.type === 'table';
+
+const runsLength = (runs: TextRun[]) => runs.reduce((length, run) => length + run.text.length, 0);
+
+export function blockLength(block: Block): number {
+  return isTextBlock(block) ? runsLength(block.runs) : 1;
+}
+
+export function blockText(block: Block): string {
+  return isTextBlock(block) ? block.runs.map(run => run.text).join('') : '';
+}
+
+export const collapsed = (position: DocPosition): DocRange => ({ start: position, end: position });
+
+const sameCell = (a: CellPosition | undefined, b: CellPosition | undefined) =>
+  a === b || (!!a && !!b && a.row === b.row && a.column === b.column);
+
+const samePosition = (a: DocPosition, b: DocPosition) =>
+  a.block === b.block && a.offset === b.offset && sameCell(a.cell, b.cell);
+
+export const isCollapsed = ({ start, end }: DocRange) => samePosition(start, end);
+
+export const sameRange = (a: DocRange | null, b: DocRange | null) =>
+  a === b || (!!a && !!b && samePosition(a.start, b.start) && samePosition(a.end, b.end));
+
+// ── Runs ────────────────────────────────────────────────────────────────────
+
+const MARK_KEYS: Array<keyof Marks> = ['link', 'bold', 'italic', 'underline'];
+
+const sameMarks = (a: Marks, b: Marks) => MARK_KEYS.every(key => (a[key] || undefined) === (b[key] || undefined));
+
+/** Marks without the unset keys, so that equal marks look equal */
+function cleanMarks(marks: Marks): Marks {
+  const clean: Marks = {};
+  if (marks.link)      clean.link      = marks.link;
+  if (marks.bold)      clean.bold      = true;
+  if (marks.italic)    clean.italic    = true;
+  if (marks.underline) clean.underline = true;
+  return clean;
+}
+
+/** Drops empty runs and merges neighbours with the same marks */
+export function normalizeRuns(runs: TextRun[]): TextRun[] {
+  const merged: TextRun[] = [];
+  for (const run of runs) {
+    if (!run.text) continue;
+    const last = merged[merged.length - 1];
+    if (last && sameMarks(last.marks, run.marks)) last.text += run.text;
+    else merged.push({ text: run.text, marks: cleanMarks(run.marks) });
+  }
+  return merged;
+}
+
+/** Runs before and from `offset` */
+function splitRuns(runs: TextRun[], offset: number): [TextRun[], TextRun[]] {
+  const before: TextRun[] = [];
+  const after:  TextRun[] = [];
+  let position = 0;
+  for (const run of runs) {
+    const end = position + run.text.length;
+    if (end <= offset) before.push(run);
+    else if (position >= offset) after.push(run);
+    else {
+      before.push({ text: run.text.slice(0, offset - position), marks: run.marks });
+      after.push({ text: run.text.slice(offset - position), marks: run.marks });
+    }
+    position = end;
+  }
+  return [before, after];
+}
+
+/** Runs between two offsets */
+function sliceRuns(runs: TextRun[], start: number, end: number): TextRun[] {
+  return splitRuns(splitRuns(runs, end)[0], start)[1];
+}
+
+/** Index of the run holding the character before `offset`, or after it at the start; -1 when empty */
+function runIndexAt(runs: TextRun[], offset: number): number {
+  let position = 0;
+  for (let i = 0; i < runs.length; i++) {
+    position += runs[i].text.length;
+    if (offset <= position) return i;
+  }
+  return runs.length - 1;
+}
+
+const runAt = (runs: TextRun[], offset: number): TextRun | undefined => runs[runIndexAt(runs, offset)];
+
+/** The text of runs as one plain run: code keeps no marks */
+const plainRuns = (runs: TextRun[]): TextRun[] => normalizeRuns([{ text: runs.map(run => run.text).join(''), marks: {} }]);
+
+// ── Reading HTML ────────────────────────────────────────────────────────────
+
+/** A DOM position (as in a Range) to find in the document while reading it */
+export interface DomPoint {
+  node:   Node;
+  offset: number;
+}
+
+const HEADINGS: Record<string, TextFormat> = {
+  h1: 'heading2', h2: 'heading2', h3: 'heading3', h4: 'heading4', h5: 'heading4', h6: 'heading4',
+};
+
+const BLOCK_TAGS = new Set(['p', 'div', 'li', 'section', 'article', 'header', 'footer', 'aside', 'dd', 'dt']);
+
+const IGNORED_TAGS = new Set(['script', 'style', 'template', 'head', 'title', 'meta', 'link', 'noscript']);
+
+const INLINE_MARKS: Record<string, InlineMark> = {
+  strong: 'bold', b: 'bold', em: 'italic', i: 'italic', u: 'underline',
+};
+
+/** Format of the blocks an element groups: lists, quotes and callout boxes */
+function groupFormat(element: Element, tag: string): TextFormat | null {
+  if (tag === 'ul') return 'bulleted';
+  if (tag === 'ol') return 'numbered';
+  if (tag === 'blockquote') return element.classList.contains('pullquote') ? 'pullquote' : 'quote';
+  if (tag === 'div' && element.classList.contains('callout')) {
+    const tone = CALLOUT_TONES.find(t => element.classList.contains(`callout-${t}`)) ?? 'info';
+    return `callout-${tone}`;
+  }
+  return null;
+}
+
+/** Cell being read: its content goes on as one block, blocks in it become lines */
+interface ReadingCell {
+  position: CellPosition;
+  block:    TextBlock;
+}
+
+class Reader {
+  readonly blocks: RichDocument = [];
+  /** Points found, by index in the points searched */
+  readonly found: Array<DocPosition | null>;
+  /** Block receiving inline content */
+  private open: TextBlock | null = null;
+  private cell: ReadingCell | null = null;
+  /** Format of the blocks opened by inline content or by a <p> */
+  private context: TextFormat = 'paragraph';
+  private marks:   Marks = {};
+  /** In a <pre>: whitespace is kept, marks are not */
+  private preformatted = false;
+  /** Points met between two blocks: they stand at the start of the next one */
+  private waiting: number[] = [];
+
+  constructor(private readonly points: DomPoint[]) {
+    this.found = points.map(() => null);
+  }
+
+  read(node: Node): void {
+    if (node.nodeType === Node.TEXT_NODE) {
+      this.readText(node as Text);
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    if (IGNORED_TAGS.has(tag)) return;
+
+    if (tag === 'br') {
+      this.pointsIn(node);
+      this.append('\n');
+      return;
+    }
+    if (tag === 'img' || tag === 'figure') {
+      const image = tag === 'img' ? element : element.querySelector('img');
+      if (image) {
+        this.figure(node, image, tag === 'figure' ? element.querySelector('figcaption')?.textContent ?? '' : '');
+        return;
+      }
+    }
+    if (tag === 'hr') {
+      this.atomic(node, { type: 'rule' });
+      return;
+    }
+    if (tag === 'table' && !this.cell) {
+      this.table(element as HTMLTableElement);
+      return;
+    }
+
+    const heading = HEADINGS[tag];
+    const group   = this.cell ? null : groupFormat(element, tag);
+    const mark    = INLINE_MARKS[tag];
+    const href    = tag === 'a' ? element.getAttribute('href') : null;
+    const link    = href ? safeUrl(href) ?? undefined : undefined;
+    const opens   = !!heading || tag === 'pre' || (!group && BLOCK_TAGS.has(tag));
+
+    const saved = { context: this.context, marks: this.marks, preformatted: this.preformatted };
+    if (group) {
+      this.close();
+      this.context = group;
+    }
+    if (opens) this.openBlock(tag === 'pre' ? 'code' : heading ?? this.context);
+    if (tag === 'pre') this.preformatted = true;
+    if (mark && !this.preformatted) this.marks = { ...this.marks, [mark]: true };
+    if (link && !this.preformatted) this.marks = { ...this.marks, link };
+
+    this.readChildren(node);
+
+    if (opens || group) this.close();
+    this.context      = saved.context;
+    this.marks        = saved.marks;
+    this.preformatted = saved.preformatted;
+  }
+
+  readChildren(node: Node): void {
+    node.childNodes.forEach((child, index) => {
+      this.pointsAt(node, index);
+      this.read(child);
+    });
+    this.pointsAt(node, node.childNodes.length);
+  }
+
+  /** The document, with the points searched */
+  finish(): RichDocument {
+    this.close();
+    const last = this.blocks.length - 1;
+    this.waiting.forEach(index => {
+      this.found[index] = last < 0 ? { block: 0, offset: 0 } : { block: last, offset: blockLength(this.blocks[last]) };
+    });
+    this.blocks.forEach(block => {
+      if (isTextBlock(block)) block.runs = block.type === 'code' ? plainRuns(block.runs) : normalizeRuns(block.runs);
+    });
+    return this.blocks;
+  }
+
+  private readText(node: Text): void {
+    // Source indentation is not content: whitespace alone between blocks is skipped
+    const text = this.preformatted ? node.data : node.data.replace(/[\t\n\r]/g, ' ');
+    if (!this.open && !text.trim()) {
+      this.pointsIn(node);
+      return;
+    }
+    if (!this.open) this.openBlock(this.context);
+    const start = blockLength(this.open!);
+    this.points.forEach((point, index) => {
+      if (point.node === node) this.place(index, this.position(start + Math.min(point.offset, text.length)));
+    });
+    this.open!.runs.push({ text, marks: this.marks });
+  }
+
+  private append(text: string): void {
+    if (!this.open) this.openBlock(this.context);
+    this.open!.runs.push({ text, marks: this.marks });
+  }
+
+  private figure(node: Node, image: Element, caption: string): void {
+    // Images do not go in table cells
+    if (this.cell) return;
+    const attribute = (name: string) => image.getAttribute(name) ?? undefined;
+    const src = safeUrl(attribute('src') ?? '', 'image');
+    if (!src) return;
+    this.atomic(node, {
+      type:    'figure',
+      src,
+      alt:     attribute('alt') ?? '',
+      mediaId: attribute('data-media-id'),
+      width:   attribute('width'),
+      height:  attribute('height'),
+      caption: caption.trim(),
+    });
+  }
+
+  /** A block without text; points on it stand before it */
+  private atomic(node: Node, block: FigureBlock | RuleBlock): void {
+    if (this.cell) return;
+    this.close();
+    this.points.forEach((point, i) => {
+      if (point.node === node || node.contains(point.node)) this.place(i, { block: this.blocks.length, offset: 0 });
+    });
+    this.push(block);
+  }
+
+  private table(element: HTMLTableElement): void {
+    this.close();
+    const table: TableBlock = { type: 'table', header: false, rows: [] };
+    this.push(table);
+    const index = this.blocks.length - 1;
+
+    [...element.rows].forEach((row, r) => {
+      const cells = [...row.cells];
+      if (r === 0) table.header = cells.length > 0 && cells.every(cell => cell.tagName.toLowerCase() === 'th');
+      table.rows.push(cells.map((cell, column) => {
+        const block: TextBlock = { type: 'paragraph', runs: [] };
+        this.cell = { position: { row: r, column }, block };
+        this.open = block;
+        this.readChildren(cell);
+        this.close();
+        return normalizeRuns(block.runs);
+      }));
+    });
+    this.cell = null;
+    this.open = null;
+
+    const columns = Math.max(1, ...table.rows.map(row => row.length));
+    if (table.rows.length === 0) table.rows.push([]);
+    table.rows = table.rows.map(row => [...row, ...Array.from({ length: columns - row.length }, () => [])]);
+    // Points between rows stand before the table
+    this.points.forEach((point, i) => {
+      if (element.contains(point.node)) this.place(i, { block: index, offset: 0 });
+    });
+  }
+
+  private openBlock(type: TextFormat): void {
+    if (this.cell) {
+      // Blocks in a cell are lines of it
+      const text = blockText(this.cell.block);
+      if (text && !text.endsWith('\n')) this.cell.block.runs.push({ text: '\n', marks: {} });
+      return;
+    }
+    // A <p> in a <li> continues the item the <li> opened
+    if (this.open && this.open.type === type && blockLength(this.open) === 0) return;
+    this.close();
+    const block: TextBlock = { type, runs: [] };
+    this.push(block);
+    this.open = block;
+  }
+
+  private push(block: Block): void {
+    this.blocks.push(block);
+    const index = this.blocks.length - 1;
+    this.waiting.forEach(point => this.place(point, { block: index, offset: 0 }));
+    this.waiting = [];
+  }
+
+  private close(): void {
+    const block = this.open;
+    if (this.cell) {
+      if (block !== this.cell.block) return;
+    } else {
+      this.open = null;
+    }
+    if (!block) return;
+    // The browser keeps a <br> at the end of a block so that its last line shows
+    const last = block.runs[block.runs.length - 1];
+    if (last?.text.endsWith('\n')) last.text = last.text.slice(0, -1);
+  }
+
+  /** Position at `offset` in the block, or the cell, being read */
+  private position(offset: number): DocPosition {
+    const block = this.blocks.length - 1;
+    return this.cell ? { block, offset, cell: this.cell.position } : { block, offset };
+  }
+
+  /** Points between the children of `node`, before child `index` */
+  private pointsAt(node: Node, index: number): void {
+    this.points.forEach((point, i) => {
+      if (point.node === node && point.offset === index) this.here(i);
+    });
+  }
+
+  /** Points on `node`, which has no text of its own: they stand where it does */
+  private pointsIn(node: Node): void {
+    this.points.forEach((point, i) => {
+      if (point.node === node) this.here(i);
+    });
+  }
+
+  private here(index: number): void {
+    if (this.open) this.place(index, this.position(blockLength(this.open)));
+    else this.waiting.push(index);
+  }
+
+  private place(index: number, position: DocPosition): void {
+    if (!this.found[index]) this.found[index] = position;
+  }
+}
+
+/** Reads HTML, or the children of a node, into a document */
+export function parseHtml(source: string | Node): RichDocument {
+  return readDocument(source).doc;
+}
+
+/** Reads HTML, or the children of a node, finding where the DOM points stand in the document */
+export function readDocument(source: string | Node, points: DomPoint[] = []): { doc: RichDocument; positions: DocPosition[] } {
+  const root   = typeof source === 'string' ? parseFragment(source) : source;
+  const reader = new Reader(points);
+  reader.readChildren(root);
+  const doc = reader.finish();
+  return { doc, positions: reader.found.map(position => position ?? { block: 0, offset: 0 }) };
+}
+
+function parseFragment(html: string): Node {
+  // Parsed inert: nothing loads or runs
+  return new DOMParser().parseFromString(html, 'text/html').body;
+}
+
+// ── Writing HTML ────────────────────────────────────────────────────────────
+
+/** Element grouping consecutive blocks of a format */
+const CONTAINERS: Partial<Record<TextFormat, { tag: string; className?: string }>> = {
+  bulleted:          { tag: 'ul' },
+  numbered:          { tag: 'ol' },
+  quote:             { tag: 'blockquote' },
+  pullquote:         { tag: 'blockquote', className: 'pullquote' },
+  'callout-info':    { tag: 'div', className: 'callout callout-info' },
+  'callout-warning': { tag: 'div', className: 'callout callout-warning' },
+  'callout-success': { tag: 'div', className: 'callout callout-success' },
+};
+
+/** Element of each block */
+const ELEMENTS: Record<TextFormat, string> = {
+  paragraph: 'p',
+  heading2:  'h2',
+  heading3:  'h3',
+  heading4:  'h4',
+  quote:     'p',
+  pullquote: 'p',
+  bulleted:  'li',
+  numbered:  'li',
+  code:      'pre',
+  'callout-info':    'p',
+  'callout-warning': 'p',
+  'callout-success': 'p',
+};
+
+const MARK_ELEMENTS: Record<InlineMark, string> = { bold: 'strong', italic: 'em', underline: 'u' };
+
+/**
+ * Appends the runs to `parent`, nesting marks always in the same order (link,
+ * bold, italic, underline) so that neighbouring runs share their elements.
+ */
+function writeRuns(parent: Node, runs: TextRun[], keys = MARK_KEYS): void {
+  const [key, ...rest] = keys;
+  if (!key) {
+    runs.forEach(run => run.text.split('\n').forEach((line, i) => {
+      if (i > 0) parent.appendChild(document.createElement('br'));
+      if (line) parent.appendChild(document.createTextNode(line));
+    }));
+    return;
+  }
+  for (let i = 0; i < runs.length;) {
+    const value = runs[i].marks[key];
+    let j = i + 1;
+    while (j < runs.length && runs[j].marks[key] === value) j++;
+    const group = runs.slice(i, j);
+    if (value) {
+      const element = document.createElement(key === 'link' ? 'a' : MARK_ELEMENTS[key]);
+      if (key === 'link') element.setAttribute('href', value as string);
+      writeRuns(element, group, rest);
+      parent.appendChild(element);
+    } else {
+      writeRuns(parent, group, rest);
+    }
+    i = j;
+  }
+}
+
+/** Fills the element of a block or cell; while editing, an empty last line gets the <br> it needs to show */
+function writeText(element: HTMLElement, runs: TextRun[], editing: boolean, preformatted = false): void {
+  const text = runs.map(run => run.text).join('');
+  if (preformatted) {
+    const code = document.createElement('code');
+    if (text) code.append(text);
+    if (editing && (!text || text.endsWith('\n'))) code.append(document.createElement('br'));
+    element.append(code);
+    return;
+  }
+  writeRuns(element, runs);
+  if (editing && (!text || text.endsWith('\n'))) element.append(document.createElement('br'));
+}
+
+function writeFigure(block: FigureBlock, editing: boolean): HTMLElement {
+  const figure = document.createElement('figure');
+  // An image is moved or removed whole, its legend comes from the media library
+  if (editing) figure.setAttribute('contenteditable', 'false');
+  const image = document.createElement('img');
+  image.setAttribute('src', block.src);
+  image.setAttribute('alt', block.alt);
+  if (block.mediaId) image.setAttribute('data-media-id', block.mediaId);
+  if (block.width)   image.setAttribute('width', block.width);
+  if (block.height)  image.setAttribute('height', block.height);
+  figure.append(image);
+  if (block.caption) {
+    const caption = document.createElement('figcaption');
+    caption.textContent = block.caption;
+    figure.append(caption);
+  }
+  return figure;
+}
+
+function writeTable(block: TableBlock, editing: boolean): HTMLElement {
+  const table = document.createElement('table');
+  const section = (tag: string, rows: TextRun[][][], cellTag: string) => {
+    if (rows.length === 0) return;
+    const element = document.createElement(tag);
+    rows.forEach(cells => {
+      const row = document.createElement('tr');
+      cells.forEach(runs => {
+        const cell = document.createElement(cellTag);
+        writeText(cell, runs, editing);
+        row.append(cell);
+      });
+      element.append(row);
+    });
+    table.append(element);
+  };
+  const [first, ...others] = block.rows;
+  if (block.header) {
+    section('thead', [first], 'th');
+    section('tbody', others, 'td');
+  } else {
+    section('tbody', block.rows, 'td');
+  }
+  return table;
+}
+
+/**
+ * DOM of the document. While `editing`, empty blocks are kept, with the <br>
+ * the browser needs to show a line, and images cannot be typed into.
+ */
+export function renderDocument(doc: RichDocument, editing = false): DocumentFragment {
+  const fragment = document.createDocumentFragment();
+  // List, quote or box the previous block went into
+  let container = null as { format: TextFormat; element: HTMLElement } | null;
+  for (const block of doc) {
+    if (!isTextBlock(block)) {
+      container = null;
+      if (block.type === 'figure') fragment.append(writeFigure(block, editing));
+      else if (block.type === 'rule') fragment.append(document.createElement('hr'));
+      else fragment.append(writeTable(block, editing));
+      continue;
+    }
+    if (!editing && !blockText(block)) continue;
+
+    const group = CONTAINERS[block.type];
+    if (!group) container = null;
+    else if (container?.format !== block.type) {
+      const element = document.createElement(group.tag);
+      if (group.className) element.className = group.className;
+      container = { format: block.type, element };
+      fragment.append(element);
+    }
+    const element = document.createElement(ELEMENTS[block.type]);
+    writeText(element, block.runs, editing, block.type === 'code');
+    (container?.element ?? fragment).append(element);
+  }
+  return fragment;
+}
+
+function serialize(doc: RichDocument, editing: boolean): string {
+  const root = document.createElement('div');
+  root.append(renderDocument(doc, editing));
+  return root.innerHTML;
+}
+
+/** Normalised HTML of the document, as saved */
+export function toHtml(doc: RichDocument): string {
+  return serialize(doc, false);
+}
+
+/** HTML the editor shows for the document, to tell whether its DOM is still normalised */
+export function toEditingHtml(doc: RichDocument): string {
+  return serialize(doc, true);
+}
+
+/** Element of each block in a DOM rendered by `renderDocument`, in order */
+function blockElements(root: Node): Element[] {
+  return [...root.childNodes].flatMap(node => {
+    if (!(node instanceof Element)) return [];
+    const tag = node.tagName.toLowerCase();
+    const grouping = tag === 'ul' || tag === 'ol' || tag === 'blockquote' || (tag === 'div' && node.classList.contains('callout'));
+    return grouping ? [...node.children] : [node];
+  });
+}
+
+const indexIn = (node: Node) => [...node.parentNode!.childNodes].indexOf(node as ChildNode);
+
+/** DOM position at a character offset in the element of a block or cell */
+function textPoint(element: Element, offset: number): DomPoint {
+  let counted = 0;
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT | NodeFilter.SHOW_ELEMENT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const length = (node as Text).length;
+      if (offset <= counted + length) return { node, offset: offset - counted };
+      counted += length;
+    } else if ((node as Element).tagName.toLowerCase() === 'br') {
+      if (offset === counted) return { node: node.parentNode!, offset: indexIn(node) };
+      counted += 1;
+    }
+  }
+  const last = element.tagName.toLowerCase() === 'pre' ? element.firstElementChild ?? element : element;
+  return { node: last, offset: last.childNodes.length };
+}
+
+/** DOM position of a document position, in a DOM rendered by `renderDocument` */
+export function domPoint(root: Node, position: DocPosition): DomPoint {
+  const element = blockElements(root)[position.block];
+  if (!element) return { node: root, offset: root.childNodes.length };
+  if (position.cell && element instanceof HTMLTableElement) {
+    const cell = element.rows[position.cell.row]?.cells[position.cell.column];
+    if (cell) return textPoint(cell, position.offset);
+  }
+  const tag = element.tagName.toLowerCase();
+  if (tag === 'figure' || tag === 'hr' || tag === 'table') {
+    return { node: element.parentNode!, offset: position.offset > 0 ? indexIn(element) + 1 : indexIn(element) };
+  }
+  return textPoint(element, position.offset);
+}
+
+// ── Editing ─────────────────────────────────────────────────────────────────
+// Commands take the document and the selection and return new ones; blocks
+// they do not change are kept as they are.
+
+export interface Edit {
+  doc:   RichDocument;
+  range: DocRange;
+}
+
+/** Part of a block or cell the range covers */
+interface TextPart {
+  runs:   TextRun[];
+  start:  number;
+  end:    number;
+  /** null in a table cell */
+  format: TextFormat | null;
+}
+
+const cellIndex = (table: TableBlock, cell: CellPosition) => cell.row * table.rows[0].length + cell.column;
+
+/**
+ * Calls `fn` with each part of text the range covers, in order. What it
+ * returns replaces the runs of the part.
+ */
+function mapTextParts(doc: RichDocument, range: DocRange, fn: (part: TextPart) => TextRun[] | void): RichDocument {
+  const next = [...doc];
+  for (let index = range.start.block; index <= range.end.block; index++) {
+    const block = doc[index];
+    if (isTextBlock(block)) {
+      const start = index === range.start.block ? range.start.offset : 0;
+      const end   = index === range.end.block ? range.end.offset : blockLength(block);
+      const runs  = fn({ runs: block.runs, start, end, format: block.type });
+      if (runs) next[index] = { ...block, runs };
+    } else if (isTable(block)) {
+      const columns = block.rows[0].length;
+      const first = index === range.start.block && range.start.cell ? cellIndex(block, range.start.cell) : 0;
+      const last  = index === range.end.block && range.end.cell ? cellIndex(block, range.end.cell) : block.rows.length * columns - 1;
+      let rows = block.rows;
+      for (let i = first; i <= last; i++) {
+        const row   = Math.floor(i / columns);
+        const runs  = block.rows[row][i % columns];
+        const start = i === first && index === range.start.block && range.start.cell ? range.start.offset : 0;
+        const end   = i === last && index === range.end.block && range.end.cell ? range.end.offset : runsLength(runs);
+        const changed = fn({ runs, start, end, format: null });
+        if (!changed) continue;
+        if (rows === block.rows) rows = block.rows.map(cells => [...cells]);
+        rows[row][i % columns] = changed;
+      }
+      if (rows !== block.rows) next[index] = { ...block, rows };
+    }
+  }
+  return next;
+}
+
+/** Changes the marks of the text the range covers; code keeps none */
+function mapMarks(doc: RichDocument, range: DocRange, fn: (marks: Marks) => Marks): RichDocument {
+  return mapTextParts(doc, range, ({ runs, start, end, format }) => {
+    if (start === end || format === 'code') return;
+    const [before, rest]  = splitRuns(runs, start);
+    const [inside, after] = splitRuns(rest, end - start);
+    return normalizeRuns([...before, ...inside.map(run => ({ ...run, marks: fn(run.marks) })), ...after]);
+  });
+}
+
+/** Runs of the block or cell at a position, null on an image, rule or table */
+export function runsAt(doc: RichDocument, position: DocPosition): TextRun[] | null {
+  const block = doc[position.block];
+  if (isTextBlock(block)) return block.runs;
+  if (isTable(block) && position.cell) return block.rows[position.cell.row]?.[position.cell.column] ?? null;
+  return null;
+}
+
+/** The document with the runs of the block or cell at `position` replaced */
+function withRunsAt(doc: RichDocument, position: DocPosition, runs: TextRun[]): RichDocument {
+  const block = doc[position.block];
+  const next  = [...doc];
+  if (isTextBlock(block)) next[position.block] = { ...block, runs };
+  else if (isTable(block) && position.cell) {
+    const { row, column } = position.cell;
+    next[position.block] = { ...block, rows: block.rows.map((cells, r) => (r === row ? cells.map((cell, c) => (c === column ? runs : cell)) : cells)) };
+  }
+  return next;
+}
+
+/** Marks and block format at the selection: a mark is active when all the selected text has it */
+export function activeFormat(doc: RichDocument, range: DocRange): ActiveFormat {
+  const block  = doc[range.start.block];
+  const format = isTextBlock(block) ? block.type : null;
+  const cell   = isTable(block) ? range.start.cell ?? null : null;
+  if (isCollapsed(range)) {
+    const runs = runsAt(doc, range.start);
+    return { marks: runs ? { ...runAt(runs, range.start.offset)?.marks } : {}, format, cell };
+  }
+  const runs: TextRun[] = [];
+  mapTextParts(doc, range, part => {
+    runs.push(...sliceRuns(part.runs, part.start, part.end).filter(run => run.text.trim()));
+  });
+  const marks: Marks = {};
+  if (runs.length > 0) {
+    (['bold', 'italic', 'underline'] as const).forEach(mark => {
+      if (runs.every(run => run.marks[mark])) marks[mark] = true;
+    });
+    if (runs.every(run => run.marks.link === runs[0].marks.link)) marks.link = runs[0].marks.link;
+  }
+  return { marks: cleanMarks(marks), format, cell };
+}
+
+/** Sets `mark` on the selected text, or removes it when all of it has it already */
+export function toggleMark(doc: RichDocument, range: DocRange, mark: InlineMark): Edit {
+  return setMark(doc, range, mark, !activeFormat(doc, range).marks[mark]);
+}
+
+/** Sets or removes `mark` on the selected text */
+export function setMark(doc: RichDocument, range: DocRange, mark: InlineMark, value: boolean): Edit {
+  return { doc: mapMarks(doc, range, marks => ({ ...marks, [mark]: value })), range };
+}
+
+export function setLink(doc: RichDocument, range: DocRange, href: string): Edit {
+  return { doc: mapMarks(doc, range, marks => ({ ...marks, link: href })), range };
+}
+
+/** Removes the links in the selection, or the whole link holding the caret */
+export function removeLink(doc: RichDocument, range: DocRange): Edit {
+  if (!isCollapsed(range)) return { doc: mapMarks(doc, range, ({ link: _, ...marks }) => marks), range };
+
+  const runs = runsAt(doc, range.start);
+  if (!runs) return { doc, range };
+  const index = runIndexAt(runs, range.start.offset);
+  const href  = runs[index]?.marks.link;
+  if (!href) return { doc, range };
+  // The link goes on over the neighbouring runs with the same href
+  let first = index;
+  let last  = index;
+  while (runs[first - 1]?.marks.link === href) first--;
+  while (runs[last + 1]?.marks.link === href) last++;
+  const extent = {
+    start: { ...range.start, offset: runsLength(runs.slice(0, first)) },
+    end:   { ...range.start, offset: runsLength(runs.slice(0, last + 1)) },
+  };
+  return { doc: mapMarks(doc, extent, ({ link: _, ...marks }) => marks), range };
+}
+
+/**
+ * Gives the selected blocks `format`, or makes them paragraphs again when
+ * they all have it already. Paragraphs made code become one block of code,
+ * whose lines become paragraphs again.
+ */
+export function toggleFormat(doc: RichDocument, range: DocRange, format: TextFormat): Edit {
+  const first  = range.start.block;
+  const last   = range.end.block;
+  const blocks = doc.slice(first, last + 1).filter(isTextBlock);
+  const target = blocks.length > 0 && blocks.every(block => block.type === format) ? 'paragraph' : format;
+
+  if (target === 'code' && blocks.length > 1 && blocks.length === last - first + 1) {
+    const code: TextBlock = { type: 'code', runs: plainRuns([{ text: blocks.map(blockText).join('\n'), marks: {} }]) };
+    return { doc: [...doc.slice(0, first), code, ...doc.slice(last + 1)], range: collapsed({ block: first, offset: blockLength(code) }) };
+  }
+  if (blocks.length === 1 && blocks[0].type === 'code' && target !== 'code' && first === last) {
+    const lines = blockText(blocks[0]).split('\n').map<TextBlock>(line => ({ type: target, runs: normalizeRuns([{ text: line, marks: {} }]) }));
+    return { doc: [...doc.slice(0, first), ...lines, ...doc.slice(first + 1)], range: collapsed({ block: first, offset: 0 }) };
+  }
+
+  const next = doc.map((block, index) => {
+    if (!isTextBlock(block) || index < first || index > last || block.type === target) return block;
+    return { type: target, runs: target === 'code' ? plainRuns(block.runs) : block.runs };
+  });
+  return { doc: next, range };
+}
+
+/** Inserts text with the given marks at a position; the caret ends after it */
+export function insertText(doc: RichDocument, position: DocPosition, text: string, marks: Marks): Edit {
+  const runs = runsAt(doc, position);
+  if (!runs) {
+    // Typing on an image, a rule or a table starts a paragraph after it
+    const paragraph: TextBlock = { type: 'paragraph', runs: normalizeRuns([{ text, marks }]) };
+    const at = position.block + 1;
+    return { doc: [...doc.slice(0, at), paragraph, ...doc.slice(at)], range: collapsed({ block: at, offset: text.length }) };
+  }
+  const [before, after] = splitRuns(runs, position.offset);
+  const code = doc[position.block].type === 'code';
+  const next = withRunsAt(doc, position, normalizeRuns([...before, { text, marks: code ? {} : marks }, ...after]));
+  return { doc: next, range: collapsed({ ...position, offset: position.offset + text.length }) };
+}
+
+/**
+ * Inserts blocks after the block at `index`, or after the list, quote or box
+ * it is part of. The caret ends after them, or in the first cell of a table.
+ * A rule or a table is followed by text to write on, a paragraph being added
+ * when there is none.
+ */
+export function insertBlocksAfter(doc: RichDocument, index: number, blocks: RichDocument): Edit {
+  let at = Math.min(index, doc.length - 1) + 1;
+  const grouped = doc[at - 1];
+  if (isTextBlock(grouped) && CONTAINERS[grouped.type]) {
+    while (isTextBlock(doc[at]) && (doc[at] as TextBlock).type === grouped.type) at++;
+  }
+  if (blocks.length === 0) return { doc, range: collapsed({ block: Math.max(0, at - 1), offset: 0 }) };
+
+  const closing    = blocks[blocks.length - 1];
+  const separating = closing.type === 'rule' || closing.type === 'table';
+  const inserted   = separating && !isTextBlock(doc[at]) ? [...blocks, { type: 'paragraph', runs: [] } as TextBlock] : blocks;
+  const next  = [...doc.slice(0, at), ...inserted, ...doc.slice(at)];
+  const after = at + blocks.length;
+  if (isTable(blocks[0])) return { doc: next, range: collapsed({ block: at, offset: 0, cell: { row: 0, column: 0 } }) };
+  const caret = separating ? { block: after, offset: 0 } : { block: after - 1, offset: blockLength(next[after - 1]) };
+  return { doc: next, range: collapsed(caret) };
+}
+
+/**
+ * Removes the selected content. The blocks at both ends keep what is outside
+ * the selection and text blocks are joined; images, rules and tables go when
+ * the selection covers them whole, tables only losing the text of the cells
+ * selected otherwise.
+ */
+export function deleteRange(doc: RichDocument, range: DocRange): Edit {
+  if (isCollapsed(range)) return { doc, range };
+  const { start, end } = range;
+  const cleared = mapTextParts(doc, range, part => (part.start === part.end ? undefined
+    : normalizeRuns([...splitRuns(part.runs, part.start)[0], ...splitRuns(part.runs, part.end)[1]])));
+  const covered = (index: number) => {
+    if (index > start.block && index < end.block) return true;
+    if (isTextBlock(cleared[index])) return false;
+    const from = index === start.block ? (start.cell ? -1 : start.offset) : 0;
+    const to   = index === end.block ? (end.cell ? -1 : end.offset) : 1;
+    return from === 0 && to === 1;
+  };
+  const first = cleared[start.block];
+  const last  = cleared[end.block];
+  const join  = start.block !== end.block && isTextBlock(first) && isTextBlock(last);
+
+  const next: RichDocument = cleared.flatMap((block, index): Block[] => {
+    if (index < start.block || index > end.block) return [block];
+    if (join && index === start.block) return [{ ...first, runs: normalizeRuns([...first.runs, ...last.runs]) }];
+    if (join && index === end.block) return [];
+    return covered(index) ? [] : [block];
+  });
+  if (next.length === 0) return { doc: [{ type: 'paragraph', runs: [] }], range: collapsed({ block: 0, offset: 0 }) };
+  if (!covered(start.block)) return { doc: next, range: collapsed(start) };
+  // The block the selection started on went: the caret goes to what follows
+  const at = Math.min(start.block, next.length - 1);
+  return { doc: next, range: collapsed({ block: at, offset: at < start.block ? blockLength(next[at]) : 0 }) };
+}
+
+/**
+ * Puts blocks (e.g. pasted) in place of the selection. The block holding the
+ * caret is split around them, its start taking in the text of the first one
+ * and its end the text of the last one; in a table cell, they become lines of
+ * the cell. The caret ends after them.
+ */
+export function insertFragment(doc: RichDocument, range: DocRange, fragment: RichDocument): Edit {
+  const { doc: cleared, range: { start: at } } = deleteRange(doc, range);
+  if (fragment.length === 0) return { doc: cleared, range: collapsed(at) };
+  const runs = runsAt(cleared, at);
+
+  if (runs && at.cell) {
+    const lines = fragment.filter(isTextBlock).flatMap((block, i) => (i > 0 ? [{ text: '\n', marks: {} }, ...block.runs] : block.runs));
+    const [before, after] = splitRuns(runs, at.offset);
+    const next = withRunsAt(cleared, at, normalizeRuns([...before, ...lines, ...after]));
+    return { doc: next, range: collapsed({ ...at, offset: at.offset + runsLength(lines) }) };
+  }
+  if (!runs) {
+    // On an image, a rule or a table: before or after it
+    const index = at.offset > 0 ? at.block + 1 : at.block;
+    const next  = [...cleared.slice(0, index), ...fragment, ...cleared.slice(index)];
+    const last  = index + fragment.length - 1;
+    return { doc: next, range: collapsed({ block: last, offset: blockLength(next[last]) }) };
+  }
+
+  const block = cleared[at.block] as TextBlock;
+  const [before, after] = splitRuns(block.runs, at.offset);
+  const merge = (type: TextFormat, merged: TextRun[]): TextBlock =>
+    ({ type, runs: type === 'code' ? plainRuns(merged) : normalizeRuns(merged) });
+  const first = fragment[0];
+  const last  = fragment[fragment.length - 1];
+
+  if (fragment.length === 1 && isTextBlock(first)) {
+    const next = withRunsAt(cleared, at, merge(block.type, [...before, ...first.runs, ...after]).runs);
+    return { doc: next, range: collapsed({ ...at, offset: at.offset + runsLength(first.runs) }) };
+  }
+  // An empty start takes the format of the first block pasted
+  const head: Block[] = isTextBlock(first)
+    ? [merge(before.length > 0 ? block.type : first.type, [...before, ...first.runs])]
+    : [...(before.length > 0 ? [{ ...block, runs: before }] : []), first];
+  const tail: Block[] = isTextBlock(last)
+    ? [merge(last.type, [...last.runs, ...after])]
+    : [last, ...(after.length > 0 ? [{ ...block, runs: after }] : [])];
+  const next  = [...cleared.slice(0, at.block), ...head, ...fragment.slice(1, -1), ...tail, ...cleared.slice(at.block + 1)];
+  const caret = at.block + head.length + fragment.length - 2;
+  return { doc: next, range: collapsed({ block: caret, offset: isTextBlock(last) ? runsLength(last.runs) : 1 }) };
+}
+
+// ── Tables ──────────────────────────────────────────────────────────────────
+
+export type TableAction =
+  | 'rowAbove'
+  | 'rowBelow'
+  | 'columnBefore'
+  | 'columnAfter'
+  | 'deleteRow'
+  | 'deleteColumn'
+  | 'toggleHeader'
+  | 'deleteTable';
+
+/** A table of empty cells, headed by its first row */
+export function createTable(rows = 3, columns = 3): TableBlock {
+  return {
+    type:   'table',
+    header: true,
+    rows:   Array.from({ length: rows }, () => Array.from({ length: columns }, () => [])),
+  };
+}
+
+/** Edits the rows and columns of the table holding the caret; the caret stays in the same place where it can */
+export function editTable(doc: RichDocument, position: DocPosition, action: TableAction): Edit {
+  const table = doc[position.block];
+  if (!isTable(table) || !position.cell) return { doc, range: collapsed(position) };
+  const { row, column } = position.cell;
+  const rowCount    = table.rows.length;
+  const columnCount = table.rows[0].length;
+  const replace = (block: TableBlock, cell: CellPosition): Edit => {
+    const next = [...doc];
+    next[position.block] = block;
+    return { doc: next, range: collapsed({ block: position.block, offset: 0, cell }) };
+  };
+  const removeTable = (): Edit => {
+    const next = [...doc.slice(0, position.block), ...doc.slice(position.block + 1)];
+    const at   = Math.min(position.block, next.length - 1);
+    return { doc: next, range: collapsed({ block: Math.max(0, at), offset: 0 }) };
+  };
+  const emptyRow = () => Array.from({ length: columnCount }, (): TextRun[] => []);
+
+  switch (action) {
+    case 'rowAbove':
+    case 'rowBelow': {
+      const at = action === 'rowAbove' ? row : row + 1;
+      // A row added above the header row becomes the header
+      const rows = [...table.rows.slice(0, at), emptyRow(), ...table.rows.slice(at)];
+      return replace({ ...table, rows }, { row: at, column });
+    }
+    case 'columnBefore':
+    case 'columnAfter': {
+      const at = action === 'columnBefore' ? column : column + 1;
+      const rows = table.rows.map(cells => [...cells.slice(0, at), [], ...cells.slice(at)]);
+      return replace({ ...table, rows }, { row, column: at });
+    }
+    case 'deleteRow': {
+      if (rowCount === 1) return removeTable();
+      const rows = table.rows.filter((_, r) => r !== row);
+      return replace({ ...table, rows }, { row: Math.min(row, rows.length - 1), column });
+    }
+    case 'deleteColumn': {
+      if (columnCount === 1) return removeTable();
+      const rows = table.rows.map(cells => cells.filter((_, c) => c !== column));
+      return replace({ ...table, rows }, { row, column: Math.min(column, columnCount - 2) });
+    }
+    case 'toggleHeader':
+      return replace({ ...table, header: !table.header }, { row, column });
+    case 'deleteTable':
+      return removeTable();
+  }
+}
+
+/** Position at the end of the next (or previous) cell, null past the last (or first) one */
+export function adjacentCell(doc: RichDocument, position: DocPosition, step: 1 | -1): DocPosition | null {
+  const table = doc[position.block];
+  if (!isTable(table) || !position.cell) return null;
+  const columns = table.rows[0].length;
+  const index   = cellIndex(table, position.cell) + step;
+  if (index < 0 || index >= table.rows.length * columns) return null;
+  const cell = { row: Math.floor(index / columns), column: index % columns };
+  return { block: position.block, offset: runsLength(table.rows[cell.row][cell.column]), cell };
+}
@@ -0,0 +1,176 @@
+// ── HTML sanitising ─────────────────────────────────────────────────────────
+// HTML that did not come from this application's own code (article content,
+// pasted text, e-mails) goes through an allowlist before being shown: elements
+// not on it are unwrapped, their text staying; elements that run or load
+// something are removed with their content; attributes not on it are
+// dropped, and URLs keep only the schemes a reader can follow safely.
+
+interface SanitizePolicy {
+  /** Allowed elements, with their allowed attributes */
+  elements: Record<string, string[]>;
+  /** Attributes allowed on every element */
+  common: string[];
+  /** Allowed values of the class attribute, none when absent */
+  classes?: Set<string>;
+}
+
+/** Removed with everything they hold, whatever the policy */
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'template', 'noscript', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+  'form', 'input', 'button', 'select', 'textarea', 'link', 'meta', 'base', 'svg', 'math', 'head', 'title',
+]);
+
+/** Elements the content editor writes (see richText.ts) */
+const CONTENT_ELEMENTS: Record<string, string[]> = {
+  p: [], h2: [], h3: [], h4: [], ul: [], ol: [], li: [], blockquote: ['class'], div: ['class'],
+  pre: [], code: [], hr: [], table: [], thead: [], tbody: [], tr: [], th: [], td: [],
+  figure: [], figcaption: [], img: ['src', 'alt', 'data-media-id', 'width', 'height'],
+  a: ['href'], strong: [], em: [], u: [], br: [],
+};
+
+/** Classes of the pull-quotes and callout boxes */
+const CONTENT_CLASSES = new Set(['pullquote', 'callout', 'callout-info', 'callout-warning', 'callout-success']);
+
+const CONTENT_POLICY: SanitizePolicy = { elements: CONTENT_ELEMENTS, common: [], classes: CONTENT_CLASSES };
+
+/** E-mails are laid out with tables and inline styles */
+const EMAIL_POLICY: SanitizePolicy = {
+  elements: {
+    ...CONTENT_ELEMENTS,
+    h1: [], h5: [], h6: [], span: [], b: [], i: [], center: [], font: ['color', 'face', 'size'],
+    table: ['cellpadding', 'cellspacing', 'border', 'role'],
+    img: [...CONTENT_ELEMENTS.img],
+    a: ['href', 'title'],
+  },
+  common: ['style', 'align', 'valign', 'width', 'height', 'bgcolor'],
+};
+
+const SAFE_SCHEMES = new Set(['http', 'https', 'mailto', 'tel']);
+
+/**
+ * `url` when it is safe to follow or load, else null. Relative URLs are
+ * safe; images may also be embedded (`data:image/…`, as uploads are stored).
+ */
+export function safeUrl(url: string, kind: 'link' | 'image' = 'link'): string | null {
+  // Browsers ignore whitespace and control characters in a scheme: "java\tscript:" is javascript:
+  // eslint-disable-next-line no-control-regex
+  const compact = url.replace(/[\u0000- ]/g, '').toLowerCase();
+  const scheme  = /^([a-z][a-z0-9+.-]*):/.exec(compact)?.[1];
+  if (!scheme || SAFE_SCHEMES.has(scheme)) return url.trim();
+  if (kind === 'image' && (compact.startsWith('data:image/') || scheme === 'blob')) return url.trim();
+  return null;
+}
+
+/** Inline styles able to run or load something */
+const UNSAFE_STYLE = /expression\s*\(|javascript:|vbscript:|@import|behavior\s*:|-moz-binding/i;
+
+function cleanAttributes(element: Element, tag: string, policy: SanitizePolicy): void {
+  const allowed = [...policy.elements[tag], ...policy.common];
+  [...element.attributes].forEach(({ name, value }) => {
+    if (!allowed.includes(name)) {
+      element.removeAttribute(name);
+    } else if (name === 'href' || name === 'src') {
+      const url = safeUrl(value, name === 'src' ? 'image' : 'link');
+      if (url === null) element.removeAttribute(name);
+    } else if (name === 'style' && UNSAFE_STYLE.test(value)) {
+      element.removeAttribute(name);
+    } else if (name === 'class') {
+      const classes = value.split(/\s+/).filter(c => policy.classes?.has(c));
+      if (classes.length > 0) element.setAttribute('class', classes.join(' '));
+      else element.removeAttribute('class');
+    }
+  });
+}
+
+function sanitizeChildren(node: Node, policy: SanitizePolicy): void {
+  [...node.childNodes].forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) return;
+    // Comments, including Word's conditional ones
+    if (child.nodeType !== Node.ELEMENT_NODE) {
+      child.remove();
+      return;
+    }
+    const element = child as Element;
+    const tag     = element.tagName.toLowerCase();
+    if (DROPPED_TAGS.has(tag)) {
+      element.remove();
+      return;
+    }
+    sanitizeChildren(element, policy);
+    if (policy.elements[tag]) cleanAttributes(element, tag, policy);
+    else element.replaceWith(...element.childNodes);
+  });
+}
+
+// Parsed inert: nothing loads or runs
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+/** HTML of article content, keeping only what the editor writes */
+export function sanitizeHtml(html: string): string {
+  const body = parse(html).body;
+  sanitizeChildren(body, CONTENT_POLICY);
+  return body.innerHTML;
+}
+
+/** A whole e-mail document, keeping its layout and inline styles */
+export function sanitizeEmailHtml(html: string): string {
+  const source = parse(html);
+  const title  = source.title;
+  sanitizeChildren(source.body, EMAIL_POLICY);
+  const style  = source.body.getAttribute('style');
+  const body   = style && !UNSAFE_STYLE.test(style) ? `<body style="${escapeHtml(style)}">` : '<body>';
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+${body}${source.body.innerHTML}</body>
+</html>`;
+}
+
+/**
+ * Formatting Word and Google Docs give as styles rather than elements becomes
+ * elements, and what only makes sense in them goes.
+ */
+function convertOfficeMarkup(root: Element): void {
+  root.querySelectorAll<HTMLElement>('[style]').forEach(element => {
+    const style = element.getAttribute('style') ?? '';
+    // Word's list bullets and numbers, the list already giving them
+    if (/mso-list:\s*ignore/i.test(style)) {
+      element.remove();
+      return;
+    }
+    const tag    = element.tagName.toLowerCase();
+    const weight = element.style.fontWeight;
+    // Google Docs wraps the whole copy in a <b> of normal weight
+    if ((tag === 'b' || tag === 'strong') && (weight === 'normal' || weight === '400')) {
+      const span = element.ownerDocument.createElement('span');
+      span.append(...element.childNodes);
+      element.replaceWith(span);
+      return;
+    }
+    const marks = [
+      (weight === 'bold' || Number(weight) >= 600) && 'strong',
+      element.style.fontStyle === 'italic' && 'em',
+      /underline/.test(element.style.textDecoration) && 'u',
+    ].filter((mark): mark is string => !!mark);
+    marks.forEach(mark => {
+      const wrapper = element.ownerDocument.createElement(mark);
+      wrapper.append(...element.childNodes);
+      element.append(wrapper);
+    });
+  });
+}
+
+/** Pasted HTML, cleaned into the elements the editor writes */
+export function cleanPastedHtml(html: string): string {
+  const body = parse(html).body;
+  convertOfficeMarkup(body);
+  sanitizeChildren(body, CONTENT_POLICY);
+  return body.innerHTML;
+}
+
+const ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+/** Text, or an attribute value, to interpolate into HTML */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, c => ESCAPES[c]);
+}
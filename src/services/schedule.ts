@@ -0,0 +1,44 @@
+// ── Scheduled publishing ────────────────────────────────────────────────────
+// `scheduled` articles are published by the server at `publishAt`; any
+// article with an `unpublishAt` is archived at that date (embargo / expiry).
+// Dates travel as ISO strings; the form edits them in local time.
+
+const MINUTE = 60_000;
+const HOUR   = 60 * MINUTE;
+const DAY    = 24 * HOUR;
+
+/** "dans 2 j 3 h", "dans 1 h 05 min", "dans 12 min"; "imminente" once due */
+export function formatCountdown(target: string, now: number = Date.now()): string {
+  const ms = new Date(target).getTime() - now;
+  if (Number.isNaN(ms)) return '';
+  if (ms <= 0) return 'imminente';
+  if (ms < MINUTE) return "dans moins d'une minute";
+
+  const days    = Math.floor(ms / DAY);
+  const hours   = Math.floor((ms % DAY) / HOUR);
+  const minutes = Math.floor((ms % HOUR) / MINUTE);
+  if (days > 0)  return hours > 0 ? `dans ${days} j ${hours} h` : `dans ${days} j`;
+  if (hours > 0) return `dans ${hours} h ${String(minutes).padStart(2, '0')} min`;
+  return `dans ${minutes} min`;
+}
+
+export function formatScheduleDate(iso: string): string {
+  return new Date(iso).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' });
+}
+
+/** ISO date → value of a `datetime-local` input ("2026-10-20T08:00", local time) */
+export function toDateTimeInput(iso?: string | null): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return '';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/** `datetime-local` value → ISO date, null when empty or invalid */
+export function fromDateTimeInput(value?: string | null): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
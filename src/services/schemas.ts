@@ -0,0 +1,432 @@
+import { z } from 'zod';
+import { ApiError } from './errors';
+import type {
+  Article,
+  ArticleFormData,
+  ArticleNote,
+  ArticlePresence,
+  ArticleRevision,
+  ArticleView,
+  AuthSession,
+  AuthUser,
+  Category,
+  CollabServerMessage,
+  CommentMessage,
+  CommentThread,
+  ImageCrop,
+  ImportError,
+  ImportResult,
+  MediaAsset,
+  Network,
+  Notification,
+  PaginatedResponse,
+  RealtimeEvent,
+  Reviewer,
+} from '../types';
+
+// ── Primitives ────────────────────────────────────────────────────────────────
+
+/** Numeric ids, also accepted as numeric strings ("12") */
+const id = z.union([
+  z.number().int(),
+  z.string().regex(/^\d+$/, 'Identifiant numérique attendu').transform(Number),
+]);
+
+/** `null` from the API is treated like a missing value */
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullish().transform((v): z.output<T> | undefined => v ?? undefined);
+
+const optionalString = optional(z.string());
+const articleStatus  = z.enum(['draft', 'in_review', 'changes_requested', 'approved', 'scheduled', 'published', 'archived']);
+const userRole       = z.enum(['author', 'editor', 'admin']);
+const renditionRatio = z.enum(['16:9', '1:1', '4:5']);
+const optionalId     = optional(id);
+const count          = z.union([z.number(), z.string().regex(/^\d+$/).transform(Number)]);
+
+/** Booleans sometimes come back as 0 / 1 from SQL drivers */
+const flag = z.union([z.boolean(), z.literal(0), z.literal(1)])
+  .nullish()
+  .transform(v => Boolean(v));
+
+// ── Auth ──────────────────────────────────────────────────────────────────────
+
+export const authUserSchema: z.ZodType<AuthUser, z.ZodTypeDef, unknown> = z.object({
+  id,
+  name:       z.string(),
+  email:      z.string(),
+  role:       userRole,
+  networkIds: optional(z.array(id)),
+  avatarUrl:  optionalString,
+});
+
+export const reviewerSchema: z.ZodType<Reviewer, z.ZodTypeDef, unknown> = z.object({
+  id,
+  name: z.string(),
+  role: userRole,
+});
+
+export const authSessionSchema: z.ZodType<AuthSession, z.ZodTypeDef, unknown> = z.object({
+  accessToken:  z.string(),
+  refreshToken: optionalString,
+  user:         authUserSchema,
+});
+
+export const tokenPairSchema = z.object({
+  accessToken:  z.string(),
+  refreshToken: optionalString,
+});
+
+// ── Categories / networks ─────────────────────────────────────────────────────
+
+export const categorySchema: z.ZodType<Category, z.ZodTypeDef, unknown> = z.object({
+  id,
+  name:        z.string(),
+  slug:        optionalString,
+  color:       optionalString,
+  description: optionalString,
+  createdAt:   optionalString,
+  updatedAt:   optionalString,
+});
+
+export const networkSchema: z.ZodType<Network, z.ZodTypeDef, unknown> = z.object({
+  id,
+  name:        z.string(),
+  slug:        optionalString,
+  description: optionalString,
+  logoUrl:     optionalString,
+  renditions:  optional(z.array(renditionRatio)),
+  createdAt:   optionalString,
+  updatedAt:   optionalString,
+});
+
+// ── Articles ──────────────────────────────────────────────────────────────────
+
+const imageCropSchema: z.ZodType<ImageCrop, z.ZodTypeDef, unknown> = z.object({
+  x:      z.number(),
+  y:      z.number(),
+  width:  z.number(),
+  height: z.number(),
+  focalX: z.number(),
+  focalY: z.number(),
+});
+
+/**
+ * Legacy single-category articles (`categoryId` / `category`) and
+ * multi-category ones (`categoryIds` / `categories`) are both normalised so
+ * that `categoryIds` is always filled; `networkId` falls back to `network.id`.
+ */
+export const articleSchema: z.ZodType<Article, z.ZodTypeDef, unknown> = z.object({
+  id,
+  title:       z.string(),
+  slug:        optionalString,
+  content:     optionalString.transform(v => v ?? ''),
+  excerpt:     optionalString.transform(v => v ?? ''),
+  authorName:  optionalString.transform(v => v ?? ''),
+  authorId:    optionalId,
+  summary:     optionalString,
+  imageUrl:    optionalString,
+  imageId:     optionalId,
+  imageCrop:   optional(imageCropSchema),
+  featured:    flag,
+  status:      articleStatus,
+  networkId:   optionalId,
+  network:     optional(networkSchema),
+  categoryId:  optionalId,
+  category:    optional(categorySchema),
+  categoryIds: optional(z.array(id)),
+  categories:  optional(z.array(categorySchema)),
+  publishedAt: optionalString,
+  publishAt:   optionalString,
+  unpublishAt: optionalString,
+  createdAt:   optionalString,
+  updatedAt:   optionalString,
+  reviewerId:    optionalId,
+  reviewerName:  optionalString,
+  reviewComment: optionalString,
+}).transform(a => {
+  const categoryId = a.categoryId ?? a.category?.id;
+  return {
+    ...a,
+    categoryId,
+    categoryIds: a.categoryIds
+      ?? a.categories?.map(c => c.id)
+      ?? (categoryId != null ? [categoryId] : []),
+    networkId:   a.networkId ?? a.network?.id,
+  };
+});
+
+// ── Revisions ─────────────────────────────────────────────────────────────────
+
+const optionalText = optional(z.string()).transform(v => v ?? '');
+
+const revisionDataSchema: z.ZodType<ArticleFormData, z.ZodTypeDef, unknown> = z.object({
+  title:       optionalText,
+  content:     optionalText,
+  excerpt:     optionalText,
+  authorName:  optionalText,
+  summary:     optionalString,
+  slug:        optionalString,
+  imageUrl:    optionalString,
+  imageId:     optional(id).transform(v => v ?? null),
+  imageCrop:   optional(imageCropSchema).transform(v => v ?? null),
+  featured:    flag,
+  categoryIds: optional(z.array(id)).transform(v => v ?? []),
+  networkId:   optional(id).transform(v => v ?? null),
+  publishAt:   optionalString,
+  unpublishAt: optionalString,
+});
+
+export const articleRevisionSchema: z.ZodType<ArticleRevision, z.ZodTypeDef, unknown> = z.object({
+  id,
+  articleId: id,
+  source:    optional(z.enum(['manual', 'autosave', 'status'])).transform(v => v ?? 'manual'),
+  status:    articleStatus,
+  userId:    optionalId,
+  userName:  optionalString,
+  createdAt: z.string(),
+  data:      revisionDataSchema,
+});
+
+// ── Comments and notes ────────────────────────────────────────────────────────
+
+const commentMessageSchema: z.ZodType<CommentMessage, z.ZodTypeDef, unknown> = z.object({
+  id,
+  authorId:   id,
+  authorName: z.string(),
+  body:       z.string(),
+  createdAt:  z.string(),
+});
+
+export const commentThreadSchema: z.ZodType<CommentThread, z.ZodTypeDef, unknown> = z.object({
+  id,
+  articleId: id,
+  anchor:    z.object({ start: z.number().int().min(0), end: z.number().int().min(0), quote: z.string() }),
+  resolved:  optional(flag).transform(v => v ?? false),
+  resolvedByName: optionalString,
+  resolvedAt:     optionalString,
+  messages:  z.array(commentMessageSchema),
+  createdAt: z.string(),
+});
+
+export const articleNoteSchema: z.ZodType<ArticleNote, z.ZodTypeDef, unknown> = z.object({
+  id,
+  articleId:  id,
+  authorId:   id,
+  authorName: z.string(),
+  body:       z.string(),
+  createdAt:  z.string(),
+});
+
+// ── Presence ──────────────────────────────────────────────────────────────────
+
+export const articlePresenceSchema: z.ZodType<ArticlePresence, z.ZodTypeDef, unknown> = z.object({
+  articleId: id,
+  entries:   z.array(z.object({
+    sessionId:  z.string(),
+    userId:     id,
+    userName:   z.string(),
+    editing:    optional(flag).transform(v => v ?? false),
+    since:      z.string(),
+    lastSeenAt: z.string(),
+  })),
+});
+
+// ── Saved views ───────────────────────────────────────────────────────────────
+
+export const articleViewSchema: z.ZodType<ArticleView, z.ZodTypeDef, unknown> = z.object({
+  id,
+  name:      z.string(),
+  query:     optional(z.string()).transform(v => (v ?? '').replace(/^\?/, '')),
+  shared:    optional(flag).transform(v => v ?? false),
+  pinned:    optional(flag).transform(v => v ?? false),
+  ownerId:   id,
+  ownerName: optionalString,
+  createdAt: optionalString,
+  updatedAt: optionalString,
+});
+
+// ── Notifications ─────────────────────────────────────────────────────────────
+
+export const notificationSchema: z.ZodType<Notification, z.ZodTypeDef, unknown> = z.object({
+  id,
+  title:          optionalString,
+  message:        optionalString,
+  subject:        optionalString,
+  html:           optionalString,
+  status:         optionalString,
+  recipients:     optional(z.array(z.string())),
+  recipientCount: optional(count),
+  articleId:      optionalId,
+  article:        optional(articleSchema),
+  sentAt:         optionalString,
+  createdAt:      optionalString,
+});
+
+export const notifyResultSchema = z.object({
+  html:    optionalString,
+  message: optionalString,
+});
+
+// ── Import ────────────────────────────────────────────────────────────────────
+
+const importErrorSchema: z.ZodType<ImportError, z.ZodTypeDef, unknown> = z.object({
+  index:   count.optional(),
+  row:     optional(count),
+  field:   optionalString,
+  error:   optionalString,
+  message: optionalString,
+}).transform(e => {
+  const message = e.message ?? e.error ?? '';
+  return {
+    ...e,
+    index: e.index ?? (e.row != null ? e.row - 1 : 0),
+    error: e.error ?? message,
+    message,
+  };
+});
+
+export const importResultSchema: z.ZodType<ImportResult, z.ZodTypeDef, unknown> = z.object({
+  total:    count,
+  success:  optional(count),
+  imported: optional(count),
+  skipped:  optional(count).transform(v => v ?? 0),
+  errors:   optional(z.array(importErrorSchema)).transform(v => v ?? []),
+}).transform(r => {
+  const imported = r.imported ?? r.success ?? 0;
+  return { ...r, imported, success: r.success ?? imported };
+});
+
+// ── Media library ─────────────────────────────────────────────────────────────
+
+export const mediaAssetSchema: z.ZodType<MediaAsset, z.ZodTypeDef, unknown> = z.object({
+  id,
+  url:            z.string(),
+  thumbnailUrl:   optionalString,
+  fileName:       optionalString.transform(v => v ?? ''),
+  mimeType:       optionalString.transform(v => v ?? ''),
+  size:           optional(count).transform(v => v ?? 0),
+  width:          optional(count),
+  height:         optional(count),
+  alt:            optionalString.transform(v => v ?? ''),
+  caption:        optionalString,
+  credit:         optionalString,
+  license:        optionalString,
+  uploadedBy:     optionalId,
+  uploadedByName: optionalString,
+  createdAt:      optionalString,
+  updatedAt:      optionalString,
+});
+
+// ── Real-time events ──────────────────────────────────────────────────────────
+
+const actorSchema = optional(z.object({ id, name: z.string() }));
+
+export const realtimeEventSchema: z.ZodType<RealtimeEvent, z.ZodTypeDef, unknown> = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('article.created'), article: articleSchema, actor: actorSchema }),
+  z.object({ type: z.literal('article.updated'), article: articleSchema, actor: actorSchema, fields: optional(z.array(z.string())) }),
+  z.object({
+    type:           z.literal('article.status_changed'),
+    article:        articleSchema,
+    actor:          actorSchema,
+    previousStatus: optional(articleStatus),
+  }),
+  z.object({ type: z.literal('article.deleted'), id, actor: actorSchema }),
+  z.object({ type: z.literal('article.presence'), presence: articlePresenceSchema }),
+  z.object({ type: z.literal('notification.status'), notification: notificationSchema }),
+]);
+
+// ── Co-editing ────────────────────────────────────────────────────────────────
+
+const crdtOpSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('insert'), id: z.string(), origin: z.string().nullable(), value: z.string() }),
+  z.object({ type: z.literal('delete'), id: z.string(), target: z.string() }),
+]);
+
+const collabPeerSchema = z.object({
+  clientId:  z.string(),
+  userId:    id,
+  userName:  z.string(),
+  selection: z.object({ anchor: z.string().nullable(), head: z.string().nullable() }).nullable(),
+});
+
+const stateVectorSchema = z.record(z.number());
+
+export const collabServerMessageSchema: z.ZodType<CollabServerMessage, z.ZodTypeDef, unknown> = z.discriminatedUnion('type', [
+  z.object({
+    type:   z.literal('welcome'),
+    epoch:  z.string(),
+    vector: stateVectorSchema,
+    ops:    z.array(crdtOpSchema),
+    peers:  z.array(collabPeerSchema),
+  }),
+  z.object({ type: z.literal('ops'), ops: z.array(crdtOpSchema) }),
+  z.object({ type: z.literal('peer'), peer: collabPeerSchema }),
+  z.object({ type: z.literal('leave'), clientId: z.string() }),
+]);
+
+// ── Collections ───────────────────────────────────────────────────────────────
+
+/** Envelope keys accepted around a list: `[...]`, `{ data }`, `{ items }` or `{ <resource> }` */
+function unwrapList(key: string) {
+  return (data: unknown) => {
+    if (Array.isArray(data) || !data || typeof data !== 'object') return data;
+    const record = data as Record<string, unknown>;
+    for (const k of ['data', 'items', key]) {
+      if (Array.isArray(record[k])) return record[k];
+    }
+    return data;
+  };
+}
+
+export function listSchema<T>(item: z.ZodType<T, z.ZodTypeDef, unknown>, key: string) {
+  return z.preprocess(unwrapList(key), z.array(item));
+}
+
+/**
+ * `{ data, total, page, limit }`, or a plain array from a backend that ignores
+ * pagination: the requested page is then cut out of it locally.
+ */
+export function paginatedSchema<T>(
+  item: z.ZodType<T, z.ZodTypeDef, unknown>,
+  key: string,
+  fallback: { page: number; limit: number },
+): z.ZodType<PaginatedResponse<T>, z.ZodTypeDef, unknown> {
+  const toPage = (data: unknown) => {
+    if (Array.isArray(data)) {
+      const start = (fallback.page - 1) * fallback.limit;
+      return { data: data.slice(start, start + fallback.limit), total: data.length };
+    }
+    if (!data || typeof data !== 'object') return data;
+    return { ...data, data: unwrapList(key)(data) };
+  };
+  return z.preprocess(toPage, z.object({
+    data:  z.array(item),
+    total: count,
+    page:  optional(count).transform(v => v ?? fallback.page),
+    limit: optional(count).transform(v => v ?? fallback.limit),
+  }));
+}
+
+// ── Parsing ───────────────────────────────────────────────────────────────────
+
+/**
+ * Validates a response body; a mismatch throws an ApiError of kind `contract`
+ * naming the endpoint and the offending path, e.g.
+ * "Réponse invalide de GET /api/articles : 3.status – Invalid enum value".
+ */
+export function parseResponse<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  data: unknown,
+  endpoint: string,
+): T {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  const [issue] = result.error.issues;
+  const path    = issue.path.length > 0 ? issue.path.join('.') : '(racine)';
+  throw new ApiError(`Réponse invalide de ${endpoint} : ${path} – ${issue.message}`, {
+    kind:    'contract',
+    code:    'CONTRACT_VIOLATION',
+    details: result.error.issues,
+  });
+}
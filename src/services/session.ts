@@ -0,0 +1,90 @@
+import type { AuthSession } from '../types';
+
+// ── Session store ───────────────────────────────────────────────────────────
+// Framework-free store so the axios interceptors and React components share
+// the same source of truth. Persisted in localStorage to survive reloads.
+
+const STORAGE_KEY = 'taram.session';
+
+type Listener = () => void;
+
+let current: AuthSession | null = readStoredSession();
+let expired = false;
+const listeners = new Set<Listener>();
+
+function readStoredSession(): AuthSession | null {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as AuthSession;
+    return parsed?.accessToken ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function persist(session: AuthSession | null) {
+  try {
+    if (session) window.localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+    else         window.localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Private mode / quota: keep the in-memory session only
+  }
+}
+
+function emit() {
+  listeners.forEach(l => l());
+}
+
+export function getSession(): AuthSession | null {
+  return current;
+}
+
+export function getAccessToken(): string | null {
+  return current?.accessToken ?? null;
+}
+
+export function getRefreshToken(): string | null {
+  return current?.refreshToken ?? null;
+}
+
+export function setSession(session: AuthSession) {
+  current = session;
+  expired = false;
+  persist(session);
+  emit();
+}
+
+/** Replace tokens after a refresh, keeping the known user */
+export function updateTokens(accessToken: string, refreshToken?: string) {
+  if (!current) return;
+  setSession({
+    ...current,
+    accessToken,
+    refreshToken: refreshToken ?? current.refreshToken,
+  });
+}
+
+/**
+ * Drop the session. `expired` is set when the API rejected our credentials,
+ * so the login page can explain why the user was sent back there.
+ */
+export function clearSession(opts: { expired?: boolean } = {}) {
+  if (!current) return;
+  current = null;
+  expired = !!opts.expired;
+  persist(null);
+  emit();
+}
+
+/** Returns true once after a forced logout, then resets the flag */
+export function consumeSessionExpired(): boolean {
+  const was = expired;
+  expired = false;
+  return was;
+}
+
+export function subscribeSession(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
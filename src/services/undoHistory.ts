@@ -0,0 +1,78 @@
+// ── Undo history ────────────────────────────────────────────────────────────
+// States of an editor, as snapshots: undoing goes back to the previous one.
+// Successive changes of the same kind (typing, deleting) made within a short
+// delay are one step, as in a word processor.
+
+/** Changes of the same kind closer than this are undone together */
+export const MERGE_DELAY_MS = 1000;
+
+/** Steps kept */
+export const HISTORY_LIMIT = 200;
+
+export class UndoHistory<T> {
+  private past:   T[] = [];
+  private future: T[] = [];
+  private lastKind: string | null = null;
+  private lastAt = 0;
+
+  constructor(private current: T) {}
+
+  get present(): T {
+    return this.current;
+  }
+
+  get canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  /**
+   * Records a new state. `kind` names the change; changes without one are
+   * always a step of their own.
+   */
+  push(state: T, kind: string | null = null, now = Date.now()): void {
+    const merge = kind !== null && kind === this.lastKind && now - this.lastAt < MERGE_DELAY_MS;
+    if (!merge) {
+      this.past.push(this.current);
+      if (this.past.length > HISTORY_LIMIT) this.past.shift();
+    }
+    this.current  = state;
+    this.future   = [];
+    this.lastKind = kind;
+    this.lastAt   = now;
+  }
+
+  /** Replaces the present state without making a step, e.g. when only the caret moved */
+  replace(state: T): void {
+    this.current = state;
+  }
+
+  undo(): T | null {
+    const previous = this.past.pop();
+    if (previous === undefined) return null;
+    this.future.push(this.current);
+    this.current  = previous;
+    this.lastKind = null;
+    return previous;
+  }
+
+  redo(): T | null {
+    const next = this.future.pop();
+    if (next === undefined) return null;
+    this.past.push(this.current);
+    this.current  = next;
+    this.lastKind = null;
+    return next;
+  }
+
+  /** Starts over from `state`, forgetting every step */
+  reset(state: T): void {
+    this.past     = [];
+    this.future   = [];
+    this.current  = state;
+    this.lastKind = null;
+  }
+}
@@ -0,0 +1,108 @@
+import { can, type Permission } from './permissions';
+import type { Article, ArticleStatus, AuthUser } from '../types';
+
+// ── Editorial workflow ──────────────────────────────────────────────────────
+// Every status change goes through this table, on the UI (which buttons are
+// offered) and on the API. Nothing is published without a review: drafts are
+// submitted, a reviewer other than the author approves them or sends them back
+// with a comment, then a publisher publishes or schedules the approved version.
+
+export interface WorkflowTransition {
+  from:        ArticleStatus;
+  to:          ArticleStatus;
+  /** Action label, e.g. on the button of the article form */
+  label:       string;
+  permission:  Permission;
+  /** The decision must be explained (sent back to the author) */
+  requiresComment?: boolean;
+  /** A reviewer may be assigned */
+  assignsReviewer?: boolean;
+}
+
+type TransitionSpec = Omit<WorkflowTransition, 'from'>;
+
+const TABLE: Record<ArticleStatus, TransitionSpec[]> = {
+  draft: [
+    { to: 'in_review',         label: 'Soumettre à relecture',    permission: 'article:submit', assignsReviewer: true },
+    { to: 'archived',          label: 'Archiver',                 permission: 'article:archive' },
+  ],
+  in_review: [
+    { to: 'approved',          label: 'Approuver',                permission: 'article:review' },
+    { to: 'changes_requested', label: 'Demander des corrections', permission: 'article:review', requiresComment: true },
+    { to: 'draft',             label: 'Retirer de la relecture',  permission: 'article:submit' },
+  ],
+  changes_requested: [
+    { to: 'in_review',         label: 'Resoumettre',              permission: 'article:submit', assignsReviewer: true },
+    { to: 'archived',          label: 'Archiver',                 permission: 'article:archive' },
+  ],
+  approved: [
+    { to: 'published',         label: 'Publier',                  permission: 'article:publish' },
+    { to: 'scheduled',         label: 'Programmer',               permission: 'article:publish' },
+    { to: 'changes_requested', label: 'Demander des corrections', permission: 'article:review', requiresComment: true },
+  ],
+  scheduled: [
+    { to: 'published',         label: 'Publier maintenant',       permission: 'article:publish' },
+    { to: 'scheduled',         label: 'Reprogrammer',             permission: 'article:publish' },
+    { to: 'approved',          label: 'Déprogrammer',             permission: 'article:publish' },
+  ],
+  published: [
+    { to: 'archived',          label: 'Archiver',                 permission: 'article:archive' },
+  ],
+  archived: [
+    { to: 'draft',             label: 'Remettre en brouillon',    permission: 'article:archive' },
+  ],
+};
+
+export const WORKFLOW: Record<ArticleStatus, WorkflowTransition[]> = Object.fromEntries(
+  Object.entries(TABLE).map(([from, specs]) => [from, specs.map(spec => ({ ...spec, from: from as ArticleStatus }))]),
+) as Record<ArticleStatus, WorkflowTransition[]>;
+
+/** Statuses still being written: editable by their author and auto-saved */
+export function isWorkInProgress(status: ArticleStatus): boolean {
+  return status === 'draft' || status === 'changes_requested';
+}
+
+export function findTransition(from: ArticleStatus, to: ArticleStatus): WorkflowTransition | undefined {
+  return WORKFLOW[from]?.find(t => t.to === to);
+}
+
+/** Why `user` may not review `article`, null when they may */
+export function reviewRefusal(
+  user: Pick<AuthUser, 'id'> | null | undefined,
+  article: Pick<Article, 'authorId'>,
+): string | null {
+  return user && article.authorId === user.id ? 'Un article ne peut pas être relu par son auteur' : null;
+}
+
+export function canTransition(
+  user: AuthUser | null | undefined,
+  article: Pick<Article, 'status' | 'authorId'>,
+  to: ArticleStatus,
+): boolean {
+  const transition = findTransition(article.status, to);
+  if (!transition || !can(user, transition.permission, article)) return false;
+  return transition.permission !== 'article:review' || !reviewRefusal(user, article);
+}
+
+/** Transitions offered to `user` on `article`, in table order */
+export function availableTransitions(
+  user: AuthUser | null | undefined,
+  article: Pick<Article, 'status' | 'authorId'>,
+): WorkflowTransition[] {
+  return WORKFLOW[article.status].filter(t => canTransition(user, article, t.to));
+}
+
+/**
+ * Target statuses allowed on every article of a selection. Changes needing a
+ * comment or a date are left to the article form.
+ */
+export function bulkTransitions(
+  user: AuthUser | null | undefined,
+  articles: Array<Pick<Article, 'status' | 'authorId'>>,
+): ArticleStatus[] {
+  if (articles.length === 0) return [];
+  return (Object.keys(WORKFLOW) as ArticleStatus[]).filter(to =>
+    to !== 'scheduled' &&
+    articles.every(a => !findTransition(a.status, to)?.requiresComment && canTransition(user, a, to)),
+  );
+}
@@ -0,0 +1,64 @@
+import type { ReactElement } from 'react';
+import { render } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { ThemeProvider } from '@mui/material/styles';
+import theme from '../theme';
+import { api, login } from '../services/api';
+import { DEMO_PASSWORD } from '../services/demoMode';
+import { clearSession } from '../services/session';
+import { setCollabRelay } from '../services/collab';
+import { createMockAdapter } from '../mocks/adapter';
+import { LocalCollabRelay } from '../mocks/collabRelay';
+import { createDb, type MockDb } from '../mocks/db';
+
+// ── Mock backend ──────────────────────────────────────────────────────────────
+
+const originalAdapter = api.defaults.adapter;
+
+/** Serves `api` from a fresh seeded in-memory database, without latency. */
+export function installMockBackend(): MockDb {
+  const db = createDb();
+  api.defaults.adapter = createMockAdapter({ db, latency: 0 });
+  installCollabRelay(db);
+  return db;
+}
+
+/** Relays co-editing over `db`, in memory; returns the relay to drive it from a test. */
+export function installCollabRelay(db: MockDb): LocalCollabRelay {
+  const relay = new LocalCollabRelay(articleId => db.articles.find(a => a.id === articleId)?.content);
+  setCollabRelay(relay);
+  return relay;
+}
+
+export function uninstallMockBackend(): void {
+  api.defaults.adapter = originalAdapter;
+  setCollabRelay(null);
+  clearSession();
+}
+
+/** Logs in with one of the seeded demo accounts */
+export function signInAs(email: 'admin@taram.fr' | 'editeur@taram.fr' | 'auteur@taram.fr') {
+  return login({ email, password: DEMO_PASSWORD });
+}
+
+// ── Rendering ─────────────────────────────────────────────────────────────────
+
+/** Renders a page inside the app providers, at `url` matched against `path`. */
+export function renderPage(page: ReactElement, { path = '/', url = path }: { path?: string; url?: string } = {}) {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <ThemeProvider theme={theme}>
+        <MemoryRouter initialEntries={[url]} future={{ v7_startTransition: true, v7_relativeSplatPath: true }}>
+          <Routes>
+            <Route path={path} element={page} />
+            <Route path="*" element={null} />
+          </Routes>
+        </MemoryRouter>
+      </ThemeProvider>
+    </QueryClientProvider>,
+  );
+}
@@ -1,8 +1,39 @@
 // ── Enums / Literals ──────────────────────────────────────────────────────────
 
-import { ReactNode } from "react";
+export type ArticleStatus =
+  | 'draft'
+  | 'in_review'
+  | 'changes_requested'
+  | 'approved'
+  | 'scheduled'
+  | 'published'
+  | 'archived';
 
-export type ArticleStatus = 'draft' | 'published' | 'archived';
+export type UserRole = 'author' | 'editor' | 'admin';
+
+// ── Auth ──────────────────────────────────────────────────────────────────────
+
+export interface AuthUser {
+  id:         number;
+  name:       string;
+  email:      string;
+  role:       UserRole;
+  /** Networks the user works for; empty or missing = every network */
+  networkIds?: number[];
+  avatarUrl?: string;
+}
+
+export interface LoginCredentials {
+  email:    string;
+  password: string;
+}
+
+/** Payload returned by POST /api/auth/login and POST /api/auth/refresh */
+export interface AuthSession {
+  accessToken:   string;
+  refreshToken?: string;
+  user:          AuthUser;
+}
 
 // ── Category ──────────────────────────────────────────────────────────────────
 
@@ -31,6 +62,8 @@ export interface Network {
   slug?:       string;
   description?: string;
   logoUrl?:    string;
+  /** Formats of the cover images the network publishes, every format when missing */
+  renditions?: RenditionRatio[];
   createdAt?:  string;
   updatedAt?:  string;
 }
@@ -40,6 +73,24 @@ export interface NetworkFormData {
   slug?:        string;
   description?: string;
   logoUrl?:     string;
+  renditions?:  RenditionRatio[];
+}
+
+// ── Cover images ──────────────────────────────────────────────────────────────
+
+/** Aspect ratio of a cover rendition (width:height) */
+export type RenditionRatio = '16:9' | '1:1' | '4:5';
+
+/** Framing of a cover image, in fractions (0–1) of the image width and height */
+export interface ImageCrop {
+  /** Area kept from the image */
+  x:      number;
+  y:      number;
+  width:  number;
+  height: number;
+  /** Point kept in view by every rendition, inside the area */
+  focalX: number;
+  focalY: number;
 }
 
 // ── Article ───────────────────────────────────────────────────────────────────
@@ -51,8 +102,14 @@ export interface Article {
   content:      string;
   excerpt:      string;
   authorName:   string;
+  /** Id of the user who created the article (ownership for authors) */
+  authorId?:    number;
   summary?:     string;
   imageUrl?:    string;
+  /** Media library asset used as the cover, when picked from it */
+  imageId?:     number;
+  /** Cover framing, the whole image centred when missing */
+  imageCrop?:   ImageCrop;
   featured:     boolean;
   status:       ArticleStatus;
 
@@ -68,8 +125,19 @@ export interface Article {
 
   // Dates
   publishedAt?: string;       // ISO 8601
+  /** Publication date of a `scheduled` article */
+  publishAt?:   string;
+  /** Automatic archiving (embargo end / expiry) */
+  unpublishAt?: string;
   createdAt?:   string;
   updatedAt?:   string;
+
+  // Review
+  /** Reviewer assigned on submission, any reviewer when missing */
+  reviewerId?:    number;
+  reviewerName?:  string;
+  /** Corrections asked by the reviewer, cleared on approval */
+  reviewComment?: string;
 }
 
 export interface ArticleFormData {
@@ -80,15 +148,161 @@ export interface ArticleFormData {
   summary?:     string;
   slug?:        string;
   imageUrl?:    string;
+  imageId?:     number | null;
+  imageCrop?:   ImageCrop | null;
   featured:     boolean;
   categoryIds:  number[];
   networkId:    string | number | null;
+  /** ISO dates, null to clear */
+  publishAt?:   string | null;
+  unpublishAt?: string | null;
+}
+
+/** Dates sent with a status change */
+export interface ScheduleDates {
+  publishAt?:   string | null;
+  unpublishAt?: string | null;
+}
+
+/** Everything a status change may carry besides the status */
+export interface StatusChangeOptions extends ScheduleDates {
+  /** Reviewer assigned when submitting for review */
+  reviewerId?: number | null;
+  /** Required when requesting changes */
+  comment?:    string;
+}
+
+/** User who may review articles */
+export interface Reviewer {
+  id:   number;
+  name: string;
+  role: UserRole;
+}
+
+// ── Revisions ─────────────────────────────────────────────────────────────────
+
+/** What recorded a revision */
+export type RevisionSource = 'manual' | 'autosave' | 'status';
+
+/** Version of an article recorded by the server on each save */
+export interface ArticleRevision {
+  id:         number;
+  articleId:  number;
+  source:     RevisionSource;
+  status:     ArticleStatus;
+  /** User who saved this version */
+  userId?:    number;
+  userName?:  string;
+  createdAt:  string;
+  /** Article fields as saved */
+  data:       ArticleFormData;
+}
+
+// ── Comments and notes ────────────────────────────────────────────────────────
+
+/**
+ * Passage of the article a comment points at: offsets in the plain text of the
+ * content, and the passage itself to find it again once the text has moved.
+ */
+export interface TextAnchor {
+  start: number;
+  end:   number;
+  quote: string;
+}
+
+export interface CommentMessage {
+  id:         number;
+  authorId:   number;
+  authorName: string;
+  body:       string;
+  createdAt:  string;
+}
+
+/** Discussion anchored to a passage of the content */
+export interface CommentThread {
+  id:              number;
+  articleId:       number;
+  anchor:          TextAnchor;
+  resolved:        boolean;
+  resolvedByName?: string;
+  resolvedAt?:     string;
+  /** Oldest first, the first one opens the thread */
+  messages:        CommentMessage[];
+  createdAt:       string;
+}
+
+export interface CommentThreadFormData {
+  anchor: TextAnchor;
+  body:   string;
+}
+
+/** Private note to the desk about the article, never published */
+export interface ArticleNote {
+  id:         number;
+  articleId:  number;
+  authorId:   number;
+  authorName: string;
+  body:       string;
+  createdAt:  string;
 }
 
+// ── Presence ──────────────────────────────────────────────────────────────────
+
+/** Browser tab with the article open; a user with two tabs open has two entries */
+export interface PresenceEntry {
+  sessionId:  string;
+  userId:     number;
+  userName:   string;
+  /** Holds the soft lock: this tab is editing the article */
+  editing:    boolean;
+  since:      string;
+  lastSeenAt: string;
+}
+
+/** Who has an article open. At most one entry is `editing`. */
+export interface ArticlePresence {
+  articleId: number;
+  entries:   PresenceEntry[];
+}
+
+// ── Co-editing ────────────────────────────────────────────────────────────────
+
+/** Operation on the shared content: element ids are `<clock>@<client>` */
+export type CrdtOp =
+  | { type: 'insert'; id: string; origin: string | null; value: string }
+  | { type: 'delete'; id: string; target: string };
+
+/** Caret or selection: ids of the elements just before each end, null at the very start */
+export interface CollabSelection {
+  anchor: string | null;
+  head:   string | null;
+}
+
+/** Another editor connected to the same content */
+export interface CollabPeer {
+  clientId:  string;
+  userId:    number;
+  userName:  string;
+  selection: CollabSelection | null;
+}
+
+/** Sent on the co-editing channel. `vector`: highest clock received from each client. */
+export type CollabClientMessage =
+  | { type: 'hello';     clientId: string; epoch: string | null; vector: Record<string, number> }
+  | { type: 'ops';       ops: CrdtOp[] }
+  | { type: 'selection'; selection: CollabSelection | null };
+
+/** Received on the co-editing channel. `epoch` changes when the server starts the document over. */
+export type CollabServerMessage =
+  | { type: 'welcome'; epoch: string; vector: Record<string, number>; ops: CrdtOp[]; peers: CollabPeer[] }
+  | { type: 'ops';     ops: CrdtOp[] }
+  | { type: 'peer';    peer: CollabPeer }
+  | { type: 'leave';   clientId: string };
+
 // ── Query params ──────────────────────────────────────────────────────────────
 
 export type SortDir = 'asc' | 'desc';
-export type SortBy  = 'createdAt' | 'updatedAt' | 'publishedAt' | 'title';
+export type SortBy  = 'createdAt' | 'updatedAt' | 'publishedAt' | 'title' | 'status' | 'networkId';
 
 export interface ArticleQueryParams {
   page?:        number;
@@ -96,12 +310,62 @@ export interface ArticleQueryParams {
   search?:      string;
   status?:      ArticleStatus;
   networkId?:   number;
+  /** Restrict results to these networks (per-user network scope) */
+  networkIds?:  number[];
   featured?:    boolean;
   sortBy?:      SortBy;
   sortDir?:     SortDir;
   categoryIds?: number[];
+  authorId?:    number;
+  /** ISO date: only articles modified since then */
+  updatedFrom?: string;
+  /** ISO dates: publication date (scheduled date for `scheduled` articles) in [from, to) */
+  publishedFrom?: string;
+  publishedTo?:   string;
+}
+
+// ── Saved views ───────────────────────────────────────────────────────────────
+
+/** Named combination of articles list filters */
+export interface ArticleView {
+  id:         number;
+  name:       string;
+  /** Articles list query string, e.g. 'status=draft&mine=true&sort=title' */
+  query:      string;
+  /** Visible to the whole team (otherwise private to its owner) */
+  shared:     boolean;
+  /** Pinned in the sidebar by the current user */
+  pinned:     boolean;
+  ownerId:    number;
+  ownerName?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface ArticleViewFormData {
+  name:    string;
+  query:   string;
+  shared:  boolean;
+  pinned?: boolean;
+}
+
+// ── Real-time events ──────────────────────────────────────────────────────────
+
+/** User whose action triggered an event */
+export interface RealtimeActor {
+  id:   number;
+  name: string;
 }
 
+/** Change pushed by the server on the events channel */
+export type RealtimeEvent =
+  | { type: 'article.created';        article: Article; actor?: RealtimeActor }
+  | { type: 'article.updated';        article: Article; actor?: RealtimeActor; /** Changed fields, all when absent */ fields?: string[] }
+  | { type: 'article.status_changed'; article: Article; actor?: RealtimeActor; previousStatus?: ArticleStatus }
+  | { type: 'article.deleted';        id: number;       actor?: RealtimeActor }
+  | { type: 'article.presence';       presence: ArticlePresence }
+  | { type: 'notification.status';    notification: Notification };
+
 // ── Pagination ────────────────────────────────────────────────────────────────
 
 export interface PaginatedResponse<T> {
@@ -114,18 +378,20 @@ export interface PaginatedResponse<T> {
 // ── Notification ──────────────────────────────────────────────────────────────
 
 export interface Notification {
-  recipientCount: any;
-  recipients: any;
-  html: any;
-  subject: any;
-  status: any;
-  id:        number;
-  title?:    string;
-  message?:  string;
-  articleId?: number;
-  article?:  Article;
-  sentAt?:   string;
-  createdAt?: string;
+  id:              number;
+  title?:          string;
+  message?:        string;
+  subject?:        string;
+  /** Rendered email body, when the API keeps it */
+  html?:           string;
+  /** 'sent' | 'failed' | 'pending' (free text on older records) */
+  status?:         string;
+  recipients?:     string[];
+  recipientCount?: number;
+  articleId?:      number;
+  article?:        Article;
+  sentAt?:         string;
+  createdAt?:      string;
 }
 
 export interface NotifyPayload {
@@ -138,17 +404,55 @@ export interface NotifyPayload {
 // ── Import ────────────────────────────────────────────────────────────────────
 
 export interface ImportResult {
-  total: number;
-  success: any;
+  total:     number;
+  success:   number;
   imported:  number;
   skipped:   number;
   errors:    ImportError[];
 }
 
 export interface ImportError {
-  index: number;
-  error: ReactNode;
+  index:   number;
+  error:   string;
   row?:    number;
   field?:  string;
   message: string;
-}
\ No newline at end of file
+}
+
+// ── Media library ─────────────────────────────────────────────────────────────
+
+export interface MediaAsset {
+  id:              number;
+  url:             string;
+  /** Smaller version for grids, the full image when missing */
+  thumbnailUrl?:   string;
+  fileName:        string;
+  mimeType:        string;
+  /** Bytes */
+  size:            number;
+  width?:          number;
+  height?:         number;
+  /** Text alternative, required before the image is used in an article */
+  alt:             string;
+  caption?:        string;
+  credit?:         string;
+  license?:        string;
+  uploadedBy?:     number;
+  uploadedByName?: string;
+  createdAt?:      string;
+  updatedAt?:      string;
+}
+
+export interface MediaAssetFormData {
+  alt:      string;
+  caption?: string;
+  credit?:  string;
+  license?: string;
+}
+
+export interface MediaQueryParams {
+  page?:   number;
+  limit?:  number;
+  /** Matches file name, alt text, caption and credit */
+  search?: string;
+}
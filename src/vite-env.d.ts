@@ -1,5 +1,11 @@
 /// <reference types="vite/client" />
 
+interface ImportMetaEnv {
+  readonly VITE_API_URL?:   string;
+  /** 'true' to run the whole app against the in-browser mock backend */
+  readonly VITE_DEMO_MODE?: string;
+}
+
 declare module '*.png' {
   const src: string;
   export default src;